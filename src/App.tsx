@@ -7,6 +7,7 @@ import { ThemeProvider } from "next-themes";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import { VaultAuth } from "./components/VaultAuth";
+import { MigrationProgressOverlay } from "./components/MigrationProgressOverlay";
 import { useVaultStore } from "./stores/vaultStore";
 
 const queryClient = new QueryClient();
@@ -34,6 +35,7 @@ const App = () => (
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        <MigrationProgressOverlay />
         <BrowserRouter
           future={{
             v7_startTransition: true,
@@ -1,5 +1,5 @@
-import { memo, useState } from 'react';
-import { Settings, Zap, Palette, Keyboard, Info, Gauge, Moon, Sun, Laptop, Shield } from 'lucide-react';
+import { memo, useMemo, useState } from 'react';
+import { Settings, Zap, Palette, Keyboard, Info, Gauge, Moon, Sun, Laptop, Shield, History, Bell, CalendarCheck, Monitor } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -12,9 +12,32 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
 import { VaultSettings } from '@/components/VaultSettings';
+import { ShortcutSettings } from '@/components/ShortcutSettings';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { useRegisterCommands } from '@/hooks/useCommands';
+import { AppCommand } from '@/lib/commands';
+import {
+  NotificationPermissionState,
+  getNotificationPermission,
+  requestNotificationPermission,
+} from '@/lib/notifications';
+import { DEFAULT_JOURNAL_TEMPLATE, JOURNAL_TEMPLATE_VARIABLES } from '@/lib/journal';
+import { ZOOM_LEVELS } from '@/lib/zoom';
 import { cn } from '@/lib/utils';
 
+const SETTINGS_TABS = [
+  { value: 'vault', label: 'Vault', icon: Shield },
+  { value: 'performance', label: 'Performance', icon: Zap },
+  { value: 'appearance', label: 'Appearance', icon: Palette },
+  { value: 'reminders', label: 'Reminders', icon: Bell },
+  { value: 'journal', label: 'Journal', icon: CalendarCheck },
+  { value: 'shortcuts', label: 'Shortcuts', icon: Keyboard },
+  { value: 'about', label: 'About', icon: Info },
+];
+
 interface SettingsProps {
   autoSaveDelay?: number;
   searchDelay?: number;
@@ -33,6 +56,49 @@ export const AppSettings = memo(({
   const [localAutoSaveDelay, setLocalAutoSaveDelay] = useState(autoSaveDelay);
   const [localSearchDelay, setLocalSearchDelay] = useState(searchDelay);
   const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState('vault');
+  const {
+    revisionRetention,
+    setRevisionRetention,
+    reminderNotifications,
+    setReminderNotifications,
+    journalTemplate,
+    setJournalTemplate,
+    editorZoom,
+    setEditorZoom,
+    zoomPerNote,
+    setZoomPerNote,
+    typewriterScrolling,
+    setTypewriterScrolling,
+  } = useSettingsStore();
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermissionState>(
+    getNotificationPermission
+  );
+
+  // One palette command per tab
+  const commands = useMemo<AppCommand[]>(() => SETTINGS_TABS.map(({ value, label, icon }) => ({
+    id: `settings.open.${value}`,
+    title: `Open Settings: ${label}`,
+    group: 'Settings',
+    icon,
+    keywords: ['preferences', 'settings', value],
+    run: () => {
+      setTab(value);
+      setOpen(true);
+    },
+  })), []);
+  useRegisterCommands(commands);
+
+  // Turning notifications on asks the browser for permission first
+  const handleReminderNotificationsChange = async (enabled: boolean) => {
+    if (!enabled) {
+      setReminderNotifications(false);
+      return;
+    }
+    const permission = await requestNotificationPermission();
+    setNotificationPermission(permission);
+    setReminderNotifications(permission === 'granted');
+  };
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -55,28 +121,14 @@ export const AppSettings = memo(({
           </DialogDescription>
         </DialogHeader>
 
-        <Tabs defaultValue="vault" className="w-full">
-          <TabsList className="grid w-full grid-cols-5">
-            <TabsTrigger value="vault" className="flex items-center gap-1.5">
-              <Shield className="w-3.5 h-3.5" />
-              <span className="hidden sm:inline">Vault</span>
-            </TabsTrigger>
-            <TabsTrigger value="performance" className="flex items-center gap-1.5">
-              <Zap className="w-3.5 h-3.5" />
-              <span className="hidden sm:inline">Performance</span>
-            </TabsTrigger>
-            <TabsTrigger value="appearance" className="flex items-center gap-1.5">
-              <Palette className="w-3.5 h-3.5" />
-              <span className="hidden sm:inline">Appearance</span>
-            </TabsTrigger>
-            <TabsTrigger value="shortcuts" className="flex items-center gap-1.5">
-              <Keyboard className="w-3.5 h-3.5" />
-              <span className="hidden sm:inline">Shortcuts</span>
-            </TabsTrigger>
-            <TabsTrigger value="about" className="flex items-center gap-1.5">
-              <Info className="w-3.5 h-3.5" />
-              <span className="hidden sm:inline">About</span>
-            </TabsTrigger>
+        <Tabs value={tab} onValueChange={setTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-7">
+            {SETTINGS_TABS.map(({ value, label, icon: Icon }) => (
+              <TabsTrigger key={value} value={value} className="flex items-center gap-1.5">
+                <Icon className="w-3.5 h-3.5" />
+                <span className="hidden sm:inline">{label}</span>
+              </TabsTrigger>
+            ))}
           </TabsList>
 
           {/* Vault Tab */}
@@ -136,6 +188,55 @@ export const AppSettings = memo(({
                 />
               </div>
 
+              <div className="pt-4 border-t border-border space-y-4">
+                <h3 className="text-sm font-medium flex items-center gap-2">
+                  <History className="w-4 h-4 text-primary" />
+                  Revision History
+                </h3>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label className="text-sm font-medium">Revisions per Note</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Oldest revisions are removed beyond this limit
+                      </p>
+                    </div>
+                    <span className="text-sm font-mono text-primary">{revisionRetention.maxRevisions}</span>
+                  </div>
+                  <Slider
+                    value={[revisionRetention.maxRevisions]}
+                    onValueChange={(value) => setRevisionRetention({ maxRevisions: value[0] })}
+                    min={5}
+                    max={200}
+                    step={5}
+                    className="w-full"
+                  />
+                </div>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label className="text-sm font-medium">Keep Revisions For</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Older revisions are removed on the next save
+                      </p>
+                    </div>
+                    <span className="text-sm font-mono text-primary">
+                      {revisionRetention.maxAgeDays === 0 ? 'Forever' : `${revisionRetention.maxAgeDays} days`}
+                    </span>
+                  </div>
+                  <Slider
+                    value={[revisionRetention.maxAgeDays]}
+                    onValueChange={(value) => setRevisionRetention({ maxAgeDays: value[0] })}
+                    min={0}
+                    max={365}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+
               <div className="pt-4 border-t border-border">
                 <h3 className="text-sm font-medium mb-3 flex items-center gap-2">
                   <Gauge className="w-4 h-4 text-primary" />
@@ -242,13 +343,130 @@ export const AppSettings = memo(({
                 </div>
                 <Switch />
               </div>
+
+              <div className="pt-4 border-t border-border space-y-4">
+                <h3 className="text-sm font-medium flex items-center gap-2">
+                  <Monitor className="w-4 h-4 text-primary" />
+                  Editor
+                </h3>
+
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label className="text-sm font-medium">Zoom</Label>
+                      <p className="text-xs text-muted-foreground">
+                        {zoomPerNote
+                          ? 'Used by notes that were not zoomed on their own'
+                          : 'Scales the text of every note'}
+                      </p>
+                    </div>
+                    <span className="text-sm font-mono text-primary">{editorZoom}%</span>
+                  </div>
+                  <Slider
+                    value={[Math.max(0, ZOOM_LEVELS.indexOf(editorZoom))]}
+                    onValueChange={(value) => setEditorZoom(ZOOM_LEVELS[value[0]])}
+                    min={0}
+                    max={ZOOM_LEVELS.length - 1}
+                    step={1}
+                    className="w-full"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+                  <div className="space-y-0.5">
+                    <Label className="text-sm font-medium">Remember Zoom per Note</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Zooming in the status bar only changes the open note
+                    </p>
+                  </div>
+                  <Switch checked={zoomPerNote} onCheckedChange={setZoomPerNote} />
+                </div>
+
+                <div className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+                  <div className="space-y-0.5">
+                    <Label className="text-sm font-medium">Typewriter Scrolling</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Keep the line being written in the middle of the screen in focus mode
+                    </p>
+                  </div>
+                  <Switch checked={typewriterScrolling} onCheckedChange={setTypewriterScrolling} />
+                </div>
+              </div>
+            </div>
+          </TabsContent>
+
+          {/* Reminders Tab */}
+          <TabsContent value="reminders" className="space-y-4 mt-4">
+            <div className="flex items-center justify-between p-3 rounded-lg bg-muted/50">
+              <div className="space-y-0.5">
+                <Label className="text-sm font-medium">System Notifications</Label>
+                <p className="text-xs text-muted-foreground">
+                  {notificationPermission === 'unsupported'
+                    ? 'This browser does not support notifications'
+                    : notificationPermission === 'denied'
+                      ? 'Notifications are blocked for this site in the browser settings'
+                      : 'Also alert through the operating system when a reminder is due'}
+                </p>
+              </div>
+              <Switch
+                checked={reminderNotifications && notificationPermission === 'granted'}
+                disabled={notificationPermission === 'unsupported' || notificationPermission === 'denied'}
+                onCheckedChange={handleReminderNotificationsChange}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Due reminders show a notice in the app while HadesNotes is open; they cannot alert while it is closed.
+              Reminders that came due meanwhile alert the next time the vault is unlocked.
+            </p>
+          </TabsContent>
+
+          {/* Journal Tab */}
+          <TabsContent value="journal" className="space-y-4 mt-4">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="journal-template" className="text-sm font-medium">Entry Template</Label>
+                  <p className="text-xs text-muted-foreground">
+                    New journal entries start with this text. Lines starting with # become headings, lines starting with - become bullet points.
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setJournalTemplate(DEFAULT_JOURNAL_TEMPLATE)}
+                  disabled={journalTemplate === DEFAULT_JOURNAL_TEMPLATE}
+                  className="text-xs flex-shrink-0"
+                >
+                  Reset
+                </Button>
+              </div>
+              <Textarea
+                id="journal-template"
+                value={journalTemplate}
+                onChange={(e) => setJournalTemplate(e.target.value)}
+                rows={8}
+                className="font-mono text-xs"
+              />
+              <div className="space-y-1">
+                {JOURNAL_TEMPLATE_VARIABLES.map(({ name, description }) => (
+                  <div key={name} className="flex items-center gap-2 text-xs">
+                    <code className="px-1.5 py-0.5 rounded bg-muted font-mono">{name}</code>
+                    <span className="text-muted-foreground">{description}</span>
+                  </div>
+                ))}
+              </div>
             </div>
+            <p className="text-xs text-muted-foreground">
+              Entries go to a "Journal" notebook created on first use. To keep them elsewhere,
+              choose Use for Journal in another notebook's menu.
+            </p>
           </TabsContent>
 
           {/* Keyboard Shortcuts Tab */}
           <TabsContent value="shortcuts" className="space-y-4 mt-4">
             <div className="space-y-3">
               <h3 className="text-sm font-medium">Editor Shortcuts</h3>
+              <p className="text-xs text-muted-foreground">Built into the editor and cannot be changed</p>
               <div className="space-y-2">
                 <div className="flex items-center justify-between p-2 rounded-md hover:bg-muted/50">
                   <span className="text-sm">Bold</span>
@@ -269,29 +487,9 @@ export const AppSettings = memo(({
                   </kbd>
                 </div>
               </div>
-
-              <h3 className="text-sm font-medium pt-4">Navigation Shortcuts</h3>
-              <div className="space-y-2">
-                <div className="flex items-center justify-between p-2 rounded-md hover:bg-muted/50">
-                  <span className="text-sm">New Note</span>
-                  <kbd className="px-2 py-1 text-xs rounded bg-muted border border-border font-mono">
-                    Ctrl + N
-                  </kbd>
-                </div>
-                <div className="flex items-center justify-between p-2 rounded-md hover:bg-muted/50">
-                  <span className="text-sm">Search</span>
-                  <kbd className="px-2 py-1 text-xs rounded bg-muted border border-border font-mono">
-                    Ctrl + F
-                  </kbd>
-                </div>
-                <div className="flex items-center justify-between p-2 rounded-md hover:bg-muted/50">
-                  <span className="text-sm">Toggle Sidebar</span>
-                  <kbd className="px-2 py-1 text-xs rounded bg-muted border border-border font-mono">
-                    Ctrl + \\
-                  </kbd>
-                </div>
-              </div>
             </div>
+
+            <ShortcutSettings />
           </TabsContent>
 
           {/* About Tab */}
@@ -0,0 +1,148 @@
+/**
+ * Attachment View
+ * Editor view of an attachment: images show inline, starting from their
+ * thumbnail, and other files as a card to open or download them
+ */
+
+import { memo, useEffect, useState } from 'react';
+import { NodeViewWrapper, ReactNodeViewProps } from '@tiptap/react';
+import { Download, ExternalLink, FileText, FileWarning, Loader2 } from 'lucide-react';
+import { useAttachmentsDB } from '@/hooks/useDB';
+import { formatFileSize, isImageType, isInertType } from '@/lib/attachments';
+import { cn } from '@/lib/utils';
+
+type LoadState = 'loading' | 'ready' | 'missing';
+
+export const AttachmentView = memo(({ node, selected }: ReactNodeViewProps) => {
+  const { id, name, type, size } = node.attrs as { id: string; name: string; type: string; size: number };
+  const { loadAttachment, loadAttachmentInfo } = useAttachmentsDB();
+  const [state, setState] = useState<LoadState>('loading');
+  const [thumbnail, setThumbnail] = useState<string>();
+  const [url, setUrl] = useState<string>();
+  const canOpen = isInertType(type);
+  // Other images, such as SVG, are offered as files to download
+  const isImage = isImageType(type) && canOpen;
+
+  // The thumbnail decrypts quickly and stands in while the full file loads
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | undefined;
+
+    setState('loading');
+    setThumbnail(undefined);
+    setUrl(undefined);
+
+    if (isImage) {
+      loadAttachmentInfo(id).then((info) => {
+        if (!cancelled && info?.thumbnail) setThumbnail(info.thumbnail);
+      });
+    }
+
+    loadAttachment(id).then((attachment) => {
+      if (cancelled) return;
+      if (!attachment) {
+        setState('missing');
+        return;
+      }
+      // Anything that could run scripts in the app's origin is only downloaded
+      const data = canOpen ? attachment.data : new Blob([attachment.data], { type: 'application/octet-stream' });
+      objectUrl = URL.createObjectURL(data);
+      setUrl(objectUrl);
+      setState('ready');
+    });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id, isImage, canOpen, loadAttachment, loadAttachmentInfo]);
+
+  const handleDownload = () => {
+    if (!url) return;
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = name;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  const actions = (
+    <div className="flex items-center gap-0.5 flex-shrink-0">
+      {canOpen && (
+        <button
+          onClick={() => url && window.open(url, '_blank', 'noopener')}
+          disabled={!url}
+          className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors disabled:opacity-50"
+          title="Open"
+        >
+          <ExternalLink className="w-3.5 h-3.5" />
+        </button>
+      )}
+      <button
+        onClick={handleDownload}
+        disabled={!url}
+        className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors disabled:opacity-50"
+        title="Download"
+      >
+        <Download className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+
+  if (state === 'missing') {
+    return (
+      <NodeViewWrapper className={cn('attachment', selected && 'is-selected')} data-drag-handle>
+        <div className="attachment-card" contentEditable={false}>
+          <FileWarning className="w-5 h-5 text-destructive flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm truncate">{name}</p>
+            <p className="text-xs text-muted-foreground">Attachment not found</p>
+          </div>
+        </div>
+      </NodeViewWrapper>
+    );
+  }
+
+  if (isImage) {
+    const src = url ?? thumbnail;
+    return (
+      <NodeViewWrapper className={cn('attachment', selected && 'is-selected')} data-drag-handle>
+        <figure className="attachment-image" contentEditable={false}>
+          {src ? (
+            <img src={src} alt={name} className={cn(!url && 'blur-sm')} draggable={false} />
+          ) : (
+            <div className="attachment-placeholder">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          <figcaption>
+            <span className="truncate">{name}</span>
+            <span className="text-muted-foreground/70 flex-shrink-0">{formatFileSize(size)}</span>
+            <span className="flex-1" />
+            {actions}
+          </figcaption>
+        </figure>
+      </NodeViewWrapper>
+    );
+  }
+
+  return (
+    <NodeViewWrapper className={cn('attachment', selected && 'is-selected')} data-drag-handle>
+      <div className="attachment-card" contentEditable={false}>
+        {state === 'loading' ? (
+          <Loader2 className="w-5 h-5 animate-spin text-muted-foreground flex-shrink-0" />
+        ) : (
+          <FileText className="w-5 h-5 text-primary flex-shrink-0" />
+        )}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm truncate">{name}</p>
+          <p className="text-xs text-muted-foreground">{formatFileSize(size)}</p>
+        </div>
+        {actions}
+      </div>
+    </NodeViewWrapper>
+  );
+});
+
+AttachmentView.displayName = 'AttachmentView';
@@ -0,0 +1,78 @@
+/**
+ * Backlinks Panel
+ * Lists notes that link to the current note, with the text around each link
+ */
+
+import { memo, useMemo } from 'react';
+import { Link2, FileText } from 'lucide-react';
+import { getBacklinks } from '@/lib/noteLinks';
+import { cn } from '@/lib/utils';
+
+interface BacklinkNote {
+  id: string;
+  title: string;
+  content: string;
+  section: string;
+}
+
+interface BacklinksPanelProps {
+  noteId: string;
+  notes: BacklinkNote[];
+  onOpenNote: (id: string) => void;
+  className?: string;
+}
+
+export const BacklinksPanel = memo(({ noteId, notes, onOpenNote, className }: BacklinksPanelProps) => {
+  const backlinks = useMemo(() => getBacklinks(notes, noteId), [notes, noteId]);
+
+  return (
+    <div className={cn('flex flex-col bg-sidebar border-l border-border', className)}>
+      {/* Header */}
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-border bg-sidebar/50">
+        <Link2 className="w-4 h-4 text-primary" />
+        <span className="text-sm font-semibold text-foreground">Backlinks</span>
+        {backlinks.length > 0 && (
+          <span className="text-xs px-1.5 py-0.5 rounded-full bg-primary/10 text-primary font-medium">
+            {backlinks.length}
+          </span>
+        )}
+      </div>
+
+      {backlinks.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+          <div className="w-12 h-12 rounded-full bg-muted/50 flex items-center justify-center mb-3">
+            <Link2 className="w-6 h-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm font-medium text-foreground mb-1">No backlinks</p>
+          <p className="text-xs text-muted-foreground max-w-[200px]">
+            Type [[ in another note to link to this one
+          </p>
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto py-3 px-2 space-y-1">
+          {backlinks.map(backlink => (
+            <button
+              key={backlink.noteId}
+              onClick={() => onOpenNote(backlink.noteId)}
+              className="w-full text-left px-3 py-2 rounded-md hover:bg-muted/70 transition-colors"
+            >
+              <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+                <FileText className="w-3.5 h-3.5 flex-shrink-0 text-muted-foreground" />
+                <span className="truncate">{backlink.title || 'Untitled'}</span>
+              </div>
+              {backlink.snippets.map((snippet, index) => (
+                <p key={index} className="mt-1 text-xs text-muted-foreground line-clamp-3">
+                  {snippet.before}
+                  <mark className="bg-primary/20 text-primary rounded-sm px-0.5">{snippet.linkText}</mark>
+                  {snippet.after}
+                </p>
+              ))}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+BacklinksPanel.displayName = 'BacklinksPanel';
@@ -0,0 +1,301 @@
+/**
+ * Calendar View
+ * Month and week calendar of notes by created or updated date and of
+ * reminders by due date. Clicking a day filters the notes list; reminders
+ * can be dragged to another day to reschedule them.
+ */
+
+import { memo, useMemo, useState } from 'react';
+import { Bell, CalendarDays, ChevronLeft, ChevronRight, FileText, Repeat, X } from 'lucide-react';
+import { DragEndEvent, useDndMonitor, useDraggable, useDroppable } from '@dnd-kit/core';
+import { isSameDay, isSameMonth, isToday } from 'date-fns';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { cn } from '@/lib/utils';
+import { CalendarDayDropData, ReminderDragData, isCalendarDayDrop, isReminderDrag } from '@/lib/dnd';
+import {
+  CalendarDateField,
+  CalendarEntry,
+  CalendarMode,
+  CalendarNote,
+  fromDayKey,
+  getCalendarDays,
+  getCalendarTitle,
+  getWeekdayLabels,
+  groupCalendarEntries,
+  shiftCalendar,
+  toDayKey,
+} from '@/lib/calendar';
+
+interface CalendarViewProps {
+  notes: CalendarNote[];
+  dateField: CalendarDateField;
+  onDateFieldChange: (field: CalendarDateField) => void;
+  selectedDay: Date | null;
+  onSelectDay: (day: Date | null) => void;
+  onOpenNote: (id: string) => void;
+  onRescheduleReminder: (noteId: string, day: Date) => void;
+  onClose: () => void;
+}
+
+// Entries shown in a month cell before "+N more"
+const MAX_MONTH_ENTRIES = 3;
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+interface CalendarEntryChipProps {
+  entry: CalendarEntry;
+  onOpenNote: (id: string) => void;
+}
+
+const CalendarEntryChip = memo(({ entry, onOpenNote }: CalendarEntryChipProps) => {
+  const isReminder = entry.kind === 'reminder';
+  const dragData: ReminderDragData = { type: 'reminder', noteId: entry.noteId, title: entry.title };
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `calendar-${entry.kind}-${entry.noteId}`,
+    data: dragData,
+    disabled: !isReminder,
+  });
+
+  const Icon = isReminder ? Bell : FileText;
+
+  return (
+    <button
+      ref={setNodeRef}
+      {...(isReminder ? { ...attributes, ...listeners } : {})}
+      onClick={(e) => {
+        e.stopPropagation();
+        onOpenNote(entry.noteId);
+      }}
+      className={cn(
+        'w-full flex items-center gap-1 px-1.5 py-0.5 rounded text-[11px] text-left transition-colors',
+        isReminder
+          ? entry.overdue
+            ? 'bg-destructive/10 text-destructive hover:bg-destructive/20 cursor-grab'
+            : 'bg-primary/10 text-primary hover:bg-primary/20 cursor-grab'
+          : 'text-muted-foreground hover:text-foreground hover:bg-muted',
+        isDragging && 'opacity-50'
+      )}
+      title={isReminder ? `${entry.title || 'Untitled'} · drag to reschedule` : entry.title || 'Untitled'}
+    >
+      <Icon className="w-3 h-3 flex-shrink-0" />
+      {isReminder && <span className="flex-shrink-0">{formatTime(entry.date)}</span>}
+      <span className="truncate">{entry.title || 'Untitled'}</span>
+      {entry.recurring && <Repeat className="w-3 h-3 flex-shrink-0" />}
+    </button>
+  );
+});
+
+CalendarEntryChip.displayName = 'CalendarEntryChip';
+
+interface CalendarDayCellProps {
+  day: Date;
+  entries: CalendarEntry[];
+  mode: CalendarMode;
+  isOutside: boolean;
+  isSelected: boolean;
+  onSelectDay: (day: Date | null) => void;
+  onOpenNote: (id: string) => void;
+}
+
+const CalendarDayCell = memo(({
+  day,
+  entries,
+  mode,
+  isOutside,
+  isSelected,
+  onSelectDay,
+  onOpenNote,
+}: CalendarDayCellProps) => {
+  const dropData: CalendarDayDropData = { type: 'calendar-day', day: toDayKey(day) };
+  const { setNodeRef, isOver, active } = useDroppable({
+    id: `calendar-day-${dropData.day}`,
+    data: dropData,
+  });
+
+  const isDropTarget = isOver && isReminderDrag(active?.data.current);
+  const visible = mode === 'month' ? entries.slice(0, MAX_MONTH_ENTRIES) : entries;
+  const hidden = entries.length - visible.length;
+
+  return (
+    <div
+      ref={setNodeRef}
+      onClick={() => onSelectDay(isSelected ? null : day)}
+      className={cn(
+        'flex flex-col gap-0.5 min-h-0 p-1 border-r border-b border-border cursor-pointer transition-colors',
+        isOutside && 'bg-muted/20',
+        isSelected ? 'bg-primary/5 ring-2 ring-inset ring-primary' : 'hover:bg-muted/30',
+        isDropTarget && 'bg-primary/10'
+      )}
+    >
+      <div className="flex justify-end">
+        <span
+          className={cn(
+            'w-6 h-6 flex items-center justify-center rounded-full text-xs',
+            isToday(day)
+              ? 'bg-primary text-primary-foreground font-medium'
+              : isOutside ? 'text-muted-foreground/50' : 'text-muted-foreground'
+          )}
+        >
+          {day.getDate()}
+        </span>
+      </div>
+      <div className={cn('flex flex-col gap-0.5 min-h-0', mode === 'week' ? 'overflow-y-auto' : 'overflow-hidden')}>
+        {visible.map((entry) => (
+          <CalendarEntryChip key={`${entry.kind}-${entry.noteId}`} entry={entry} onOpenNote={onOpenNote} />
+        ))}
+        {hidden > 0 && (
+          <span className="px-1.5 text-[11px] text-muted-foreground">+{hidden} more</span>
+        )}
+      </div>
+    </div>
+  );
+});
+
+CalendarDayCell.displayName = 'CalendarDayCell';
+
+export const CalendarView = memo(({
+  notes,
+  dateField,
+  onDateFieldChange,
+  selectedDay,
+  onSelectDay,
+  onOpenNote,
+  onRescheduleReminder,
+  onClose,
+}: CalendarViewProps) => {
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [anchor, setAnchor] = useState(() => selectedDay ?? new Date());
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const days = useMemo(() => getCalendarDays(anchor, mode), [anchor, mode]);
+  const entriesByDay = useMemo(() => groupCalendarEntries(notes, dateField), [notes, dateField]);
+  const weekdays = useMemo(() => getWeekdayLabels(), []);
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const item = active.data.current;
+    const target = over?.data.current;
+    if (!isReminderDrag(item) || !isCalendarDayDrop(target)) return;
+    onRescheduleReminder(item.noteId, fromDayKey(target.day));
+  };
+
+  useDndMonitor({ onDragEnd: handleDragEnd });
+
+  return (
+    <div className="h-full flex flex-col bg-editor">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-border">
+        <div className="flex items-center gap-0.5">
+          <button
+            onClick={() => setAnchor(shiftCalendar(anchor, mode, -1))}
+            className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+            title={mode === 'month' ? 'Previous month' : 'Previous week'}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => setAnchor(new Date())}
+            className="px-2 py-1 rounded text-xs text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => setAnchor(shiftCalendar(anchor, mode, 1))}
+            className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+            title={mode === 'month' ? 'Next month' : 'Next week'}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+
+        <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+          <PopoverTrigger asChild>
+            <button
+              className="flex items-center gap-2 px-2 py-1 rounded text-sm font-medium text-foreground hover:bg-muted transition-colors"
+              title="Go to date"
+            >
+              <CalendarDays className="w-4 h-4 text-primary" />
+              {getCalendarTitle(anchor, mode)}
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="start" className="w-auto p-0">
+            <Calendar
+              mode="single"
+              selected={selectedDay ?? undefined}
+              defaultMonth={anchor}
+              onSelect={(day) => {
+                if (!day) return;
+                setAnchor(day);
+                onSelectDay(day);
+                setPickerOpen(false);
+              }}
+            />
+          </PopoverContent>
+        </Popover>
+
+        <div className="flex-1" />
+
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={dateField}
+          onValueChange={(value) => value && onDateFieldChange(value as CalendarDateField)}
+          title="Place notes by"
+        >
+          <ToggleGroupItem value="createdAt" className="h-7 text-xs">Created</ToggleGroupItem>
+          <ToggleGroupItem value="updatedAt" className="h-7 text-xs">Updated</ToggleGroupItem>
+        </ToggleGroup>
+
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as CalendarMode)}
+        >
+          <ToggleGroupItem value="month" className="h-7 text-xs">Month</ToggleGroupItem>
+          <ToggleGroupItem value="week" className="h-7 text-xs">Week</ToggleGroupItem>
+        </ToggleGroup>
+
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          title="Close calendar"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Weekdays */}
+      <div className="grid grid-cols-7 border-b border-l border-border">
+        {weekdays.map((label) => (
+          <div key={label} className="px-2 py-1 text-[11px] font-medium uppercase tracking-wide text-muted-foreground border-r border-border">
+            {label}
+          </div>
+        ))}
+      </div>
+
+      {/* Days */}
+      <div
+        className="flex-1 grid grid-cols-7 border-l border-border min-h-0"
+        style={{ gridTemplateRows: `repeat(${days.length / 7}, minmax(0, 1fr))` }}
+      >
+        {days.map((day) => (
+          <CalendarDayCell
+            key={day.getTime()}
+            day={day}
+            entries={entriesByDay.get(toDayKey(day)) ?? []}
+            mode={mode}
+            isOutside={mode === 'month' && !isSameMonth(day, anchor)}
+            isSelected={selectedDay !== null && isSameDay(day, selectedDay)}
+            onSelectDay={onSelectDay}
+            onOpenNote={onOpenNote}
+          />
+        ))}
+      </div>
+    </div>
+  );
+});
+
+CalendarView.displayName = 'CalendarView';
@@ -0,0 +1,88 @@
+/**
+ * Code Block View
+ * Editor view of a code block: a language picker and copy button above
+ * the code, and line numbers beside it
+ */
+
+import { memo, useEffect, useState } from 'react';
+import { NodeViewContent, NodeViewWrapper, ReactNodeViewProps } from '@tiptap/react';
+import { Check, Copy } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CODE_LANGUAGES, findCodeLanguage } from '@/lib/tiptap-code-block';
+
+// Picker value for blocks whose language is detected from the code
+const AUTO = 'auto';
+
+export const CodeBlockView = memo(({ node, editor, updateAttributes }: ReactNodeViewProps) => {
+  const [copied, setCopied] = useState(false);
+  const language: string | null = node.attrs.language;
+  const lineCount = node.textContent.split('\n').length;
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = setTimeout(() => setCopied(false), 2000);
+    return () => clearTimeout(timeout);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(node.textContent);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy code:', error);
+    }
+  };
+
+  // Aliases from fences such as ```js show as their language
+  const pickerValue = language ? findCodeLanguage(language)?.id ?? language : AUTO;
+
+  return (
+    <NodeViewWrapper className="code-block">
+      <div className="code-block-header" contentEditable={false}>
+        <Select
+          value={pickerValue}
+          onValueChange={(value) => updateAttributes({ language: value === AUTO ? null : value })}
+          disabled={!editor.isEditable}
+        >
+          <SelectTrigger className="h-6 w-auto gap-1 border-none bg-transparent px-1.5 text-xs text-muted-foreground shadow-none hover:text-foreground focus:ring-0">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="max-h-72">
+            <SelectItem value={AUTO} className="text-xs">Auto Detect</SelectItem>
+            {language && !findCodeLanguage(language) && (
+              <SelectItem value={language} className="text-xs">{language}</SelectItem>
+            )}
+            {CODE_LANGUAGES.map(({ id, label }) => (
+              <SelectItem key={id} value={id} className="text-xs">{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <button
+          onClick={handleCopy}
+          className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-background/60 transition-colors"
+          title={copied ? 'Copied' : 'Copy code'}
+        >
+          {copied ? <Check className="w-3.5 h-3.5 text-primary" /> : <Copy className="w-3.5 h-3.5" />}
+        </button>
+      </div>
+      <div className="code-block-body">
+        <div className="code-block-lines" contentEditable={false} aria-hidden="true">
+          {Array.from({ length: lineCount }, (_, index) => (
+            <span key={index}>{index + 1}</span>
+          ))}
+        </div>
+        <pre>
+          <NodeViewContent<'code'> as="code" style={{ whiteSpace: 'pre' }} />
+        </pre>
+      </div>
+    </NodeViewWrapper>
+  );
+});
+
+CodeBlockView.displayName = 'CodeBlockView';
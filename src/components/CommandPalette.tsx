@@ -0,0 +1,208 @@
+/**
+ * Command Palette (Ctrl+K)
+ * Fuzzy-searches registered commands together with notes, notebooks and tags
+ */
+
+import { memo, useEffect, useMemo, useState } from 'react';
+import { defaultFilter } from 'cmdk';
+import { FileText, BookOpen, Hash } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { AppCommand } from '@/lib/commands';
+import { formatBinding } from '@/lib/shortcuts';
+import { useCommands } from '@/hooks/useCommands';
+import { useShortcutBindings } from '@/hooks/useShortcuts';
+
+// Results shown per notes/notebooks/tags group
+const MAX_RESULTS = 8;
+
+interface PaletteNote {
+  id: string;
+  title: string;
+  section: string;
+  updatedAt: Date;
+}
+
+interface PaletteNamedItem {
+  id: string;
+  name: string;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  notes: PaletteNote[];
+  notebooks: PaletteNamedItem[];
+  tags: PaletteNamedItem[];
+  onSelectNote: (id: string) => void;
+  onSelectNotebook: (id: string) => void;
+  onSelectTag: (name: string) => void;
+}
+
+/**
+ * Best matches for the search, or the first items when it is empty
+ */
+function rank<T>(items: T[], search: string, getText: (item: T) => string, limit?: number): T[] {
+  const ranked = search
+    ? items
+        .map(item => ({ item, score: defaultFilter(getText(item), search) }))
+        .filter(result => result.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(result => result.item)
+    : items;
+  return limit ? ranked.slice(0, limit) : ranked;
+}
+
+export const CommandPalette = memo(({
+  open,
+  onOpenChange,
+  notes,
+  notebooks,
+  tags,
+  onSelectNote,
+  onSelectNotebook,
+  onSelectTag,
+}: CommandPaletteProps) => {
+  const commands = useCommands();
+  const bindings = useShortcutBindings();
+  const [search, setSearch] = useState('');
+  const query = search.trim();
+
+  // Start from an empty search every time the palette opens
+  useEffect(() => {
+    if (open) setSearch('');
+  }, [open]);
+
+  const commandGroups = useMemo(() => {
+    if (!open) return [];
+
+    const available = commands.filter(command => !command.isAvailable || command.isAvailable());
+    const matches = rank(available, query, command =>
+      [command.title, command.group, ...(command.keywords ?? [])].join(' ')
+    );
+
+    // Keep registration order for the groups themselves
+    const groups = new Map<string, AppCommand[]>();
+    matches.forEach(command => {
+      groups.set(command.group, [...(groups.get(command.group) ?? []), command]);
+    });
+    return [...groups];
+  }, [commands, open, query]);
+
+  const matchedNotes = useMemo(() => {
+    if (!open) return [];
+    const recent = [...notes]
+      .filter(note => note.section !== 'trash')
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+    return rank(recent, query, note => note.title || 'Untitled', MAX_RESULTS);
+  }, [notes, open, query]);
+
+  const matchedNotebooks = useMemo(
+    () => (open && query ? rank(notebooks, query, notebook => notebook.name, MAX_RESULTS) : []),
+    [notebooks, open, query]
+  );
+
+  const matchedTags = useMemo(
+    () => (open && query ? rank(tags, query, tag => tag.name, MAX_RESULTS) : []),
+    [tags, open, query]
+  );
+
+  const select = (action: () => void) => {
+    onOpenChange(false);
+    action();
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Type a command or search notes..."
+        value={search}
+        onValueChange={setSearch}
+      />
+      <CommandList className="max-h-[400px]">
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        {commandGroups.map(([group, groupCommands]) => (
+          <CommandGroup key={group} heading={group}>
+            {groupCommands.map(command => {
+              const Icon = command.icon;
+              const binding = bindings[command.id];
+              return (
+                <CommandItem
+                  key={command.id}
+                  value={`command:${command.id}`}
+                  onSelect={() => select(command.run)}
+                >
+                  {Icon && <Icon className="mr-2 h-4 w-4" />}
+                  <span>{command.title}</span>
+                  {binding && <CommandShortcut>{formatBinding(binding)}</CommandShortcut>}
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        ))}
+
+        {matchedNotes.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading={query ? 'Notes' : 'Recent Notes'}>
+              {matchedNotes.map(note => (
+                <CommandItem
+                  key={note.id}
+                  value={`note:${note.id}`}
+                  onSelect={() => select(() => onSelectNote(note.id))}
+                >
+                  <FileText className="mr-2 h-4 w-4" />
+                  <span className="truncate">{note.title || 'Untitled'}</span>
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground capitalize">
+                    {note.section}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {matchedNotebooks.length > 0 && (
+          <CommandGroup heading="Notebooks">
+            {matchedNotebooks.map(notebook => (
+              <CommandItem
+                key={notebook.id}
+                value={`notebook:${notebook.id}`}
+                onSelect={() => select(() => onSelectNotebook(notebook.id))}
+              >
+                <BookOpen className="mr-2 h-4 w-4" />
+                <span className="truncate">{notebook.name}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {matchedTags.length > 0 && (
+          <CommandGroup heading="Tags">
+            {matchedTags.map(tag => (
+              <CommandItem
+                key={tag.id}
+                value={`tag:${tag.id}`}
+                onSelect={() => select(() => onSelectTag(tag.name))}
+              >
+                <Hash className="mr-2 h-4 w-4" />
+                <span className="truncate">{tag.name}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+});
+
+CommandPalette.displayName = 'CommandPalette';
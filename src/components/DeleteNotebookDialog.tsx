@@ -0,0 +1,117 @@
+/**
+ * Delete Notebook Dialog
+ * Asks whether the notes and sub-notebooks of a deleted notebook move up to
+ * its parent or go to the trash
+ */
+
+import { memo, useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { NotebookDeleteMode } from '@/lib/notebooks';
+
+interface DeleteNotebookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  notebookName: string;
+  /** Name of the enclosing notebook, undefined at the top level */
+  parentName?: string;
+  noteCount: number;
+  subNotebookCount: number;
+  onConfirm: (mode: NotebookDeleteMode) => void;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+export const DeleteNotebookDialog = memo(({
+  open,
+  onOpenChange,
+  notebookName,
+  parentName,
+  noteCount,
+  subNotebookCount,
+  onConfirm,
+}: DeleteNotebookDialogProps) => {
+  const [mode, setMode] = useState<NotebookDeleteMode>('move-to-parent');
+  const isEmpty = noteCount === 0 && subNotebookCount === 0;
+
+  // Default to the choice that keeps the notes
+  useEffect(() => {
+    if (open) setMode('move-to-parent');
+  }, [open]);
+
+  const contents = [
+    noteCount > 0 && plural(noteCount, 'note'),
+    subNotebookCount > 0 && plural(subNotebookCount, 'sub-notebook'),
+  ].filter(Boolean).join(' and ');
+
+  const handleConfirm = () => {
+    onConfirm(mode);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trash2 className="w-5 h-5 text-destructive" />
+            Delete "{notebookName}"
+          </DialogTitle>
+          <DialogDescription>
+            {isEmpty
+              ? 'This notebook is empty.'
+              : `This notebook contains ${contents}. What should happen to them?`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!isEmpty && (
+          <RadioGroup value={mode} onValueChange={(value) => setMode(value as NotebookDeleteMode)} className="gap-3 py-2">
+            <div className="flex items-start gap-3">
+              <RadioGroupItem value="move-to-parent" id="delete-notebook-move" className="mt-0.5" />
+              <Label htmlFor="delete-notebook-move" className="font-normal leading-snug cursor-pointer">
+                <span className="block text-sm font-medium">
+                  {parentName ? `Move to "${parentName}"` : 'Keep them'}
+                </span>
+                <span className="block text-xs text-muted-foreground">
+                  {parentName
+                    ? 'Notes and sub-notebooks move up one level.'
+                    : 'Notes leave the notebook and sub-notebooks move to the top level.'}
+                </span>
+              </Label>
+            </div>
+            <div className="flex items-start gap-3">
+              <RadioGroupItem value="trash" id="delete-notebook-trash" className="mt-0.5" />
+              <Label htmlFor="delete-notebook-trash" className="font-normal leading-snug cursor-pointer">
+                <span className="block text-sm font-medium">Move notes to Trash</span>
+                <span className="block text-xs text-muted-foreground">
+                  Sub-notebooks are deleted too. Notes can be restored from the Trash.
+                </span>
+              </Label>
+            </div>
+          </RadioGroup>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm}>
+            Delete Notebook
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+DeleteNotebookDialog.displayName = 'DeleteNotebookDialog';
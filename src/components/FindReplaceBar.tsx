@@ -0,0 +1,269 @@
+/**
+ * Find and Replace Bar
+ * Searches the open note, highlighting every match, and replaces the
+ * current match or all of them
+ */
+
+import { memo, useEffect, useRef, useState } from 'react';
+import { Editor, useEditorState } from '@tiptap/react';
+import {
+  CaseSensitive,
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  Regex,
+  Replace,
+  ReplaceAll,
+  WholeWord,
+  X,
+} from 'lucide-react';
+import { FindMode, FindReplaceKey } from '@/lib/tiptap-find-replace';
+import { FindOptions } from '@/lib/findReplace';
+import { formatBinding } from '@/lib/shortcuts';
+import { cn } from '@/lib/utils';
+
+interface FindReplaceBarProps {
+  editor: Editor;
+  mode: FindMode;
+  /** Changes each time the bar is opened, to focus it again */
+  openKey: number;
+  onModeChange: (mode: FindMode) => void;
+  onClose: () => void;
+}
+
+const OPTION_TOGGLES: { key: keyof FindOptions; label: string; icon: typeof CaseSensitive }[] = [
+  { key: 'caseSensitive', label: 'Match Case', icon: CaseSensitive },
+  { key: 'wholeWord', label: 'Whole Word', icon: WholeWord },
+  { key: 'regex', label: 'Regular Expression', icon: Regex },
+];
+
+const iconButton =
+  'p-1 rounded transition-colors flex-shrink-0 text-muted-foreground hover:text-foreground hover:bg-muted disabled:opacity-40 disabled:pointer-events-none';
+
+export const FindReplaceBar = memo(({ editor, mode, openKey, onModeChange, onClose }: FindReplaceBarProps) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const replaceInputRef = useRef<HTMLInputElement>(null);
+
+  const { options, count, current, error } = useEditorState({
+    editor,
+    selector: ({ editor }) => {
+      const state = FindReplaceKey.getState(editor.state)!;
+      return {
+        options: state.options,
+        count: state.matches.length,
+        current: state.current,
+        error: state.error,
+      };
+    },
+  });
+
+  // Opening the bar searches for the selected text, if it's on one line
+  useEffect(() => {
+    const { from, to, empty } = editor.state.selection;
+    const selected = empty ? '' : editor.state.doc.textBetween(from, to);
+    const next = selected && !selected.includes('\n') ? selected : FindReplaceKey.getState(editor.state)!.query;
+
+    setQuery(next);
+    editor.commands.setFindQuery(next);
+    findInputRef.current?.focus();
+    findInputRef.current?.select();
+  }, [editor, openKey]);
+
+  // Showing the replace row moves to it, once there is something to replace
+  useEffect(() => {
+    if (mode === 'replace' && findInputRef.current?.value) replaceInputRef.current?.focus();
+  }, [mode]);
+
+  // Highlights go away with the bar
+  useEffect(() => () => {
+    if (!editor.isDestroyed) editor.commands.clearFind();
+  }, [editor]);
+
+  const handleQueryChange = (value: string) => {
+    setQuery(value);
+    editor.commands.setFindQuery(value);
+  };
+
+  const close = () => {
+    onClose();
+    // Leaves the cursor on the current match
+    editor.commands.focus();
+  };
+
+  // Mod-F and Mod-H work from the inputs too
+  const handleShortcut = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!(e.metaKey || e.ctrlKey) || e.altKey || e.shiftKey) return false;
+    const key = e.key.toLowerCase();
+
+    if (key === 'f') {
+      e.preventDefault();
+      findInputRef.current?.select();
+      return true;
+    }
+    if (key === 'h') {
+      e.preventDefault();
+      if (mode === 'replace') {
+        replaceInputRef.current?.focus();
+      } else {
+        onModeChange('replace');
+      }
+      return true;
+    }
+    return false;
+  };
+
+  const handleFindKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (handleShortcut(e)) return;
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        editor.commands.findPrevious();
+      } else {
+        editor.commands.findNext();
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  const handleReplaceKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (handleShortcut(e)) return;
+
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.metaKey || e.ctrlKey) {
+        editor.commands.replaceAllMatches(replacement);
+      } else {
+        editor.commands.replaceMatch(replacement);
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      close();
+    }
+  };
+
+  const status = error
+    ? 'Invalid pattern'
+    : query
+      ? count === 0 ? 'No results' : `${current + 1} of ${count}`
+      : '';
+
+  return (
+    <div className="flex items-start gap-1 px-2 md:px-4 py-1.5 bg-toolbar border-b border-border text-sm">
+      <button
+        onClick={() => onModeChange(mode === 'replace' ? 'find' : 'replace')}
+        className={cn(iconButton, 'mt-0.5')}
+        title={mode === 'replace' ? 'Hide Replace' : 'Show Replace'}
+      >
+        {mode === 'replace' ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+      </button>
+
+      <div className="flex-1 min-w-0 max-w-xl space-y-1">
+        {/* Find row */}
+        <div className="flex items-center gap-1">
+          <div
+            className={cn(
+              'flex-1 min-w-0 flex items-center gap-0.5 rounded border bg-background px-2 focus-within:ring-1 focus-within:ring-ring',
+              error ? 'border-destructive' : 'border-border'
+            )}
+          >
+            <input
+              ref={findInputRef}
+              type="text"
+              value={query}
+              onChange={(e) => handleQueryChange(e.target.value)}
+              onKeyDown={handleFindKeyDown}
+              placeholder="Find"
+              title={error}
+              className="flex-1 min-w-0 bg-transparent py-1 text-sm text-foreground placeholder:text-muted-foreground/60 focus:outline-none"
+            />
+            {OPTION_TOGGLES.map(({ key, label, icon: Icon }) => (
+              <button
+                key={key}
+                onClick={() => editor.commands.setFindOptions({ [key]: !options[key] })}
+                className={cn(
+                  'p-0.5 rounded transition-colors flex-shrink-0',
+                  options[key]
+                    ? 'bg-primary/20 text-primary'
+                    : 'text-muted-foreground hover:text-foreground hover:bg-muted'
+                )}
+                title={label}
+                aria-pressed={options[key]}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+          <span
+            className={cn(
+              'hidden sm:inline min-w-[72px] text-xs text-center',
+              error || (query && count === 0) ? 'text-destructive' : 'text-muted-foreground'
+            )}
+          >
+            {status}
+          </span>
+          <button
+            onClick={() => editor.commands.findPrevious()}
+            disabled={count === 0}
+            className={iconButton}
+            title={`Previous Match (${formatBinding('Shift+Enter')})`}
+          >
+            <ChevronUp className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => editor.commands.findNext()}
+            disabled={count === 0}
+            className={iconButton}
+            title="Next Match (Enter)"
+          >
+            <ChevronDown className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Replace row */}
+        {mode === 'replace' && (
+          <div className="flex items-center gap-1">
+            <div className="flex-1 min-w-0 flex items-center rounded border border-border bg-background px-2 focus-within:ring-1 focus-within:ring-ring">
+              <input
+                ref={replaceInputRef}
+                type="text"
+                value={replacement}
+                onChange={(e) => setReplacement(e.target.value)}
+                onKeyDown={handleReplaceKeyDown}
+                placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+                className="flex-1 min-w-0 bg-transparent py-1 text-sm text-foreground placeholder:text-muted-foreground/60 focus:outline-none"
+              />
+            </div>
+            <span className="hidden sm:inline min-w-[72px]" />
+            <button
+              onClick={() => editor.commands.replaceMatch(replacement)}
+              disabled={count === 0}
+              className={iconButton}
+              title="Replace (Enter)"
+            >
+              <Replace className="w-4 h-4" />
+            </button>
+            <button
+              onClick={() => editor.commands.replaceAllMatches(replacement)}
+              disabled={count === 0}
+              className={iconButton}
+              title={`Replace All (${formatBinding('Mod+Enter')})`}
+            >
+              <ReplaceAll className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      <button onClick={close} className={cn(iconButton, 'mt-0.5 ml-auto')} title="Close (Escape)">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+});
+
+FindReplaceBar.displayName = 'FindReplaceBar';
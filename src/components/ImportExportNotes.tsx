@@ -30,6 +30,17 @@ import {
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { ImportPreviewDialog } from './ImportPreviewDialog';
+import {
+  ImportPlan,
+  MergeOptions,
+  NOTE_MERGE,
+  planRecords,
+  resolveRecords,
+  buildImportPlan,
+} from '@/lib/importMerge';
+import { NoteReminder, reviveReminder } from '@/lib/reminders';
+import { htmlToMarkdown, markdownToHtml } from '@/lib/markdown';
 
 interface Note {
   id: string;
@@ -42,6 +53,9 @@ interface Note {
   isFavorite: boolean;
   section: string;
   notebookId?: string;
+  reminder?: NoteReminder;
+  journalDate?: string;
+  templateSection?: string;
 }
 
 interface NotesImportExportProps {
@@ -63,6 +77,8 @@ const NotesImportExport = ({
   const [isImporting, setIsImporting] = useState(false);
   const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [importResult, setImportResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [pendingNotes, setPendingNotes] = useState<Note[]>([]);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
@@ -78,110 +94,6 @@ const NotesImportExport = ({
     URL.revokeObjectURL(url);
   };
 
-  // Convert HTML content to Markdown
-  const htmlToMarkdown = (html: string): string => {
-    if (!html) return '';
-    
-    let md = html;
-    
-    // Handle headings (h1-h6) - remove id attributes
-    md = md.replace(/<h1[^>]*>(.*?)<\/h1>/gi, '# $1\n\n');
-    md = md.replace(/<h2[^>]*>(.*?)<\/h2>/gi, '## $1\n\n');
-    md = md.replace(/<h3[^>]*>(.*?)<\/h3>/gi, '### $1\n\n');
-    md = md.replace(/<h4[^>]*>(.*?)<\/h4>/gi, '#### $1\n\n');
-    md = md.replace(/<h5[^>]*>(.*?)<\/h5>/gi, '##### $1\n\n');
-    md = md.replace(/<h6[^>]*>(.*?)<\/h6>/gi, '###### $1\n\n');
-    
-    // Handle bold
-    md = md.replace(/<strong[^>]*>(.*?)<\/strong>/gi, '**$1**');
-    md = md.replace(/<b[^>]*>(.*?)<\/b>/gi, '**$1**');
-    
-    // Handle italic
-    md = md.replace(/<em[^>]*>(.*?)<\/em>/gi, '*$1*');
-    md = md.replace(/<i[^>]*>(.*?)<\/i>/gi, '*$1*');
-    
-    // Handle underline (no standard MD, use HTML or just text)
-    md = md.replace(/<u[^>]*>(.*?)<\/u>/gi, '_$1_');
-    
-    // Handle strikethrough
-    md = md.replace(/<s[^>]*>(.*?)<\/s>/gi, '~~$1~~');
-    md = md.replace(/<strike[^>]*>(.*?)<\/strike>/gi, '~~$1~~');
-    md = md.replace(/<del[^>]*>(.*?)<\/del>/gi, '~~$1~~');
-    
-    // Handle code
-    md = md.replace(/<code[^>]*>(.*?)<\/code>/gi, '`$1`');
-    
-    // Handle code blocks
-    md = md.replace(/<pre[^>]*><code[^>]*>(.*?)<\/code><\/pre>/gis, '\n```\n$1\n```\n');
-    md = md.replace(/<pre[^>]*>(.*?)<\/pre>/gis, '\n```\n$1\n```\n');
-    
-    // Handle blockquote
-    md = md.replace(/<blockquote[^>]*>(.*?)<\/blockquote>/gis, (_, content) => {
-      return content.split('\n').map((line: string) => `> ${line.trim()}`).join('\n') + '\n\n';
-    });
-    
-    // Handle links
-    md = md.replace(/<a[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, '[$2]($1)');
-    
-    // Handle images
-    md = md.replace(/<img[^>]*src="([^"]*)"[^>]*alt="([^"]*)"[^>]*\/?>/gi, '![$2]($1)');
-    md = md.replace(/<img[^>]*src="([^"]*)"[^>]*\/?>/gi, '![]($1)');
-    
-    // Handle unordered lists
-    md = md.replace(/<ul[^>]*>(.*?)<\/ul>/gis, (_, content) => {
-      return content.replace(/<li[^>]*>(.*?)<\/li>/gi, '- $1\n') + '\n';
-    });
-    
-    // Handle ordered lists
-    let listCounter = 0;
-    md = md.replace(/<ol[^>]*>(.*?)<\/ol>/gis, (_, content) => {
-      listCounter = 0;
-      return content.replace(/<li[^>]*>(.*?)<\/li>/gi, () => {
-        listCounter++;
-        return `${listCounter}. ` + arguments[1] + '\n';
-      }) + '\n';
-    });
-    md = md.replace(/<ol[^>]*>(.*?)<\/ol>/gis, (_, content) => {
-      let num = 0;
-      return content.replace(/<li[^>]*>(.*?)<\/li>/gi, (_m: string, text: string) => {
-        num++;
-        return `${num}. ${text}\n`;
-      }) + '\n';
-    });
-    
-    // Handle horizontal rule
-    md = md.replace(/<hr[^>]*\/?>/gi, '\n---\n\n');
-    
-    // Handle line breaks
-    md = md.replace(/<br[^>]*\/?>/gi, '\n');
-    
-    // Handle paragraphs
-    md = md.replace(/<p[^>]*>(.*?)<\/p>/gis, '$1\n\n');
-    
-    // Handle divs (just extract content)
-    md = md.replace(/<div[^>]*>(.*?)<\/div>/gis, '$1\n');
-    
-    // Handle spans (just extract content)
-    md = md.replace(/<span[^>]*>(.*?)<\/span>/gi, '$1');
-    
-    // Remove any remaining HTML tags
-    md = md.replace(/<[^>]+>/g, '');
-    
-    // Decode HTML entities
-    md = md.replace(/&nbsp;/g, ' ');
-    md = md.replace(/&amp;/g, '&');
-    md = md.replace(/&lt;/g, '<');
-    md = md.replace(/&gt;/g, '>');
-    md = md.replace(/&quot;/g, '"');
-    md = md.replace(/&#39;/g, "'");
-    
-    // Clean up extra whitespace
-    md = md.replace(/\n{3,}/g, '\n\n');
-    md = md.trim();
-    
-    return md;
-  };
-
   // Convert HTML to plain text
   const htmlToPlainText = (html: string): string => {
     if (!html) return '';
@@ -362,27 +274,31 @@ const NotesImportExport = ({
 
       if (file.name.endsWith('.json')) {
         const data = JSON.parse(content);
-        if (data.notes && Array.isArray(data.notes)) {
-          importedNotes = data.notes.map((note: Note) => ({
-            ...note,
-            id: crypto.randomUUID(),
-            createdAt: new Date(note.createdAt),
-            updatedAt: note.updatedAt ? new Date(note.updatedAt) : undefined,
-          }));
-        } else if (Array.isArray(data)) {
-          importedNotes = data.map((note: Note) => ({
-            ...note,
-            id: crypto.randomUUID(),
-            createdAt: new Date(note.createdAt || new Date()),
-          }));
-        }
+        // Notes export, database export, plain array or a single exported note
+        const rawNotes: Note[] = Array.isArray(data) ? data
+          : Array.isArray(data.notes) ? data.notes
+          : Array.isArray(data.data?.notes) ? data.data.notes
+          : data.id && typeof data.content === 'string' ? [data]
+          : [];
+
+        // Ids are kept so notes that already exist are merged instead of duplicated
+        importedNotes = rawNotes.map((note) => ({
+          ...note,
+          id: note.id || crypto.randomUUID(),
+          tags: note.tags || [],
+          createdAt: new Date(note.createdAt || new Date()),
+          updatedAt: note.updatedAt ? new Date(note.updatedAt) : undefined,
+          reminder: reviveReminder(note.reminder),
+        }));
       } else {
         const title = file.name.replace(/\.(md|txt)$/, '');
+        // Markdown is converted so fenced code keeps its language
+        const html = file.name.endsWith('.md') ? markdownToHtml(content) : content;
         importedNotes = [{
           id: crypto.randomUUID(),
           title,
-          content,
-          preview: content.substring(0, 100),
+          content: html,
+          preview: html.substring(0, 100),
           createdAt: new Date(),
           tags: [],
           isFavorite: false,
@@ -391,9 +307,10 @@ const NotesImportExport = ({
       }
 
       if (importedNotes.length > 0) {
-        onImportNotes(importedNotes);
-        setImportResult({ success: true, message: `Imported ${importedNotes.length} note(s)` });
-        toast({ title: 'Import complete', description: `${importedNotes.length} note(s) imported` });
+        setPendingNotes(importedNotes);
+        setImportPlan(buildImportPlan(planRecords(NOTE_MERGE, importedNotes, notes)));
+      } else {
+        setImportResult({ success: false, message: 'No notes found in file' });
       }
     } catch (error) {
       setImportResult({ success: false, message: 'Failed to import file' });
@@ -404,6 +321,18 @@ const NotesImportExport = ({
     }
   };
 
+  const handleConfirmImport = (options: MergeOptions) => {
+    const notesToWrite = resolveRecords(NOTE_MERGE, pendingNotes, notes, options);
+
+    if (notesToWrite.length > 0) {
+      onImportNotes(notesToWrite);
+    }
+    setImportResult({ success: true, message: `Imported ${notesToWrite.length} note(s)` });
+    toast({ title: 'Import complete', description: `${notesToWrite.length} note(s) imported` });
+    setImportPlan(null);
+    setPendingNotes([]);
+  };
+
   return (
     <div className={cn("flex items-center gap-1", className)}>
       <DropdownMenu>
@@ -481,6 +410,19 @@ const NotesImportExport = ({
           </div>
         </DialogContent>
       </Dialog>
+
+      <ImportPreviewDialog
+        open={importPlan !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setImportPlan(null);
+            setPendingNotes([]);
+          }
+        }}
+        plan={importPlan}
+        title="Import Notes"
+        onConfirm={handleConfirmImport}
+      />
     </div>
   );
 };
@@ -0,0 +1,229 @@
+/**
+ * Import Preview Dialog
+ * Lists what an import will add, update or conflict with before anything
+ * is written, and lets the user pick a merge strategy per record
+ */
+
+import { memo, useState, useEffect, useMemo } from 'react';
+import { FileText, BookOpen, Hash, Loader2, Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ImportAction,
+  ImportPlan,
+  ImportPlanItem,
+  MergeOptions,
+  MergeStrategy,
+  MERGE_STRATEGY_LABELS,
+} from '@/lib/importMerge';
+import { cn } from '@/lib/utils';
+
+interface ImportPreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  plan: ImportPlan | null;
+  title?: string;
+  description?: string;
+  onConfirm: (options: MergeOptions) => void;
+  isLoading?: boolean;
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  add: 'New',
+  update: 'Update',
+  conflict: 'Conflict',
+  unchanged: 'Unchanged',
+};
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  add: 'bg-green-500/10 text-green-600 dark:text-green-400',
+  update: 'bg-blue-500/10 text-blue-600 dark:text-blue-400',
+  conflict: 'bg-amber-500/10 text-amber-600 dark:text-amber-400',
+  unchanged: 'bg-muted text-muted-foreground',
+};
+
+const KIND_ICONS = {
+  note: FileText,
+  notebook: BookOpen,
+  tag: Hash,
+};
+
+// Tags are referenced by name and cannot be kept as copies
+const getStrategies = (item: ImportPlanItem): MergeStrategy[] =>
+  item.kind === 'tag' ? ['newest', 'skip'] : ['newest', 'keep-both', 'skip'];
+
+const formatDate = (date: Date) =>
+  date.toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const ImportPreviewDialog = memo(({
+  open,
+  onOpenChange,
+  plan,
+  title = 'Import Preview',
+  description = 'Review the changes before anything is written.',
+  onConfirm,
+  isLoading = false,
+}: ImportPreviewDialogProps) => {
+  const [strategy, setStrategy] = useState<MergeStrategy>('newest');
+  const [strategies, setStrategies] = useState<Record<string, MergeStrategy>>({});
+
+  // Reset choices for every new plan
+  useEffect(() => {
+    setStrategy('newest');
+    setStrategies({});
+  }, [plan]);
+
+  const changedItems = useMemo(
+    () => plan?.items.filter(item => item.action !== 'unchanged') ?? [],
+    [plan]
+  );
+
+  const getItemStrategy = (item: ImportPlanItem): MergeStrategy => {
+    const chosen = strategies[item.key] ?? strategy;
+    return getStrategies(item).includes(chosen) ? chosen : 'newest';
+  };
+
+  const handleConfirm = () => {
+    // Resolve the defaults so unsupported choices never reach the merge
+    const resolved: Record<string, MergeStrategy> = {};
+    changedItems.forEach(item => {
+      resolved[item.key] = getItemStrategy(item);
+    });
+    onConfirm({ strategy, strategies: resolved });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="w-5 h-5 text-primary" />
+            {title}
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+
+        {plan && (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-4 gap-2">
+              {(Object.keys(ACTION_LABELS) as ImportAction[]).map(action => (
+                <div key={action} className={cn('rounded-lg px-3 py-2 text-center', ACTION_STYLES[action])}>
+                  <p className="text-lg font-semibold">{plan.counts[action]}</p>
+                  <p className="text-xs">{ACTION_LABELS[action]}</p>
+                </div>
+              ))}
+            </div>
+
+            {/* Default strategy */}
+            {(plan.counts.update > 0 || plan.counts.conflict > 0) && (
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label className="text-sm font-medium">When a record already exists</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Can be changed for each record below
+                  </p>
+                </div>
+                <Select value={strategy} onValueChange={(value) => setStrategy(value as MergeStrategy)}>
+                  <SelectTrigger className="w-[150px] h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(MERGE_STRATEGY_LABELS) as MergeStrategy[]).map(value => (
+                      <SelectItem key={value} value={value} className="text-xs">
+                        {MERGE_STRATEGY_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {/* Records */}
+            <div className="flex-1 min-h-0 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+              {changedItems.length === 0 ? (
+                <p className="p-6 text-center text-sm text-muted-foreground">
+                  Everything in this file is already in your vault.
+                </p>
+              ) : (
+                changedItems.map(item => {
+                  const Icon = KIND_ICONS[item.kind];
+                  const hasChoice = item.action === 'update' || item.action === 'conflict';
+
+                  return (
+                    <div key={item.key} className="flex items-center gap-3 px-3 py-2">
+                      <Icon className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm truncate">{item.label}</p>
+                        {item.existingDate && (
+                          <p className="text-[11px] text-muted-foreground truncate">
+                            Yours: {formatDate(item.existingDate)} • Imported: {formatDate(item.incomingDate)}
+                          </p>
+                        )}
+                      </div>
+                      <Badge variant="outline" className={cn('border-transparent flex-shrink-0', ACTION_STYLES[item.action])}>
+                        {ACTION_LABELS[item.action]}
+                      </Badge>
+                      {hasChoice && (
+                        <Select
+                          value={getItemStrategy(item)}
+                          onValueChange={(value) =>
+                            setStrategies(prev => ({ ...prev, [item.key]: value as MergeStrategy }))
+                          }
+                        >
+                          <SelectTrigger className="w-[120px] h-7 text-xs flex-shrink-0">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {getStrategies(item).map(value => (
+                              <SelectItem key={value} value={value} className="text-xs">
+                                {MERGE_STRATEGY_LABELS[value]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  );
+                })
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              "Keep newest" only overwrites records whose imported version was changed more recently.
+              Nothing in your vault is deleted.
+            </p>
+          </>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!plan || changedItems.length === 0 || isLoading}>
+            {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+ImportPreviewDialog.displayName = 'ImportPreviewDialog';
@@ -0,0 +1,95 @@
+/**
+ * Journal Navigator
+ * Shown above a journal entry: steps to the previous or next entry, and
+ * picks any day from a mini calendar that marks the days with entries
+ */
+
+import { memo, useMemo, useState } from 'react';
+import { CalendarCheck, ChevronLeft, ChevronRight } from 'lucide-react';
+import { isToday } from 'date-fns';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { cn } from '@/lib/utils';
+import { JournalNote, getAdjacentJournalDay, getJournalDays, getJournalTitle } from '@/lib/journal';
+
+interface JournalNavigatorProps {
+  date: Date;
+  notes: JournalNote[];
+  onOpenDay: (date: Date) => void;
+}
+
+const NAV_BUTTON_CLASS =
+  'p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors disabled:opacity-30 disabled:pointer-events-none';
+
+export const JournalNavigator = memo(({ date, notes, onOpenDay }: JournalNavigatorProps) => {
+  const [pickerOpen, setPickerOpen] = useState(false);
+
+  const entryDays = useMemo(() => getJournalDays(notes), [notes]);
+  const previousDay = useMemo(() => getAdjacentJournalDay(notes, date, -1), [notes, date]);
+  const nextDay = useMemo(() => getAdjacentJournalDay(notes, date, 1), [notes, date]);
+
+  return (
+    <div className="flex items-center gap-1 px-4 py-1.5 border-b border-border bg-muted/30">
+      <button
+        onClick={() => previousDay && onOpenDay(previousDay)}
+        disabled={!previousDay}
+        className={NAV_BUTTON_CLASS}
+        title="Previous entry"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+
+      <Popover open={pickerOpen} onOpenChange={setPickerOpen}>
+        <PopoverTrigger asChild>
+          <button
+            className="flex items-center gap-2 px-2 py-1 rounded text-xs font-medium text-foreground hover:bg-muted transition-colors"
+            title="Pick a day"
+          >
+            <CalendarCheck className="w-3.5 h-3.5 text-primary" />
+            {getJournalTitle(date)}
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-auto p-0">
+          <Calendar
+            mode="single"
+            selected={date}
+            defaultMonth={date}
+            modifiers={{ hasEntry: entryDays }}
+            modifiersClassNames={{
+              hasEntry: 'relative after:absolute after:bottom-1 after:left-1/2 after:-translate-x-1/2 after:w-1 after:h-1 after:rounded-full after:bg-primary aria-selected:after:bg-primary-foreground',
+            }}
+            onSelect={(day) => {
+              if (!day) return;
+              onOpenDay(day);
+              setPickerOpen(false);
+            }}
+          />
+          <p className="px-3 pb-3 text-[11px] text-muted-foreground">
+            Marked days have an entry; other days start a new one.
+          </p>
+        </PopoverContent>
+      </Popover>
+
+      <button
+        onClick={() => nextDay && onOpenDay(nextDay)}
+        disabled={!nextDay}
+        className={NAV_BUTTON_CLASS}
+        title="Next entry"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+
+      <div className="flex-1" />
+
+      <button
+        onClick={() => onOpenDay(new Date())}
+        disabled={isToday(date)}
+        className={cn(NAV_BUTTON_CLASS, 'px-2 text-xs')}
+      >
+        Today
+      </button>
+    </div>
+  );
+});
+
+JournalNavigator.displayName = 'JournalNavigator';
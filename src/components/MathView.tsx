@@ -0,0 +1,120 @@
+/**
+ * Math View
+ * Editor view of inline equations and math blocks: the equation rendered
+ * with KaTeX, and while it's selected a TeX field whose changes render live,
+ * with KaTeX's message shown for invalid TeX
+ */
+
+import { KeyboardEvent, memo, useMemo } from 'react';
+import { NodeViewWrapper, ReactNodeViewProps } from '@tiptap/react';
+import { Selection } from '@tiptap/pm/state';
+import { renderMath } from '@/lib/tiptap-math';
+import { cn } from '@/lib/utils';
+import 'katex/dist/katex.min.css';
+
+export const MathView = memo(({ node, editor, selected, getPos, updateAttributes, deleteNode }: ReactNodeViewProps) => {
+  const latex: string = node.attrs.latex;
+  const isBlock = node.type.name === 'mathBlock';
+  const editing = selected && editor.isEditable;
+  const { html, error } = useMemo(() => renderMath(latex, isBlock), [latex, isBlock]);
+
+  // Leave the field for the text before or after the equation; an empty
+  // equation is removed
+  const finish = (after = true) => {
+    const pos = getPos();
+    if (typeof pos !== 'number') return;
+    if (!latex.trim()) {
+      deleteNode();
+      editor.commands.focus();
+      return;
+    }
+    const target = after ? pos + node.nodeSize : pos;
+    editor
+      .chain()
+      .focus()
+      .command(({ tr }) => {
+        tr.setSelection(Selection.near(tr.doc.resolve(target), after ? 1 : -1));
+        return true;
+      })
+      .run();
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const field = event.currentTarget;
+    const atStart = field.selectionStart === 0 && field.selectionEnd === 0;
+    const atEnd = field.selectionStart === field.value.length;
+
+    if (event.key === 'Escape' || (event.key === 'Enter' && (!isBlock || event.metaKey || event.ctrlKey))) {
+      event.preventDefault();
+      finish();
+    } else if (!isBlock && event.key === 'ArrowRight' && atEnd) {
+      event.preventDefault();
+      finish();
+    } else if (!isBlock && event.key === 'ArrowLeft' && atStart) {
+      event.preventDefault();
+      finish(false);
+    }
+  };
+
+  const rendered = latex.trim() ? (
+    error ? (
+      <span className="math-source">{latex}</span>
+    ) : (
+      <span dangerouslySetInnerHTML={{ __html: html }} />
+    )
+  ) : (
+    <span className="math-placeholder">{isBlock ? 'Empty equation' : 'TeX'}</span>
+  );
+
+  const errorMessage = error && (
+    <span className="math-error" title={error}>{error}</span>
+  );
+
+  if (!isBlock) {
+    return (
+      <NodeViewWrapper
+        as="span"
+        className={cn('math-inline', selected && 'is-selected', error && 'has-error')}
+      >
+        <span contentEditable={false}>{rendered}</span>
+        {editing && (
+          <span className="math-editor" contentEditable={false}>
+            <input
+              value={latex}
+              onChange={(event) => updateAttributes({ latex: event.target.value })}
+              onKeyDown={handleKeyDown}
+              placeholder="E = mc^2"
+              spellCheck={false}
+              autoFocus
+            />
+            {errorMessage}
+          </span>
+        )}
+      </NodeViewWrapper>
+    );
+  }
+
+  return (
+    <NodeViewWrapper className={cn('math-block', selected && 'is-selected', error && 'has-error')}>
+      <div className="math-block-preview" contentEditable={false}>{rendered}</div>
+      {editing && (
+        <div className="math-editor" contentEditable={false}>
+          <textarea
+            value={latex}
+            onChange={(event) => updateAttributes({ latex: event.target.value })}
+            onKeyDown={handleKeyDown}
+            rows={Math.max(latex.split('\n').length, 2)}
+            placeholder={'\\int_0^1 x^2 \\, dx = \\frac{1}{3}'}
+            spellCheck={false}
+            autoFocus
+          />
+          <div className="math-editor-footer">
+            {errorMessage || <span>Ctrl+Enter or Esc to finish</span>}
+          </div>
+        </div>
+      )}
+    </NodeViewWrapper>
+  );
+});
+
+MathView.displayName = 'MathView';
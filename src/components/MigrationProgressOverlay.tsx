@@ -0,0 +1,64 @@
+/**
+ * Migration Progress Overlay
+ * Blocks the UI while the IndexedDB schema is being upgraded
+ */
+
+import { memo } from 'react';
+import { Database, AlertTriangle, Loader2 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { useMigrationProgress } from '@/hooks/useDB';
+
+export const MigrationProgressOverlay = memo(() => {
+  const progress = useMigrationProgress();
+
+  if (progress.status === 'idle' || progress.status === 'done') {
+    return null;
+  }
+
+  const isFailed = progress.status === 'failed';
+  const percent = progress.total > 0 ? Math.round((progress.processed / progress.total) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-background/90 backdrop-blur-sm">
+      <div className="w-full max-w-sm mx-4 p-6 rounded-lg border border-border bg-card shadow-lg space-y-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center flex-shrink-0">
+            {isFailed ? (
+              <AlertTriangle className="w-5 h-5 text-destructive" />
+            ) : (
+              <Database className="w-5 h-5 text-primary" />
+            )}
+          </div>
+          <div className="min-w-0">
+            <p className="text-sm font-medium">
+              {isFailed ? 'Database upgrade failed' : 'Upgrading your database'}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Version {progress.fromVersion} → {progress.toVersion}
+            </p>
+          </div>
+        </div>
+
+        {isFailed ? (
+          <p className="text-xs text-muted-foreground">
+            Your data was left unchanged. Reload the page to try again.
+            {progress.error && <span className="block mt-2 font-mono text-destructive">{progress.error}</span>}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              <span className="flex-1 truncate">{progress.description}</span>
+              {progress.total > 0 && (
+                <span className="font-mono">{progress.processed}/{progress.total}</span>
+              )}
+            </div>
+            <Progress value={percent} className="h-2" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+});
+
+MigrationProgressOverlay.displayName = 'MigrationProgressOverlay';
@@ -11,6 +11,7 @@ import {
   FolderOpen,
   Menu,
   CheckCircle2,
+  LayoutTemplate,
   LogOut
 } from "lucide-react";
 import { cn } from "@/lib/utils";
@@ -33,6 +34,7 @@ const navItems = [
   { id: "favorites", icon: Star, tab: "home" as SidebarTab },
   { id: "reminders", icon: Bell, tab: "home" as SidebarTab },
   { id: "monographs", icon: BookOpen, tab: "home" as SidebarTab },
+  { id: "templates", icon: LayoutTemplate, tab: "home" as SidebarTab },
   { id: "trash", icon: Trash2, tab: "home" as SidebarTab },
   { id: "archive", icon: Archive, tab: "home" as SidebarTab },
 ];
@@ -1,4 +1,4 @@
-import { useEditor, EditorContent, Editor } from '@tiptap/react';
+import { useEditor, EditorContent, Editor, ReactNodeViewRenderer } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Underline from '@tiptap/extension-underline';
 import Link from '@tiptap/extension-link';
@@ -8,12 +8,26 @@ import { TextStyle } from '@tiptap/extension-text-style';
 import FontFamily from '@tiptap/extension-font-family';
 import { FontSize } from '@/lib/tiptap-extensions';
 import { HeadingId } from '@/lib/tiptap-heading-id';
+import { NoteLink, NoteLinkSuggestionKey, NoteLinkTarget } from '@/lib/tiptap-note-link';
+import { SlashCommand, SlashCommandSuggestionKey } from '@/lib/tiptap-slash-command';
+import { TaskItem, TaskList } from '@/lib/tiptap-task-list';
+import { Callout } from '@/lib/tiptap-callout';
+import { Table, TableCell, TableHeader, TableRow } from '@/lib/tiptap-table';
+import { CodeBlock } from '@/lib/tiptap-code-block';
+import { MathBlock, MathInline } from '@/lib/tiptap-math';
+import { Attachment } from '@/lib/tiptap-attachment';
+import { FindMode, FindReplace } from '@/lib/tiptap-find-replace';
+import { FocusMode } from '@/lib/tiptap-focus-mode';
+import { createSuggestionRenderer } from '@/lib/tiptap-suggestion';
 import {
   Bold,
   Italic,
   Underline as UnderlineIcon,
   List,
   ListOrdered,
+  ListChecks,
+  Table as TableIcon,
+  Paperclip,
   Link as LinkIcon,
   AlignLeft,
   AlignCenter,
@@ -34,15 +48,40 @@ import {
   ChevronLeft,
   MoreVertical,
   Monitor,
-  PanelLeft,
+  Columns2,
+  ArrowDownUp,
   RefreshCw,
   Minus,
-  Plus
+  Plus,
+  History,
+  Link2
 } from "lucide-react";
-import { useState, useEffect, useCallback, useRef, memo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef, memo, ReactElement } from "react";
+import { useDropzone } from "react-dropzone";
+import { ScrollSyncPane } from "react-scroll-sync";
 import { cn } from "@/lib/utils";
 import { useDebounce } from "@/hooks/useDebounce";
 import { TableOfContents } from "@/components/TableOfContents";
+import { RevisionHistory } from "@/components/RevisionHistory";
+import { BacklinksPanel } from "@/components/BacklinksPanel";
+import { NoteLinkSuggestions } from "@/components/NoteLinkSuggestions";
+import { SlashCommandMenu } from "@/components/SlashCommandMenu";
+import { CodeBlockView } from "@/components/CodeBlockView";
+import { MathView } from "@/components/MathView";
+import { AttachmentView } from "@/components/AttachmentView";
+import { ReminderPicker } from "@/components/ReminderPicker";
+import { TaskDetailsMenu } from "@/components/TaskDetailsMenu";
+import { TableMenu } from "@/components/TableMenu";
+import { FindReplaceBar } from "@/components/FindReplaceBar";
+import { useAttachmentsDB, useRevisionsDB } from "@/hooks/useDB";
+import { useShortcutBindings } from "@/hooks/useShortcuts";
+import { formatBinding } from "@/lib/shortcuts";
+import { normalizeTagPath } from "@/lib/tags";
+import { NoteRevision } from "@/lib/db";
+import { NoteReminder } from "@/lib/reminders";
+import { focusTemplateCursor } from "@/lib/templates";
+import { DEFAULT_ZOOM, MAX_ZOOM, MIN_ZOOM, stepZoom } from "@/lib/zoom";
+import { getEditorZoom, useSettingsStore } from "@/stores/settingsStore";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -56,6 +95,7 @@ interface Note {
   content: string;
   tags: string[];
   isFavorite: boolean;
+  reminder?: NoteReminder;
 }
 
 interface NoteEditorProps {
@@ -66,8 +106,33 @@ interface NoteEditorProps {
   onDelete: (id: string) => void;
   onBack?: () => void;
   onAddNote?: () => void;
+  onForkRevision?: (revision: NoteRevision) => void;
+  /** Notes available as `[[link]]` targets and backlink sources */
+  notes?: LinkableNote[];
+  onOpenNote?: (id: string) => void;
+  onReminderChange?: (id: string, reminder: NoteReminder | undefined) => void;
+  /** Hides the toolbar and dims everything but the paragraph being edited */
+  focusMode?: boolean;
+  onToggleFocusMode?: () => void;
+  /** Shows the split view toggle when set */
+  onToggleSplitView?: () => void;
+  splitView?: boolean;
+  /** Scrolls along with the other split pane; leave unset outside a ScrollSync */
+  syncScroll?: boolean;
+  onToggleSyncScroll?: () => void;
 }
 
+interface LinkableNote {
+  id: string;
+  title: string;
+  content: string;
+  section: string;
+}
+
+// Suggestions shown while typing a `[[link]]`
+const MAX_LINK_SUGGESTIONS = 8;
+const NO_NOTES: LinkableNote[] = [];
+
 const fontSizes = ['12px', '14px', '16px', '18px', '20px', '24px', '28px', '32px'];
 const fontFamilies = [
   { name: 'Sans-serif', value: 'Inter, system-ui, sans-serif' },
@@ -81,13 +146,19 @@ const headingOptions = [
   { name: 'Heading 3', level: 3 },
 ];
 
+// ScrollSyncPane only works inside a ScrollSync, which split view provides
+const SyncedScroll = ({ enabled, children }: { enabled?: boolean; children: ReactElement }) =>
+  enabled === undefined ? children : <ScrollSyncPane enabled={enabled}>{children}</ScrollSyncPane>;
+
 interface ToolbarProps {
   editor: Editor | null;
   fontSize: string;
   setFontSize: (size: string) => void;
+  onAttach: () => void;
+  onFind: (mode: FindMode) => void;
 }
 
-const Toolbar = memo(({ editor, fontSize, setFontSize }: ToolbarProps) => {
+const Toolbar = memo(({ editor, fontSize, setFontSize, onAttach, onFind }: ToolbarProps) => {
   if (!editor) return null;
 
   const handleFontSizeChange = (size: string) => {
@@ -370,6 +441,19 @@ const Toolbar = memo(({ editor, fontSize, setFontSize }: ToolbarProps) => {
       >
         <ListOrdered className="w-4 h-4" />
       </button>
+      <button 
+        onClick={() => editor.chain().focus().toggleTaskList().run()}
+        className={cn(
+          "p-2 md:p-1.5 rounded transition-colors flex-shrink-0 hidden md:block",
+          editor.isActive('taskList') 
+            ? "bg-primary/20 text-primary" 
+            : "text-muted-foreground hover:text-foreground hover:bg-muted"
+        )}
+        title="Task List"
+      >
+        <ListChecks className="w-4 h-4" />
+      </button>
+      <TaskDetailsMenu editor={editor} className="hidden md:block" />
 
       <div className="w-px h-5 bg-border mx-1 flex-shrink-0 hidden md:block" />
 
@@ -398,6 +482,21 @@ const Toolbar = memo(({ editor, fontSize, setFontSize }: ToolbarProps) => {
       >
         <LinkIcon className="w-4 h-4" />
       </button>
+      <TableMenu editor={editor} className="hidden md:block" />
+      <button
+        onClick={onAttach}
+        className="p-2 md:p-1.5 rounded transition-colors flex-shrink-0 hidden md:block text-muted-foreground hover:text-foreground hover:bg-muted"
+        title="Attach File"
+      >
+        <Paperclip className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => onFind('replace')}
+        className="p-2 md:p-1.5 rounded transition-colors flex-shrink-0 hidden md:block text-muted-foreground hover:text-foreground hover:bg-muted"
+        title="Find and Replace"
+      >
+        <Search className="w-4 h-4" />
+      </button>
 
       {/* More options dropdown for mobile */}
       <DropdownMenu>
@@ -427,6 +526,20 @@ const Toolbar = memo(({ editor, fontSize, setFontSize }: ToolbarProps) => {
             <LinkIcon className="w-4 h-4 mr-2" />
             Add Link
           </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run()}
+          >
+            <TableIcon className="w-4 h-4 mr-2" />
+            Insert Table
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={onAttach}>
+            <Paperclip className="w-4 h-4 mr-2" />
+            Attach File
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onFind('replace')}>
+            <Search className="w-4 h-4 mr-2" />
+            Find and Replace
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
     </div>
@@ -435,13 +548,24 @@ const Toolbar = memo(({ editor, fontSize, setFontSize }: ToolbarProps) => {
 
 Toolbar.displayName = 'Toolbar';
 
-export const NoteEditor = ({ note, onNoteChange, onClose, onToggleFavorite, onDelete, onBack, onAddNote }: NoteEditorProps) => {
+export const NoteEditor = ({ note, onNoteChange, onClose, onToggleFavorite, onDelete, onBack, onAddNote, onForkRevision, notes = NO_NOTES, onOpenNote, onReminderChange, focusMode = false, onToggleFocusMode, onToggleSplitView, splitView = false, syncScroll, onToggleSyncScroll }: NoteEditorProps) => {
   const [title, setTitle] = useState(note?.title || "");
   const [tagInput, setTagInput] = useState("");
   const [tags, setTags] = useState<string[]>(note?.tags || []);
   const [fontSize, setFontSize] = useState("16px");
   const [editorContent, setEditorContent] = useState(note?.content || '');
   const [showTOC, setShowTOC] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showBacklinks, setShowBacklinks] = useState(false);
+  const [revisionsVersion, setRevisionsVersion] = useState(0);
+  const [findMode, setFindMode] = useState<FindMode | null>(null);
+  const [findOpenKey, setFindOpenKey] = useState(0);
+  const { snapshotIfNeeded } = useRevisionsDB();
+  const { addFiles } = useAttachmentsDB();
+  const newNoteBinding = useShortcutBindings()['note.new'];
+  const zoom = useSettingsStore((state) => getEditorZoom(state, note?.id));
+  const setEditorZoom = useSettingsStore((state) => state.setEditorZoom);
+  const typewriterScrolling = useSettingsStore((state) => state.typewriterScrolling);
 
   // Debounce editor content and title to reduce parent re-renders
   const debouncedTitle = useDebounce(title, 500);
@@ -451,6 +575,21 @@ export const NoteEditor = ({ note, onNoteChange, onClose, onToggleFavorite, onDe
   // Track if we're updating from external source to avoid feedback loops
   const isExternalUpdate = useRef(false);
 
+  // The editor is created once, so link extensions read the latest values through refs
+  const notesRef = useRef(notes);
+  const noteIdRef = useRef(note?.id);
+  const onOpenNoteRef = useRef(onOpenNote);
+  notesRef.current = notes;
+  noteIdRef.current = note?.id;
+  onOpenNoteRef.current = onOpenNote;
+  const attachFilesRef = useRef<(files: File[], position?: number) => void>();
+
+  const handleOpenFind = useCallback((mode: FindMode) => {
+    setFindMode(mode);
+    setFindOpenKey(key => key + 1);
+  }, []);
+  const handleCloseFind = useCallback(() => setFindMode(null), []);
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
@@ -459,6 +598,7 @@ export const NoteEditor = ({ note, onNoteChange, onClose, onToggleFavorite, onDe
         },
         link: false, // Disable default link extension to avoid duplicate
         underline: false, // Disable default underline extension to avoid duplicate
+        codeBlock: false, // Replaced by the highlighted code block below
       }),
       HeadingId.configure({
         types: ['heading'],
@@ -474,11 +614,70 @@ export const NoteEditor = ({ note, onNoteChange, onClose, onToggleFavorite, onDe
         types: ['heading', 'paragraph'],
       }),
       Placeholder.configure({
-        placeholder: 'Start writing your note...',
+        placeholder: 'Start writing your note, or type / for blocks...',
       }),
       TextStyle,
       FontFamily,
       FontSize,
+      NoteLink.configure({
+        onOpen: (id) => onOpenNoteRef.current?.(id),
+        suggestion: {
+          ...NoteLink.options.suggestion,
+          items: ({ query }): NoteLinkTarget[] => {
+            const search = query.trim().toLowerCase();
+            return notesRef.current
+              .filter(n => n.id !== noteIdRef.current && n.section !== 'trash')
+              .filter(n => (n.title || 'Untitled').toLowerCase().includes(search))
+              // Titles starting with the query come first
+              .sort((a, b) =>
+                Number(!(a.title || 'Untitled').toLowerCase().startsWith(search)) -
+                Number(!(b.title || 'Untitled').toLowerCase().startsWith(search))
+              )
+              .slice(0, MAX_LINK_SUGGESTIONS)
+              .map(n => ({ id: n.id, title: n.title || 'Untitled' }));
+          },
+          render: createSuggestionRenderer(NoteLinkSuggestions, NoteLinkSuggestionKey),
+        },
+      }),
+      TaskList,
+      TaskItem,
+      Callout,
+      CodeBlock.extend({
+        addNodeView() {
+          return ReactNodeViewRenderer(CodeBlockView);
+        },
+      }),
+      MathInline.extend({
+        addNodeView() {
+          return ReactNodeViewRenderer(MathView);
+        },
+      }),
+      MathBlock.extend({
+        addNodeView() {
+          return ReactNodeViewRenderer(MathView);
+        },
+      }),
+      Attachment.extend({
+        addNodeView() {
+          return ReactNodeViewRenderer(AttachmentView);
+        },
+      }).configure({
+        onFiles: (files) => attachFilesRef.current?.(files),
+      }),
+      FindReplace.configure({
+        onOpen: handleOpenFind,
+      }),
+      FocusMode,
+      Table,
+      TableRow,
+      TableHeader,
+      TableCell,
+      SlashCommand.configure({
+        suggestion: {
+          ...SlashCommand.options.suggestion,
+          render: createSuggestionRenderer(SlashCommandMenu, SlashCommandSuggestionKey),
+        },
+      }),
     ],
     content: note?.content || '',
     editorProps: {
@@ -508,27 +707,132 @@ export const NoteEditor = ({ note, onNoteChange, onClose, onToggleFavorite, onDe
       // Reset flag after a short delay
       setTimeout(() => {
         isExternalUpdate.current = false;
+        // Notes created from a template start where {{cursor}} was; the
+        // marker's removal is saved like any edit
+        if (editor) focusTemplateCursor(editor);
       }, 100);
     }
   }, [note?.id]);
 
-  // Auto-save: Only call onNoteChange when debounced values change
+  // Tags renamed, merged or deleted elsewhere replace the local ones. Tags
+  // this editor saved come back as the same array and are ignored.
+  const noteTags = note?.tags;
+  const savedTags = useRef(noteTags);
+  useEffect(() => {
+    if (!noteTags || noteTags === savedTags.current) return;
+    savedTags.current = noteTags;
+    setTags(noteTags);
+  }, [noteTags]);
+
+  // Likewise for the title and content, e.g. after find and replace across
+  // notes or its undo
+  const noteTitle = note?.title;
+  const noteContent = note?.content;
+  const savedState = useRef({ title: noteTitle, content: noteContent });
   useEffect(() => {
-    if (note && !isExternalUpdate.current) {
-      onNoteChange({
-        id: note.id,
-        title: debouncedTitle,
-        content: debouncedContent,
-        tags: debouncedTags,
-      });
+    if (noteTitle === undefined || noteContent === undefined) return;
+    const saved = savedState.current;
+    if (noteTitle === saved.title && noteContent === saved.content) return;
+    savedState.current = { title: noteTitle, content: noteContent };
+
+    setTitle(noteTitle);
+    setEditorContent(noteContent);
+    if (editor && noteContent !== editor.getHTML()) {
+      editor.commands.setContent(noteContent, { emitUpdate: false });
+    }
+  }, [noteTitle, noteContent, editor]);
+
+  // Save edits unless they are what was last saved or updated from outside
+  const saveChanges = (changes: { title: string; content: string; tags: string[] }) => {
+    if (!note || isExternalUpdate.current) return;
+    const saved = savedState.current;
+    if (changes.title === saved.title && changes.content === saved.content && changes.tags === savedTags.current) {
+      return;
     }
+
+    // Keep the previous state in history before it is overwritten
+    snapshotIfNeeded(
+      note.id,
+      { title: note.title, content: note.content },
+      { title: changes.title, content: changes.content }
+    ).then((revision) => {
+      if (revision) setRevisionsVersion(v => v + 1);
+    });
+
+    savedTags.current = changes.tags;
+    savedState.current = { title: changes.title, content: changes.content };
+    onNoteChange({ id: note.id, ...changes });
+  };
+
+  // Auto-save: Only call onNoteChange when debounced values change
+  useEffect(() => {
+    saveChanges({ title: debouncedTitle, content: debouncedContent, tags: debouncedTags });
   }, [debouncedTitle, debouncedContent, debouncedTags, note?.id]);
 
+  // Save right away when focus leaves the editor, e.g. for a dialog that
+  // replaces text across notes, so a pending save can't overwrite its changes
+  const handleEditorBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    saveChanges({ title, content: editorContent, tags });
+  };
+
+  // Keep link text in sync with the titles of the notes they point to
+  const linkTitles = useMemo(() => new Map(notes.map(n => [n.id, n.title || 'Untitled'])), [notes]);
+  useEffect(() => {
+    editor?.commands.updateNoteLinkTitles(linkTitles);
+  }, [editor, linkTitles]);
+
+  useEffect(() => {
+    editor?.commands.setFocusMode({ enabled: focusMode, typewriter: typewriterScrolling });
+  }, [editor, focusMode, typewriterScrolling]);
+
+  // Escape leaves focus mode, unless something inside the editor used it
+  // first, e.g. to close a menu or the find bar
+  const handleFocusModeKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (
+      focusMode && e.key === 'Escape' && !e.defaultPrevented &&
+      e.currentTarget.contains(e.target as Node)
+    ) {
+      onToggleFocusMode?.();
+    }
+  };
+
+  // Dropped, pasted or picked files are stored encrypted, then referenced
+  // from the note; several files go in one after another
+  const handleAttachFiles = useCallback(async (files: File[], position?: number) => {
+    if (!editor) return;
+    const attachments = await addFiles(files);
+    attachments.forEach(({ id, name, type, size }, index) => {
+      editor.chain().focus().insertAttachment({ id, name, type, size }, index === 0 ? position : undefined).run();
+    });
+  }, [editor, addFiles]);
+  attachFilesRef.current = handleAttachFiles;
+
+  const { getRootProps, getInputProps, isDragActive, open: openFilePicker } = useDropzone({
+    onDrop: (files, _rejections, event) => {
+      // Files go where they were dropped, or at the cursor
+      const position = editor && event && 'clientX' in event
+        ? editor.view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos
+        : undefined;
+      handleAttachFiles(files, position);
+    },
+    noClick: true,
+    noKeyboard: true,
+  });
+
+  const handleRestoreRevision = useCallback((revision: NoteRevision) => {
+    setTitle(revision.title);
+    setEditorContent(revision.content);
+    // Goes through the regular update path so the restore is auto-saved
+    editor?.commands.setContent(revision.content);
+  }, [editor]);
+
   const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && tagInput.trim()) {
+    const tag = normalizeTagPath(tagInput);
+    if (e.key === 'Enter' && tag) {
       e.preventDefault();
-      if (!tags.includes(tagInput.trim())) {
-        setTags([...tags, tagInput.trim()]);
+      if (!tags.includes(tag)) {
+        setTags([...tags, tag]);
       }
       setTagInput("");
     } else if (e.key === 'Backspace' && !tagInput && tags.length > 0) {
@@ -582,7 +886,11 @@ export const NoteEditor = ({ note, onNoteChange, onClose, onToggleFavorite, onDe
             <div className="grid gap-2 text-left">
               <div className="flex items-start gap-2 text-xs text-muted-foreground">
                 <span className="text-primary">•</span>
-                <span>Use <kbd className="px-1.5 py-0.5 rounded bg-muted border border-border text-[10px]">Ctrl+N</kbd> to create a new note</span>
+                {newNoteBinding ? (
+                  <span>Use <kbd className="px-1.5 py-0.5 rounded bg-muted border border-border text-[10px]">{formatBinding(newNoteBinding)}</kbd> to create a new note</span>
+                ) : (
+                  <span>Open the command palette to create a new note</span>
+                )}
               </div>
               <div className="flex items-start gap-2 text-xs text-muted-foreground">
                 <span className="text-primary">•</span>
@@ -602,50 +910,83 @@ export const NoteEditor = ({ note, onNoteChange, onClose, onToggleFavorite, onDe
   return (
     <div className="flex-1 h-full bg-editor flex">
       {/* Main Editor Area */}
-      <div className="flex-1 flex flex-col min-w-0">
+      <div {...getRootProps({ className: "relative flex-1 flex flex-col min-w-0", onKeyDown: handleFocusModeKeyDown, onBlur: handleEditorBlur })}>
+        <input {...getInputProps()} />
+        {isDragActive && (
+          <div className="absolute inset-0 z-20 m-2 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-primary/5 pointer-events-none">
+            <div className="flex items-center gap-2 text-sm text-primary">
+              <Paperclip className="w-4 h-4" />
+              Drop files to attach them
+            </div>
+          </div>
+        )}
+
         {/* Toolbar - directly without separate header */}
-        <Toolbar editor={editor} fontSize={fontSize} setFontSize={setFontSize} />
+        {!focusMode && (
+          <Toolbar editor={editor} fontSize={fontSize} setFontSize={setFontSize} onAttach={openFilePicker} onFind={handleOpenFind} />
+        )}
+
+        {editor && findMode && (
+          <FindReplaceBar
+            editor={editor}
+            mode={findMode}
+            openKey={findOpenKey}
+            onModeChange={setFindMode}
+            onClose={handleCloseFind}
+          />
+        )}
 
         {/* Editor Content */}
-        <div className="flex-1 overflow-y-auto p-4 md:p-8 lg:p-12">
-          <div className="max-w-4xl mx-auto">
-            <input
-              type="text"
-              placeholder="Note title"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              className="w-full bg-transparent text-3xl md:text-4xl lg:text-5xl font-light text-foreground placeholder:text-muted-foreground/40 focus:outline-none mb-3"
-            />
-
-            {/* Tags */}
-            <div className="flex items-center flex-wrap gap-2 mb-6">
-              {tags.map((tag) => (
-                <span
-                  key={tag}
-                  className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded bg-primary/10 text-primary"
-                >
-                  #{tag}
-                  <button
-                    onClick={() => removeTag(tag)}
-                    className="hover:text-primary/70 transition-colors"
-                  >
-                    <X className="w-3 h-3" />
-                  </button>
-                </span>
-              ))}
+        <SyncedScroll enabled={syncScroll}>
+          <div className="flex-1 overflow-y-auto p-4 md:p-8 lg:p-12">
+            <div
+              className={cn("max-w-4xl mx-auto", focusMode && typewriterScrolling && "pb-[50vh]")}
+              style={{ zoom: zoom / 100 }}
+            >
               <input
                 type="text"
-                placeholder={tags.length === 0 ? "Add a tag" : ""}
-                value={tagInput}
-                onChange={(e) => setTagInput(e.target.value)}
-                onKeyDown={handleTagKeyDown}
-                className="flex-1 min-w-[80px] bg-transparent text-sm text-muted-foreground placeholder:text-muted-foreground/40 focus:outline-none py-1"
+                placeholder="Note title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="w-full bg-transparent text-3xl md:text-4xl lg:text-5xl font-light text-foreground placeholder:text-muted-foreground/40 focus:outline-none mb-3"
               />
-            </div>
 
-            <EditorContent editor={editor} className="prose-editor" />
+              {/* Reminder and tags */}
+              <div className="flex items-center flex-wrap gap-2 mb-6">
+                {onReminderChange && (
+                  <ReminderPicker
+                    reminder={note.reminder}
+                    onChange={(reminder) => onReminderChange(note.id, reminder)}
+                  />
+                )}
+                {tags.map((tag) => (
+                  <span
+                    key={tag}
+                    className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded bg-primary/10 text-primary"
+                  >
+                    #{tag}
+                    <button
+                      onClick={() => removeTag(tag)}
+                      className="hover:text-primary/70 transition-colors"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+                <input
+                  type="text"
+                  placeholder={tags.length === 0 ? "Add a tag" : ""}
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={handleTagKeyDown}
+                  className="flex-1 min-w-[80px] bg-transparent text-sm text-muted-foreground placeholder:text-muted-foreground/40 focus:outline-none py-1"
+                />
+              </div>
+
+              <EditorContent editor={editor} className="prose-editor" />
+            </div>
           </div>
-        </div>
+        </SyncedScroll>
 
         {/* Status Bar */}
         <div className="flex items-center justify-between px-3 py-1.5 bg-background border-t border-border text-xs text-muted-foreground">
@@ -669,14 +1010,66 @@ export const NoteEditor = ({ note, onNoteChange, onClose, onToggleFavorite, onDe
               <List className="w-3.5 h-3.5" />
             </button>
 
+            {/* Revision History Toggle */}
+            <button
+              onClick={() => setShowHistory(!showHistory)}
+              className={cn(
+                "p-1 rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground",
+                showHistory && "bg-primary/10 text-primary"
+              )}
+              title="Toggle Revision History"
+            >
+              <History className="w-3.5 h-3.5" />
+            </button>
+
+            {/* Backlinks Toggle */}
+            <button
+              onClick={() => setShowBacklinks(!showBacklinks)}
+              className={cn(
+                "p-1 rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground",
+                showBacklinks && "bg-primary/10 text-primary"
+              )}
+              title="Toggle Backlinks"
+            >
+              <Link2 className="w-3.5 h-3.5" />
+            </button>
+
             {/* View mode icons */}
             <div className="hidden sm:flex items-center gap-0.5">
-              <button className="p-1 rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground" title="Focus mode">
+              <button
+                onClick={onToggleFocusMode}
+                className={cn(
+                  "p-1 rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground",
+                  focusMode && "bg-primary/10 text-primary"
+                )}
+                title={focusMode ? "Exit focus mode (Escape)" : "Focus mode"}
+              >
                 <Monitor className="w-3.5 h-3.5" />
               </button>
-              <button className="p-1 rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground" title="Split view">
-                <PanelLeft className="w-3.5 h-3.5" />
-              </button>
+              {onToggleSplitView && (
+                <button
+                  onClick={onToggleSplitView}
+                  className={cn(
+                    "p-1 rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground",
+                    splitView && "bg-primary/10 text-primary"
+                  )}
+                  title={splitView ? "Close split view" : "Split view"}
+                >
+                  <Columns2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {splitView && onToggleSyncScroll && (
+                <button
+                  onClick={onToggleSyncScroll}
+                  className={cn(
+                    "p-1 rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground",
+                    syncScroll && "bg-primary/10 text-primary"
+                  )}
+                  title={syncScroll ? "Stop syncing scroll" : "Sync scrolling with the other pane"}
+                >
+                  <ArrowDownUp className="w-3.5 h-3.5" />
+                </button>
+              )}
             </div>
 
             {/* Separator */}
@@ -684,11 +1077,27 @@ export const NoteEditor = ({ note, onNoteChange, onClose, onToggleFavorite, onDe
 
             {/* Zoom controls */}
             <div className="hidden sm:flex items-center gap-0">
-              <button className="p-1 rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground" title="Zoom out">
+              <button
+                onClick={() => setEditorZoom(stepZoom(zoom, -1), note.id)}
+                disabled={zoom <= MIN_ZOOM}
+                className="p-1 rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground disabled:opacity-40 disabled:pointer-events-none"
+                title="Zoom out"
+              >
                 <Minus className="w-3.5 h-3.5" />
               </button>
-              <span className="text-xs min-w-[40px] text-center text-muted-foreground">100%</span>
-              <button className="p-1 rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground" title="Zoom in">
+              <button
+                onClick={() => setEditorZoom(DEFAULT_ZOOM, note.id)}
+                className="text-xs min-w-[40px] text-center text-muted-foreground hover:text-foreground transition-colors"
+                title="Reset zoom to 100%"
+              >
+                {zoom}%
+              </button>
+              <button
+                onClick={() => setEditorZoom(stepZoom(zoom, 1), note.id)}
+                disabled={zoom >= MAX_ZOOM}
+                className="p-1 rounded hover:bg-muted transition-colors text-muted-foreground hover:text-foreground disabled:opacity-40 disabled:pointer-events-none"
+                title="Zoom in"
+              >
                 <Plus className="w-3.5 h-3.5" />
               </button>
             </div>
@@ -719,6 +1128,29 @@ export const NoteEditor = ({ note, onNoteChange, onClose, onToggleFavorite, onDe
           className="w-64 flex-shrink-0 hidden lg:flex"
         />
       )}
+
+      {/* Backlinks Panel */}
+      {showBacklinks && onOpenNote && (
+        <BacklinksPanel
+          noteId={note.id}
+          notes={notes}
+          onOpenNote={onOpenNote}
+          className="w-72 flex-shrink-0 hidden lg:flex"
+        />
+      )}
+
+      {/* Revision History Panel */}
+      {showHistory && (
+        <RevisionHistory
+          noteId={note.id}
+          title={debouncedTitle}
+          content={debouncedContent}
+          refreshKey={revisionsVersion}
+          onRestore={handleRestoreRevision}
+          onFork={onForkRevision}
+          className="w-80 flex-shrink-0 hidden md:flex"
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,67 @@
+/**
+ * Note Link Suggestions
+ * Popup list shown while typing `[[` in the editor
+ */
+
+import { forwardRef, useEffect, useImperativeHandle, useState } from 'react';
+import { FileText } from 'lucide-react';
+import { NoteLinkTarget } from '@/lib/tiptap-note-link';
+import { SuggestionListProps, SuggestionListRef } from '@/lib/tiptap-suggestion';
+import { cn } from '@/lib/utils';
+
+export const NoteLinkSuggestions = forwardRef<SuggestionListRef, SuggestionListProps<NoteLinkTarget>>(
+  ({ items, command }, ref) => {
+    const [selectedIndex, setSelectedIndex] = useState(0);
+
+    useEffect(() => setSelectedIndex(0), [items]);
+
+    const select = (index: number) => {
+      const item = items[index];
+      if (item) command(item);
+    };
+
+    useImperativeHandle(ref, () => ({
+      onKeyDown: (event) => {
+        if (event.key === 'ArrowUp') {
+          setSelectedIndex(index => (index + items.length - 1) % Math.max(items.length, 1));
+          return true;
+        }
+        if (event.key === 'ArrowDown') {
+          setSelectedIndex(index => (index + 1) % Math.max(items.length, 1));
+          return true;
+        }
+        if (event.key === 'Enter' || event.key === 'Tab') {
+          select(selectedIndex);
+          return items.length > 0;
+        }
+        return false;
+      },
+    }));
+
+    return (
+      <div className="w-64 max-h-72 overflow-y-auto rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md">
+        {items.length === 0 ? (
+          <div className="px-2 py-1.5 text-sm text-muted-foreground">No matching notes</div>
+        ) : (
+          items.map((item, index) => (
+            <button
+              key={item.id}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(index)}
+              onMouseEnter={() => setSelectedIndex(index)}
+              className={cn(
+                'flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                index === selectedIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+              )}
+            >
+              <FileText className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+              <span className="truncate">{item.title || 'Untitled'}</span>
+            </button>
+          ))
+        )}
+      </div>
+    );
+  }
+);
+
+NoteLinkSuggestions.displayName = 'NoteLinkSuggestions';
@@ -1,125 +1,135 @@
-import { Plus, ChevronLeft, ChevronRight, Undo, Redo, Cloud, Search, MoreVertical, X, FileText, Maximize2 } from "lucide-react";
-import { cn } from "@/lib/utils";
+/**
+ * Note Tabs
+ * The open notes of an editor pane. Tabs can be dragged to the other pane
+ * in split view, and notes dragged from the list open where they are dropped.
+ */
 
-interface OpenNote {
-  id: string;
-  title: string;
+import { memo } from 'react';
+import { DragEndEvent, useDndMonitor, useDraggable, useDroppable } from '@dnd-kit/core';
+import { FileText, X } from 'lucide-react';
+import { EditorPaneId, OpenTab } from '@/lib/editorPanes';
+import { TabDragData, TabStripDropData, isDragItem, isTabDrag, isTabStripDrop } from '@/lib/dnd';
+import { cn } from '@/lib/utils';
+
+// Tabs from the other pane and notes from the list can be dropped on a pane
+const getDroppedNoteId = (data: unknown, pane: EditorPaneId): string | null => {
+  if (isTabDrag(data)) return data.pane === pane ? null : data.noteId;
+  if (isDragItem(data) && data.type === 'note') return data.noteId;
+  return null;
+};
+
+interface NoteTabProps {
+  tab: OpenTab;
+  pane: EditorPaneId;
+  isSelected: boolean;
+  /** Marks the selected tab of the focused pane in split view */
+  isFocused: boolean;
+  onSelect: (id: string) => void;
+  onClose: (id: string, pane: EditorPaneId) => void;
 }
 
+const NoteTab = memo(({ tab, pane, isSelected, isFocused, onSelect, onClose }: NoteTabProps) => {
+  const dragData: TabDragData = { type: 'tab', noteId: tab.id, title: tab.title, pane };
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: `tab-${pane}-${tab.id}`,
+    data: dragData,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      className={cn(
+        'flex items-center gap-2 px-3 py-2 border-r border-border cursor-pointer transition-colors group min-w-0 max-w-[180px]',
+        isSelected
+          ? 'bg-editor text-foreground'
+          : 'bg-background text-muted-foreground hover:text-foreground hover:bg-muted/50',
+        isSelected && isFocused && 'shadow-[inset_0_2px_0_hsl(var(--primary))]',
+        isDragging && 'opacity-50'
+      )}
+      onClick={() => onSelect(tab.id)}
+    >
+      <FileText className="w-4 h-4 flex-shrink-0 text-primary" />
+      <span className="text-sm truncate">{tab.title || 'Untitled'}</span>
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onClose(tab.id, pane);
+        }}
+        className="p-0.5 rounded hover:bg-muted transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0"
+        title="Close tab"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+});
+
+NoteTab.displayName = 'NoteTab';
+
 interface NoteTabsProps {
-  onAddNote: () => void;
-  onNavigateBack: () => void;
-  onNavigateForward: () => void;
-  canGoBack: boolean;
-  canGoForward: boolean;
-  onCollapseList?: () => void;
-  openNotes?: OpenNote[];
-  selectedNoteId?: string | null;
-  onTabSelect?: (id: string) => void;
-  onTabClose?: (id: string) => void;
+  pane: EditorPaneId;
+  tabs: OpenTab[];
+  selectedId: string | null;
+  isFocused?: boolean;
+  onSelect: (id: string) => void;
+  onClose: (id: string, pane: EditorPaneId) => void;
+  /** A tab from the other pane or a note from the list was dropped here */
+  onDropNote: (id: string, pane: EditorPaneId) => void;
+  className?: string;
 }
 
-export const NoteTabs = ({
-  onAddNote,
-  onNavigateBack,
-  onNavigateForward,
-  canGoBack,
-  canGoForward,
-  onCollapseList,
-  openNotes = [],
-  selectedNoteId,
-  onTabSelect,
-  onTabClose,
+export const NoteTabs = memo(({
+  pane,
+  tabs,
+  selectedId,
+  isFocused = false,
+  onSelect,
+  onClose,
+  onDropNote,
+  className,
 }: NoteTabsProps) => {
-  return (
-    <div className="flex items-center bg-background border-b border-border min-h-[40px]">
-      {/* Left side - Add button and navigation */}
-      <div className="flex items-center gap-0.5 px-2 flex-shrink-0 border-r border-border">
-        <button
-          onClick={onAddNote}
-          className="w-7 h-7 rounded-full bg-primary flex items-center justify-center text-primary-foreground hover:bg-primary/90 transition-colors"
-          title="Add new note"
-        >
-          <Plus className="w-4 h-4" />
-        </button>
-        <button
-          onClick={onNavigateBack}
-          disabled={!canGoBack}
-          className={cn(
-            "p-1.5 rounded transition-colors",
-            canGoBack
-              ? "text-muted-foreground hover:text-foreground hover:bg-muted"
-              : "text-muted-foreground/30 cursor-not-allowed"
-          )}
-          title="Go back"
-        >
-          <ChevronLeft className="w-4 h-4" />
-        </button>
-        <button
-          onClick={onNavigateForward}
-          disabled={!canGoForward}
-          className={cn(
-            "p-1.5 rounded transition-colors",
-            canGoForward
-              ? "text-muted-foreground hover:text-foreground hover:bg-muted"
-              : "text-muted-foreground/30 cursor-not-allowed"
-          )}
-          title="Go forward"
-        >
-          <ChevronRight className="w-4 h-4" />
-        </button>
-      </div>
+  const dropData: TabStripDropData = { type: 'tab-strip', pane };
+  const { setNodeRef, isOver, active } = useDroppable({
+    id: `tab-strip-${pane}`,
+    data: dropData,
+  });
+
+  const isDropTarget = isOver && getDroppedNoteId(active?.data.current, pane) !== null;
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const target = over?.data.current;
+    const noteId = getDroppedNoteId(active.data.current, pane);
+    if (isTabStripDrop(target) && target.pane === pane && noteId) {
+      onDropNote(noteId, pane);
+    }
+  };
 
-      {/* Tabs Area */}
-      <div className="flex-1 flex items-center overflow-x-auto scrollbar-none min-w-0">
-        {openNotes.map((note) => (
-          <div
-            key={note.id}
-            className={cn(
-              "flex items-center gap-2 px-3 py-2 border-r border-border cursor-pointer transition-colors group min-w-0 max-w-[180px]",
-              selectedNoteId === note.id
-                ? "bg-editor text-foreground"
-                : "bg-background text-muted-foreground hover:text-foreground hover:bg-muted/50"
-            )}
-            onClick={() => onTabSelect?.(note.id)}
-          >
-            <FileText className="w-4 h-4 flex-shrink-0 text-primary" />
-            <span className="text-sm truncate">{note.title || "Untitled"}</span>
-            <button
-              onClick={(e) => {
-                e.stopPropagation();
-                onTabClose?.(note.id);
-              }}
-              className="p-0.5 rounded hover:bg-muted transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0"
-              title="Close tab"
-            >
-              <X className="w-3 h-3" />
-            </button>
-          </div>
-        ))}
-      </div>
+  useDndMonitor({ onDragEnd: handleDragEnd });
 
-      {/* Right side - Actions */}
-      <div className="flex items-center gap-0.5 px-2 flex-shrink-0 border-l border-border">
-        <button className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors" title="Fullscreen">
-          <Maximize2 className="w-4 h-4" />
-        </button>
-        <button className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors" title="Undo">
-          <Undo className="w-4 h-4" />
-        </button>
-        <button className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors" title="Redo">
-          <Redo className="w-4 h-4" />
-        </button>
-        <button className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors" title="Sync">
-          <Cloud className="w-4 h-4" />
-        </button>
-        <button className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors" title="Search">
-          <Search className="w-4 h-4" />
-        </button>
-        <button className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors" title="More options">
-          <MoreVertical className="w-4 h-4" />
-        </button>
-      </div>
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'flex-1 flex items-center overflow-x-auto scrollbar-none min-w-0 transition-colors',
+        isDropTarget && 'bg-primary/10',
+        className
+      )}
+    >
+      {tabs.map((tab) => (
+        <NoteTab
+          key={tab.id}
+          tab={tab}
+          pane={pane}
+          isSelected={selectedId === tab.id}
+          isFocused={isFocused}
+          onSelect={onSelect}
+          onClose={onClose}
+        />
+      ))}
     </div>
   );
-};
+});
+
+NoteTabs.displayName = 'NoteTabs';
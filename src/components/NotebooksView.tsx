@@ -1,134 +1,339 @@
-import { FolderOpen, Plus, MoreHorizontal, Trash2, Edit2, Notebook } from "lucide-react";
+import { memo, ReactNode, useCallback, useMemo, useState } from "react";
+import {
+  CalendarCheck,
+  ChevronRight,
+  CornerLeftUp,
+  Edit2,
+  FolderPlus,
+  MoreHorizontal,
+  Notebook,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { DragEndEvent, useDndContext, useDndMonitor, useDraggable, useDroppable } from "@dnd-kit/core";
 import { cn } from "@/lib/utils";
+import { buildNotebookTree, canMoveNotebook, NotebookTreeNode } from "@/lib/notebooks";
+import { DragItemData, NotebookDropData, isDragItem, isNotebookDrop } from "@/lib/dnd";
+import { useSettingsStore } from "@/stores/settingsStore";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-interface Notebook {
+interface NotebookItem {
   id: string;
   name: string;
+  parentId?: string;
+  /** Notes in the notebook and all notebooks below it */
   noteCount: number;
 }
 
 interface NotebooksViewProps {
-  notebooks: Notebook[];
+  notebooks: NotebookItem[];
   selectedNotebookId: string | null;
   onNotebookSelect: (id: string) => void;
-  onAddNotebook: () => void;
+  onAddNotebook: (parentId?: string) => void;
   onDeleteNotebook: (id: string) => void;
   onRenameNotebook: (id: string) => void;
+  onMoveNotebook: (id: string, parentId?: string) => void;
+  onMoveNote: (noteId: string, notebookId?: string) => void;
 }
 
-export const NotebooksView = ({
+interface NotebookRowProps {
+  node: NotebookTreeNode<NotebookItem>;
+  isSelected: boolean;
+  isExpanded: boolean;
+  canDrop: (item: DragItemData, notebookId: string) => boolean;
+  onSelect: (id: string) => void;
+  onToggle: (id: string) => void;
+  onAddNotebook: (parentId?: string) => void;
+  onRenameNotebook: (id: string) => void;
+  onDeleteNotebook: (id: string) => void;
+  onMoveNotebook: (id: string, parentId?: string) => void;
+}
+
+const NotebookRow = memo(({
+  node,
+  isSelected,
+  isExpanded,
+  canDrop,
+  onSelect,
+  onToggle,
+  onAddNotebook,
+  onRenameNotebook,
+  onDeleteNotebook,
+  onMoveNotebook,
+}: NotebookRowProps) => {
+  const { notebook, depth, children } = node;
+  const isJournal = useSettingsStore((state) => state.journalNotebookId === notebook.id);
+  const setJournalNotebookId = useSettingsStore((state) => state.setJournalNotebookId);
+
+  const { attributes, listeners, setNodeRef: setDragRef, isDragging } = useDraggable({
+    id: `notebook:${notebook.id}`,
+    data: { type: "notebook", notebookId: notebook.id, title: notebook.name } satisfies DragItemData,
+  });
+  const { setNodeRef: setDropRef, isOver, active } = useDroppable({
+    id: `notebook-target:${notebook.id}`,
+    data: { type: "notebook-target", notebookId: notebook.id } satisfies NotebookDropData,
+  });
+
+  const activeItem = active?.data.current;
+  const isDropTarget = isOver && isDragItem(activeItem) && canDrop(activeItem, notebook.id);
+
+  return (
+    <div
+      ref={(element) => {
+        setDragRef(element);
+        setDropRef(element);
+      }}
+      {...attributes}
+      {...listeners}
+      onClick={() => onSelect(notebook.id)}
+      className={cn(
+        "group w-full flex items-center gap-2 pr-2 py-2 rounded-md text-sm cursor-pointer transition-all duration-200",
+        isSelected
+          ? "bg-primary text-primary-foreground shadow-sm"
+          : "text-sidebar-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground",
+        isDropTarget && "ring-2 ring-primary ring-inset",
+        isDragging && "opacity-50"
+      )}
+      style={{ paddingLeft: `${depth * 14 + 4}px` }}
+    >
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onToggle(notebook.id);
+        }}
+        className={cn(
+          "p-0.5 rounded hover:bg-muted/50 transition-colors",
+          children.length === 0 && "invisible"
+        )}
+        title={isExpanded ? "Collapse" : "Expand"}
+      >
+        <ChevronRight className={cn("w-3.5 h-3.5 transition-transform duration-200", isExpanded && "rotate-90")} />
+      </button>
+      {isJournal ? (
+        <CalendarCheck className="w-4 h-4 flex-shrink-0" />
+      ) : (
+        <Notebook className="w-4 h-4 flex-shrink-0" />
+      )}
+      <span className="flex-1 text-left truncate">{notebook.name}</span>
+      <span className={cn(
+        "text-xs min-w-[20px] text-center group-hover:hidden",
+        isSelected ? "text-primary-foreground/70" : "text-muted-foreground"
+      )}>
+        {notebook.noteCount}
+      </span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            className="hidden group-hover:block data-[state=open]:block p-0.5 rounded hover:bg-muted/50 transition-colors"
+            onClick={(e) => e.stopPropagation()}
+            title="Notebook actions"
+          >
+            <MoreHorizontal className="w-4 h-4" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuItem onClick={() => onAddNotebook(notebook.id)}>
+            <FolderPlus className="w-4 h-4 mr-2" />
+            New Notebook Inside
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onRenameNotebook(notebook.id)}>
+            <Edit2 className="w-4 h-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          {notebook.parentId && (
+            <DropdownMenuItem onClick={() => onMoveNotebook(notebook.id, undefined)}>
+              <CornerLeftUp className="w-4 h-4 mr-2" />
+              Move to Top Level
+            </DropdownMenuItem>
+          )}
+          {!isJournal && (
+            <DropdownMenuItem onClick={() => setJournalNotebookId(notebook.id)}>
+              <CalendarCheck className="w-4 h-4 mr-2" />
+              Use for Journal
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => onDeleteNotebook(notebook.id)}
+            className="text-destructive focus:text-destructive"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+});
+
+NotebookRow.displayName = "NotebookRow";
+
+/**
+ * Drop zone for moving notebooks to the top level or notes out of a notebook
+ */
+const TopLevelDropZone = ({ item }: { item: DragItemData }) => {
+  const { setNodeRef, isOver } = useDroppable({
+    id: "notebook-target:root",
+    data: { type: "notebook-target", notebookId: null } satisfies NotebookDropData,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "mt-2 px-3 py-2 rounded-md border border-dashed text-xs text-center transition-colors",
+        isOver ? "border-primary bg-primary/10 text-primary" : "border-border text-muted-foreground"
+      )}
+    >
+      {item.type === "note" ? "Drop here to remove from notebook" : "Drop here to move to top level"}
+    </div>
+  );
+};
+
+export const NotebooksView = memo(({
   notebooks,
   selectedNotebookId,
   onNotebookSelect,
   onAddNotebook,
   onDeleteNotebook,
   onRenameNotebook,
+  onMoveNotebook,
+  onMoveNote,
 }: NotebooksViewProps) => {
-  return (
-    <div className="w-full h-full bg-sidebar flex flex-col border-r border-border">
-      {/* Header */}
-      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
-        <span className="text-sm font-medium text-foreground">Notebooks</span>
-        <button
-          onClick={onAddNotebook}
-          className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
-          title="Add notebook"
-        >
-          <Plus className="w-4 h-4" />
-        </button>
-      </div>
+  const [filter, setFilter] = useState("");
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(new Set());
+  const { active } = useDndContext();
+  const activeItem = isDragItem(active?.data.current) ? active.data.current : null;
 
-      {/* Filter */}
-      <div className="px-3 py-2">
-        <input
-          type="text"
-          placeholder="Filter notebooks..."
-          className="w-full bg-muted/50 border border-border rounded-md py-2 px-3 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary"
-        />
-      </div>
+  const tree = useMemo(() => buildNotebookTree(notebooks), [notebooks]);
+
+  // Matching notebooks and their ancestors, or null when not filtering
+  const visibleIds = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return null;
+
+    const visible = new Set<string>();
+    const visit = (node: NotebookTreeNode<NotebookItem>): boolean => {
+      const childMatches = node.children.map(visit).some(Boolean);
+      const matches = childMatches || node.notebook.name.toLowerCase().includes(query);
+      if (matches) visible.add(node.notebook.id);
+      return matches;
+    };
+    tree.forEach(visit);
+    return visible;
+  }, [tree, filter]);
+
+  const canDrop = useCallback((item: DragItemData, notebookId: string) =>
+    item.type === "note" ||
+    (item.notebookId !== notebookId && canMoveNotebook(notebooks, item.notebookId, notebookId)),
+  [notebooks]);
+
+  const handleToggle = useCallback((id: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  }, []);
+
+  const handleDragEnd = useCallback((event: DragEndEvent) => {
+    const item = event.active.data.current;
+    const target = event.over?.data.current;
+    if (!isDragItem(item) || !isNotebookDrop(target)) return;
+
+    const notebookId = target.notebookId ?? undefined;
+    if (notebookId && !canDrop(item, notebookId)) return;
+
+    if (item.type === "note") {
+      onMoveNote(item.noteId, notebookId);
+    } else {
+      onMoveNotebook(item.notebookId, notebookId);
+    }
+
+    // Show what was dropped inside the target
+    if (notebookId) {
+      setCollapsedIds((prev) => {
+        const next = new Set(prev);
+        next.delete(notebookId);
+        return next;
+      });
+    }
+  }, [canDrop, onMoveNote, onMoveNotebook]);
 
-      {/* Notebooks List */}
-      <div className="flex-1 overflow-y-auto px-2 py-2">
+  useDndMonitor({ onDragEnd: handleDragEnd });
+
+  const renderNodes = (nodes: NotebookTreeNode<NotebookItem>[]): ReactNode[] =>
+    nodes
+      .filter((node) => !visibleIds || visibleIds.has(node.notebook.id))
+      .map((node) => {
+        const isExpanded = visibleIds !== null || !collapsedIds.has(node.notebook.id);
+        return (
+          <div key={node.notebook.id} className="space-y-0.5">
+            <NotebookRow
+              node={node}
+              isSelected={selectedNotebookId === node.notebook.id}
+              isExpanded={isExpanded}
+              canDrop={canDrop}
+              onSelect={onNotebookSelect}
+              onToggle={handleToggle}
+              onAddNotebook={onAddNotebook}
+              onRenameNotebook={onRenameNotebook}
+              onDeleteNotebook={onDeleteNotebook}
+              onMoveNotebook={onMoveNotebook}
+            />
+            {isExpanded && node.children.length > 0 && renderNodes(node.children)}
+          </div>
+        );
+      });
+
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Notebooks Tree */}
+      <div className="flex-1 px-2 py-2 overflow-y-auto">
         {notebooks.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full text-center px-4">
+          <div className="flex flex-col items-center justify-center h-full text-center px-2">
             <div className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-primary/10 text-primary text-xs mb-3">
               <span className="w-1.5 h-1.5 rounded-full bg-primary" />
               TIP
             </div>
-            <p className="text-sm text-muted-foreground mb-4">
-              Hold Ctrl/Cmd & click on multiple items to select them.
+            <p className="text-xs text-muted-foreground mb-4">
+              Drag notes onto a notebook to move them, or notebooks onto each other to nest them.
             </p>
             <button
-              onClick={onAddNotebook}
-              className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors text-sm py-2 px-4"
+              onClick={() => onAddNotebook()}
+              className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors text-sm py-2 px-3"
             >
               Add a notebook <Plus className="w-4 h-4" />
             </button>
           </div>
+        ) : visibleIds?.size === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-4">No notebooks found</p>
         ) : (
-          <div className="space-y-1">
-            {notebooks.map((notebook) => (
-              <div
-                key={notebook.id}
-                className={cn(
-                  "group flex items-center gap-3 px-3 py-2.5 rounded-md cursor-pointer transition-colors",
-                  selectedNotebookId === notebook.id
-                    ? "bg-primary text-primary-foreground"
-                    : "text-sidebar-foreground hover:bg-sidebar-accent"
-                )}
-                onClick={() => onNotebookSelect(notebook.id)}
-              >
-                <FolderOpen className="w-4 h-4 flex-shrink-0" />
-                <span className="flex-1 text-sm truncate">{notebook.name}</span>
-                <span
-                  className={cn(
-                    "text-xs px-1.5 py-0.5 rounded-full min-w-[20px] text-center",
-                    selectedNotebookId === notebook.id
-                      ? "bg-primary-foreground/20"
-                      : "bg-muted text-muted-foreground"
-                  )}
-                >
-                  {notebook.noteCount}
-                </span>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <button
-                      className={cn(
-                        "p-1 rounded hover:bg-muted/50 transition-all",
-                        selectedNotebookId === notebook.id
-                          ? "opacity-100"
-                          : "opacity-0 group-hover:opacity-100"
-                      )}
-                      onClick={(e) => e.stopPropagation()}
-                    >
-                      <MoreHorizontal className="w-4 h-4" />
-                    </button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" className="w-36">
-                    <DropdownMenuItem onClick={() => onRenameNotebook(notebook.id)}>
-                      <Edit2 className="w-4 h-4 mr-2" />
-                      Rename
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      onClick={() => onDeleteNotebook(notebook.id)}
-                      className="text-destructive focus:text-destructive"
-                    >
-                      <Trash2 className="w-4 h-4 mr-2" />
-                      Delete
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
-            ))}
+          <div className="space-y-0.5">
+            {renderNodes(tree)}
+            {activeItem && <TopLevelDropZone item={activeItem} />}
           </div>
         )}
       </div>
+
+      {/* Filter at bottom */}
+      <div className="px-3 py-2 border-t border-border">
+        <input
+          type="text"
+          placeholder="Filter notebooks..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="w-full bg-transparent text-sm text-foreground placeholder:text-muted-foreground focus:outline-none"
+        />
+      </div>
     </div>
   );
-};
+});
+
+NotebooksView.displayName = "NotebooksView";
@@ -0,0 +1,78 @@
+/**
+ * Notes Drag and Drop Context
+ * Lets notes be reordered in the list and dropped onto notebooks,
+ * notebooks be moved within the tree, reminders be moved between
+ * calendar days, and editor tabs be moved between split panes
+ */
+
+import { ReactNode, useState } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  DragStartEvent,
+  KeyboardSensor,
+  PointerSensor,
+  TouchSensor,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core';
+import { sortableKeyboardCoordinates } from '@dnd-kit/sortable';
+import { Bell, FileText, Notebook } from 'lucide-react';
+import {
+  DragItemData,
+  ReminderDragData,
+  TabDragData,
+  isDragItem,
+  isReminderDrag,
+  isTabDrag,
+  notesCollisionDetection,
+} from '@/lib/dnd';
+
+export const NotesDndContext = ({ children }: { children: ReactNode }) => {
+  const [activeItem, setActiveItem] = useState<DragItemData | ReminderDragData | TabDragData | null>(null);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    }),
+    useSensor(TouchSensor, {
+      activationConstraint: {
+        delay: 200,
+        tolerance: 5,
+      },
+    }),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const data = event.active.data.current;
+    setActiveItem(isDragItem(data) || isReminderDrag(data) || isTabDrag(data) ? data : null);
+  };
+
+  const Icon = activeItem?.type === 'notebook' ? Notebook : activeItem?.type === 'reminder' ? Bell : FileText;
+
+  return (
+    <DndContext
+      sensors={sensors}
+      collisionDetection={notesCollisionDetection}
+      onDragStart={handleDragStart}
+      onDragEnd={() => setActiveItem(null)}
+      onDragCancel={() => setActiveItem(null)}
+    >
+      {children}
+      {/* Rendered outside the panels so the preview is not clipped */}
+      <DragOverlay dropAnimation={null}>
+        {activeItem && (
+          <div className="inline-flex max-w-[240px] items-center gap-2 rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground shadow-lg">
+            <Icon className="w-4 h-4 flex-shrink-0 text-primary" />
+            <span className="truncate">{activeItem.title || 'Untitled'}</span>
+          </div>
+        )}
+      </DragOverlay>
+    </DndContext>
+  );
+};
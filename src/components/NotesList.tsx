@@ -1,19 +1,9 @@
-import { Search, Plus, Star, Trash2, Archive, RotateCcw, MoreHorizontal, ArrowUpDown, LayoutGrid, GripVertical } from "lucide-react";
+import { Search, Plus, Star, Trash2, Archive, RotateCcw, MoreHorizontal, ArrowUpDown, LayoutGrid, GripVertical, Bell, CheckCircle2, Clock, Repeat, CalendarDays, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useCallback, memo } from "react";
-import {
-  DndContext,
-  closestCenter,
-  KeyboardSensor,
-  PointerSensor,
-  TouchSensor,
-  useSensor,
-  useSensors,
-  DragEndEvent,
-} from "@dnd-kit/core";
+import { useDndMonitor, DragEndEvent } from "@dnd-kit/core";
 import {
   SortableContext,
-  sortableKeyboardCoordinates,
   useSortable,
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
@@ -25,8 +15,15 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { HighlightPart } from "@/lib/searchIndex";
+import { DragItemData } from "@/lib/dnd";
+import { NoteReminder, SNOOZE_OPTIONS, formatReminderTime, getAlertTime, isReminderOverdue } from "@/lib/reminders";
 
 interface Note {
   id: string;
@@ -35,6 +32,12 @@ interface Note {
   createdAt: Date;
   tags: string[];
   isFavorite: boolean;
+  reminder?: NoteReminder;
+  /** Search matches to highlight instead of the plain title and preview */
+  highlight?: {
+    title: HighlightPart[];
+    snippet: HighlightPart[];
+  };
 }
 
 interface NotesListProps {
@@ -50,7 +53,12 @@ interface NotesListProps {
   onSearchChange: (query: string) => void;
   activeSection: string;
   onReorderNotes?: (activeId: string, overId: string) => void;
+  onCompleteReminder?: (id: string) => void;
+  onSnoozeReminder?: (id: string, minutes: number) => void;
   hideSearch?: boolean;
+  /** Describes an extra filter on the list, such as a calendar day */
+  filterLabel?: string;
+  onClearFilter?: () => void;
 }
 
 interface SortableNoteItemProps {
@@ -61,11 +69,27 @@ interface SortableNoteItemProps {
   onRestoreNote: (id: string) => void;
   onToggleFavorite: (id: string) => void;
   onArchiveNote: (id: string) => void;
+  onCompleteReminder?: (id: string) => void;
+  onSnoozeReminder?: (id: string, minutes: number) => void;
   activeSection: string;
   formatDate: (date: Date) => string;
   stripHtml: (html: string) => string;
 }
 
+const HighlightedText = ({ parts }: { parts: HighlightPart[] }) => (
+  <>
+    {parts.map((part, index) =>
+      part.highlight ? (
+        <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+          {part.text}
+        </mark>
+      ) : (
+        <span key={index}>{part.text}</span>
+      )
+    )}
+  </>
+);
+
 const SortableNoteItem = ({
   note,
   selectedNoteId,
@@ -74,6 +98,8 @@ const SortableNoteItem = ({
   onRestoreNote,
   onToggleFavorite,
   onArchiveNote,
+  onCompleteReminder,
+  onSnoozeReminder,
   activeSection,
   formatDate,
   stripHtml,
@@ -85,7 +111,10 @@ const SortableNoteItem = ({
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: note.id });
+  } = useSortable({
+    id: note.id,
+    data: { type: "note", noteId: note.id, title: note.title } satisfies DragItemData,
+  });
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -93,6 +122,8 @@ const SortableNoteItem = ({
     opacity: isDragging ? 0.5 : 1,
   };
 
+  const reminder = note.reminder && !note.reminder.completedAt ? note.reminder : undefined;
+
   return (
     <div
       ref={setNodeRef}
@@ -118,25 +149,45 @@ const SortableNoteItem = ({
         </div>
 
         <div className="flex-1 min-w-0">
-          {/* Date */}
+          {/* Date, or the due time in Reminders */}
           <div className="flex items-center gap-1 mb-0.5">
-            <span className="text-[10px] text-primary font-medium">
-              {formatDate(note.createdAt)}
-            </span>
+            {activeSection === "reminders" && reminder ? (
+              <span className={cn(
+                "inline-flex items-center gap-1 text-[10px] font-medium",
+                isReminderOverdue(reminder) ? "text-destructive" : "text-primary"
+              )}>
+                {isReminderOverdue(reminder) ? "Overdue · " : ""}
+                {formatReminderTime(getAlertTime(reminder))}
+                {reminder.recurrence && <Repeat className="w-2.5 h-2.5" />}
+              </span>
+            ) : (
+              <span className="text-[10px] text-primary font-medium">
+                {formatDate(note.createdAt)}
+              </span>
+            )}
             {note.isFavorite && (
               <Star className="w-3 h-3 text-primary fill-primary" />
             )}
+            {reminder && activeSection !== "reminders" && (
+              <Bell className={cn("w-3 h-3", isReminderOverdue(reminder) ? "text-destructive" : "text-primary")} />
+            )}
           </div>
 
           {/* Title */}
           <h3 className="text-sm font-medium text-foreground truncate">
-            {note.title || "Untitled"}
+            {note.title && note.highlight ? <HighlightedText parts={note.highlight.title} /> : note.title || "Untitled"}
           </h3>
 
-          {/* Preview */}
-          <p className="text-xs text-muted-foreground mt-0.5 line-clamp-1">
-            {stripHtml(note.preview) || "No content"}
-          </p>
+          {/* Preview, or the matching passage while searching */}
+          {note.highlight && note.highlight.snippet.length > 0 ? (
+            <p className="text-xs text-muted-foreground mt-0.5 line-clamp-2">
+              <HighlightedText parts={note.highlight.snippet} />
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground mt-0.5 line-clamp-1">
+              {stripHtml(note.preview) || "No content"}
+            </p>
+          )}
         </div>
 
         <DropdownMenu>
@@ -165,6 +216,28 @@ const SortableNoteItem = ({
               </>
             ) : (
               <>
+                {reminder && onCompleteReminder && onSnoozeReminder && (
+                  <>
+                    <DropdownMenuItem onClick={() => onCompleteReminder(note.id)}>
+                      <CheckCircle2 className="w-4 h-4 mr-2" />
+                      Mark as Done
+                    </DropdownMenuItem>
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger>
+                        <Clock className="w-4 h-4 mr-2" />
+                        Snooze
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent className="bg-popover">
+                        {SNOOZE_OPTIONS.map(({ label, minutes }) => (
+                          <DropdownMenuItem key={minutes} onClick={() => onSnoozeReminder(note.id, minutes)}>
+                            {label}
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
+                    <DropdownMenuSeparator />
+                  </>
+                )}
                 <DropdownMenuItem onClick={() => onToggleFavorite(note.id)}>
                   <Star className={cn("w-4 h-4 mr-2", note.isFavorite && "fill-current")} />
                   {note.isFavorite ? "Remove Favorite" : "Add to Favorites"}
@@ -202,25 +275,12 @@ export const NotesList = memo(({
   onSearchChange,
   activeSection,
   onReorderNotes,
+  onCompleteReminder,
+  onSnoozeReminder,
   hideSearch = false,
+  filterLabel,
+  onClearFilter,
 }: NotesListProps) => {
-  const sensors = useSensors(
-    useSensor(PointerSensor, {
-      activationConstraint: {
-        distance: 8,
-      },
-    }),
-    useSensor(TouchSensor, {
-      activationConstraint: {
-        delay: 200,
-        tolerance: 5,
-      },
-    }),
-    useSensor(KeyboardSensor, {
-      coordinateGetter: sortableKeyboardCoordinates,
-    })
-  );
-
   const stripHtml = useCallback((html: string) => {
     const tmp = document.createElement("div");
     tmp.innerHTML = html;
@@ -235,14 +295,20 @@ export const NotesList = memo(({
     }).replace(/\//g, '-');
   }, []);
 
+  // Drops onto notebooks are handled by the notebook tree
   const handleDragEnd = useCallback((event: DragEndEvent) => {
     const { active, over } = event;
 
-    if (over && active.id !== over.id && onReorderNotes) {
+    if (
+      over && active.id !== over.id && onReorderNotes &&
+      active.data.current?.type === "note" && over.data.current?.type === "note"
+    ) {
       onReorderNotes(active.id as string, over.id as string);
     }
   }, [onReorderNotes]);
 
+  useDndMonitor({ onDragEnd: handleDragEnd });
+
   return (
     <div className="w-full h-full bg-notesList flex flex-col border-r border-border">
       {/* Search Header - only show if hideSearch is false */}
@@ -255,6 +321,7 @@ export const NotesList = memo(({
               placeholder="Search in Notes"
               value={searchQuery}
               onChange={(e) => onSearchChange(e.target.value)}
+              data-search-input
               className="w-full bg-muted/30 border border-border rounded-md py-2 pl-9 pr-3 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary"
             />
           </div>
@@ -276,6 +343,23 @@ export const NotesList = memo(({
         </div>
       )}
 
+      {/* Active filter */}
+      {filterLabel && (
+        <div className="flex items-center gap-2 mx-3 my-2 px-2 py-1 rounded-md bg-primary/10 text-primary text-xs">
+          <CalendarDays className="w-3.5 h-3.5 flex-shrink-0" />
+          <span className="flex-1 truncate">{filterLabel}</span>
+          {onClearFilter && (
+            <button
+              onClick={onClearFilter}
+              className="p-0.5 rounded hover:bg-primary/20 transition-colors"
+              title="Clear filter"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Notes List */}
       <div className="flex-1 overflow-hidden px-1">
         {notes.length === 0 ? (
@@ -285,13 +369,21 @@ export const NotesList = memo(({
               TIP
             </div>
             <p className="text-sm text-muted-foreground mb-4">
-              {activeSection === "trash"
+              {searchQuery.trim()
+                ? "No notes match your search"
+                : filterLabel
+                ? "No notes match this filter"
+                : activeSection === "trash"
                 ? "Trash is empty"
                 : activeSection === "archive"
                   ? "No archived notes"
                   : activeSection === "favorites"
                     ? "No favorite notes yet"
-                    : "We value your feedback so join us on Discord and share your experiences and ideas."}
+                    : activeSection === "reminders"
+                      ? "No upcoming reminders. Notes added here get a reminder you can change in the editor."
+                      : activeSection === "templates"
+                        ? "No templates yet. Notes added here become templates for new notes."
+                        : "We value your feedback so join us on Discord and share your experiences and ideas."}
             </p>
             {activeSection !== "trash" && activeSection !== "archive" && (
               <button
@@ -303,36 +395,32 @@ export const NotesList = memo(({
             )}
           </div>
         ) : (
-          <DndContext
-            sensors={sensors}
-            collisionDetection={closestCenter}
-            onDragEnd={handleDragEnd}
+          <SortableContext
+            items={notes.map(n => n.id)}
+            strategy={verticalListSortingStrategy}
           >
-            <SortableContext
-              items={notes.map(n => n.id)}
-              strategy={verticalListSortingStrategy}
-            >
-              <Virtuoso
-                style={{ height: "100%" }}
-                data={notes}
-                itemContent={(index, note) => (
-                  <SortableNoteItem
-                    key={note.id}
-                    note={note}
-                    selectedNoteId={selectedNoteId}
-                    onNoteSelect={onNoteSelect}
-                    onDeleteNote={onDeleteNote}
-                    onRestoreNote={onRestoreNote}
-                    onToggleFavorite={onToggleFavorite}
-                    onArchiveNote={onArchiveNote}
-                    activeSection={activeSection}
-                    formatDate={formatDate}
-                    stripHtml={stripHtml}
-                  />
-                )}
-              />
-            </SortableContext>
-          </DndContext>
+            <Virtuoso
+              style={{ height: "100%" }}
+              data={notes}
+              itemContent={(index, note) => (
+                <SortableNoteItem
+                  key={note.id}
+                  note={note}
+                  selectedNoteId={selectedNoteId}
+                  onNoteSelect={onNoteSelect}
+                  onDeleteNote={onDeleteNote}
+                  onRestoreNote={onRestoreNote}
+                  onToggleFavorite={onToggleFavorite}
+                  onArchiveNote={onArchiveNote}
+                  onCompleteReminder={onCompleteReminder}
+                  onSnoozeReminder={onSnoozeReminder}
+                  activeSection={activeSection}
+                  formatDate={formatDate}
+                  stripHtml={stripHtml}
+                />
+              )}
+            />
+          </SortableContext>
         )}
       </div>
     </div>
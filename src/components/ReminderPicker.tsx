@@ -0,0 +1,215 @@
+/**
+ * Reminder Picker
+ * Sets the due date, time and repetition of a note's reminder, and
+ * snoozes or completes it
+ */
+
+import { memo, useState } from 'react';
+import { Bell, BellOff, CheckCircle2, Clock, Repeat } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  NoteReminder,
+  SNOOZE_OPTIONS,
+  completeReminder,
+  formatReminderTime,
+  getAlertTime,
+  getDefaultDueDate,
+  isReminderOverdue,
+  snoozeReminder,
+} from '@/lib/reminders';
+import { RECURRENCE_PRESETS, describeRecurrence, parseRecurrence } from '@/lib/recurrence';
+
+interface ReminderPickerProps {
+  reminder?: NoteReminder;
+  onChange: (reminder: NoteReminder | undefined) => void;
+  className?: string;
+}
+
+const NO_REPEAT = 'none';
+const CUSTOM_REPEAT = 'custom';
+
+// Value of a datetime-local input, in local time
+const toInputValue = (date: Date) => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000);
+  return local.toISOString().slice(0, 16);
+};
+
+const toRepeatOption = (recurrence?: string) => {
+  if (!recurrence) return NO_REPEAT;
+  return RECURRENCE_PRESETS.some(preset => preset.rule === recurrence) ? recurrence : CUSTOM_REPEAT;
+};
+
+export const ReminderPicker = memo(({ reminder, onChange, className }: ReminderPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [dueInput, setDueInput] = useState('');
+  const [repeat, setRepeat] = useState(NO_REPEAT);
+  const [customRule, setCustomRule] = useState('');
+
+  const isOpenReminder = reminder !== undefined && !reminder.completedAt;
+  const isOverdue = isOpenReminder && isReminderOverdue(reminder);
+  const isCustomValid = repeat !== CUSTOM_REPEAT || parseRecurrence(customRule) !== null;
+  const dueDate = dueInput ? new Date(dueInput) : null;
+  const canSave = dueDate !== null && !Number.isNaN(dueDate.getTime()) && isCustomValid;
+
+  // Start from the saved reminder each time the picker opens
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setDueInput(toInputValue(isOpenReminder ? reminder.dueAt : getDefaultDueDate()));
+      setRepeat(toRepeatOption(reminder?.recurrence));
+      setCustomRule(reminder?.recurrence ?? '');
+    }
+    setOpen(next);
+  };
+
+  const update = (next: NoteReminder | undefined) => {
+    onChange(next);
+    setOpen(false);
+  };
+
+  const handleSave = () => {
+    if (!canSave || !dueDate) return;
+    const recurrence = repeat === NO_REPEAT ? undefined : repeat === CUSTOM_REPEAT ? customRule.trim() : repeat;
+    update({ dueAt: dueDate, recurrence });
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            'inline-flex items-center gap-1 text-xs px-2 py-1 rounded transition-colors',
+            isOverdue
+              ? 'bg-destructive/10 text-destructive hover:bg-destructive/20'
+              : isOpenReminder
+                ? 'bg-primary/10 text-primary hover:bg-primary/20'
+                : 'text-muted-foreground/60 hover:text-foreground hover:bg-muted',
+            className
+          )}
+          title={isOpenReminder ? 'Edit reminder' : 'Add reminder'}
+        >
+          {reminder?.completedAt ? <CheckCircle2 className="w-3 h-3" /> : <Bell className="w-3 h-3" />}
+          {isOpenReminder
+            ? formatReminderTime(getAlertTime(reminder))
+            : reminder?.completedAt ? 'Done' : 'Remind me'}
+          {isOpenReminder && reminder.recurrence && <Repeat className="w-3 h-3" />}
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent align="start" className="w-72 space-y-4">
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium flex items-center gap-2">
+            <Bell className="w-4 h-4 text-primary" />
+            Reminder
+          </h4>
+          {isOpenReminder && (
+            <p className={cn('text-xs', isOverdue ? 'text-destructive' : 'text-muted-foreground')}>
+              {isOverdue ? 'Overdue since' : 'Due'} {formatReminderTime(getAlertTime(reminder))}
+              {reminder.snoozedUntil && ' (snoozed)'}
+              {reminder.recurrence && ` · ${describeRecurrence(reminder.recurrence)}`}
+            </p>
+          )}
+          {reminder?.completedAt && (
+            <p className="text-xs text-muted-foreground">
+              Completed {formatReminderTime(reminder.completedAt)}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="reminder-due" className="text-xs">Due</Label>
+          <Input
+            id="reminder-due"
+            type="datetime-local"
+            value={dueInput}
+            onChange={(e) => setDueInput(e.target.value)}
+            className="h-8 text-xs"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-xs">Repeat</Label>
+          <Select value={repeat} onValueChange={setRepeat}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_REPEAT} className="text-xs">Never</SelectItem>
+              {RECURRENCE_PRESETS.map(({ label, rule }) => (
+                <SelectItem key={rule} value={rule} className="text-xs">{label}</SelectItem>
+              ))}
+              <SelectItem value={CUSTOM_REPEAT} className="text-xs">Custom rule…</SelectItem>
+            </SelectContent>
+          </Select>
+          {repeat === CUSTOM_REPEAT && (
+            <div className="space-y-1">
+              <Input
+                value={customRule}
+                onChange={(e) => setCustomRule(e.target.value)}
+                placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+                className="h-8 text-xs font-mono"
+              />
+              <p className={cn('text-[11px]', isCustomValid ? 'text-muted-foreground' : 'text-destructive')}>
+                {customRule.trim() === ''
+                  ? 'An RRULE with FREQ, INTERVAL, BYDAY, UNTIL or COUNT'
+                  : isCustomValid ? describeRecurrence(customRule) : 'This rule is not supported'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          {reminder ? (
+            <Button variant="ghost" size="sm" onClick={() => update(undefined)} className="text-xs text-muted-foreground">
+              <BellOff className="w-3.5 h-3.5 mr-1" />
+              Remove
+            </Button>
+          ) : <span />}
+          <Button size="sm" onClick={handleSave} disabled={!canSave} className="text-xs">
+            Save
+          </Button>
+        </div>
+
+        {isOpenReminder && (
+          <div className="pt-3 border-t border-border space-y-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => update(completeReminder(reminder))}
+              className="w-full text-xs"
+            >
+              <CheckCircle2 className="w-3.5 h-3.5 mr-1" />
+              {reminder.recurrence ? 'Complete This Occurrence' : 'Mark as Done'}
+            </Button>
+            <div className="flex items-center gap-1">
+              <Clock className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
+              {SNOOZE_OPTIONS.map(({ label, minutes }) => (
+                <Button
+                  key={minutes}
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => update(snoozeReminder(reminder, minutes))}
+                  className="flex-1 h-7 px-1 text-xs"
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+});
+
+ReminderPicker.displayName = 'ReminderPicker';
@@ -0,0 +1,319 @@
+/**
+ * Replace in Notes Dialog
+ * Finds text in the titles and content of every note, or of one notebook
+ * or tag, and previews each match before the chosen ones are replaced
+ */
+
+import { memo, useEffect, useMemo, useState } from 'react';
+import { CaseSensitive, FileText, Regex, Replace, WholeWord } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useDebounce } from '@/hooks/useDebounce';
+import {
+  buildPattern,
+  DEFAULT_FIND_OPTIONS,
+  findInNote,
+  FindOptions,
+  NoteMatches,
+  ReplaceableNote,
+  replaceInNote,
+} from '@/lib/findReplace';
+import { getNotebookPath, getNotebookSubtreeIds, NotebookLike } from '@/lib/notebooks';
+import { isTagInSubtree, normalizeTagPath } from '@/lib/tags';
+import { cn } from '@/lib/utils';
+
+interface SearchableNote extends ReplaceableNote {
+  section: string;
+  notebookId?: string;
+  tags: string[];
+}
+
+interface ReplaceInNotesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  notes: SearchableNote[];
+  notebooks: NotebookLike[];
+  /** Tag paths that can be picked as the scope */
+  tags: string[];
+  /** Called with the new title and content of every changed note */
+  onApply: (changes: ReplaceableNote[], matchCount: number) => void;
+}
+
+const ALL = 'all';
+
+const OPTION_TOGGLES: { key: keyof FindOptions; label: string; icon: typeof CaseSensitive }[] = [
+  { key: 'caseSensitive', label: 'Match Case', icon: CaseSensitive },
+  { key: 'wholeWord', label: 'Whole Word', icon: WholeWord },
+  { key: 'regex', label: 'Regular Expression', icon: Regex },
+];
+
+// Matches are keyed by note, as match ids repeat across notes
+const matchKey = (noteId: string, matchId: string) => `${noteId}:${matchId}`;
+
+export const ReplaceInNotesDialog = memo(({
+  open,
+  onOpenChange,
+  notes,
+  notebooks,
+  tags,
+  onApply,
+}: ReplaceInNotesDialogProps) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<FindOptions>(DEFAULT_FIND_OPTIONS);
+  const [notebookId, setNotebookId] = useState(ALL);
+  const [tag, setTag] = useState(ALL);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  // Each note is parsed for every search, so wait for a pause in typing
+  const debouncedQuery = useDebounce(query, 300);
+  const debouncedReplacement = useDebounce(replacement, 300);
+  const isPending = query !== debouncedQuery || replacement !== debouncedReplacement;
+
+  const notebookOptions = useMemo(
+    () => notebooks
+      .map(notebook => ({ id: notebook.id, name: getNotebookPath(notebooks, notebook.id).join(' / ') }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [notebooks]
+  );
+
+  const pattern = useMemo(
+    () => (debouncedQuery ? buildPattern(debouncedQuery, options) : null),
+    [debouncedQuery, options]
+  );
+  const error = typeof pattern === 'string' ? pattern : undefined;
+
+  // Notes in the trash are left alone
+  const scopedNotes = useMemo(() => {
+    const notebookIds = notebookId === ALL ? null : getNotebookSubtreeIds(notebooks, notebookId);
+    return notes.filter(note =>
+      note.section !== 'trash' &&
+      (!notebookIds || (note.notebookId !== undefined && notebookIds.has(note.notebookId))) &&
+      (tag === ALL || note.tags.some(noteTag => isTagInSubtree(normalizeTagPath(noteTag), tag)))
+    );
+  }, [notes, notebooks, notebookId, tag]);
+
+  const results = useMemo<NoteMatches[]>(() => {
+    if (!open || !(pattern instanceof RegExp)) return [];
+    return scopedNotes
+      .map(note => findInNote(note, pattern, debouncedReplacement, options))
+      .filter((result): result is NoteMatches => result !== null);
+  }, [open, pattern, scopedNotes, debouncedReplacement, options]);
+
+  // A new search or scope starts with every match selected
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [pattern, notebookId, tag]);
+
+  // Notes changing meanwhile (e.g. a reminder firing) keep the selection,
+  // dropping only matches that are gone
+  useEffect(() => {
+    const keys = new Set(results.flatMap(result => result.matches.map(match => matchKey(result.noteId, match.id))));
+    setExcluded(prev => {
+      const next = new Set([...prev].filter(key => keys.has(key)));
+      return next.size === prev.size ? prev : next;
+    });
+  }, [results]);
+
+  const matchCount = results.reduce((count, result) => count + result.matches.length, 0);
+  const selectedCount = matchCount - results.reduce(
+    (count, result) => count + result.matches.filter(match => excluded.has(matchKey(result.noteId, match.id))).length,
+    0
+  );
+
+  const toggleMatches = (keys: string[], checked: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      keys.forEach(key => (checked ? next.delete(key) : next.add(key)));
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!(pattern instanceof RegExp)) return;
+    const notesById = new Map(notes.map(note => [note.id, note]));
+
+    const changes = results.flatMap(result => {
+      const selected = new Set(
+        result.matches.map(match => match.id).filter(id => !excluded.has(matchKey(result.noteId, id)))
+      );
+      const note = notesById.get(result.noteId);
+      if (!note || selected.size === 0) return [];
+      return [replaceInNote(note, pattern, debouncedReplacement, options, selected)];
+    });
+
+    onApply(changes, selectedCount);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[680px] max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Replace className="w-5 h-5 text-primary" />
+            Find and Replace in Notes
+          </DialogTitle>
+          <DialogDescription>
+            Searches note titles and text. Each changed note keeps its previous version in its history.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Query */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-1">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Find"
+              autoFocus
+              className={cn('h-8', error && 'border-destructive focus-visible:ring-destructive')}
+            />
+            {OPTION_TOGGLES.map(({ key, label, icon: Icon }) => (
+              <button
+                key={key}
+                onClick={() => setOptions(prev => ({ ...prev, [key]: !prev[key] }))}
+                className={cn(
+                  'p-1.5 rounded transition-colors flex-shrink-0',
+                  options[key]
+                    ? 'bg-primary/20 text-primary'
+                    : 'text-muted-foreground hover:text-foreground hover:bg-muted'
+                )}
+                title={label}
+                aria-pressed={options[key]}
+              >
+                <Icon className="w-4 h-4" />
+              </button>
+            ))}
+          </div>
+          <Input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+            className="h-8"
+          />
+          {error && <p className="text-xs text-destructive">{error}</p>}
+
+          {/* Scope */}
+          <div className="flex items-center gap-2">
+            <Select value={notebookId} onValueChange={setNotebookId}>
+              <SelectTrigger className="flex-1 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL} className="text-xs">All notebooks</SelectItem>
+                {notebookOptions.map(notebook => (
+                  <SelectItem key={notebook.id} value={notebook.id} className="text-xs">
+                    {notebook.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={tag} onValueChange={setTag}>
+              <SelectTrigger className="flex-1 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL} className="text-xs">All tags</SelectItem>
+                {tags.map(path => (
+                  <SelectItem key={path} value={path} className="text-xs">
+                    #{path}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Matches */}
+        <div className="flex-1 min-h-[120px] overflow-y-auto rounded-lg border border-border divide-y divide-border">
+          {results.length === 0 ? (
+            <p className="p-6 text-center text-sm text-muted-foreground">
+              {!debouncedQuery
+                ? 'Type something to find.'
+                : error
+                  ? 'Fix the pattern to search.'
+                  : `No matches in ${scopedNotes.length} notes.`}
+            </p>
+          ) : (
+            results.map(result => {
+              const keys = result.matches.map(match => matchKey(result.noteId, match.id));
+              const selected = keys.filter(key => !excluded.has(key)).length;
+
+              return (
+                <div key={result.noteId} className="py-1">
+                  <label className="flex items-center gap-2 px-3 py-1.5 cursor-pointer">
+                    <Checkbox
+                      checked={selected === keys.length ? true : selected === 0 ? false : 'indeterminate'}
+                      onCheckedChange={(checked) => toggleMatches(keys, checked === true)}
+                    />
+                    <FileText className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+                    <span className="flex-1 text-sm font-medium truncate">{result.title || 'Untitled'}</span>
+                    <Badge variant="secondary" className="flex-shrink-0">{result.matches.length}</Badge>
+                  </label>
+                  {result.matches.map(match => {
+                    const key = matchKey(result.noteId, match.id);
+                    return (
+                      <label key={key} className="flex items-start gap-2 pl-9 pr-3 py-1 cursor-pointer hover:bg-muted/50">
+                        <Checkbox
+                          checked={!excluded.has(key)}
+                          onCheckedChange={(checked) => toggleMatches([key], checked === true)}
+                          className="mt-0.5"
+                        />
+                        <span className="flex-1 min-w-0 text-xs text-muted-foreground break-words">
+                          {match.field === 'title' && (
+                            <span className="mr-1.5 px-1 rounded bg-muted text-[10px] uppercase tracking-wide">Title</span>
+                          )}
+                          {match.before}
+                          <del className="bg-destructive/15 text-destructive">{match.text}</del>
+                          {match.replacement && (
+                            <ins className="no-underline bg-green-500/15 text-green-600 dark:text-green-400">{match.replacement}</ins>
+                          )}
+                          {match.after}
+                        </span>
+                      </label>
+                    );
+                  })}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {matchCount > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {selectedCount} of {matchCount} matches in {results.length} notes selected.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={selectedCount === 0 || isPending}>
+            Replace {selectedCount > 0 ? `${selectedCount} ` : ''}{selectedCount === 1 ? 'Match' : 'Matches'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+ReplaceInNotesDialog.displayName = 'ReplaceInNotesDialog';
@@ -0,0 +1,231 @@
+import { useEffect, useState, useMemo, useCallback, memo } from 'react';
+import { History, RefreshCw, RotateCcw, GitBranch, Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { NoteRevision } from '@/lib/db';
+import { diffText, getDiffStats } from '@/lib/diff';
+import { getRevisionReasonLabel } from '@/lib/revisions';
+import { htmlToText } from '@/lib/htmlText';
+import { useRevisionsDB } from '@/hooks/useDB';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const CURRENT_VERSION = 'current';
+
+interface RevisionHistoryProps {
+  noteId: string;
+  title: string;
+  content: string;
+  /** Changes whenever a new revision was saved for this note */
+  refreshKey?: number;
+  className?: string;
+  onRestore: (revision: NoteRevision) => void;
+  onFork?: (revision: NoteRevision) => void;
+}
+
+const formatRevisionDate = (date: Date) =>
+  date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const RevisionHistory = memo(({
+  noteId,
+  title,
+  content,
+  refreshKey,
+  className,
+  onRestore,
+  onFork,
+}: RevisionHistoryProps) => {
+  const { loadRevisions, saveRevision } = useRevisionsDB();
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string>(CURRENT_VERSION);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    const loaded = await loadRevisions(noteId);
+    setRevisions(loaded);
+    setIsLoading(false);
+  }, [loadRevisions, noteId]);
+
+  useEffect(() => {
+    setSelectedId(null);
+    setCompareId(CURRENT_VERSION);
+  }, [noteId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  const selected = revisions.find(r => r.id === selectedId) ?? null;
+  const compareTarget = compareId === CURRENT_VERSION
+    ? { title, content }
+    : revisions.find(r => r.id === compareId) ?? { title, content };
+
+  // Diff from the selected revision to the comparison target
+  const diff = useMemo(() => {
+    if (!selected) return null;
+    const parts = diffText(htmlToText(selected.content), htmlToText(compareTarget.content));
+    return { parts, stats: getDiffStats(parts) };
+  }, [selected, compareTarget.content]);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    // Keep the current state so the restore can itself be undone
+    await saveRevision(noteId, { title, content }, 'before-restore');
+    onRestore(selected);
+    setCompareId(CURRENT_VERSION);
+    refresh();
+  };
+
+  return (
+    <div className={cn('flex flex-col bg-sidebar border-l border-border', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border bg-sidebar/50">
+        <div className="flex items-center gap-2">
+          <History className="w-4 h-4 text-primary" />
+          <span className="text-sm font-semibold text-foreground">
+            Revision History
+          </span>
+          <span className="text-xs px-1.5 py-0.5 rounded-full bg-primary/10 text-primary font-medium">
+            {revisions.length}
+          </span>
+        </div>
+        <button
+          onClick={refresh}
+          className="p-1 text-muted-foreground hover:text-foreground transition-colors rounded hover:bg-muted"
+          title="Refresh"
+        >
+          <RefreshCw className={cn('w-4 h-4', isLoading && 'animate-spin')} />
+        </button>
+      </div>
+
+      {revisions.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
+          <div className="w-12 h-12 rounded-full bg-muted/50 flex items-center justify-center mb-3">
+            <Clock className="w-6 h-6 text-muted-foreground" />
+          </div>
+          <p className="text-sm font-medium text-foreground mb-1">No revisions yet</p>
+          <p className="text-xs text-muted-foreground max-w-[200px]">
+            Earlier versions are saved automatically as you edit
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Revision List */}
+          <nav className="max-h-[40%] overflow-y-auto py-2 px-2 border-b border-border">
+            <ul className="space-y-0.5">
+              {revisions.map((revision) => (
+                <li key={revision.id}>
+                  <button
+                    onClick={() => setSelectedId(revision.id)}
+                    className={cn(
+                      'w-full text-left px-3 py-2 rounded-md text-sm transition-colors',
+                      selectedId === revision.id
+                        ? 'bg-primary/10 text-primary'
+                        : 'text-muted-foreground hover:text-foreground hover:bg-muted/70'
+                    )}
+                  >
+                    <span className="block font-medium">{formatRevisionDate(revision.createdAt)}</span>
+                    <span className="block text-xs truncate opacity-80">
+                      {getRevisionReasonLabel(revision.reason)} • {revision.title || 'Untitled'}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </nav>
+
+          {/* Diff */}
+          {selected && diff ? (
+            <div className="flex-1 flex flex-col min-h-0">
+              <div className="px-3 py-2 space-y-2 border-b border-border">
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span className="flex-shrink-0">Compare with</span>
+                  <Select value={compareId} onValueChange={setCompareId}>
+                    <SelectTrigger className="h-7 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={CURRENT_VERSION} className="text-xs">Current version</SelectItem>
+                      {revisions
+                        .filter(r => r.id !== selected.id)
+                        .map(r => (
+                          <SelectItem key={r.id} value={r.id} className="text-xs">
+                            {formatRevisionDate(r.createdAt)}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-3 text-xs">
+                  <span className="text-green-500">+{diff.stats.added} words</span>
+                  <span className="text-red-500">−{diff.stats.removed} words</span>
+                  {selected.title !== compareTarget.title && (
+                    <span className="text-muted-foreground truncate">Title changed</span>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex-1 overflow-y-auto px-3 py-2 text-sm leading-relaxed whitespace-pre-wrap break-words">
+                {diff.parts.length === 0 ? (
+                  <p className="text-xs text-muted-foreground text-center py-4">Both versions are empty</p>
+                ) : (
+                  diff.parts.map((part, index) => (
+                    <span
+                      key={index}
+                      className={cn(
+                        part.type === 'insert' && 'bg-green-500/20 text-green-600 dark:text-green-400',
+                        part.type === 'delete' && 'bg-red-500/20 text-red-600 dark:text-red-400 line-through',
+                        part.type === 'equal' && 'text-muted-foreground'
+                      )}
+                    >
+                      {part.text}
+                    </span>
+                  ))
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="flex items-center gap-2 px-3 py-2 border-t border-border">
+                <button
+                  onClick={handleRestore}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md bg-primary text-primary-foreground hover:bg-primary/90 transition-colors text-xs font-medium"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  Restore
+                </button>
+                {onFork && (
+                  <button
+                    onClick={() => onFork(selected)}
+                    className="flex-1 flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md border border-border hover:bg-muted transition-colors text-xs font-medium"
+                  >
+                    <GitBranch className="w-3.5 h-3.5" />
+                    Fork as new note
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center p-6 text-center">
+              <p className="text-xs text-muted-foreground max-w-[200px]">
+                Select a revision to see what changed
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+});
+
+RevisionHistory.displayName = 'RevisionHistory';
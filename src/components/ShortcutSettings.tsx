@@ -0,0 +1,163 @@
+/**
+ * Shortcut Settings
+ * Lists app shortcuts and lets the user record new bindings. Conflicts
+ * with other shortcuts can be reassigned; reserved keys are rejected.
+ */
+
+import { memo, useEffect, useState } from 'react';
+import { AlertTriangle, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  SHORTCUTS,
+  BindingConflict,
+  eventToBinding,
+  findConflict,
+  formatBinding,
+} from '@/lib/shortcuts';
+import { useShortcutBindings } from '@/hooks/useShortcuts';
+import { useSettingsStore } from '@/stores/settingsStore';
+import { cn } from '@/lib/utils';
+
+interface PendingBinding {
+  id: string;
+  binding: string;
+  conflict: BindingConflict;
+}
+
+const GROUPS = [...new Set(SHORTCUTS.map(shortcut => shortcut.group))];
+
+export const ShortcutSettings = memo(() => {
+  const bindings = useShortcutBindings();
+  const { shortcutOverrides, setShortcutBinding, resetShortcutBinding, resetShortcutBindings } = useSettingsStore();
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [pending, setPending] = useState<PendingBinding | null>(null);
+
+  // Capture the next key combination before anything else handles it
+  useEffect(() => {
+    if (!recordingId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+
+      if (e.key === 'Escape') {
+        setRecordingId(null);
+        return;
+      }
+      if (e.key === 'Backspace' || e.key === 'Delete') {
+        setShortcutBinding(recordingId, null);
+        setRecordingId(null);
+        return;
+      }
+
+      const binding = eventToBinding(e);
+      if (!binding) return;
+
+      const conflict = findConflict(recordingId, binding, bindings);
+      if (conflict) {
+        setPending({ id: recordingId, binding, conflict });
+      } else {
+        setShortcutBinding(recordingId, binding);
+        setPending(null);
+      }
+      setRecordingId(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recordingId, bindings, setShortcutBinding]);
+
+  const handleReassign = () => {
+    if (!pending || pending.conflict.type !== 'shortcut') return;
+    setShortcutBinding(pending.conflict.shortcut.id, null);
+    setShortcutBinding(pending.id, pending.binding);
+    setPending(null);
+  };
+
+  const startRecording = (id: string) => {
+    setPending(null);
+    setRecordingId(current => (current === id ? null : id));
+  };
+
+  return (
+    <div className="space-y-3">
+      {GROUPS.map(group => (
+        <div key={group} className="space-y-2">
+          <h3 className="text-sm font-medium pt-2">{group} Shortcuts</h3>
+          {SHORTCUTS.filter(shortcut => shortcut.group === group).map(shortcut => {
+            const binding = bindings[shortcut.id];
+            const isRecording = recordingId === shortcut.id;
+            const isCustom = shortcut.id in shortcutOverrides;
+
+            return (
+              <div key={shortcut.id} className="space-y-1">
+                <div className="flex items-center justify-between gap-2 p-2 rounded-md hover:bg-muted/50">
+                  <span className="text-sm">{shortcut.label}</span>
+                  <div className="flex items-center gap-1">
+                    {isCustom && !isRecording && (
+                      <button
+                        onClick={() => resetShortcutBinding(shortcut.id)}
+                        className="p-1 text-muted-foreground hover:text-foreground transition-colors rounded hover:bg-muted"
+                        title="Reset to default"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => startRecording(shortcut.id)}
+                      className={cn(
+                        'min-w-[96px] px-2 py-1 text-xs rounded border font-mono transition-colors',
+                        isRecording
+                          ? 'bg-primary/10 border-primary text-primary animate-pulse'
+                          : 'bg-muted border-border hover:border-primary/50'
+                      )}
+                      title="Click to change"
+                    >
+                      {isRecording ? 'Press keys…' : binding ? formatBinding(binding) : 'Not set'}
+                    </button>
+                  </div>
+                </div>
+
+                {pending?.id === shortcut.id && (
+                  <div className="flex items-center gap-2 mx-2 px-3 py-2 rounded-md bg-amber-500/10 text-amber-600 dark:text-amber-400 text-xs">
+                    <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+                    <span className="flex-1">
+                      {formatBinding(pending.binding)}{' '}
+                      {pending.conflict.type === 'reserved'
+                        ? `is reserved (${pending.conflict.reason}).`
+                        : `is already used by "${pending.conflict.shortcut.label}".`}
+                    </span>
+                    {pending.conflict.type === 'shortcut' && (
+                      <Button size="sm" variant="outline" className="h-6 text-xs" onClick={handleReassign}>
+                        Reassign
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={() => setPending(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-2">
+        <p className="text-xs text-muted-foreground">
+          Click a shortcut, then press the new keys. Backspace removes it, Escape cancels.
+        </p>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={resetShortcutBindings}
+          disabled={Object.keys(shortcutOverrides).length === 0}
+        >
+          Reset all
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+ShortcutSettings.displayName = 'ShortcutSettings';
@@ -12,28 +12,32 @@ import {
   FolderOpen,
   SlidersHorizontal,
   Plus,
-  Notebook,
   PanelLeftClose,
   CheckCircle2,
+  CalendarCheck,
+  ListChecks,
+  LayoutTemplate,
   LogOut
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useState } from "react";
 import { ThemeToggle } from "./ThemeToggle";
 import { AppSettings } from "./AppSettings";
 import { BlackNotesLogo } from "./BlackNotesLogo";
 import { LogoutButton } from "./LogoutButton";
+import { NotebooksView } from "./NotebooksView";
+import { TagsView } from "./TagsView";
 
 type SidebarTab = "home" | "notebooks" | "tags";
 
 interface NotebookItem {
   id: string;
   name: string;
+  parentId?: string;
   noteCount: number;
 }
 
 interface TagItem {
-  id: string;
+  /** Full tag path, e.g. `work/projects` */
   name: string;
   noteCount: number;
 }
@@ -48,11 +52,22 @@ interface SidebarProps {
   notebooks: NotebookItem[];
   tags: TagItem[];
   selectedNotebookId: string | null;
-  selectedTagId: string | null;
+  selectedTag: string | null;
   onNotebookSelect: (id: string) => void;
-  onTagSelect: (id: string) => void;
-  onAddNotebook: () => void;
-  onAddTag: () => void;
+  onTagSelect: (path: string) => void;
+  onAddNotebook: (parentId?: string) => void;
+  onRenameNotebook: (id: string) => void;
+  onDeleteNotebook: (id: string) => void;
+  onMoveNotebook: (id: string, parentId?: string) => void;
+  onMoveNote: (noteId: string, notebookId?: string) => void;
+  onAddTag: (parentPath?: string) => void;
+  onRenameTag: (path: string) => void;
+  onMergeTag: (path: string) => void;
+  onDeleteTag: (path: string) => void;
+  onOpenJournal?: () => void;
+  onOpenTasks?: () => void;
+  /** Unticked checklist items across all notes */
+  openTaskCount?: number;
   onCollapse?: () => void;
   isCollapsible?: boolean;
 }
@@ -62,6 +77,7 @@ const navItems = [
   { id: "favorites", label: "Favorites", icon: Star },
   { id: "reminders", label: "Reminders", icon: Bell },
   { id: "monographs", label: "Monographs", icon: BookOpen },
+  { id: "templates", label: "Templates", icon: LayoutTemplate },
   { id: "trash", label: "Trash", icon: Trash2 },
   { id: "archive", label: "Archive", icon: Archive },
 ];
@@ -76,24 +92,24 @@ export const Sidebar = ({
   notebooks,
   tags,
   selectedNotebookId,
-  selectedTagId,
+  selectedTag,
   onNotebookSelect,
   onTagSelect,
   onAddNotebook,
+  onRenameNotebook,
+  onDeleteNotebook,
+  onMoveNotebook,
+  onMoveNote,
   onAddTag,
+  onRenameTag,
+  onMergeTag,
+  onDeleteTag,
+  onOpenJournal,
+  onOpenTasks,
+  openTaskCount = 0,
   onCollapse,
   isCollapsible = false,
 }: SidebarProps) => {
-  const [notebookFilter, setNotebookFilter] = useState("");
-  const [tagFilter, setTagFilter] = useState("");
-
-  const filteredNotebooks = notebooks.filter(nb => 
-    nb.name.toLowerCase().includes(notebookFilter.toLowerCase())
-  );
-
-  const filteredTags = tags.filter(tag => 
-    tag.name.toLowerCase().includes(tagFilter.toLowerCase())
-  );
 
   return (
     <aside className="w-full h-full bg-sidebar flex flex-col border-r border-border min-w-0">
@@ -164,7 +180,7 @@ export const Sidebar = ({
         <div className="flex-1" />
         {(activeTab === "notebooks" || activeTab === "tags") && (
           <button 
-            onClick={activeTab === "notebooks" ? onAddNotebook : onAddTag}
+            onClick={() => (activeTab === "notebooks" ? onAddNotebook() : onAddTag())}
             className="p-2 rounded-md text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
             title={activeTab === "notebooks" ? "Add notebook" : "Add tag"}
           >
@@ -179,6 +195,31 @@ export const Sidebar = ({
       {/* Content based on active tab */}
       {activeTab === "home" && (
         <nav className="flex-1 px-2 py-2 space-y-1 overflow-y-auto">
+          {onOpenJournal && (
+            <button
+              onClick={onOpenJournal}
+              className="w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm text-sidebar-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground transition-all duration-200"
+              title="Open or start today's journal entry"
+            >
+              <CalendarCheck className="w-4 h-4 flex-shrink-0" />
+              <span className="flex-1 text-left truncate">Today</span>
+            </button>
+          )}
+          {onOpenTasks && (
+            <button
+              onClick={onOpenTasks}
+              className="w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm text-sidebar-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground transition-all duration-200"
+              title="Open tasks from all notes"
+            >
+              <ListChecks className="w-4 h-4 flex-shrink-0" />
+              <span className="flex-1 text-left truncate">Tasks</span>
+              {openTaskCount > 0 && (
+                <span className="text-xs px-1.5 py-0.5 rounded-full min-w-[20px] text-center bg-muted text-muted-foreground">
+                  {openTaskCount}
+                </span>
+              )}
+            </button>
+          )}
           {navItems.map((item) => {
             const Icon = item.icon;
             const isActive = activeSection === item.id;
@@ -214,131 +255,28 @@ export const Sidebar = ({
       )}
 
       {activeTab === "notebooks" && (
-        <div className="flex-1 flex flex-col overflow-hidden">
-          {/* Notebooks List */}
-          <div className="flex-1 px-2 py-2 overflow-y-auto">
-            {filteredNotebooks.length === 0 && notebookFilter === "" ? (
-              <div className="flex flex-col items-center justify-center h-full text-center px-2">
-                <div className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-primary/10 text-primary text-xs mb-3">
-                  <span className="w-1.5 h-1.5 rounded-full bg-primary" />
-                  TIP
-                </div>
-                <p className="text-xs text-muted-foreground mb-4">
-                  Hold Ctrl/Cmd & click on multiple items to select them.
-                </p>
-                <button
-                  onClick={onAddNotebook}
-                  className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors text-sm py-2 px-3"
-                >
-                  Add a notebook <Plus className="w-4 h-4" />
-                </button>
-              </div>
-            ) : filteredNotebooks.length === 0 ? (
-              <p className="text-xs text-muted-foreground text-center py-4">No notebooks found</p>
-            ) : (
-              <div className="space-y-1">
-                {filteredNotebooks.map((notebook) => (
-                  <button
-                    key={notebook.id}
-                    onClick={() => onNotebookSelect(notebook.id)}
-                    className={cn(
-                      "w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm transition-all duration-200",
-                      selectedNotebookId === notebook.id
-                        ? "bg-primary text-primary-foreground shadow-sm"
-                        : "text-sidebar-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
-                    )}
-                  >
-                    <Notebook className="w-4 h-4 flex-shrink-0" />
-                    <span className="flex-1 text-left truncate">{notebook.name}</span>
-                    <span className={cn(
-                      "text-xs min-w-[20px] text-center",
-                      selectedNotebookId === notebook.id 
-                        ? "text-primary-foreground/70" 
-                        : "text-muted-foreground"
-                    )}>
-                      {notebook.noteCount}
-                    </span>
-                  </button>
-                ))}
-              </div>
-            )}
-          </div>
-          
-          {/* Filter at bottom */}
-          <div className="px-3 py-2 border-t border-border">
-            <input
-              type="text"
-              placeholder="Filter notebooks..."
-              value={notebookFilter}
-              onChange={(e) => setNotebookFilter(e.target.value)}
-              className="w-full bg-transparent text-sm text-foreground placeholder:text-muted-foreground focus:outline-none"
-            />
-          </div>
-        </div>
+        <NotebooksView
+          notebooks={notebooks}
+          selectedNotebookId={selectedNotebookId}
+          onNotebookSelect={onNotebookSelect}
+          onAddNotebook={onAddNotebook}
+          onDeleteNotebook={onDeleteNotebook}
+          onRenameNotebook={onRenameNotebook}
+          onMoveNotebook={onMoveNotebook}
+          onMoveNote={onMoveNote}
+        />
       )}
 
       {activeTab === "tags" && (
-        <div className="flex-1 flex flex-col overflow-hidden">
-          {/* Tags List */}
-          <div className="flex-1 px-2 py-2 overflow-y-auto">
-            {filteredTags.length === 0 && tagFilter === "" ? (
-              <div className="flex flex-col items-center justify-center h-full text-center px-2">
-                <div className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-primary/10 text-primary text-xs mb-3">
-                  <span className="w-1.5 h-1.5 rounded-full bg-primary" />
-                  TIP
-                </div>
-                <p className="text-xs text-muted-foreground mb-4">
-                  Hold Ctrl/Cmd & click on multiple items to select them.
-                </p>
-                <button
-                  onClick={onAddTag}
-                  className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors text-sm py-2 px-3"
-                >
-                  Add a tag <Plus className="w-4 h-4" />
-                </button>
-              </div>
-            ) : filteredTags.length === 0 ? (
-              <p className="text-xs text-muted-foreground text-center py-4">No tags found</p>
-            ) : (
-              <div className="space-y-1">
-                {filteredTags.map((tag) => (
-                  <button
-                    key={tag.id}
-                    onClick={() => onTagSelect(tag.id)}
-                    className={cn(
-                      "w-full flex items-center gap-3 px-3 py-2.5 rounded-md text-sm transition-all duration-200",
-                      selectedTagId === tag.id
-                        ? "bg-primary text-primary-foreground shadow-sm"
-                        : "text-sidebar-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
-                    )}
-                  >
-                    <Hash className="w-4 h-4 flex-shrink-0" />
-                    <span className="flex-1 text-left truncate">{tag.name}</span>
-                    <span className={cn(
-                      "text-xs min-w-[20px] text-center",
-                      selectedTagId === tag.id 
-                        ? "text-primary-foreground/70" 
-                        : "text-muted-foreground"
-                    )}>
-                      {tag.noteCount}
-                    </span>
-                  </button>
-                ))}
-              </div>
-            )}
-          </div>
-          
-          {/* Filter at bottom */}
-          <div className="px-3 py-2 border-t border-border">
-            <input
-              type="text"
-              placeholder="Filter tags..."
-              value={tagFilter}
-              onChange={(e) => setTagFilter(e.target.value)}
-              className="w-full bg-transparent text-sm text-foreground placeholder:text-muted-foreground focus:outline-none"
-            />
-          </div>
-        </div>
+        <TagsView
+          tags={tags}
+          selectedTag={selectedTag}
+          onTagSelect={onTagSelect}
+          onAddTag={onAddTag}
+          onRenameTag={onRenameTag}
+          onMergeTag={onMergeTag}
+          onDeleteTag={onDeleteTag}
+        />
       )}
 
       {/* Footer - consistent for all tabs */}
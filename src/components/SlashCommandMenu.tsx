@@ -0,0 +1,102 @@
+/**
+ * Slash Command Menu
+ * Popup list of blocks shown while typing `/` in the editor
+ */
+
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { SlashCommandItem } from '@/lib/tiptap-slash-command';
+import { SuggestionListProps, SuggestionListRef } from '@/lib/tiptap-suggestion';
+import { cn } from '@/lib/utils';
+
+export const SlashCommandMenu = forwardRef<SuggestionListRef, SuggestionListProps<SlashCommandItem>>(
+  ({ items, query, command }, ref) => {
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const listRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => setSelectedIndex(0), [items]);
+
+    // Keep the keyboard selection visible
+    useEffect(() => {
+      listRef.current
+        ?.querySelector(`[data-index="${selectedIndex}"]`)
+        ?.scrollIntoView({ block: 'nearest' });
+    }, [selectedIndex]);
+
+    const select = (index: number) => {
+      const item = items[index];
+      if (item) command(item);
+    };
+
+    useImperativeHandle(ref, () => ({
+      onKeyDown: (event) => {
+        if (event.key === 'ArrowUp') {
+          setSelectedIndex(index => (index + items.length - 1) % Math.max(items.length, 1));
+          return true;
+        }
+        if (event.key === 'ArrowDown') {
+          setSelectedIndex(index => (index + 1) % Math.max(items.length, 1));
+          return true;
+        }
+        if (event.key === 'Enter' || event.key === 'Tab') {
+          select(selectedIndex);
+          return items.length > 0;
+        }
+        return false;
+      },
+    }));
+
+    // Group headings only while browsing; filtered results are ranked instead
+    const showGroups = !query.trim();
+
+    return (
+      <div
+        ref={listRef}
+        className="w-72 max-h-80 overflow-y-auto rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md"
+      >
+        {items.length === 0 ? (
+          <div className="px-2 py-1.5 text-sm text-muted-foreground">No matching blocks</div>
+        ) : (
+          items.map((item, index) => {
+            const Icon = item.icon;
+            return (
+              <div key={item.id}>
+                {showGroups && item.group !== items[index - 1]?.group && (
+                  <div className="px-2 pt-2 pb-1 text-[11px] font-medium uppercase tracking-wide text-muted-foreground">
+                    {item.group}
+                  </div>
+                )}
+                <button
+                  data-index={index}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => select(index)}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  className={cn(
+                    'flex w-full items-center gap-3 rounded-sm px-2 py-1.5 text-left text-sm',
+                    index === selectedIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+                  )}
+                >
+                  <span className="flex w-8 h-8 flex-shrink-0 items-center justify-center rounded border border-border bg-background text-muted-foreground">
+                    <Icon className="w-4 h-4" />
+                  </span>
+                  <span className="min-w-0">
+                    <span className="block truncate font-medium">{item.title}</span>
+                    <span
+                      className={cn(
+                        'block truncate text-xs',
+                        index === selectedIndex ? 'text-accent-foreground/80' : 'text-muted-foreground'
+                      )}
+                    >
+                      {item.description}
+                    </span>
+                  </span>
+                </button>
+              </div>
+            );
+          })
+        )}
+      </div>
+    );
+  }
+);
+
+SlashCommandMenu.displayName = 'SlashCommandMenu';
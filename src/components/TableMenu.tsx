@@ -0,0 +1,128 @@
+/**
+ * Table Menu
+ * Toolbar dropdown that inserts a table, or edits the rows, columns,
+ * header and merged cells of the table under the cursor
+ */
+
+import { memo } from 'react';
+import {
+  ArrowDownToLine,
+  ArrowLeftToLine,
+  ArrowRightToLine,
+  ArrowUpToLine,
+  Columns3,
+  Rows3,
+  Table as TableIcon,
+  TableCellsMerge,
+  TableCellsSplit,
+  Trash2,
+} from 'lucide-react';
+import { Editor, useEditorState } from '@tiptap/react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+
+interface TableMenuProps {
+  editor: Editor;
+  className?: string;
+}
+
+export const TableMenu = memo(({ editor, className }: TableMenuProps) => {
+  // Follows the selection, since the actions depend on where the cursor is
+  const { isTable, canMerge, canSplit } = useEditorState({
+    editor,
+    selector: ({ editor }) => ({
+      isTable: editor.isActive('table'),
+      canMerge: editor.can().mergeCells(),
+      canSplit: editor.can().splitCell(),
+    }),
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={cn(
+            'p-2 md:p-1.5 rounded transition-colors flex-shrink-0',
+            isTable
+              ? 'bg-primary/20 text-primary'
+              : 'text-muted-foreground hover:text-foreground hover:bg-muted',
+            className
+          )}
+          title="Table"
+        >
+          <TableIcon className="w-4 h-4" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-52">
+        {!isTable ? (
+          <DropdownMenuItem
+            onClick={() => editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run()}
+          >
+            <TableIcon className="w-4 h-4 mr-2" />
+            Insert Table
+          </DropdownMenuItem>
+        ) : (
+          <>
+            <DropdownMenuItem onClick={() => editor.chain().focus().addRowBefore().run()}>
+              <ArrowUpToLine className="w-4 h-4 mr-2" />
+              Add Row Above
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => editor.chain().focus().addRowAfter().run()}>
+              <ArrowDownToLine className="w-4 h-4 mr-2" />
+              Add Row Below
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => editor.chain().focus().addColumnBefore().run()}>
+              <ArrowLeftToLine className="w-4 h-4 mr-2" />
+              Add Column Left
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => editor.chain().focus().addColumnAfter().run()}>
+              <ArrowRightToLine className="w-4 h-4 mr-2" />
+              Add Column Right
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => editor.chain().focus().mergeCells().run()} disabled={!canMerge}>
+              <TableCellsMerge className="w-4 h-4 mr-2" />
+              Merge Cells
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => editor.chain().focus().splitCell().run()} disabled={!canSplit}>
+              <TableCellsSplit className="w-4 h-4 mr-2" />
+              Split Cell
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => editor.chain().focus().toggleHeaderRow().run()}>
+              <Rows3 className="w-4 h-4 mr-2" />
+              Toggle Header Row
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => editor.chain().focus().toggleHeaderColumn().run()}>
+              <Columns3 className="w-4 h-4 mr-2" />
+              Toggle Header Column
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => editor.chain().focus().deleteRow().run()}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Row
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => editor.chain().focus().deleteColumn().run()}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Column
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => editor.chain().focus().deleteTable().run()}
+              className="text-destructive focus:text-destructive"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete Table
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+});
+
+TableMenu.displayName = 'TableMenu';
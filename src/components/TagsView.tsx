@@ -1,134 +1,228 @@
-import { Hash, Plus, MoreHorizontal, Trash2, Edit2 } from "lucide-react";
+import { memo, ReactNode, useCallback, useMemo, useState } from "react";
+import { ChevronRight, Edit2, GitMerge, Hash, MoreHorizontal, Plus, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { buildTagTree, TagTreeNode } from "@/lib/tags";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 
-interface Tag {
-  id: string;
+interface TagItem {
+  /** Full tag path, e.g. `work/projects` */
   name: string;
+  /** Notes tagged with the path or a path below it */
   noteCount: number;
 }
 
 interface TagsViewProps {
-  tags: Tag[];
-  selectedTagId: string | null;
-  onTagSelect: (id: string) => void;
-  onAddTag: () => void;
-  onDeleteTag: (id: string) => void;
-  onRenameTag: (id: string) => void;
+  tags: TagItem[];
+  selectedTag: string | null;
+  onTagSelect: (path: string) => void;
+  onAddTag: (parentPath?: string) => void;
+  onRenameTag: (path: string) => void;
+  onMergeTag: (path: string) => void;
+  onDeleteTag: (path: string) => void;
 }
 
-export const TagsView = ({
-  tags,
-  selectedTagId,
-  onTagSelect,
+interface TagRowProps {
+  node: TagTreeNode;
+  isSelected: boolean;
+  isExpanded: boolean;
+  onSelect: (path: string) => void;
+  onToggle: (path: string) => void;
+  onAddTag: (parentPath?: string) => void;
+  onRenameTag: (path: string) => void;
+  onMergeTag: (path: string) => void;
+  onDeleteTag: (path: string) => void;
+}
+
+const TagRow = memo(({
+  node,
+  isSelected,
+  isExpanded,
+  onSelect,
+  onToggle,
   onAddTag,
-  onDeleteTag,
   onRenameTag,
-}: TagsViewProps) => {
-  return (
-    <div className="w-full h-full bg-sidebar flex flex-col border-r border-border">
-      {/* Header */}
-      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
-        <span className="text-sm font-medium text-foreground">Tags</span>
+  onMergeTag,
+  onDeleteTag,
+}: TagRowProps) => (
+  <div
+    onClick={() => onSelect(node.path)}
+    className={cn(
+      "group w-full flex items-center gap-2 pr-2 py-2 rounded-md text-sm cursor-pointer transition-all duration-200",
+      isSelected
+        ? "bg-primary text-primary-foreground shadow-sm"
+        : "text-sidebar-foreground hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
+    )}
+    style={{ paddingLeft: `${node.depth * 14 + 4}px` }}
+    title={node.path}
+  >
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onToggle(node.path);
+      }}
+      className={cn(
+        "p-0.5 rounded hover:bg-muted/50 transition-colors",
+        node.children.length === 0 && "invisible"
+      )}
+      title={isExpanded ? "Collapse" : "Expand"}
+    >
+      <ChevronRight className={cn("w-3.5 h-3.5 transition-transform duration-200", isExpanded && "rotate-90")} />
+    </button>
+    <Hash className="w-4 h-4 flex-shrink-0" />
+    <span className="flex-1 text-left truncate">{node.name}</span>
+    <span className={cn(
+      "text-xs min-w-[20px] text-center group-hover:hidden",
+      isSelected ? "text-primary-foreground/70" : "text-muted-foreground"
+    )}>
+      {node.noteCount}
+    </span>
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
         <button
-          onClick={onAddTag}
-          className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
-          title="Add tag"
+          className="hidden group-hover:block data-[state=open]:block p-0.5 rounded hover:bg-muted/50 transition-colors"
+          onClick={(e) => e.stopPropagation()}
+          title="Tag actions"
         >
-          <Plus className="w-4 h-4" />
+          <MoreHorizontal className="w-4 h-4" />
         </button>
-      </div>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-44" onClick={(e) => e.stopPropagation()}>
+        <DropdownMenuItem onClick={() => onAddTag(node.path)}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Nested Tag
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onRenameTag(node.path)}>
+          <Edit2 className="w-4 h-4 mr-2" />
+          Rename
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onMergeTag(node.path)}>
+          <GitMerge className="w-4 h-4 mr-2" />
+          Merge Into…
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          onClick={() => onDeleteTag(node.path)}
+          className="text-destructive focus:text-destructive"
+        >
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  </div>
+));
 
-      {/* Filter */}
-      <div className="px-3 py-2">
-        <input
-          type="text"
-          placeholder="Filter tags..."
-          className="w-full bg-muted/50 border border-border rounded-md py-2 px-3 text-sm text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-1 focus:ring-primary"
-        />
-      </div>
+TagRow.displayName = "TagRow";
+
+export const TagsView = memo(({
+  tags,
+  selectedTag,
+  onTagSelect,
+  onAddTag,
+  onRenameTag,
+  onMergeTag,
+  onDeleteTag,
+}: TagsViewProps) => {
+  const [filter, setFilter] = useState("");
+  const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(new Set());
+
+  const tree = useMemo(
+    () => buildTagTree(tags.map((tag) => tag.name), new Map(tags.map((tag) => [tag.name, tag.noteCount]))),
+    [tags]
+  );
+
+  // Matching tags and their parents, or null when not filtering
+  const visiblePaths = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return null;
+
+    const visible = new Set<string>();
+    const visit = (node: TagTreeNode): boolean => {
+      const childMatches = node.children.map(visit).some(Boolean);
+      const matches = childMatches || node.name.toLowerCase().includes(query);
+      if (matches) visible.add(node.path);
+      return matches;
+    };
+    tree.forEach(visit);
+    return visible;
+  }, [tree, filter]);
+
+  const handleToggle = useCallback((path: string) => {
+    setCollapsedPaths((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(path)) next.add(path);
+      return next;
+    });
+  }, []);
+
+  const renderNodes = (nodes: TagTreeNode[]): ReactNode[] =>
+    nodes
+      .filter((node) => !visiblePaths || visiblePaths.has(node.path))
+      .map((node) => {
+        const isExpanded = visiblePaths !== null || !collapsedPaths.has(node.path);
+        return (
+          <div key={node.path} className="space-y-0.5">
+            <TagRow
+              node={node}
+              isSelected={selectedTag === node.path}
+              isExpanded={isExpanded}
+              onSelect={onTagSelect}
+              onToggle={handleToggle}
+              onAddTag={onAddTag}
+              onRenameTag={onRenameTag}
+              onMergeTag={onMergeTag}
+              onDeleteTag={onDeleteTag}
+            />
+            {isExpanded && node.children.length > 0 && renderNodes(node.children)}
+          </div>
+        );
+      });
 
-      {/* Tags List */}
-      <div className="flex-1 overflow-y-auto px-2 py-2">
+  return (
+    <div className="flex-1 flex flex-col overflow-hidden">
+      {/* Tags Tree */}
+      <div className="flex-1 px-2 py-2 overflow-y-auto">
         {tags.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full text-center px-4">
+          <div className="flex flex-col items-center justify-center h-full text-center px-2">
             <div className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-primary/10 text-primary text-xs mb-3">
               <span className="w-1.5 h-1.5 rounded-full bg-primary" />
               TIP
             </div>
-            <p className="text-sm text-muted-foreground mb-4">
-              Hold Ctrl/Cmd & click on multiple items to select them.
+            <p className="text-xs text-muted-foreground mb-4">
+              Use a slash to nest tags, e.g. work/projects.
             </p>
             <button
-              onClick={onAddTag}
-              className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors text-sm py-2 px-4"
+              onClick={() => onAddTag()}
+              className="inline-flex items-center gap-2 text-primary hover:text-primary/80 transition-colors text-sm py-2 px-3"
             >
               Add a tag <Plus className="w-4 h-4" />
             </button>
           </div>
+        ) : visiblePaths?.size === 0 ? (
+          <p className="text-xs text-muted-foreground text-center py-4">No tags found</p>
         ) : (
-          <div className="space-y-1">
-            {tags.map((tag) => (
-              <div
-                key={tag.id}
-                className={cn(
-                  "group flex items-center gap-3 px-3 py-2.5 rounded-md cursor-pointer transition-colors",
-                  selectedTagId === tag.id
-                    ? "bg-primary text-primary-foreground"
-                    : "text-sidebar-foreground hover:bg-sidebar-accent"
-                )}
-                onClick={() => onTagSelect(tag.id)}
-              >
-                <Hash className="w-4 h-4 flex-shrink-0" />
-                <span className="flex-1 text-sm truncate">{tag.name}</span>
-                <span
-                  className={cn(
-                    "text-xs px-1.5 py-0.5 rounded-full min-w-[20px] text-center",
-                    selectedTagId === tag.id
-                      ? "bg-primary-foreground/20"
-                      : "bg-muted text-muted-foreground"
-                  )}
-                >
-                  {tag.noteCount}
-                </span>
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <button
-                      className={cn(
-                        "p-1 rounded hover:bg-muted/50 transition-all",
-                        selectedTagId === tag.id
-                          ? "opacity-100"
-                          : "opacity-0 group-hover:opacity-100"
-                      )}
-                      onClick={(e) => e.stopPropagation()}
-                    >
-                      <MoreHorizontal className="w-4 h-4" />
-                    </button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" className="w-36">
-                    <DropdownMenuItem onClick={() => onRenameTag(tag.id)}>
-                      <Edit2 className="w-4 h-4 mr-2" />
-                      Rename
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      onClick={() => onDeleteTag(tag.id)}
-                      className="text-destructive focus:text-destructive"
-                    >
-                      <Trash2 className="w-4 h-4 mr-2" />
-                      Delete
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
-            ))}
-          </div>
+          <div className="space-y-0.5">{renderNodes(tree)}</div>
         )}
       </div>
+
+      {/* Filter at bottom */}
+      <div className="px-3 py-2 border-t border-border">
+        <input
+          type="text"
+          placeholder="Filter tags..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="w-full bg-transparent text-sm text-foreground placeholder:text-muted-foreground focus:outline-none"
+        />
+      </div>
     </div>
   );
-};
+});
+
+TagsView.displayName = "TagsView";
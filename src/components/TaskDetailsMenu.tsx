@@ -0,0 +1,105 @@
+/**
+ * Task Details Menu
+ * Toolbar popover that sets the due date and priority of the task item
+ * under the cursor
+ */
+
+import { memo, useState } from 'react';
+import { Flag } from 'lucide-react';
+import { Editor, useEditorState } from '@tiptap/react';
+import { addDays } from 'date-fns';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Calendar } from '@/components/ui/calendar';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { fromDayKey, toDayKey } from '@/lib/calendar';
+import { TASK_PRIORITIES, formatTaskDue, isTaskPriority } from '@/lib/tasks';
+
+interface TaskDetailsMenuProps {
+  editor: Editor;
+  className?: string;
+}
+
+export const TaskDetailsMenu = memo(({ editor, className }: TaskDetailsMenuProps) => {
+  const [open, setOpen] = useState(false);
+  // Follows the selection, so the button shows only inside a task item
+  const { isTaskItem, dueDate, priority } = useEditorState({
+    editor,
+    selector: ({ editor }) => {
+      const attributes = editor.getAttributes('taskItem');
+      return {
+        isTaskItem: editor.isActive('taskItem'),
+        dueDate: (attributes.dueDate as string | null) ?? null,
+        priority: (attributes.priority as string | null) ?? null,
+      };
+    },
+  });
+  const hasDetails = Boolean(dueDate || priority);
+
+  const setDueDate = (day: Date | null) => {
+    editor.chain().focus().setTaskDueDate(day ? toDayKey(day) : null).run();
+    setOpen(false);
+  };
+
+  const setPriority = (value: string) => {
+    editor.chain().focus().setTaskPriority(isTaskPriority(value) ? value : null).run();
+  };
+
+  if (!isTaskItem) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            'p-2 md:p-1.5 rounded transition-colors flex-shrink-0',
+            hasDetails
+              ? 'bg-primary/20 text-primary'
+              : 'text-muted-foreground hover:text-foreground hover:bg-muted',
+            className
+          )}
+          title="Task Due Date & Priority"
+        >
+          <Flag className="w-4 h-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-auto p-0">
+        <div className="space-y-2 p-3 border-b border-border">
+          <p className="text-xs font-medium text-muted-foreground">Priority</p>
+          <ToggleGroup type="single" size="sm" value={priority ?? ''} onValueChange={setPriority} className="justify-start">
+            {TASK_PRIORITIES.map(({ id, label }) => (
+              <ToggleGroupItem key={id} value={id} className="h-7 text-xs">{label}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+        <div className="flex items-center gap-1 px-3 pt-3">
+          <p className="flex-1 text-xs font-medium text-muted-foreground">
+            {dueDate ? `Due ${formatTaskDue(dueDate)}` : 'Due date'}
+          </p>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setDueDate(new Date())}>
+            Today
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setDueDate(addDays(new Date(), 1))}>
+            Tomorrow
+          </Button>
+        </div>
+        <Calendar
+          mode="single"
+          selected={dueDate ? fromDayKey(dueDate) : undefined}
+          defaultMonth={dueDate ? fromDayKey(dueDate) : undefined}
+          onSelect={(day) => setDueDate(day ?? null)}
+        />
+        {dueDate && (
+          <div className="px-3 pb-3">
+            <Button variant="outline" size="sm" className="w-full h-7 text-xs" onClick={() => setDueDate(null)}>
+              Clear Due Date
+            </Button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+});
+
+TaskDetailsMenu.displayName = 'TaskDetailsMenu';
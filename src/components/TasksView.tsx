@@ -0,0 +1,233 @@
+/**
+ * Tasks View
+ * Checklist items from every note, grouped by due date and filtered by
+ * notebook or tag. Ticking an item updates the note it comes from.
+ */
+
+import { memo, useMemo, useState } from 'react';
+import { CheckSquare, FileText, ListChecks, X } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { NotebookLike, getNotebookPath, getNotebookSubtreeIds } from '@/lib/notebooks';
+import { isTagInSubtree, normalizeTagPath } from '@/lib/tags';
+import {
+  NoteTask,
+  TASK_GROUP_LABELS,
+  TASK_PRIORITIES,
+  TaskGroup,
+  compareTasks,
+  formatTaskDue,
+  getTaskGroup,
+} from '@/lib/tasks';
+
+interface TasksViewProps {
+  tasks: NoteTask[];
+  notebooks: NotebookLike[];
+  tags: string[];
+  onToggleTask: (noteId: string, index: number, checked: boolean) => void;
+  onOpenNote: (id: string) => void;
+  onClose: () => void;
+}
+
+const ALL = 'all';
+const GROUP_ORDER: TaskGroup[] = ['overdue', 'today', 'upcoming', 'someday', 'done'];
+
+interface TaskRowProps {
+  task: NoteTask;
+  group: TaskGroup;
+  onToggleTask: (noteId: string, index: number, checked: boolean) => void;
+  onOpenNote: (id: string) => void;
+}
+
+const TaskRow = memo(({ task, group, onToggleTask, onOpenNote }: TaskRowProps) => {
+  const priority = TASK_PRIORITIES.find((option) => option.id === task.priority);
+
+  return (
+    <div className="group flex items-start gap-3 px-4 py-2 hover:bg-muted/40 transition-colors">
+      <Checkbox
+        checked={task.checked}
+        onCheckedChange={(checked) => onToggleTask(task.noteId, task.index, checked === true)}
+        className="mt-0.5"
+        aria-label={task.checked ? 'Mark as open' : 'Mark as done'}
+      />
+      <div className="flex-1 min-w-0">
+        <p className={cn('text-sm break-words', task.checked ? 'text-muted-foreground line-through' : 'text-foreground')}>
+          {task.text || 'Empty task'}
+        </p>
+        <div className="flex flex-wrap items-center gap-2 mt-0.5 text-[11px]">
+          <button
+            onClick={() => onOpenNote(task.noteId)}
+            className="flex items-center gap-1 text-muted-foreground hover:text-primary transition-colors min-w-0"
+            title="Open note"
+          >
+            <FileText className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{task.noteTitle}</span>
+          </button>
+          {priority && (
+            <span
+              className={cn(
+                'px-1.5 rounded-full',
+                priority.id === 'high'
+                  ? 'bg-destructive/10 text-destructive'
+                  : priority.id === 'medium'
+                    ? 'bg-amber-500/10 text-amber-600 dark:text-amber-400'
+                    : 'bg-muted text-muted-foreground'
+              )}
+            >
+              {priority.label}
+            </span>
+          )}
+          {task.dueDate && (
+            <span className={cn(group === 'overdue' ? 'text-destructive' : 'text-muted-foreground')}>
+              Due {formatTaskDue(task.dueDate)}
+            </span>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+TaskRow.displayName = 'TaskRow';
+
+export const TasksView = memo(({
+  tasks,
+  notebooks,
+  tags,
+  onToggleTask,
+  onOpenNote,
+  onClose,
+}: TasksViewProps) => {
+  const [notebookId, setNotebookId] = useState(ALL);
+  const [tag, setTag] = useState(ALL);
+  const [showCompleted, setShowCompleted] = useState(false);
+
+  const notebookOptions = useMemo(
+    () => notebooks
+      .map((notebook) => ({ id: notebook.id, name: getNotebookPath(notebooks, notebook.id).join(' / ') }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [notebooks]
+  );
+
+  const groups = useMemo(() => {
+    // A notebook includes the notebooks nested in it, and a tag its subtags
+    const notebookIds = notebookId === ALL ? null : getNotebookSubtreeIds(notebooks, notebookId);
+    const visible = tasks.filter((task) =>
+      (showCompleted || !task.checked) &&
+      (!notebookIds || (task.notebookId !== undefined && notebookIds.has(task.notebookId))) &&
+      (tag === ALL || task.tags.some((taskTag) => isTagInSubtree(normalizeTagPath(taskTag), tag)))
+    );
+
+    const now = new Date();
+    const byGroup = new Map<TaskGroup, NoteTask[]>();
+    visible.forEach((task) => {
+      const group = getTaskGroup(task, now);
+      byGroup.set(group, [...(byGroup.get(group) ?? []), task]);
+    });
+
+    return GROUP_ORDER
+      .filter((group) => byGroup.has(group))
+      .map((group) => ({ group, tasks: byGroup.get(group)!.sort(compareTasks) }));
+  }, [tasks, notebooks, notebookId, tag, showCompleted]);
+
+  const openCount = useMemo(() => tasks.filter((task) => !task.checked).length, [tasks]);
+
+  return (
+    <div className="h-full flex flex-col bg-editor">
+      {/* Header */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-border">
+        <div className="flex items-center gap-2 text-sm font-medium text-foreground">
+          <ListChecks className="w-4 h-4 text-primary" />
+          Tasks
+          <span className="text-xs font-normal text-muted-foreground">{openCount} open</span>
+        </div>
+
+        <div className="flex-1" />
+
+        <Select value={notebookId} onValueChange={setNotebookId}>
+          <SelectTrigger className="h-7 w-auto max-w-[180px] gap-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL} className="text-xs">All notebooks</SelectItem>
+            {notebookOptions.map(({ id, name }) => (
+              <SelectItem key={id} value={id} className="text-xs">{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={tag} onValueChange={setTag}>
+          <SelectTrigger className="h-7 w-auto max-w-[160px] gap-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL} className="text-xs">All tags</SelectItem>
+            {tags.map((path) => (
+              <SelectItem key={path} value={path} className="text-xs">#{path}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1.5">
+          <Switch id="tasks-show-completed" checked={showCompleted} onCheckedChange={setShowCompleted} className="scale-75" />
+          <Label htmlFor="tasks-show-completed" className="text-xs text-muted-foreground">Completed</Label>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="p-1.5 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+          title="Close tasks"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Tasks */}
+      <div className="flex-1 overflow-y-auto">
+        {groups.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center gap-3 p-8 text-center">
+            <CheckSquare className="w-10 h-10 text-muted-foreground/40" />
+            <p className="text-sm text-muted-foreground">
+              {tasks.length === 0
+                ? 'No tasks yet. Add a task list to a note with / or the toolbar.'
+                : 'No open tasks match these filters'}
+            </p>
+          </div>
+        ) : (
+          groups.map(({ group, tasks: groupTasks }) => (
+            <section key={group} className="py-2">
+              <h3
+                className={cn(
+                  'px-4 py-1 text-[11px] font-medium uppercase tracking-wide',
+                  group === 'overdue' ? 'text-destructive' : 'text-muted-foreground'
+                )}
+              >
+                {TASK_GROUP_LABELS[group]} · {groupTasks.length}
+              </h3>
+              {groupTasks.map((task) => (
+                <TaskRow
+                  key={`${task.noteId}-${task.index}`}
+                  task={task}
+                  group={group}
+                  onToggleTask={onToggleTask}
+                  onOpenNote={onOpenNote}
+                />
+              ))}
+            </section>
+          ))
+        )}
+      </div>
+    </div>
+  );
+});
+
+TasksView.displayName = 'TasksView';
@@ -0,0 +1,78 @@
+/**
+ * Template Bar
+ * Shown above a template in the editor: where notes created from it go,
+ * and a button to create one
+ */
+
+import { memo } from 'react';
+import { LayoutTemplate } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { TEMPLATE_TARGET_SECTIONS } from '@/lib/templates';
+
+interface TemplateBarProps {
+  templateId: string;
+  templateSection?: string;
+  notebookId?: string;
+  /** Notebooks with their full path as the name */
+  notebooks: { id: string; name: string }[];
+  onChange: (id: string, fields: { templateSection?: string; notebookId?: string }) => void;
+  onUse: (id: string) => void;
+}
+
+const NO_NOTEBOOK = 'none';
+
+export const TemplateBar = memo(({
+  templateId,
+  templateSection,
+  notebookId,
+  notebooks,
+  onChange,
+  onUse,
+}: TemplateBarProps) => (
+  <div className="flex flex-wrap items-center gap-2 px-4 py-1.5 border-b border-border bg-muted/30 text-xs">
+    <LayoutTemplate className="w-3.5 h-3.5 text-primary flex-shrink-0" />
+    <span className="font-medium text-foreground">Template</span>
+    <span className="text-muted-foreground">New notes go to</span>
+    <Select
+      value={templateSection ?? 'notes'}
+      onValueChange={(section) => onChange(templateId, { templateSection: section, notebookId })}
+    >
+      <SelectTrigger className="h-7 w-auto gap-1 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {TEMPLATE_TARGET_SECTIONS.map(({ id, label }) => (
+          <SelectItem key={id} value={id} className="text-xs">{label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <span className="text-muted-foreground">in</span>
+    <Select
+      value={notebookId ?? NO_NOTEBOOK}
+      onValueChange={(id) => onChange(templateId, { templateSection, notebookId: id === NO_NOTEBOOK ? undefined : id })}
+    >
+      <SelectTrigger className="h-7 w-auto max-w-[200px] gap-1 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_NOTEBOOK} className="text-xs">No notebook</SelectItem>
+        {notebooks.map(({ id, name }) => (
+          <SelectItem key={id} value={id} className="text-xs">{name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <div className="flex-1" />
+    <Button size="sm" onClick={() => onUse(templateId)} className="h-7 text-xs">
+      Use Template
+    </Button>
+  </div>
+));
+
+TemplateBar.displayName = 'TemplateBar';
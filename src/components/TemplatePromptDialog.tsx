@@ -0,0 +1,87 @@
+/**
+ * Template Prompt Dialog
+ * Asks for the values of a template's `{{title}}` and `{{prompt:…}}`
+ * placeholders before the note is created
+ */
+
+import { FormEvent, memo, useEffect, useState } from 'react';
+import { LayoutTemplate } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface TemplatePromptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templateTitle: string;
+  prompts: string[];
+  onConfirm: (answers: Record<string, string>) => void;
+}
+
+export const TemplatePromptDialog = memo(({
+  open,
+  onOpenChange,
+  templateTitle,
+  prompts,
+  onConfirm,
+}: TemplatePromptDialogProps) => {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+
+  // Start empty each time the dialog opens
+  useEffect(() => {
+    if (open) setAnswers({});
+  }, [open]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onConfirm(answers);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <LayoutTemplate className="w-5 h-5 text-primary" />
+              New note from "{templateTitle || 'Untitled'}"
+            </DialogTitle>
+            <DialogDescription>
+              Fill in the template. Fields left empty stay blank in the note.
+            </DialogDescription>
+          </DialogHeader>
+
+          {prompts.map((prompt, index) => (
+            <div key={prompt} className="space-y-2">
+              <Label htmlFor={`template-prompt-${index}`}>{prompt}</Label>
+              <Input
+                id={`template-prompt-${index}`}
+                value={answers[prompt] ?? ''}
+                onChange={(e) => setAnswers((prev) => ({ ...prev, [prompt]: e.target.value }))}
+                autoFocus={index === 0}
+              />
+            </div>
+          ))}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">Create Note</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+});
+
+TemplatePromptDialog.displayName = 'TemplatePromptDialog';
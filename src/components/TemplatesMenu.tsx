@@ -0,0 +1,52 @@
+/**
+ * Templates Menu
+ * Lists the templates to create a note from, opened from a button next to
+ * the new note button
+ */
+
+import { memo, ReactNode } from 'react';
+import { FileText, LayoutTemplate } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface TemplatesMenuProps {
+  templates: { id: string; title: string }[];
+  onSelect: (id: string) => void;
+  onManage: () => void;
+  /** The button that opens the menu */
+  children: ReactNode;
+}
+
+export const TemplatesMenu = memo(({ templates, onSelect, onManage, children }: TemplatesMenuProps) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+    <DropdownMenuContent align="start" className="w-56">
+      <DropdownMenuLabel className="text-xs text-muted-foreground">New from Template</DropdownMenuLabel>
+      {templates.length === 0 ? (
+        <p className="px-2 py-1.5 text-xs text-muted-foreground">
+          No templates yet. Notes added under Templates become templates.
+        </p>
+      ) : (
+        templates.map((template) => (
+          <DropdownMenuItem key={template.id} onClick={() => onSelect(template.id)}>
+            <FileText className="w-4 h-4 mr-2" />
+            <span className="truncate">{template.title || 'Untitled'}</span>
+          </DropdownMenuItem>
+        ))
+      )}
+      <DropdownMenuSeparator />
+      <DropdownMenuItem onClick={onManage}>
+        <LayoutTemplate className="w-4 h-4 mr-2" />
+        Manage Templates
+      </DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+));
+
+TemplatesMenu.displayName = 'TemplatesMenu';
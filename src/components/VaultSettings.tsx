@@ -23,7 +23,9 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 import { useVaultStore } from '@/stores/vaultStore';
+import { useSettingsStore } from '@/stores/settingsStore';
 import { ConfirmationDialog } from '@/components/ConfirmationDialog';
+import { ImportPreviewDialog } from '@/components/ImportPreviewDialog';
 import { copySensitiveData } from '@/lib/clipboard';
 import {
   createVaultBackup,
@@ -33,7 +35,9 @@ import {
   restoreVaultBackup,
   BackupPreview,
 } from '@/lib/crypto';
-import { db } from '@/lib/db';
+import { db, ImportPayload } from '@/lib/db';
+import { attachmentToBackup } from '@/lib/attachments';
+import { ImportPlan, MergeOptions } from '@/lib/importMerge';
 import { cn } from '@/lib/utils';
 
 // LocalStorage keys
@@ -60,6 +64,7 @@ export const VaultSettings = memo(({ onVaultDeleted }: VaultSettingsProps) => {
     destroyVault,
     lockVault,
   } = useVaultStore();
+  const resetSettings = useSettingsStore((state) => state.resetSettings);
 
   // Local state
   const [showMnemonic, setShowMnemonic] = useState(false);
@@ -75,7 +80,8 @@ export const VaultSettings = memo(({ onVaultDeleted }: VaultSettingsProps) => {
   
   // Backup preview
   const [backupPreview, setBackupPreview] = useState<BackupPreview | null>(null);
-  const [pendingBackupFile, setPendingBackupFile] = useState<File | null>(null);
+  const [pendingBackupData, setPendingBackupData] = useState<ImportPayload['data'] | null>(null);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
 
   // Load last backup date
   useEffect(() => {
@@ -168,16 +174,23 @@ export const VaultSettings = memo(({ onVaultDeleted }: VaultSettingsProps) => {
     setIsProcessing(true);
     try {
       // Get all data from IndexedDB
-      const [notes, notebooks, tags, settings] = await Promise.all([
+      const [notes, notebooks, tags, settings, attachments] = await Promise.all([
         db.getAllNotes(),
         db.getAllNotebooks(),
         db.getAllTags(),
         db.getSettings(),
+        db.getAllAttachments(),
       ]);
 
       // Create encrypted backup
       const backup = await createVaultBackup(
-        { notes: notes as unknown[], notebooks, tags, settings },
+        {
+          notes: notes as unknown[],
+          notebooks,
+          tags,
+          settings,
+          attachments: await Promise.all(attachments.map(attachmentToBackup)),
+        },
         encryptionKey,
         vaultId,
         encryptionAlgorithm
@@ -227,8 +240,16 @@ export const VaultSettings = memo(({ onVaultDeleted }: VaultSettingsProps) => {
         return;
       }
 
+      const data = await restoreVaultBackup(backup, encryptionKey);
+      if (!data) {
+        throw new Error('Failed to decrypt backup');
+      }
+
+      // Compare with the vault before anything is written
+      const backupData = data as unknown as ImportPayload['data'];
+      setImportPlan(await db.previewImport({ data: backupData }));
       setBackupPreview(preview);
-      setPendingBackupFile(file);
+      setPendingBackupData(backupData);
       setShowRestoreDialog(true);
     } catch (error) {
       console.error('Backup parse failed:', error);
@@ -247,32 +268,17 @@ export const VaultSettings = memo(({ onVaultDeleted }: VaultSettingsProps) => {
   }, [encryptionKey, toast]);
 
   // Restore backup handler
-  const handleRestoreBackup = useCallback(async () => {
-    if (!pendingBackupFile || !encryptionKey) return;
+  const handleRestoreBackup = useCallback(async (options: MergeOptions) => {
+    if (!pendingBackupData) return;
 
     setIsProcessing(true);
     try {
-      const backup = await parseBackupFile(pendingBackupFile);
-      const data = await restoreVaultBackup(backup, encryptionKey);
-
-      if (!data) {
-        throw new Error('Failed to decrypt backup');
-      }
-
-      // Clear existing data and import backup
-      await db.clearAll();
-      await db.importData({ 
-        data: {
-          notes: data.notes as unknown[],
-          notebooks: data.notebooks as unknown[],
-          tags: data.tags as unknown[],
-          settings: data.settings as Record<string, unknown>,
-        }
-      });
+      // Merge by id so data created since the backup is kept
+      await db.importData({ data: pendingBackupData }, { mode: 'merge', ...options });
 
       toast({
         title: 'Backup Restored',
-        description: `Successfully restored ${backupPreview?.noteCount || 0} notes.`,
+        description: `Merged ${backupPreview?.noteCount || 0} notes from the backup.`,
       });
       console.log('✅ Backup restored successfully');
     } catch (error) {
@@ -286,9 +292,10 @@ export const VaultSettings = memo(({ onVaultDeleted }: VaultSettingsProps) => {
       setIsProcessing(false);
       setShowRestoreDialog(false);
       setBackupPreview(null);
-      setPendingBackupFile(null);
+      setPendingBackupData(null);
+      setImportPlan(null);
     }
-  }, [pendingBackupFile, encryptionKey, backupPreview, toast]);
+  }, [pendingBackupData, backupPreview, toast]);
 
   // Delete account handler
   const handleDeleteAccount = useCallback(async () => {
@@ -301,8 +308,9 @@ export const VaultSettings = memo(({ onVaultDeleted }: VaultSettingsProps) => {
       localStorage.removeItem(STORAGE_KEYS.LAST_BACKUP_DATE);
       localStorage.removeItem('hadesnotes-vault');
       
-      // Destroy vault state
+      // Destroy vault state, and settings that refer to its notes
       destroyVault();
+      resetSettings();
 
       toast({
         title: 'Account Deleted',
@@ -322,7 +330,7 @@ export const VaultSettings = memo(({ onVaultDeleted }: VaultSettingsProps) => {
       setIsProcessing(false);
       setShowDeleteStep2(false);
     }
-  }, [destroyVault, toast, onVaultDeleted]);
+  }, [destroyVault, resetSettings, toast, onVaultDeleted]);
 
   // Format date for display
   const formatDate = (dateString: string) => {
@@ -563,23 +571,23 @@ export const VaultSettings = memo(({ onVaultDeleted }: VaultSettingsProps) => {
         isLoading={isProcessing}
       />
 
-      {/* Restore Backup Confirmation Dialog */}
-      <ConfirmationDialog
+      {/* Restore Backup Preview Dialog */}
+      <ImportPreviewDialog
         open={showRestoreDialog}
         onOpenChange={(open) => {
           setShowRestoreDialog(open);
           if (!open) {
             setBackupPreview(null);
-            setPendingBackupFile(null);
+            setPendingBackupData(null);
+            setImportPlan(null);
           }
         }}
+        plan={importPlan}
         title="Restore Backup"
-        description={backupPreview ? 
-          `This will replace all current data with the backup from ${formatDate(backupPreview.backupDate)}.\n\nBackup contains:\n• ${backupPreview.noteCount} notes\n• ${backupPreview.notebookCount} notebooks\n• ${backupPreview.tagCount} tags` :
-          'Restore data from backup file.'
+        description={backupPreview
+          ? `Backup from ${formatDate(backupPreview.backupDate)} with ${backupPreview.noteCount} notes, ${backupPreview.notebookCount} notebooks, ${backupPreview.tagCount} tags and ${backupPreview.attachmentCount} attachments.`
+          : 'Restore data from backup file.'
         }
-        confirmText="Restore Backup"
-        variant="warning"
         onConfirm={handleRestoreBackup}
         isLoading={isProcessing}
       />
@@ -0,0 +1,17 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { AppCommand, commandRegistry } from '@/lib/commands';
+
+/**
+ * Custom hook that registers commands while the component is mounted
+ * @param commands Memoized list of commands; re-registered when it changes
+ */
+export function useRegisterCommands(commands: AppCommand[]) {
+  useEffect(() => commandRegistry.register(commands), [commands]);
+}
+
+/**
+ * Custom hook returning every registered command
+ */
+export function useCommands(): AppCommand[] {
+  return useSyncExternalStore(commandRegistry.subscribe, commandRegistry.getCommands);
+}
@@ -1,5 +1,11 @@
-import { useEffect, useCallback, useState } from 'react';
-import { db, Note, Notebook, Tag } from '@/lib/db';
+import { useEffect, useCallback, useMemo, useState, useRef, useSyncExternalStore } from 'react';
+import { db, Note, Notebook, Tag, NoteRevision, RevisionReason, RecordChanges } from '@/lib/db';
+import { MigrationProgress } from '@/lib/dbMigrations';
+import { getSnapshotReason, markSnapshot, NoteState } from '@/lib/revisions';
+import { searchIndex, restoreSearchIndex, scheduleSearchIndexSave, IndexableNote } from '@/lib/searchIndex';
+import { ParsedQuery } from '@/lib/searchQuery';
+import { Attachment, MAX_ATTACHMENT_SIZE, createAttachment, formatFileSize } from '@/lib/attachments';
+import { useSettingsStore } from '@/stores/settingsStore';
 import { useToast } from './use-toast';
 
 /**
@@ -224,6 +230,277 @@ export function useDBStats() {
   return { stats, refreshStats };
 }
 
+interface PersistedCollections {
+  notes: Note[];
+  notebooks: Notebook[];
+  tags: Tag[];
+}
+
+type PersistedSnapshot = { [K in keyof PersistedCollections]: Map<string, PersistedCollections[K][number]> };
+
+const toSnapshot = (collections: PersistedCollections): PersistedSnapshot => ({
+  notes: new Map(collections.notes.map(note => [note.id, note])),
+  notebooks: new Map(collections.notebooks.map(notebook => [notebook.id, notebook])),
+  tags: new Map(collections.tags.map(tag => [tag.id, tag])),
+});
+
+interface CollectionChanges<T> extends RecordChanges<T> {
+  /** Snapshot records of the deleted ids, put back if the write fails */
+  removed: T[];
+}
+
+/**
+ * Find records that changed since the last write. State updates are
+ * immutable, so a record whose object identity is unchanged is clean.
+ */
+function diffCollection<T extends { id: string }>(persisted: Map<string, T>, current: T[]): CollectionChanges<T> {
+  const put = current.filter(record => persisted.get(record.id) !== record);
+  const currentIds = new Set(current.map(record => record.id));
+  const deleted = Array.from(persisted.keys()).filter(id => !currentIds.has(id));
+  const removed = deleted.map(id => persisted.get(id)!);
+
+  // Keep the snapshot in step with what is about to be written
+  put.forEach(record => persisted.set(record.id, record));
+  deleted.forEach(id => persisted.delete(id));
+
+  return { put, delete: deleted, removed };
+}
+
+/**
+ * Undo a diff in the snapshot after its write failed, so the next change
+ * retries both the writes and the deletes
+ */
+function revertCollection<T extends { id: string }>(persisted: Map<string, T>, changes: CollectionChanges<T>) {
+  changes.put.forEach(record => persisted.delete(record.id));
+  changes.removed.forEach(record => persisted.set(record.id, record));
+}
+
+/**
+ * Delete attachments no note refers to any more
+ */
+function pruneAttachments() {
+  db.pruneAttachments().catch(error => console.error('Error removing unused attachments:', error));
+}
+
+/**
+ * Custom hook that persists only the notes, notebooks and tags that changed,
+ * batching every write and delete into a single transaction. The search
+ * index follows the same changes, and attachments of deleted notes are
+ * collected.
+ */
+export function useIncrementalPersistence(collections: PersistedCollections, enabled: boolean) {
+  const { toast } = useToast();
+  const snapshot = useRef<PersistedSnapshot>(toSnapshot({ notes: [], notebooks: [], tags: [] }));
+  const writeQueue = useRef<Promise<void>>(Promise.resolve());
+
+  /**
+   * Record collections as already stored, e.g. right after loading them
+   */
+  const markPersisted = useCallback((persisted: PersistedCollections) => {
+    snapshot.current = toSnapshot(persisted);
+    // The snapshot follows every change made while the saved index loads
+    restoreSearchIndex(() => Array.from(snapshot.current.notes.values()));
+    pruneAttachments();
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const changes = {
+      notes: diffCollection(snapshot.current.notes, collections.notes),
+      notebooks: diffCollection(snapshot.current.notebooks, collections.notebooks),
+      tags: diffCollection(snapshot.current.tags, collections.tags),
+    };
+    const isEmpty = Object.values(changes).every(c => c.put.length === 0 && c.delete.length === 0);
+    if (isEmpty) return;
+
+    searchIndex.update(changes.notes.put);
+    searchIndex.remove(changes.notes.delete);
+
+    // Writes run one after another so they land in the order they were made
+    writeQueue.current = writeQueue.current
+      .then(() => db.applyChanges(changes))
+      .then(() => {
+        if (changes.notes.put.length > 0 || changes.notes.delete.length > 0) {
+          scheduleSearchIndexSave();
+        }
+        if (changes.notes.delete.length > 0) pruneAttachments();
+      })
+      .catch((error) => {
+        console.error('Error saving changes:', error);
+        revertCollection(snapshot.current.notes, changes.notes);
+        revertCollection(snapshot.current.notebooks, changes.notebooks);
+        revertCollection(snapshot.current.tags, changes.tags);
+        toast({
+          title: 'Save failed',
+          description: 'Failed to save your changes',
+          variant: 'destructive',
+        });
+      });
+  }, [collections.notes, collections.notebooks, collections.tags, enabled, toast]);
+
+  return { markPersisted };
+}
+
+/**
+ * Custom hook for querying the full-text index. Returns a new object
+ * whenever the index changes, so memoized searches re-run.
+ */
+export function useSearchIndex() {
+  const version = useSyncExternalStore(searchIndex.subscribe, searchIndex.getVersion);
+
+  return useMemo(() => ({
+    version,
+    search: <T extends IndexableNote>(notes: T[], query: ParsedQuery) => searchIndex.search(notes, query),
+  }), [version]);
+}
+
+/**
+ * Custom hook for note revision history
+ */
+export function useRevisionsDB() {
+  const { toast } = useToast();
+  const retention = useSettingsStore((state) => state.revisionRetention);
+
+  const loadRevisions = useCallback(async (noteId: string) => {
+    try {
+      return await db.getRevisions(noteId);
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+      toast({
+        title: 'Error loading history',
+        description: 'Failed to load revisions for this note',
+        variant: 'destructive',
+      });
+      return [];
+    }
+  }, [toast]);
+
+  /**
+   * Store a state of a note as a revision and apply the retention policy
+   */
+  const saveRevision = useCallback(async (noteId: string, state: NoteState, reason: RevisionReason) => {
+    const revision: NoteRevision = {
+      id: crypto.randomUUID(),
+      noteId,
+      title: state.title,
+      content: state.content,
+      createdAt: new Date(),
+      reason,
+    };
+
+    try {
+      await db.saveRevision(revision);
+      markSnapshot(noteId, state, revision.createdAt.getTime());
+      await db.pruneRevisions(noteId, retention);
+      return revision;
+    } catch (error) {
+      console.error('Error saving revision:', error);
+      return null;
+    }
+  }, [retention]);
+
+  /**
+   * Snapshot the previous state of a note if the edit is meaningful
+   */
+  const snapshotIfNeeded = useCallback(async (noteId: string, previous: NoteState, next: NoteState) => {
+    const reason = getSnapshotReason(noteId, previous, next);
+    if (!reason) return null;
+    return saveRevision(noteId, previous, reason);
+  }, [saveRevision]);
+
+  return {
+    loadRevisions,
+    saveRevision,
+    snapshotIfNeeded,
+  };
+}
+
+/**
+ * Custom hook for images and files attached to notes
+ */
+export function useAttachmentsDB() {
+  const { toast } = useToast();
+
+  /**
+   * Encrypt and store files, skipping those over the size limit; returns
+   * the stored attachments in order
+   */
+  const addFiles = useCallback(async (files: File[]) => {
+    const tooLarge = files.filter(file => file.size > MAX_ATTACHMENT_SIZE);
+    if (tooLarge.length > 0) {
+      toast({
+        title: tooLarge.length === 1 ? 'File too large' : 'Files too large',
+        description: `${tooLarge.map(file => file.name).join(', ')} exceeds the ${formatFileSize(MAX_ATTACHMENT_SIZE)} limit`,
+        variant: 'destructive',
+      });
+    }
+
+    const added: Attachment[] = [];
+    for (const file of files.filter(file => file.size <= MAX_ATTACHMENT_SIZE)) {
+      try {
+        const attachment = await createAttachment(file);
+        await db.saveAttachment(attachment);
+        added.push(attachment);
+      } catch (error) {
+        console.error('Error saving attachment:', error);
+        toast({
+          title: 'Attachment failed',
+          description: `Failed to attach ${file.name}`,
+          variant: 'destructive',
+        });
+      }
+    }
+    return added;
+  }, [toast]);
+
+  const loadAttachment = useCallback(async (id: string) => {
+    try {
+      return await db.getAttachment(id);
+    } catch (error) {
+      console.error('Error loading attachment:', error);
+      return null;
+    }
+  }, []);
+
+  const loadAttachmentInfo = useCallback(async (id: string) => {
+    try {
+      return await db.getAttachmentInfo(id);
+    } catch (error) {
+      console.error('Error loading attachment:', error);
+      return null;
+    }
+  }, []);
+
+  return {
+    addFiles,
+    loadAttachment,
+    loadAttachmentInfo,
+  };
+}
+
+/**
+ * Custom hook that runs a callback whenever data is imported into IndexedDB
+ */
+export function useDataImported(onImported: () => void) {
+  useEffect(() => db.onDataImported(onImported), [onImported]);
+}
+
+/**
+ * Custom hook for observing database schema migrations
+ */
+export function useMigrationProgress() {
+  const [progress, setProgress] = useState<MigrationProgress>(() => db.getMigrationProgress());
+
+  useEffect(() => {
+    // Pick up anything reported between the initial render and subscribing
+    setProgress(db.getMigrationProgress());
+    return db.onMigrationProgress(setProgress);
+  }, []);
+
+  return progress;
+}
+
 /**
  * Custom hook for data export/import
  */
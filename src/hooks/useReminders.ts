@@ -0,0 +1,38 @@
+import { useEffect, useRef } from 'react';
+import { getDueReminders, getNextAlertTime, ReminderNote } from '@/lib/reminders';
+
+// Timers stall while the computer sleeps, so check at least this often
+const MAX_CHECK_INTERVAL = 60 * 1000;
+
+/**
+ * Custom hook that calls `onDue` with the notes whose reminders are due.
+ * Checks again at the next alert time while the app is open; `onDue`
+ * should mark the reminders as notified so they alert only once.
+ */
+export function useReminderScheduler<T extends ReminderNote>(
+  notes: T[],
+  onDue: (notes: T[]) => void,
+  enabled = true
+) {
+  const onDueRef = useRef(onDue);
+  onDueRef.current = onDue;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+
+    const check = () => {
+      const now = new Date();
+      const due = getDueReminders(notes, now);
+      if (due.length > 0) onDueRef.current(due);
+
+      const next = getNextAlertTime(notes, now);
+      const delay = next ? Math.min(next.getTime() - now.getTime(), MAX_CHECK_INTERVAL) : MAX_CHECK_INTERVAL;
+      timer = setTimeout(check, delay);
+    };
+
+    check();
+    return () => clearTimeout(timer);
+  }, [notes, enabled]);
+}
@@ -0,0 +1,49 @@
+import { useEffect, useMemo } from 'react';
+import { commandRegistry } from '@/lib/commands';
+import { eventToBinding, hasCommandModifier, resolveBindings } from '@/lib/shortcuts';
+import { useSettingsStore } from '@/stores/settingsStore';
+
+/**
+ * Custom hook returning the effective binding of every shortcut
+ */
+export function useShortcutBindings(): Record<string, string | null> {
+  const overrides = useSettingsStore((state) => state.shortcutOverrides);
+  return useMemo(() => resolveBindings(overrides), [overrides]);
+}
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Custom hook that listens for shortcuts and runs the matching commands.
+ * Mount once, near the root of the app.
+ */
+export function useShortcutManager() {
+  const bindings = useShortcutBindings();
+
+  useEffect(() => {
+    const commandsByBinding = new Map<string, string>();
+    Object.entries(bindings).forEach(([id, binding]) => {
+      if (binding) commandsByBinding.set(binding, id);
+    });
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.isComposing) return;
+
+      const binding = eventToBinding(e);
+      const commandId = binding && commandsByBinding.get(binding);
+      if (!binding || !commandId) return;
+
+      // Plain keys keep typing in inputs and the editor
+      if (isEditableTarget(e.target) && !hasCommandModifier(binding)) return;
+
+      if (commandRegistry.run(commandId)) {
+        e.preventDefault();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [bindings]);
+}
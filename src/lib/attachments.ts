@@ -0,0 +1,132 @@
+/**
+ * Attachments
+ * Images and files embedded in notes. Their bytes are kept encrypted in the
+ * attachments store and notes refer to them by id, as
+ * `<div data-type="attachment" data-id="…" data-mime="image/png" data-size="…">photo.png</div>`.
+ */
+
+import { decodeBase64, encodeBase64 } from 'tweetnacl-util';
+
+/** Largest file that can be attached */
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Attachments younger than this survive garbage collection, as the note
+ * that refers to them may not have been saved yet
+ */
+export const ATTACHMENT_GRACE_PERIOD = 60 * 60 * 1000;
+
+// Longest side of image thumbnails, in pixels
+const THUMBNAIL_SIZE = 320;
+
+export interface Attachment {
+  id: string;
+  name: string;
+  /** MIME type, such as `image/png` or `application/pdf` */
+  type: string;
+  size: number;
+  createdAt: Date;
+  data: Blob;
+  /** JPEG data URL of a scaled-down image, for images only */
+  thumbnail?: string;
+}
+
+/** An attachment without its bytes */
+export type AttachmentInfo = Omit<Attachment, 'data'>;
+
+/**
+ * An attachment in a backup or JSON export, with its bytes as base64
+ */
+export interface BackupAttachment extends Omit<Attachment, 'data' | 'createdAt'> {
+  createdAt: string;
+  data: string;
+}
+
+export const isImageType = (type: string) => type.startsWith('image/');
+
+// Blob URLs share the app's origin, so only types the browser shows
+// without running scripts (unlike HTML or SVG) are opened or shown inline
+const INERT_TYPES = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/bmp',
+  'application/pdf',
+]);
+
+export const isInertType = (type: string) => INERT_TYPES.has(type);
+
+/**
+ * Cheap check before parsing the HTML
+ */
+export const hasAttachments = (html: string) => html.includes('data-type="attachment"');
+
+/**
+ * Ids of the attachments a note's HTML refers to
+ */
+export function getAttachmentIds(html: string): string[] {
+  if (!hasAttachments(html)) return [];
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.querySelectorAll('div[data-type="attachment"][data-id]'))
+    .map(element => element.getAttribute('data-id')!);
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Scaled-down JPEG of an image, or undefined when the browser can't decode it
+ */
+export async function createThumbnail(image: Blob): Promise<string | undefined> {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch (error) {
+    console.warn('Failed to create thumbnail:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Attachment for a dropped, pasted or picked file
+ */
+export async function createAttachment(file: File): Promise<Attachment> {
+  const type = file.type || 'application/octet-stream';
+  return {
+    id: crypto.randomUUID(),
+    name: file.name || 'Untitled',
+    type,
+    size: file.size,
+    createdAt: new Date(),
+    data: file,
+    thumbnail: isImageType(type) ? await createThumbnail(file) : undefined,
+  };
+}
+
+export async function attachmentToBackup({ data, createdAt, ...info }: Attachment): Promise<BackupAttachment> {
+  return {
+    ...info,
+    createdAt: createdAt.toISOString(),
+    data: encodeBase64(new Uint8Array(await data.arrayBuffer())),
+  };
+}
+
+export function attachmentFromBackup({ data, createdAt, ...info }: BackupAttachment): Attachment {
+  return {
+    ...info,
+    createdAt: new Date(createdAt),
+    data: new Blob([decodeBase64(data)], { type: info.type }),
+  };
+}
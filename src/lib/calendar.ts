@@ -0,0 +1,147 @@
+/**
+ * Calendar
+ * Places notes on the days they were created or updated and reminders on
+ * the days they are due, for the month and week calendar views
+ */
+
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  parse,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { NoteReminder, ReminderNote, hasOpenReminder, isReminderOverdue } from './reminders';
+
+export type CalendarMode = 'month' | 'week';
+
+/** Which date places a note on the calendar */
+export type CalendarDateField = 'createdAt' | 'updatedAt';
+
+export interface CalendarNote extends ReminderNote {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CalendarEntry {
+  kind: 'note' | 'reminder';
+  noteId: string;
+  title: string;
+  date: Date;
+  overdue?: boolean;
+  recurring?: boolean;
+}
+
+// Sunday first, like the date picker
+const WEEK_OPTIONS = { weekStartsOn: 0 } as const;
+const DAY_KEY_FORMAT = 'yyyy-MM-dd';
+
+/**
+ * Local date key of a day, such as `2026-10-18`
+ */
+export const toDayKey = (date: Date) => format(date, DAY_KEY_FORMAT);
+
+export const fromDayKey = (key: string) => parse(key, DAY_KEY_FORMAT, new Date());
+
+/**
+ * The days shown for a month, padded to whole weeks, or for one week
+ */
+export function getCalendarDays(anchor: Date, mode: CalendarMode): Date[] {
+  const start = mode === 'month' ? startOfMonth(anchor) : anchor;
+  const end = mode === 'month' ? endOfMonth(anchor) : anchor;
+  return eachDayOfInterval({
+    start: startOfWeek(start, WEEK_OPTIONS),
+    end: endOfWeek(end, WEEK_OPTIONS),
+  });
+}
+
+export function shiftCalendar(anchor: Date, mode: CalendarMode, direction: 1 | -1): Date {
+  return mode === 'month' ? addMonths(anchor, direction) : addWeeks(anchor, direction);
+}
+
+/**
+ * "October 2026" for a month, "Oct 18 – Oct 24, 2026" for a week
+ */
+export function getCalendarTitle(anchor: Date, mode: CalendarMode): string {
+  if (mode === 'month') return format(anchor, 'MMMM yyyy');
+  const start = startOfWeek(anchor, WEEK_OPTIONS);
+  const end = endOfWeek(anchor, WEEK_OPTIONS);
+  return `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`;
+}
+
+/**
+ * "Sun, 10-18-2026", in the app's date format
+ */
+export const formatCalendarDay = (day: Date) => format(day, 'EEE, MM-dd-yyyy');
+
+export const getWeekdayLabels = () =>
+  getCalendarDays(new Date(), 'week').map(day => format(day, 'EEE'));
+
+/**
+ * Calendar entries grouped by day key: open reminders first, by due time,
+ * then notes by time
+ */
+export function groupCalendarEntries(
+  notes: CalendarNote[],
+  dateField: CalendarDateField,
+  now: Date = new Date()
+): Map<string, CalendarEntry[]> {
+  const entries: CalendarEntry[] = [];
+
+  notes.forEach(note => {
+    if (note.section === 'trash') return;
+    entries.push({ kind: 'note', noteId: note.id, title: note.title, date: note[dateField] });
+    if (hasOpenReminder(note)) {
+      const reminder = note.reminder!;
+      entries.push({
+        kind: 'reminder',
+        noteId: note.id,
+        title: note.title,
+        date: reminder.dueAt,
+        overdue: isReminderOverdue(reminder, now),
+        recurring: Boolean(reminder.recurrence),
+      });
+    }
+  });
+
+  entries.sort((a, b) =>
+    a.kind !== b.kind ? (a.kind === 'reminder' ? -1 : 1) : a.date.getTime() - b.date.getTime()
+  );
+
+  const byDay = new Map<string, CalendarEntry[]>();
+  entries.forEach(entry => {
+    const key = toDayKey(entry.date);
+    const day = byDay.get(key);
+    if (day) {
+      day.push(entry);
+    } else {
+      byDay.set(key, [entry]);
+    }
+  });
+  return byDay;
+}
+
+/**
+ * Whether a note is on a calendar day, by its date or its reminder's due date
+ */
+export function isNoteOnDay(note: CalendarNote, day: Date, dateField: CalendarDateField): boolean {
+  if (isSameDay(note[dateField], day)) return true;
+  return hasOpenReminder(note) && isSameDay(note.reminder!.dueAt, day);
+}
+
+/**
+ * Move a reminder to another day at the same time of day. The new due
+ * time alerts afresh, so any snooze is dropped.
+ */
+export function rescheduleReminder(reminder: NoteReminder, day: Date): NoteReminder {
+  const dueAt = new Date(day);
+  dueAt.setHours(reminder.dueAt.getHours(), reminder.dueAt.getMinutes(), 0, 0);
+  return { ...reminder, dueAt, snoozedUntil: undefined, notifiedAt: undefined };
+}
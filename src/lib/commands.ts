@@ -0,0 +1,76 @@
+/**
+ * Command Registry
+ * Actions shown in the command palette. Features register their commands
+ * while mounted and remove them again on unmount.
+ */
+
+import type { ComponentType } from 'react';
+
+export interface AppCommand {
+  /** Stable id, e.g. `note.new` */
+  id: string;
+  title: string;
+  /** Palette group heading */
+  group: string;
+  icon?: ComponentType<{ className?: string }>;
+  /** Extra words the palette matches on */
+  keywords?: string[];
+  /** Hide the command while this returns false */
+  isAvailable?: () => boolean;
+  run: () => void;
+}
+
+class CommandRegistry {
+  private commands = new Map<string, AppCommand>();
+  private snapshot: AppCommand[] = [];
+  private listeners = new Set<() => void>();
+
+  /**
+   * Add commands, replacing any with the same id.
+   * Returns a function that removes them again.
+   */
+  register(commands: AppCommand[]): () => void {
+    commands.forEach(command => this.commands.set(command.id, command));
+    this.emit();
+
+    return () => {
+      commands.forEach(command => {
+        // Only remove what this call added, not a later re-registration
+        if (this.commands.get(command.id) === command) {
+          this.commands.delete(command.id);
+        }
+      });
+      this.emit();
+    };
+  }
+
+  get(id: string): AppCommand | undefined {
+    return this.commands.get(id);
+  }
+
+  /**
+   * Run a command by id, returns false if it is missing or unavailable
+   */
+  run(id: string): boolean {
+    const command = this.commands.get(id);
+    if (!command || (command.isAvailable && !command.isAvailable())) return false;
+    command.run();
+    return true;
+  }
+
+  getCommands = (): AppCommand[] => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  private emit(): void {
+    this.snapshot = [...this.commands.values()];
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const commandRegistry = new CommandRegistry();
@@ -8,6 +8,7 @@
 import * as bip39 from 'bip39';
 import nacl from 'tweetnacl';
 import { encodeBase64, decodeBase64, encodeUTF8, decodeUTF8 } from 'tweetnacl-util';
+import type { NoteReminder } from './reminders';
 
 // Constants
 const PBKDF2_ITERATIONS = 100000;
@@ -204,6 +205,73 @@ export async function decryptData(
   }
 }
 
+/**
+ * Encrypt binary data, such as an attachment, using specified algorithm.
+ * Like encryptData, the IV or nonce is prepended to the ciphertext.
+ */
+export async function encryptBytes(
+  data: Uint8Array,
+  key: Uint8Array,
+  algorithm: EncryptionAlgorithm = DEFAULT_ALGORITHM
+): Promise<Uint8Array> {
+  let prefix: Uint8Array;
+  let encrypted: Uint8Array;
+
+  switch (algorithm) {
+    case 'aes-256-gcm': {
+      prefix = generateIV();
+      const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'AES-GCM' }, false, ['encrypt']);
+      encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: prefix }, cryptoKey, data));
+      break;
+    }
+    case 'chacha20-poly1305':
+      prefix = generateNonce();
+      encrypted = nacl.secretbox(data, prefix, key);
+      break;
+    default:
+      throw new Error(`Unsupported algorithm: ${algorithm}`);
+  }
+
+  const combined = new Uint8Array(prefix.length + encrypted.length);
+  combined.set(prefix);
+  combined.set(encrypted, prefix.length);
+  return combined;
+}
+
+/**
+ * Decrypt binary data using specified algorithm, null if it fails
+ */
+export async function decryptBytes(
+  encryptedData: Uint8Array,
+  key: Uint8Array,
+  algorithm: EncryptionAlgorithm = DEFAULT_ALGORITHM
+): Promise<Uint8Array | null> {
+  try {
+    switch (algorithm) {
+      case 'aes-256-gcm': {
+        const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'AES-GCM' }, false, ['decrypt']);
+        const decrypted = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: encryptedData.slice(0, 12) },
+          cryptoKey,
+          encryptedData.slice(12)
+        );
+        return new Uint8Array(decrypted);
+      }
+      case 'chacha20-poly1305':
+        return nacl.secretbox.open(
+          encryptedData.slice(nacl.secretbox.nonceLength),
+          encryptedData.slice(0, nacl.secretbox.nonceLength),
+          key
+        );
+      default:
+        throw new Error(`Unsupported algorithm: ${algorithm}`);
+    }
+  } catch (error) {
+    console.error('Attachment decryption error:', error);
+    return null;
+  }
+}
+
 /**
  * Hash mnemonic for verification (without revealing the actual mnemonic)
  */
@@ -232,6 +300,9 @@ export interface EncryptedNote {
   section: string;
   notebookId?: string;
   order: number;
+  reminder?: NoteReminder;
+  journalDate?: string;
+  templateSection?: string;
 }
 
 export interface DecryptedNote {
@@ -247,6 +318,9 @@ export interface DecryptedNote {
   section: string;
   notebookId?: string;
   order: number;
+  reminder?: NoteReminder;
+  journalDate?: string;
+  templateSection?: string;
 }
 
 export async function encryptNote(
@@ -254,11 +328,14 @@ export async function encryptNote(
   key: Uint8Array,
   algorithm: EncryptionAlgorithm = DEFAULT_ALGORITHM
 ): Promise<EncryptedNote> {
+  // Strip plaintext fields so they never reach storage
+  const { title, content, preview, ...metadata } = note;
+
   return {
-    ...note,
-    encryptedTitle: await encryptData(note.title, key, algorithm),
-    encryptedContent: await encryptData(note.content, key, algorithm),
-    encryptedPreview: await encryptData(note.preview, key, algorithm),
+    ...metadata,
+    encryptedTitle: await encryptData(title, key, algorithm),
+    encryptedContent: await encryptData(content, key, algorithm),
+    encryptedPreview: await encryptData(preview, key, algorithm),
     algorithm,
   };
 }
@@ -269,16 +346,19 @@ export async function encryptNote(
 export async function decryptNote(encryptedNote: EncryptedNote, key: Uint8Array): Promise<DecryptedNote> {
   const algorithm = encryptedNote.algorithm || DEFAULT_ALGORITHM;
 
-  const title = await decryptData(encryptedNote.encryptedTitle, key, algorithm);
-  const content = await decryptData(encryptedNote.encryptedContent, key, algorithm);
-  const preview = await decryptData(encryptedNote.encryptedPreview, key, algorithm);
+  const { encryptedTitle, encryptedContent, encryptedPreview, ...metadata } = encryptedNote;
+
+  const title = await decryptData(encryptedTitle, key, algorithm);
+  const content = await decryptData(encryptedContent, key, algorithm);
+  const preview = await decryptData(encryptedPreview, key, algorithm);
 
-  if (!title || !content || !preview) {
+  // Empty strings are valid plaintext, only null signals a failed decryption
+  if (title === null || content === null || preview === null) {
     throw new Error('Failed to decrypt note');
   }
 
   return {
-    ...encryptedNote,
+    ...metadata,
     title,
     content,
     preview,
@@ -309,6 +389,8 @@ export interface VaultBackupData {
   notebooks?: unknown[];
   tags?: unknown[];
   settings?: unknown;
+  /** Attachments with their bytes as base64 */
+  attachments?: unknown[];
 }
 
 export async function createVaultBackup(
@@ -415,6 +497,7 @@ export interface BackupPreview {
   noteCount: number;
   notebookCount: number;
   tagCount: number;
+  attachmentCount: number;
   backupDate: string;
   algorithm: EncryptionAlgorithm;
   vaultId: string;
@@ -438,6 +521,7 @@ export async function getBackupPreview(
       noteCount: data.notes?.length || 0,
       notebookCount: Array.isArray(data.notebooks) ? data.notebooks.length : 0,
       tagCount: Array.isArray(data.tags) ? data.tags.length : 0,
+      attachmentCount: Array.isArray(data.attachments) ? data.attachments.length : 0,
       backupDate: backup.exportDate,
       algorithm: backup.algorithm,
       vaultId: backup.vaultId,
@@ -0,0 +1,79 @@
+/**
+ * Delimited Text
+ * Recognizes CSV and TSV text, such as rows copied from a spreadsheet or a
+ * file, so a paste can become a table
+ */
+
+// Tried in order; tabs first since spreadsheets copy rows as TSV
+const DELIMITERS = ['\t', ',', ';'];
+
+/**
+ * Split text into rows of fields. Quoted fields may contain the delimiter,
+ * line breaks and `""` for a quote.
+ */
+export function parseDelimitedRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  rows.push(row);
+  return rows;
+}
+
+/**
+ * Rows of CSV or TSV text, or null when the text isn't a table: it needs
+ * at least two rows and two columns, with the same number of columns in
+ * every row, and rows all ending like sentences are taken for prose
+ */
+export function parseDelimitedText(text: string): string[][] | null {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/\n+$/, '');
+  if (!normalized.includes('\n')) return null;
+
+  for (const delimiter of DELIMITERS) {
+    if (!normalized.includes(delimiter)) continue;
+
+    const rows = parseDelimitedRows(normalized, delimiter)
+      .filter(row => row.some(field => field.trim() !== ''))
+      .map(row => row.map(field => field.trim()));
+    const columns = rows[0]?.length ?? 0;
+
+    // Lines of prose with the same number of commas aren't a table
+    const isProse = delimiter !== '\t' && rows.every(row => /[.!?]$/.test(row[row.length - 1]));
+
+    if (rows.length >= 2 && columns >= 2 && !isProse && rows.every(row => row.length === columns)) {
+      return rows;
+    }
+  }
+
+  return null;
+}
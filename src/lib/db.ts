@@ -1,17 +1,55 @@
 /**
  * IndexedDB Database Service for HadesNotes
- * Provides persistent storage for notes, notebooks, and tags
+ * Provides persistent storage for notes, notebooks, tags and attachments
+ * Note title, content and preview, and attachment bytes, are encrypted at
+ * rest with the vault key
  */
 
+import {
+  encryptNote,
+  decryptNote,
+  encryptData,
+  decryptData,
+  encryptBytes,
+  decryptBytes,
+  EncryptedNote,
+  EncryptionAlgorithm,
+  DEFAULT_ALGORITHM,
+} from './crypto';
+import {
+  STORES,
+  LATEST_DB_VERSION,
+  IDLE_MIGRATION_PROGRESS,
+  MigrationProgress,
+  runMigrations,
+} from './dbMigrations';
+import {
+  ImportPlan,
+  MergeOptions,
+  NOTE_MERGE,
+  NOTEBOOK_MERGE,
+  TAG_MERGE,
+  planRecords,
+  resolveRecords,
+  buildImportPlan,
+} from './importMerge';
+import { NoteReminder, reviveReminder } from './reminders';
+import {
+  Attachment,
+  AttachmentInfo,
+  BackupAttachment,
+  ATTACHMENT_GRACE_PERIOD,
+  attachmentFromBackup,
+  attachmentToBackup,
+  getAttachmentIds,
+} from './attachments';
+
 const DB_NAME = 'HadesNotesDB';
-const DB_VERSION = 1;
-
-// Store names
-const STORES = {
-  NOTES: 'notes',
-  NOTEBOOKS: 'notebooks',
-  TAGS: 'tags',
-  SETTINGS: 'settings',
+const DB_VERSION = LATEST_DB_VERSION;
+
+// Settings keys used internally by the service
+const SETTINGS_KEYS = {
+  ENCRYPTION_MIGRATED: 'notesEncryptionMigrated',
 };
 
 export interface Note {
@@ -26,11 +64,18 @@ export interface Note {
   section: string;
   notebookId?: string;
   order: number;
+  reminder?: NoteReminder;
+  /** Day of a journal entry, such as `2026-10-18` */
+  journalDate?: string;
+  /** For templates, the section new notes go to */
+  templateSection?: string;
 }
 
 export interface Notebook {
   id: string;
   name: string;
+  /** Enclosing notebook, top level when unset */
+  parentId?: string;
   noteCount: number;
   createdAt: Date;
 }
@@ -42,6 +87,104 @@ export interface Tag {
   createdAt: Date;
 }
 
+/**
+ * A note record as it exists in the notes store: encrypted, or plaintext
+ * if it was written before encryption at rest was introduced
+ */
+type StoredNote = EncryptedNote | Note;
+
+function isEncryptedRecord(record: StoredNote): record is EncryptedNote {
+  return 'encryptedContent' in record;
+}
+
+export type RevisionReason = 'edit' | 'large-delete' | 'before-restore' | 'before-replace';
+
+/**
+ * A past state of a note, captured before it was overwritten
+ */
+export interface NoteRevision {
+  id: string;
+  noteId: string;
+  title: string;
+  content: string;
+  createdAt: Date;
+  reason: RevisionReason;
+}
+
+interface StoredRevision {
+  id: string;
+  noteId: string;
+  encryptedTitle: string;
+  encryptedContent: string;
+  algorithm: EncryptionAlgorithm;
+  createdAt: Date;
+  reason: RevisionReason;
+}
+
+export interface RevisionRetention {
+  /** Revisions kept per note, oldest are dropped first */
+  maxRevisions: number;
+  /** Revisions older than this are dropped, 0 keeps them forever */
+  maxAgeDays: number;
+}
+
+// The full-text index is stored as a single encrypted record
+const SEARCH_INDEX_ID = 'notes';
+
+interface StoredSearchIndex {
+  id: string;
+  encryptedData: string;
+  algorithm: EncryptionAlgorithm;
+  updatedAt: Date;
+}
+
+/**
+ * An attachment as stored: the bytes as an encrypted Blob, and the name,
+ * type and thumbnail as encrypted JSON
+ */
+interface StoredAttachment {
+  id: string;
+  encryptedData: Blob;
+  encryptedInfo: string;
+  algorithm: EncryptionAlgorithm;
+  size: number;
+  createdAt: Date;
+}
+
+type AttachmentDetails = Pick<Attachment, 'name' | 'type' | 'thumbnail'>;
+
+/**
+ * Records to write and ids to delete in one store
+ */
+export interface RecordChanges<T> {
+  put: T[];
+  delete: string[];
+}
+
+export interface ChangeSet {
+  notes?: RecordChanges<Note>;
+  notebooks?: RecordChanges<Notebook>;
+  tags?: RecordChanges<Tag>;
+}
+
+export interface ImportPayload {
+  version?: number;
+  exportDate?: string;
+  data: {
+    notes?: Note[];
+    notebooks?: Notebook[];
+    tags?: Tag[];
+    settings?: AppSettings;
+    attachments?: BackupAttachment[];
+  };
+}
+
+/**
+ * `replace` wipes notes, notebooks, tags and attachments first; `merge` matches records
+ * by id and resolves differences with the given strategies
+ */
+export type ImportOptions = { mode: 'replace' } | ({ mode: 'merge' } & MergeOptions);
+
 export interface AppSettings {
   theme: 'light' | 'dark' | 'system';
   autoSaveDelay: number;
@@ -54,6 +197,11 @@ export interface AppSettings {
 class IndexedDBService {
   private db: IDBDatabase | null = null;
   private initPromise: Promise<void> | null = null;
+  private encryptionKey: Uint8Array | null = null;
+  private encryptionAlgorithm: EncryptionAlgorithm = DEFAULT_ALGORITHM;
+  private migrationProgress: MigrationProgress = IDLE_MIGRATION_PROGRESS;
+  private migrationListeners = new Set<(progress: MigrationProgress) => void>();
+  private importListeners = new Set<() => void>();
 
   /**
    * Initialize the database
@@ -75,46 +223,73 @@ class IndexedDBService {
 
       request.onsuccess = () => {
         this.db = request.result;
+
+        // Let other tabs upgrade the schema instead of blocking them
+        this.db.onversionchange = () => {
+          this.db?.close();
+          this.db = null;
+          this.initPromise = null;
+          console.log('🔄 Database closed for an upgrade in another tab');
+        };
+
         console.log('✅ IndexedDB initialized successfully');
         resolve();
       };
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create Notes store
-        if (!db.objectStoreNames.contains(STORES.NOTES)) {
-          const notesStore = db.createObjectStore(STORES.NOTES, { keyPath: 'id' });
-          notesStore.createIndex('section', 'section', { unique: false });
-          notesStore.createIndex('isFavorite', 'isFavorite', { unique: false });
-          notesStore.createIndex('createdAt', 'createdAt', { unique: false });
-          notesStore.createIndex('notebookId', 'notebookId', { unique: false });
-          console.log('📝 Notes store created');
-        }
-
-        // Create Notebooks store
-        if (!db.objectStoreNames.contains(STORES.NOTEBOOKS)) {
-          db.createObjectStore(STORES.NOTEBOOKS, { keyPath: 'id' });
-          console.log('📚 Notebooks store created');
-        }
+      request.onblocked = () => {
+        console.warn('IndexedDB upgrade is blocked by another open tab');
+      };
 
-        // Create Tags store
-        if (!db.objectStoreNames.contains(STORES.TAGS)) {
-          db.createObjectStore(STORES.TAGS, { keyPath: 'id' });
-          console.log('🏷️ Tags store created');
-        }
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
 
-        // Create Settings store
-        if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
-          db.createObjectStore(STORES.SETTINGS, { keyPath: 'key' });
-          console.log('⚙️ Settings store created');
-        }
+        runMigrations(db, transaction, event.oldVersion, event.newVersion ?? DB_VERSION, (progress) =>
+          this.setMigrationProgress(progress)
+        ).catch((error) => {
+          console.error('Database migration failed:', error);
+          this.setMigrationProgress({
+            ...this.migrationProgress,
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          });
+          // Aborting rolls the whole upgrade back to the previous version
+          try {
+            transaction.abort();
+          } catch {
+            // Transaction already finished aborting on its own
+          }
+        });
       };
     });
 
     return this.initPromise;
   }
 
+  // ==================== MIGRATIONS ====================
+
+  /**
+   * Current schema migration progress
+   */
+  getMigrationProgress(): MigrationProgress {
+    return this.migrationProgress;
+  }
+
+  /**
+   * Subscribe to schema migration progress, returns an unsubscribe function
+   */
+  onMigrationProgress(listener: (progress: MigrationProgress) => void): () => void {
+    this.migrationListeners.add(listener);
+    return () => {
+      this.migrationListeners.delete(listener);
+    };
+  }
+
+  private setMigrationProgress(progress: MigrationProgress): void {
+    this.migrationProgress = progress;
+    this.migrationListeners.forEach(listener => listener(progress));
+  }
+
   /**
    * Ensure database is initialized before use
    */
@@ -146,6 +321,21 @@ class IndexedDBService {
     });
   }
 
+  /**
+   * Generic method to get all items matching an index key
+   */
+  private async getAllByIndex<T>(storeName: string, indexName: string, key: IDBValidKey): Promise<T[]> {
+    await this.ensureInitialized();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(storeName, 'readonly');
+      const request = transaction.objectStore(storeName).index(indexName).getAll(key);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   /**
    * Generic method to add/update an item
    */
@@ -162,6 +352,25 @@ class IndexedDBService {
     });
   }
 
+  /**
+   * Generic method to add/update many items in a single transaction
+   */
+  private async putMany<T>(storeName: string, items: T[]): Promise<void> {
+    await this.ensureInitialized();
+
+    const transaction = this.db!.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+
+    for (const item of items) {
+      store.put(item);
+    }
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   /**
    * Generic method to delete an item
    */
@@ -178,6 +387,25 @@ class IndexedDBService {
     });
   }
 
+  /**
+   * Generic method to delete many items in a single transaction
+   */
+  private async deleteMany(storeName: string, ids: string[]): Promise<void> {
+    await this.ensureInitialized();
+
+    const transaction = this.db!.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+
+    for (const id of ids) {
+      store.delete(id);
+    }
+
+    return new Promise((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   /**
    * Generic method to clear a store
    */
@@ -194,44 +422,376 @@ class IndexedDBService {
     });
   }
 
-  // ==================== NOTES ====================
+  // ==================== ENCRYPTION ====================
+
+  /**
+   * Set the vault key used to encrypt and decrypt notes
+   */
+  setEncryptionKey(key: Uint8Array, algorithm: EncryptionAlgorithm = DEFAULT_ALGORITHM): void {
+    this.encryptionKey = key;
+    this.encryptionAlgorithm = algorithm;
+  }
+
+  /**
+   * Forget the vault key (on lock/logout)
+   */
+  clearEncryptionKey(): void {
+    this.encryptionKey = null;
+  }
+
+  private requireEncryptionKey(): Uint8Array {
+    if (!this.encryptionKey) {
+      throw new Error('Vault is locked: notes cannot be read or written');
+    }
+    return this.encryptionKey;
+  }
+
+  private async toStoredNote(note: Note): Promise<EncryptedNote> {
+    return encryptNote(note, this.requireEncryptionKey(), this.encryptionAlgorithm);
+  }
+
+  private async fromStoredNote(record: StoredNote): Promise<Note> {
+    const note = isEncryptedRecord(record)
+      ? await decryptNote(record, this.requireEncryptionKey())
+      : record;
 
-  async getAllNotes(): Promise<Note[]> {
-    const notes = await this.getAll<Note>(STORES.NOTES);
     // Convert date strings back to Date objects
-    return notes.map(note => ({
+    return {
       ...note,
       createdAt: new Date(note.createdAt),
       updatedAt: new Date(note.updatedAt),
-    }));
+      reminder: reviveReminder(note.reminder),
+    } as Note;
+  }
+
+  /**
+   * Encrypt notes that were stored in plaintext before encryption at rest.
+   * Runs once per database; returns the number of migrated notes.
+   */
+  async migratePlaintextNotes(): Promise<number> {
+    const key = this.requireEncryptionKey();
+
+    if (await this.getSettingValue<boolean>(SETTINGS_KEYS.ENCRYPTION_MIGRATED)) {
+      return 0;
+    }
+
+    const records = await this.getAll<StoredNote>(STORES.NOTES);
+    const plaintext = records.filter(record => !isEncryptedRecord(record)) as Note[];
+
+    if (plaintext.length > 0) {
+      const encrypted = await Promise.all(
+        plaintext.map(note => encryptNote(note, key, this.encryptionAlgorithm))
+      );
+      await this.putMany(STORES.NOTES, encrypted);
+      console.log(`🔐 Encrypted ${encrypted.length} plaintext notes`);
+    }
+
+    await this.setSettingValue(SETTINGS_KEYS.ENCRYPTION_MIGRATED, true);
+    return plaintext.length;
+  }
+
+  // ==================== NOTES ====================
+
+  async getAllNotes(): Promise<Note[]> {
+    const records = await this.getAll<StoredNote>(STORES.NOTES);
+    const notes: Note[] = [];
+
+    for (const record of records) {
+      try {
+        notes.push(await this.fromStoredNote(record));
+      } catch (error) {
+        // Skip unreadable records instead of failing the whole vault
+        console.error(`Failed to decrypt note ${record.id}:`, error);
+        if (!this.encryptionKey) throw error;
+      }
+    }
+
+    return notes;
   }
 
   async saveNote(note: Note): Promise<void> {
-    await this.put(STORES.NOTES, note);
+    await this.put(STORES.NOTES, await this.toStoredNote(note));
   }
 
   async saveNotes(notes: Note[]): Promise<void> {
+    // Encrypt before opening the transaction so it does not auto-commit mid-way
+    const encrypted = await Promise.all(notes.map(note => this.toStoredNote(note)));
+    await this.putMany(STORES.NOTES, encrypted);
+  }
+
+
+  async deleteNote(id: string): Promise<void> {
+    await this.delete(STORES.NOTES, id);
+  }
+
+  async clearNotes(): Promise<void> {
+    await this.clear(STORES.NOTES);
+  }
+
+  // ==================== BATCHED CHANGES ====================
+
+  /**
+   * Write and delete notes, notebooks and tags in a single transaction.
+   * Revisions of deleted notes are removed along with them.
+   */
+  async applyChanges(changes: ChangeSet): Promise<void> {
+    // Encrypt before opening the transaction so it does not auto-commit mid-way
+    const encryptedNotes = await Promise.all(
+      (changes.notes?.put ?? []).map(note => this.toStoredNote(note))
+    );
     await this.ensureInitialized();
 
-    const transaction = this.db!.transaction(STORES.NOTES, 'readwrite');
-    const store = transaction.objectStore(STORES.NOTES);
+    const transaction = this.db!.transaction(
+      [STORES.NOTES, STORES.NOTEBOOKS, STORES.TAGS, STORES.REVISIONS],
+      'readwrite'
+    );
+    const notesStore = transaction.objectStore(STORES.NOTES);
+    const notebooksStore = transaction.objectStore(STORES.NOTEBOOKS);
+    const tagsStore = transaction.objectStore(STORES.TAGS);
+    const revisionsIndex = transaction.objectStore(STORES.REVISIONS).index('noteId');
 
-    for (const note of notes) {
-      store.put(note);
-    }
+    encryptedNotes.forEach(note => notesStore.put(note));
+    changes.notes?.delete.forEach(id => {
+      notesStore.delete(id);
+      const request = revisionsIndex.openKeyCursor(IDBKeyRange.only(id));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          transaction.objectStore(STORES.REVISIONS).delete(cursor.primaryKey);
+          cursor.continue();
+        }
+      };
+    });
+
+    changes.notebooks?.put.forEach(notebook => notebooksStore.put(notebook));
+    changes.notebooks?.delete.forEach(id => notebooksStore.delete(id));
+    changes.tags?.put.forEach(tag => tagsStore.put(tag));
+    changes.tags?.delete.forEach(id => tagsStore.delete(id));
 
     return new Promise((resolve, reject) => {
       transaction.oncomplete = () => resolve();
       transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
     });
   }
 
-  async deleteNote(id: string): Promise<void> {
-    await this.delete(STORES.NOTES, id);
+  // ==================== REVISIONS ====================
+
+  /**
+   * Get the revisions of a note, newest first
+   */
+  async getRevisions(noteId: string): Promise<NoteRevision[]> {
+    const key = this.requireEncryptionKey();
+    const records = await this.getAllByIndex<StoredRevision>(STORES.REVISIONS, 'noteId', noteId);
+    const revisions: NoteRevision[] = [];
+
+    for (const { encryptedTitle, encryptedContent, algorithm, ...metadata } of records) {
+      const title = await decryptData(encryptedTitle, key, algorithm);
+      const content = await decryptData(encryptedContent, key, algorithm);
+
+      if (title === null || content === null) {
+        console.error(`Failed to decrypt revision ${metadata.id}`);
+        continue;
+      }
+
+      revisions.push({ ...metadata, title, content, createdAt: new Date(metadata.createdAt) });
+    }
+
+    return revisions.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  async clearNotes(): Promise<void> {
-    await this.clear(STORES.NOTES);
+  async saveRevision(revision: NoteRevision): Promise<void> {
+    const key = this.requireEncryptionKey();
+    const { title, content, ...metadata } = revision;
+
+    const record: StoredRevision = {
+      ...metadata,
+      encryptedTitle: await encryptData(title, key, this.encryptionAlgorithm),
+      encryptedContent: await encryptData(content, key, this.encryptionAlgorithm),
+      algorithm: this.encryptionAlgorithm,
+    };
+    await this.put(STORES.REVISIONS, record);
+  }
+
+  /**
+   * Drop revisions of a note that fall outside the retention policy,
+   * returns the number of deleted revisions
+   */
+  async pruneRevisions(noteId: string, retention: RevisionRetention): Promise<number> {
+    const records = await this.getAllByIndex<StoredRevision>(STORES.REVISIONS, 'noteId', noteId);
+    const cutoff = retention.maxAgeDays > 0
+      ? Date.now() - retention.maxAgeDays * 24 * 60 * 60 * 1000
+      : -Infinity;
+
+    const expired = records
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .filter((record, index) =>
+        index >= retention.maxRevisions || new Date(record.createdAt).getTime() < cutoff
+      )
+      .map(record => record.id);
+
+    if (expired.length > 0) {
+      await this.deleteMany(STORES.REVISIONS, expired);
+    }
+    return expired.length;
+  }
+
+  // ==================== SEARCH INDEX ====================
+
+  /**
+   * Get the serialized full-text index, or null if none was saved
+   */
+  async getSearchIndex(): Promise<string | null> {
+    await this.ensureInitialized();
+    const key = this.requireEncryptionKey();
+
+    const record = await new Promise<StoredSearchIndex | undefined>((resolve, reject) => {
+      const transaction = this.db!.transaction(STORES.SEARCH_INDEX, 'readonly');
+      const request = transaction.objectStore(STORES.SEARCH_INDEX).get(SEARCH_INDEX_ID);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    if (!record) return null;
+    return decryptData(record.encryptedData, key, record.algorithm);
+  }
+
+  async saveSearchIndex(data: string): Promise<void> {
+    const key = this.requireEncryptionKey();
+
+    const record: StoredSearchIndex = {
+      id: SEARCH_INDEX_ID,
+      encryptedData: await encryptData(data, key, this.encryptionAlgorithm),
+      algorithm: this.encryptionAlgorithm,
+      updatedAt: new Date(),
+    };
+    await this.put(STORES.SEARCH_INDEX, record);
+  }
+
+  // ==================== ATTACHMENTS ====================
+
+  private async toStoredAttachment(attachment: Attachment): Promise<StoredAttachment> {
+    const key = this.requireEncryptionKey();
+    const { id, name, type, thumbnail, size, createdAt, data } = attachment;
+    const details: AttachmentDetails = { name, type, thumbnail };
+    const bytes = new Uint8Array(await data.arrayBuffer());
+
+    return {
+      id,
+      encryptedData: new Blob([await encryptBytes(bytes, key, this.encryptionAlgorithm)]),
+      encryptedInfo: await encryptData(JSON.stringify(details), key, this.encryptionAlgorithm),
+      algorithm: this.encryptionAlgorithm,
+      size,
+      createdAt,
+    };
+  }
+
+  private async fromStoredAttachment(record: StoredAttachment): Promise<AttachmentInfo> {
+    const json = await decryptData(record.encryptedInfo, this.requireEncryptionKey(), record.algorithm);
+    if (json === null) {
+      throw new Error(`Failed to decrypt attachment ${record.id}`);
+    }
+
+    const details: AttachmentDetails = JSON.parse(json);
+    return { ...details, id: record.id, size: record.size, createdAt: new Date(record.createdAt) };
+  }
+
+  private async getAttachmentRecord(id: string): Promise<StoredAttachment | undefined> {
+    await this.ensureInitialized();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(STORES.ATTACHMENTS, 'readonly');
+      const request = transaction.objectStore(STORES.ATTACHMENTS).get(id);
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Get an attachment's name, type and thumbnail without decrypting its
+   * bytes, or null if there is no such attachment
+   */
+  async getAttachmentInfo(id: string): Promise<AttachmentInfo | null> {
+    const record = await this.getAttachmentRecord(id);
+    return record ? this.fromStoredAttachment(record) : null;
+  }
+
+  /**
+   * Get an attachment with its decrypted bytes, or null if there is no such
+   * attachment
+   */
+  async getAttachment(id: string): Promise<Attachment | null> {
+    const record = await this.getAttachmentRecord(id);
+    if (!record) return null;
+
+    const info = await this.fromStoredAttachment(record);
+    const encrypted = new Uint8Array(await record.encryptedData.arrayBuffer());
+    const bytes = await decryptBytes(encrypted, this.requireEncryptionKey(), record.algorithm);
+    if (!bytes) {
+      throw new Error(`Failed to decrypt attachment ${id}`);
+    }
+
+    return { ...info, data: new Blob([bytes], { type: info.type }) };
+  }
+
+  async getAllAttachments(): Promise<Attachment[]> {
+    const records = await this.getAll<StoredAttachment>(STORES.ATTACHMENTS);
+    const attachments: Attachment[] = [];
+
+    for (const record of records) {
+      try {
+        const attachment = await this.getAttachment(record.id);
+        if (attachment) attachments.push(attachment);
+      } catch (error) {
+        console.error(`Failed to decrypt attachment ${record.id}:`, error);
+      }
+    }
+
+    return attachments;
+  }
+
+  async saveAttachment(attachment: Attachment): Promise<void> {
+    await this.put(STORES.ATTACHMENTS, await this.toStoredAttachment(attachment));
+  }
+
+  async saveAttachments(attachments: Attachment[]): Promise<void> {
+    // Encrypt before opening the transaction so it does not auto-commit mid-way
+    const encrypted = await Promise.all(attachments.map(attachment => this.toStoredAttachment(attachment)));
+    await this.putMany(STORES.ATTACHMENTS, encrypted);
+  }
+
+  /**
+   * Delete attachments that no note or revision refers to, apart from ones
+   * added within the grace period. Returns the number of deleted attachments.
+   */
+  async pruneAttachments(): Promise<number> {
+    const key = this.requireEncryptionKey();
+    const [notes, revisions, attachments] = await Promise.all([
+      this.getAllNotes(),
+      this.getAll<StoredRevision>(STORES.REVISIONS),
+      this.getAll<StoredAttachment>(STORES.ATTACHMENTS),
+    ]);
+    if (attachments.length === 0) return 0;
+
+    const referenced = new Set(notes.flatMap(note => getAttachmentIds(note.content)));
+    for (const revision of revisions) {
+      const content = await decryptData(revision.encryptedContent, key, revision.algorithm);
+      // A revision that can't be read can't be restored either
+      if (content !== null) getAttachmentIds(content).forEach(id => referenced.add(id));
+    }
+
+    const cutoff = Date.now() - ATTACHMENT_GRACE_PERIOD;
+    const orphaned = attachments
+      .filter(record => !referenced.has(record.id) && new Date(record.createdAt).getTime() < cutoff)
+      .map(record => record.id);
+
+    if (orphaned.length > 0) {
+      await this.deleteMany(STORES.ATTACHMENTS, orphaned);
+      console.log(`📎 Removed ${orphaned.length} unused attachments`);
+    }
+    return orphaned.length;
   }
 
   // ==================== NOTEBOOKS ====================
@@ -292,6 +852,22 @@ class IndexedDBService {
     await this.put(STORES.SETTINGS, { key: 'appSettings', value: settings });
   }
 
+  private async getSettingValue<T>(key: string): Promise<T | null> {
+    await this.ensureInitialized();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(STORES.SETTINGS, 'readonly');
+      const request = transaction.objectStore(STORES.SETTINGS).get(key);
+
+      request.onsuccess = () => resolve(request.result ? request.result.value : null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async setSettingValue<T>(key: string, value: T): Promise<void> {
+    await this.put(STORES.SETTINGS, { key, value });
+  }
+
   // ==================== UTILITY ====================
 
   /**
@@ -319,11 +895,12 @@ class IndexedDBService {
    * Export all data
    */
   async exportData() {
-    const [notes, notebooks, tags, settings] = await Promise.all([
+    const [notes, notebooks, tags, settings, attachments] = await Promise.all([
       this.getAllNotes(),
       this.getAllNotebooks(),
       this.getAllTags(),
       this.getSettings(),
+      this.getAllAttachments(),
     ]);
 
     return {
@@ -334,43 +911,99 @@ class IndexedDBService {
         notebooks,
         tags,
         settings,
+        attachments: await Promise.all(attachments.map(attachmentToBackup)),
       },
     };
   }
 
   /**
-   * Import data
+   * Imported records with dates restored from their JSON form
    */
-  async importData(data: {
-    version?: number;
-    exportDate?: string;
-    data: {
-      notes?: Note[];
-      notebooks?: Notebook[];
-      tags?: Tag[];
-      settings?: AppSettings;
-    };
-  }) {
-    // Clear existing data
-    await Promise.all([
-      this.clearNotes(),
-      this.clear(STORES.NOTEBOOKS),
-      this.clear(STORES.TAGS),
+  private normalizeImport(data: ImportPayload['data']) {
+    const notes = (data.notes ?? []).map(note => ({
+      ...note,
+      createdAt: new Date(note.createdAt),
+      updatedAt: new Date(note.updatedAt ?? note.createdAt),
+      reminder: reviveReminder(note.reminder),
+    }));
+    const notebooks = (data.notebooks ?? []).map(notebook => ({
+      ...notebook,
+      createdAt: new Date(notebook.createdAt),
+    }));
+    const tags = (data.tags ?? []).map(tag => ({
+      ...tag,
+      createdAt: new Date(tag.createdAt),
+    }));
+    const attachments = (data.attachments ?? []).map(attachmentFromBackup);
+
+    return { notes, notebooks, tags, attachments };
+  }
+
+  /**
+   * Describe what a merge import would add, update or conflict with
+   */
+  async previewImport(data: ImportPayload): Promise<ImportPlan> {
+    const incoming = this.normalizeImport(data.data);
+    const [notes, notebooks, tags] = await Promise.all([
+      this.getAllNotes(),
+      this.getAllNotebooks(),
+      this.getAllTags(),
     ]);
 
-    // Import new data
-    if (data.data.notes) await this.saveNotes(data.data.notes);
-    if (data.data.notebooks) {
-      for (const notebook of data.data.notebooks) {
-        await this.saveNotebook(notebook);
-      }
-    }
-    if (data.data.tags) {
-      for (const tag of data.data.tags) {
-        await this.saveTag(tag);
-      }
+    return buildImportPlan([
+      ...planRecords(NOTE_MERGE, incoming.notes, notes),
+      ...planRecords(NOTEBOOK_MERGE, incoming.notebooks, notebooks),
+      ...planRecords(TAG_MERGE, incoming.tags, tags),
+    ]);
+  }
+
+  /**
+   * Import data
+   */
+  async importData(data: ImportPayload, options: ImportOptions = { mode: 'replace' }) {
+    const incoming = this.normalizeImport(data.data);
+
+    if (options.mode === 'replace') {
+      // Clear existing data
+      await Promise.all([
+        this.clearNotes(),
+        this.clear(STORES.NOTEBOOKS),
+        this.clear(STORES.TAGS),
+        this.clear(STORES.ATTACHMENTS),
+      ]);
+
+      await this.saveNotes(incoming.notes);
+      await this.saveAttachments(incoming.attachments);
+      await this.putMany(STORES.NOTEBOOKS, incoming.notebooks);
+      await this.putMany(STORES.TAGS, incoming.tags);
+      if (data.data.settings) await this.saveSettings(data.data.settings);
+    } else {
+      const [notes, notebooks, tags] = await Promise.all([
+        this.getAllNotes(),
+        this.getAllNotebooks(),
+        this.getAllTags(),
+      ]);
+
+      await this.saveNotes(resolveRecords<Note>(NOTE_MERGE, incoming.notes, notes, options));
+      await this.putMany(STORES.NOTEBOOKS, resolveRecords<Notebook>(NOTEBOOK_MERGE, incoming.notebooks, notebooks, options));
+      await this.putMany(STORES.TAGS, resolveRecords<Tag>(TAG_MERGE, incoming.tags, tags, options));
+      // Attachment ids are unique and their bytes never change, so any
+      // attachment merged notes refer to can simply be written
+      await this.saveAttachments(incoming.attachments);
+      // Existing preferences win over the imported ones when merging
     }
-    if (data.data.settings) await this.saveSettings(data.data.settings);
+
+    this.importListeners.forEach(listener => listener());
+  }
+
+  /**
+   * Subscribe to completed imports, returns an unsubscribe function
+   */
+  onDataImported(listener: () => void): () => void {
+    this.importListeners.add(listener);
+    return () => {
+      this.importListeners.delete(listener);
+    };
   }
 
   /**
@@ -382,6 +1015,10 @@ class IndexedDBService {
       this.clear(STORES.NOTEBOOKS),
       this.clear(STORES.TAGS),
       this.clear(STORES.SETTINGS),
+      this.clear(STORES.MIGRATION_BACKUPS),
+      this.clear(STORES.REVISIONS),
+      this.clear(STORES.SEARCH_INDEX),
+      this.clear(STORES.ATTACHMENTS),
     ]);
     console.log('🗑️ All data cleared');
   }
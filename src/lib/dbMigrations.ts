@@ -0,0 +1,331 @@
+/**
+ * IndexedDB schema migrations for HadesNotes
+ * Each migration upgrades the database by exactly one version and runs
+ * inside the `versionchange` transaction, so a failing step aborts the
+ * whole upgrade and leaves the previous version untouched.
+ *
+ * Migrations must only await IndexedDB requests: awaiting anything else
+ * (fetch, crypto.subtle, timers) lets the upgrade transaction auto-commit.
+ */
+
+// Store names
+export const STORES = {
+  NOTES: 'notes',
+  NOTEBOOKS: 'notebooks',
+  TAGS: 'tags',
+  SETTINGS: 'settings',
+  MIGRATION_BACKUPS: 'migrationBackups',
+  REVISIONS: 'revisions',
+  SEARCH_INDEX: 'searchIndex',
+  ATTACHMENTS: 'attachments',
+};
+
+// Number of pre-migration backups kept in the database
+const MAX_MIGRATION_BACKUPS = 3;
+
+export type MigrationStatus = 'idle' | 'backing-up' | 'migrating' | 'done' | 'failed';
+
+export interface MigrationProgress {
+  status: MigrationStatus;
+  fromVersion: number;
+  toVersion: number;
+  currentVersion?: number;
+  description?: string;
+  processed: number;
+  total: number;
+  error?: string;
+}
+
+export const IDLE_MIGRATION_PROGRESS: MigrationProgress = {
+  status: 'idle',
+  fromVersion: 0,
+  toVersion: 0,
+  processed: 0,
+  total: 0,
+};
+
+/**
+ * Records read from a store before an upgrade
+ */
+export interface MigrationBackup {
+  id: string;
+  fromVersion: number;
+  toVersion: number;
+  createdAt: Date;
+  stores: Record<string, unknown[]>;
+}
+
+/**
+ * Return a new record to replace it, `null` to delete it,
+ * or `undefined` to leave it unchanged
+ */
+export type RecordTransform = (record: Record<string, unknown>) => Record<string, unknown> | null | undefined;
+
+export interface MigrationContext {
+  db: IDBDatabase;
+  transaction: IDBTransaction;
+  transformRecords: (storeName: string, transform: RecordTransform) => Promise<number>;
+}
+
+export interface Migration {
+  version: number;
+  description: string;
+  /** Stores whose records are backed up before this step runs */
+  affectedStores: string[];
+  migrate: (context: MigrationContext) => Promise<void> | void;
+}
+
+/**
+ * Migration registry, ordered by version.
+ * Add new steps at the end; never edit a step that has already shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create notes, notebooks, tags and settings stores',
+    affectedStores: [],
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains(STORES.NOTES)) {
+        const notesStore = db.createObjectStore(STORES.NOTES, { keyPath: 'id' });
+        notesStore.createIndex('section', 'section', { unique: false });
+        notesStore.createIndex('isFavorite', 'isFavorite', { unique: false });
+        notesStore.createIndex('createdAt', 'createdAt', { unique: false });
+        notesStore.createIndex('notebookId', 'notebookId', { unique: false });
+        console.log('📝 Notes store created');
+      }
+
+      if (!db.objectStoreNames.contains(STORES.NOTEBOOKS)) {
+        db.createObjectStore(STORES.NOTEBOOKS, { keyPath: 'id' });
+        console.log('📚 Notebooks store created');
+      }
+
+      if (!db.objectStoreNames.contains(STORES.TAGS)) {
+        db.createObjectStore(STORES.TAGS, { keyPath: 'id' });
+        console.log('🏷️ Tags store created');
+      }
+
+      if (!db.objectStoreNames.contains(STORES.SETTINGS)) {
+        db.createObjectStore(STORES.SETTINGS, { keyPath: 'key' });
+        console.log('⚙️ Settings store created');
+      }
+    },
+  },
+  {
+    version: 2,
+    description: 'Index notes by last update',
+    affectedStores: [STORES.NOTES],
+    migrate: async ({ transaction, transformRecords }) => {
+      const notesStore = transaction.objectStore(STORES.NOTES);
+      if (!notesStore.indexNames.contains('updatedAt')) {
+        notesStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+      }
+
+      // Older records may lack updatedAt and would be missing from the index
+      await transformRecords(STORES.NOTES, (record) =>
+        record.updatedAt ? undefined : { ...record, updatedAt: record.createdAt ?? new Date() }
+      );
+    },
+  },
+  {
+    version: 3,
+    description: 'Create note revision history store',
+    affectedStores: [],
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains(STORES.REVISIONS)) {
+        const revisionsStore = db.createObjectStore(STORES.REVISIONS, { keyPath: 'id' });
+        revisionsStore.createIndex('noteId', 'noteId', { unique: false });
+        revisionsStore.createIndex('createdAt', 'createdAt', { unique: false });
+        console.log('🕘 Revisions store created');
+      }
+    },
+  },
+  {
+    version: 4,
+    description: 'Create encrypted search index store',
+    affectedStores: [],
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains(STORES.SEARCH_INDEX)) {
+        db.createObjectStore(STORES.SEARCH_INDEX, { keyPath: 'id' });
+        console.log('🔎 Search index store created');
+      }
+    },
+  },
+  {
+    version: 5,
+    description: 'Create encrypted attachments store',
+    affectedStores: [],
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains(STORES.ATTACHMENTS)) {
+        db.createObjectStore(STORES.ATTACHMENTS, { keyPath: 'id' });
+        console.log('📎 Attachments store created');
+      }
+    },
+  },
+  {
+    version: 6,
+    description: 'Create migration backups store',
+    affectedStores: [],
+    // Backing up only creates the store on upgrades that copy data, so
+    // fresh databases and later upgrades never had it
+    migrate: ({ db }) => {
+      if (!db.objectStoreNames.contains(STORES.MIGRATION_BACKUPS)) {
+        db.createObjectStore(STORES.MIGRATION_BACKUPS, { keyPath: 'id' });
+        console.log('💾 Migration backups store created');
+      }
+    },
+  },
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Copy every record of the affected stores into the backups store
+ */
+async function backupStores(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  storeNames: string[],
+  fromVersion: number,
+  toVersion: number
+): Promise<void> {
+  if (!db.objectStoreNames.contains(STORES.MIGRATION_BACKUPS)) {
+    db.createObjectStore(STORES.MIGRATION_BACKUPS, { keyPath: 'id' });
+  }
+
+  const stores: Record<string, unknown[]> = {};
+  for (const storeName of storeNames) {
+    if (db.objectStoreNames.contains(storeName)) {
+      stores[storeName] = await requestToPromise(transaction.objectStore(storeName).getAll());
+    }
+  }
+
+  const backupStore = transaction.objectStore(STORES.MIGRATION_BACKUPS);
+  const backup: MigrationBackup = {
+    id: `v${fromVersion}-to-v${toVersion}-${Date.now()}`,
+    fromVersion,
+    toVersion,
+    createdAt: new Date(),
+    stores,
+  };
+  await requestToPromise(backupStore.put(backup));
+
+  // Keep only the most recent backups
+  const keys = (await requestToPromise(backupStore.getAllKeys())) as string[];
+  const existing = await Promise.all(
+    keys.map(key => requestToPromise(backupStore.get(key)) as Promise<MigrationBackup>)
+  );
+  existing
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(MAX_MIGRATION_BACKUPS)
+    .forEach(old => backupStore.delete(old.id));
+
+  console.log(`💾 Backed up ${storeNames.join(', ')} before migrating to v${toVersion}`);
+}
+
+/**
+ * Run every migration between oldVersion and newVersion
+ * Must be called from `onupgradeneeded`
+ */
+export async function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number,
+  onProgress: (progress: MigrationProgress) => void
+): Promise<void> {
+  const pending = MIGRATIONS.filter(m => m.version > oldVersion && m.version <= newVersion);
+  let progress: MigrationProgress = {
+    status: 'migrating',
+    fromVersion: oldVersion,
+    toVersion: newVersion,
+    processed: 0,
+    total: 0,
+  };
+  const report = (update: Partial<MigrationProgress>) => {
+    progress = { ...progress, ...update };
+    onProgress(progress);
+  };
+
+  // A fresh database has nothing to back up
+  const affectedStores = Array.from(new Set(pending.flatMap(m => m.affectedStores)));
+  if (oldVersion > 0 && affectedStores.length > 0) {
+    report({ status: 'backing-up', description: 'Backing up your data' });
+    await backupStores(db, transaction, affectedStores, oldVersion, newVersion);
+  }
+
+  for (const migration of pending) {
+    report({
+      status: 'migrating',
+      currentVersion: migration.version,
+      description: migration.description,
+      processed: 0,
+      total: 0,
+    });
+
+    await migration.migrate({
+      db,
+      transaction,
+      transformRecords: (storeName, transform) =>
+        transformStoreRecords(transaction, storeName, transform, (processed, total) =>
+          report({ processed, total })
+        ),
+    });
+
+    console.log(`🔄 Migrated database to v${migration.version}: ${migration.description}`);
+  }
+
+  report({ status: 'done', description: undefined });
+}
+
+/**
+ * Walk a store with a cursor, applying a transform to each record
+ */
+function transformStoreRecords(
+  transaction: IDBTransaction,
+  storeName: string,
+  transform: RecordTransform,
+  onProgress: (processed: number, total: number) => void
+): Promise<number> {
+  const store = transaction.objectStore(storeName);
+
+  return new Promise((resolve, reject) => {
+    const countRequest = store.count();
+
+    countRequest.onerror = () => reject(countRequest.error);
+    countRequest.onsuccess = () => {
+      const total = countRequest.result;
+      let processed = 0;
+      const cursorRequest = store.openCursor();
+
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) {
+          resolve(processed);
+          return;
+        }
+
+        const next = transform(cursor.value);
+        if (next === null) {
+          cursor.delete();
+        } else if (next !== undefined) {
+          cursor.update(next);
+        }
+
+        processed++;
+        onProgress(processed, total);
+        cursor.continue();
+      };
+    };
+  });
+}
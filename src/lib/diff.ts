@@ -0,0 +1,165 @@
+/**
+ * Text Diff Utilities
+ * Myers diff over words, falling back to whole lines for very large changes
+ */
+
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  type: DiffOperation;
+  text: string;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+// Above this many differing tokens, fall back to a coarser diff to bound memory use
+const MAX_DIFF_TOKENS = 2000;
+
+function tokenizeWords(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+function tokenizeLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Shortest edit script between two token lists (Myers, O((N+M)D))
+ */
+function myers(a: string[], b: string[]): DiffPart[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max;
+  const v = new Int32Array(2 * max + 2);
+  const trace: Int32Array[] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const parts: DiffPart[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1])
+      ? k + 1
+      : k - 1;
+    const prevX = previous[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      parts.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        parts.push({ type: 'insert', text: b[--y] });
+      } else {
+        parts.push({ type: 'delete', text: a[--x] });
+      }
+    }
+  }
+
+  return parts.reverse();
+}
+
+/**
+ * Join adjacent parts of the same type
+ */
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+  const merged: DiffPart[] = [];
+
+  for (const part of parts) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === part.type) {
+      last.text += part.text;
+    } else if (part.text) {
+      merged.push({ ...part });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Diff two token lists, or return null if the changed region is too large
+ */
+function diffTokens(a: string[], b: string[]): DiffPart[] | null {
+  // Common prefix and suffix are cheap to strip and usually dominate
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  if ((endA - start) + (endB - start) > MAX_DIFF_TOKENS) {
+    return null;
+  }
+
+  return [
+    { type: 'equal' as const, text: a.slice(0, start).join('') },
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    { type: 'equal' as const, text: a.slice(endA).join('') },
+  ];
+}
+
+/**
+ * Compute a word-level diff from `before` to `after`
+ */
+export function diffText(before: string, after: string): DiffPart[] {
+  if (before === after) {
+    return before ? [{ type: 'equal', text: before }] : [];
+  }
+
+  const parts =
+    diffTokens(tokenizeWords(before), tokenizeWords(after)) ??
+    diffTokens(tokenizeLines(before), tokenizeLines(after)) ?? [
+      { type: 'delete', text: before },
+      { type: 'insert', text: after },
+    ];
+
+  return mergeParts(parts);
+}
+
+/**
+ * Count added and removed words in a diff
+ */
+export function getDiffStats(parts: DiffPart[]): DiffStats {
+  const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+  return parts.reduce(
+    (stats, part) => {
+      if (part.type === 'insert') stats.added += countWords(part.text);
+      if (part.type === 'delete') stats.removed += countWords(part.text);
+      return stats;
+    },
+    { added: 0, removed: 0 }
+  );
+}
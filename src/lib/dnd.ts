@@ -0,0 +1,73 @@
+/**
+ * Drag and Drop
+ * Data attached to draggables and drop targets shared by the notes list, the
+ * notebook tree, the calendar and the editor tabs, which live in one
+ * DndContext per layout
+ */
+
+import { closestCenter, CollisionDetection, pointerWithin } from '@dnd-kit/core';
+import { EditorPaneId } from './editorPanes';
+
+export type DragItemData =
+  | { type: 'note'; noteId: string; title: string }
+  | { type: 'notebook'; notebookId: string; title: string };
+
+export interface NotebookDropData {
+  type: 'notebook-target';
+  /** null is the top level */
+  notebookId: string | null;
+}
+
+/** A reminder dragged to another calendar day */
+export interface ReminderDragData {
+  type: 'reminder';
+  noteId: string;
+  title: string;
+}
+
+export interface CalendarDayDropData {
+  type: 'calendar-day';
+  /** Local date key, such as `2026-10-18` */
+  day: string;
+}
+
+/** An editor tab dragged to the other pane */
+export interface TabDragData {
+  type: 'tab';
+  noteId: string;
+  title: string;
+  pane: EditorPaneId;
+}
+
+/** The tabs of a pane, which take tabs and notes from the list */
+export interface TabStripDropData {
+  type: 'tab-strip';
+  pane: EditorPaneId;
+}
+
+export const isDragItem = (data: unknown): data is DragItemData =>
+  typeof data === 'object' && data !== null && ((data as DragItemData).type === 'note' || (data as DragItemData).type === 'notebook');
+
+export const isNotebookDrop = (data: unknown): data is NotebookDropData =>
+  typeof data === 'object' && data !== null && (data as NotebookDropData).type === 'notebook-target';
+
+export const isReminderDrag = (data: unknown): data is ReminderDragData =>
+  typeof data === 'object' && data !== null && (data as ReminderDragData).type === 'reminder';
+
+export const isTabDrag = (data: unknown): data is TabDragData =>
+  typeof data === 'object' && data !== null && (data as TabDragData).type === 'tab';
+
+export const isTabStripDrop = (data: unknown): data is TabStripDropData =>
+  typeof data === 'object' && data !== null && (data as TabStripDropData).type === 'tab-strip';
+
+export const isCalendarDayDrop = (data: unknown): data is CalendarDayDropData =>
+  typeof data === 'object' && data !== null && (data as CalendarDayDropData).type === 'calendar-day';
+
+/**
+ * Prefer the target under the pointer so notes dragged onto the sidebar land
+ * on the hovered notebook; keyboard drags fall back to the closest target
+ */
+export const notesCollisionDetection: CollisionDetection = (args) => {
+  const hits = pointerWithin(args);
+  return hits.length > 0 ? hits : closestCenter(args);
+};
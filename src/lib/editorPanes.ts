@@ -0,0 +1,136 @@
+/**
+ * Editor Panes
+ * The editor area shows one pane, or two side by side in split view. Each
+ * pane has its own tabs and open note; notes picked anywhere else in the
+ * app open in the pane focused last.
+ */
+
+export type EditorPaneId = 'main' | 'split';
+
+/** Panes in the order they are laid out */
+export const EDITOR_PANE_IDS: EditorPaneId[] = ['main', 'split'];
+
+export interface OpenTab {
+  id: string;
+  title: string;
+}
+
+export interface EditorPane {
+  tabs: OpenTab[];
+  /** Note shown in the pane, which may have no tab (e.g. after going back) */
+  noteId: string | null;
+}
+
+export interface EditorPanes {
+  main: EditorPane;
+  /** null when the editor is not split */
+  split: EditorPane | null;
+  active: EditorPaneId;
+}
+
+const EMPTY_PANE: EditorPane = { tabs: [], noteId: null };
+
+export const INITIAL_EDITOR_PANES: EditorPanes = { main: EMPTY_PANE, split: null, active: 'main' };
+
+export function getActivePane(panes: EditorPanes): EditorPane {
+  return (panes.active === 'split' && panes.split) || panes.main;
+}
+
+function updatePane(panes: EditorPanes, id: EditorPaneId, update: (pane: EditorPane) => EditorPane): EditorPanes {
+  const pane = panes[id];
+  return pane ? { ...panes, [id]: update(pane) } : panes;
+}
+
+function updateEachPane(panes: EditorPanes, update: (pane: EditorPane) => EditorPane): EditorPanes {
+  return { ...panes, main: update(panes.main), split: panes.split && update(panes.split) };
+}
+
+/**
+ * Open a note in a pane, adding a tab unless it has one, and focus the pane
+ */
+export function openTab(panes: EditorPanes, tab: OpenTab, id: EditorPaneId = panes.active): EditorPanes {
+  const target = panes[id] ? id : 'main';
+  return {
+    ...updatePane(panes, target, pane => ({
+      tabs: pane.tabs.some(t => t.id === tab.id) ? pane.tabs : [...pane.tabs, tab],
+      noteId: tab.id,
+    })),
+    active: target,
+  };
+}
+
+/**
+ * Show a note in the focused pane without opening a tab for it
+ */
+export function showNote(panes: EditorPanes, noteId: string | null): EditorPanes {
+  return updatePane(panes, panes.active, pane => ({ ...pane, noteId }));
+}
+
+/**
+ * Close a tab. Closing the shown note shows the last remaining tab.
+ */
+export function closeTab(panes: EditorPanes, id: EditorPaneId, noteId: string): EditorPanes {
+  return updatePane(panes, id, pane => {
+    const tabs = pane.tabs.filter(tab => tab.id !== noteId);
+    return {
+      tabs,
+      noteId: pane.noteId === noteId ? tabs[tabs.length - 1]?.id ?? null : pane.noteId,
+    };
+  });
+}
+
+/**
+ * Move a tab to another pane, or open a note there that has no tab yet
+ */
+export function moveTab(panes: EditorPanes, tab: OpenTab, to: EditorPaneId): EditorPanes {
+  const from: EditorPaneId = to === 'main' ? 'split' : 'main';
+  return openTab(closeTab(panes, from, tab.id), tab, to);
+}
+
+/**
+ * Stop showing a note, e.g. once it is archived, keeping its tabs
+ */
+export function hideNote(panes: EditorPanes, noteId: string): EditorPanes {
+  return updateEachPane(panes, pane => (pane.noteId === noteId ? { ...pane, noteId: null } : pane));
+}
+
+/**
+ * Close every tab of a deleted note
+ */
+export function removeNote(panes: EditorPanes, noteId: string): EditorPanes {
+  return updateEachPane(panes, pane => ({
+    tabs: pane.tabs.filter(tab => tab.id !== noteId),
+    noteId: pane.noteId === noteId ? null : pane.noteId,
+  }));
+}
+
+/**
+ * Update the tabs of both panes, e.g. after notes are renamed
+ */
+export function mapTabs(panes: EditorPanes, update: (tab: OpenTab) => OpenTab): EditorPanes {
+  return updateEachPane(panes, pane => ({ ...pane, tabs: pane.tabs.map(update) }));
+}
+
+export function focusPane(panes: EditorPanes, id: EditorPaneId): EditorPanes {
+  return panes.active === id || !panes[id] ? panes : { ...panes, active: id };
+}
+
+/**
+ * Split the editor. The new pane starts empty and focused, so the next note
+ * picked opens beside the current one.
+ */
+export function splitPanes(panes: EditorPanes): EditorPanes {
+  return panes.split ? panes : { ...panes, split: EMPTY_PANE, active: 'split' };
+}
+
+/**
+ * Go back to one pane, keeping the tabs of both
+ */
+export function unsplitPanes(panes: EditorPanes): EditorPanes {
+  if (!panes.split) return panes;
+
+  const { main, split } = panes;
+  const tabs = [...main.tabs, ...split.tabs.filter(tab => !main.tabs.some(t => t.id === tab.id))];
+  const noteId = panes.active === 'split' ? split.noteId ?? main.noteId : main.noteId ?? split.noteId;
+  return { main: { tabs, noteId }, split: null, active: 'main' };
+}
@@ -0,0 +1,334 @@
+/**
+ * Find and Replace
+ * Search patterns shared by the editor's find bar and find and replace
+ * across notes, which searches titles and the text of note HTML. Tags,
+ * attributes and the text of atoms such as note links are left alone.
+ */
+
+import { hasNoteLink, renameNoteLinks } from './noteLinks';
+
+export interface FindOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  /** Treat the query as a regular expression; `$1` and `$<name>` work in replacements */
+  regex: boolean;
+}
+
+export const DEFAULT_FIND_OPTIONS: FindOptions = { caseSensitive: false, wholeWord: false, regex: false };
+
+/**
+ * A match and its capture groups
+ */
+export interface PatternMatch {
+  text: string;
+  captures: (string | undefined)[];
+  groups?: Record<string, string | undefined>;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Search pattern for a query, or an error message when the regex is invalid
+ */
+export function buildPattern(query: string, options: FindOptions): RegExp | string {
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) {
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+
+  try {
+    return new RegExp(source, options.caseSensitive ? 'gu' : 'giu');
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid regular expression';
+  }
+}
+
+/**
+ * Every non-empty match of a global pattern in a string
+ */
+export function execAll(pattern: RegExp, text: string): (PatternMatch & { index: number })[] {
+  const matches: (PatternMatch & { index: number })[] = [];
+
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    if (match[0].length === 0) {
+      // Empty matches (e.g. `^` or `a*`) would never advance
+      pattern.lastIndex++;
+      continue;
+    }
+    matches.push({ index: match.index, text: match[0], captures: match.slice(1), groups: match.groups });
+  }
+  return matches;
+}
+
+/**
+ * Replacement text for a match, expanding `$&`, `$1` and `$<name>` in regex mode
+ */
+export function expandReplacement(replacement: string, match: PatternMatch, options: FindOptions): string {
+  if (!options.regex) return replacement;
+
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]+)>)/g, (token, key: string, name?: string) => {
+    if (key === '$') return '$';
+    if (key === '&') return match.text;
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const index = Number(key) - 1;
+    return index >= 0 && index < match.captures.length ? match.captures[index] ?? '' : token;
+  });
+}
+
+// ==================== ACROSS NOTES ====================
+
+export interface ReplaceableNote {
+  id: string;
+  title: string;
+  content: string;
+}
+
+export type MatchField = 'title' | 'content';
+
+/**
+ * A match in a note, with the text around it for the preview
+ */
+export interface NoteMatch {
+  /** Stable while the note is unchanged, e.g. `content-3` */
+  id: string;
+  field: MatchField;
+  before: string;
+  text: string;
+  after: string;
+  replacement: string;
+}
+
+export interface NoteMatches {
+  noteId: string;
+  title: string;
+  matches: NoteMatch[];
+}
+
+// Characters of context shown on each side of a match
+const CONTEXT_LENGTH = 40;
+
+// Elements whose text ends a run, so matches don't span blocks
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'UL', 'OL', 'BLOCKQUOTE', 'PRE',
+  'TABLE', 'TR', 'TD', 'TH', 'HR', 'BR', 'FIGURE', 'LABEL',
+]);
+
+// Atoms whose text mirrors an attribute or another note, never replaced
+const SKIPPED_SELECTOR = [
+  '[data-type="note-link"]',
+  '[data-type="inline-math"]',
+  '[data-type="block-math"]',
+  '[data-type="attachment"]',
+].join(',');
+
+/**
+ * Text nodes of a document, grouped into runs of text that reads as one
+ * line, the way the editor sees a paragraph
+ */
+function getTextRuns(body: HTMLElement): Text[][] {
+  const runs: Text[][] = [];
+  let run: Text[] = [];
+  const flush = () => {
+    if (run.length > 0) runs.push(run);
+    run = [];
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      run.push(node as Text);
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    if (element.matches(SKIPPED_SELECTOR)) {
+      flush();
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has(element.tagName);
+    if (isBlock) flush();
+    element.childNodes.forEach(walk);
+    if (isBlock) flush();
+  };
+
+  body.childNodes.forEach(walk);
+  flush();
+  return runs;
+}
+
+const runText = (run: Text[]) => run.map(node => node.data).join('');
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+function toNoteMatch(
+  id: string,
+  field: MatchField,
+  text: string,
+  match: PatternMatch & { index: number },
+  replacement: string,
+  options: FindOptions
+): NoteMatch {
+  const start = match.index;
+  const end = start + match.text.length;
+  return {
+    id,
+    field,
+    before: (start > CONTEXT_LENGTH ? '…' : '') + collapse(text.slice(Math.max(0, start - CONTEXT_LENGTH), start)),
+    text: collapse(match.text),
+    after: collapse(text.slice(end, end + CONTEXT_LENGTH)) + (end + CONTEXT_LENGTH < text.length ? '…' : ''),
+    replacement: expandReplacement(replacement, match, options),
+  };
+}
+
+/**
+ * Every match in a note's title and text, or null when there are none
+ */
+export function findInNote(
+  note: ReplaceableNote,
+  pattern: RegExp,
+  replacement: string,
+  options: FindOptions
+): NoteMatches | null {
+  const matches: NoteMatch[] = execAll(pattern, note.title).map((match, index) =>
+    toNoteMatch(`title-${index}`, 'title', note.title, match, replacement, options)
+  );
+
+  if (note.content) {
+    const doc = new DOMParser().parseFromString(note.content, 'text/html');
+    let index = 0;
+    getTextRuns(doc.body).forEach(run => {
+      const text = runText(run);
+      execAll(pattern, text).forEach(match => {
+        matches.push(toNoteMatch(`content-${index++}`, 'content', text, match, replacement, options));
+      });
+    });
+  }
+
+  return matches.length > 0 ? { noteId: note.id, title: note.title, matches } : null;
+}
+
+/**
+ * Replace a range of a run's text. The replacement goes into the text node
+ * where the match starts, so it keeps that node's formatting.
+ */
+function replaceInRun(run: Text[], start: number, end: number, replacement: string): void {
+  let offset = 0;
+  let inserted = false;
+
+  run.forEach(node => {
+    const nodeStart = offset;
+    const nodeEnd = offset + node.data.length;
+    offset = nodeEnd;
+    if (nodeEnd <= start || nodeStart >= end) return;
+
+    const from = Math.max(start, nodeStart) - nodeStart;
+    const to = Math.min(end, nodeEnd) - nodeStart;
+    node.data = node.data.slice(0, from) + (inserted ? '' : replacement) + node.data.slice(to);
+    inserted = true;
+
+    // Drop formatting left empty, e.g. a bold word that was replaced away
+    if (!node.data) {
+      let parent: Node | null = node.parentNode;
+      node.remove();
+      while (parent instanceof Element && !BLOCK_TAGS.has(parent.tagName) && parent.tagName !== 'BODY' &&
+        parent.childNodes.length === 0) {
+        const next = parent.parentNode;
+        parent.remove();
+        parent = next;
+      }
+    }
+  });
+}
+
+/**
+ * Apply the selected matches of a note, found with the same pattern
+ */
+export function replaceInNote(
+  note: ReplaceableNote,
+  pattern: RegExp,
+  replacement: string,
+  options: FindOptions,
+  selected: Set<string>
+): ReplaceableNote {
+  let title = note.title;
+  execAll(pattern, note.title)
+    .map((match, index) => ({ match, id: `title-${index}` }))
+    .filter(({ id }) => selected.has(id))
+    .reverse()
+    .forEach(({ match }) => {
+      const text = expandReplacement(replacement, match, options);
+      title = title.slice(0, match.index) + text + title.slice(match.index + match.text.length);
+    });
+
+  let content = note.content;
+  if (note.content && [...selected].some(id => id.startsWith('content-'))) {
+    const doc = new DOMParser().parseFromString(note.content, 'text/html');
+    let index = 0;
+    let changed = false;
+
+    getTextRuns(doc.body).forEach(run => {
+      const text = runText(run);
+      execAll(pattern, text)
+        .map(match => ({ match, id: `content-${index++}` }))
+        .filter(({ id }) => selected.has(id))
+        // Back to front, so earlier offsets stay valid
+        .reverse()
+        .forEach(({ match }) => {
+          replaceInRun(run, match.index, match.index + match.text.length, expandReplacement(replacement, match, options));
+          changed = true;
+        });
+    });
+
+    if (changed) content = doc.body.innerHTML;
+  }
+
+  return { id: note.id, title, content };
+}
+
+/**
+ * Set the title and content of several notes, rewriting [[links]] to the
+ * notes that were renamed. With `expected`, notes whose title or content
+ * no longer match it are left alone. Unchanged notes are returned as is.
+ */
+export function setNoteStates<T extends ReplaceableNote & { preview: string; updatedAt: Date }>(
+  notes: T[],
+  states: ReplaceableNote[],
+  expected?: ReplaceableNote[]
+): T[] {
+  const expectedById = expected && new Map(expected.map(state => [state.id, state]));
+  const isExpected = (note: ReplaceableNote) => {
+    const state = expectedById?.get(note.id);
+    return !expectedById || (state !== undefined && state.title === note.title && state.content === note.content);
+  };
+
+  const statesById = new Map(
+    states
+      .filter(state => {
+        const note = notes.find(n => n.id === state.id);
+        return note !== undefined && isExpected(note);
+      })
+      .map(state => [state.id, state])
+  );
+  const renamed = notes.filter(note => {
+    const state = statesById.get(note.id);
+    return state !== undefined && state.title !== note.title;
+  });
+
+  return notes.map(note => {
+    const state = statesById.get(note.id);
+    const title = state?.title ?? note.title;
+    let content = state?.content ?? note.content;
+    renamed.forEach(({ id }) => {
+      if (id !== note.id && hasNoteLink(content, id)) {
+        content = renameNoteLinks(content, id, statesById.get(id)!.title || 'Untitled');
+      }
+    });
+
+    return title === note.title && content === note.content
+      ? note
+      : { ...note, title, content, preview: content.substring(0, 100), updatedAt: new Date() };
+  });
+}
@@ -0,0 +1,38 @@
+/**
+ * HTML to plain text conversion for note content
+ */
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'BLOCKQUOTE', 'PRE', 'TR', 'HR', 'BR',
+]);
+
+/**
+ * Convert note HTML to plain text, one line per block
+ */
+export function htmlToText(html: string): string {
+  if (!html) return '';
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const lines: string[] = [];
+  let current = '';
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += node.textContent ?? '';
+      return;
+    }
+
+    const isBlock = BLOCK_TAGS.has((node as Element).tagName);
+    node.childNodes.forEach(walk);
+
+    if (isBlock) {
+      lines.push(current);
+      current = '';
+    }
+  };
+
+  doc.body.childNodes.forEach(walk);
+  if (current) lines.push(current);
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
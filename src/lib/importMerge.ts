@@ -0,0 +1,197 @@
+/**
+ * Import Merge Utilities
+ * Compares imported records with existing ones by id and decides, per
+ * record, whether it is added, updated, left alone or kept as a copy
+ */
+
+import type { NoteReminder } from './reminders';
+
+export type MergeStrategy = 'newest' | 'keep-both' | 'skip';
+
+export type ImportAction = 'add' | 'update' | 'conflict' | 'unchanged';
+
+export type ImportRecordKind = 'note' | 'notebook' | 'tag';
+
+export interface MergeableRecord {
+  id: string;
+  createdAt: Date | string;
+  updatedAt?: Date | string;
+}
+
+export interface ImportPlanItem {
+  /** Unique across kinds: `${kind}:${id}` */
+  key: string;
+  kind: ImportRecordKind;
+  id: string;
+  label: string;
+  action: ImportAction;
+  incomingDate: Date;
+  existingDate?: Date;
+}
+
+export interface ImportPlan {
+  items: ImportPlanItem[];
+  counts: Record<ImportAction, number>;
+}
+
+export interface MergeOptions {
+  /** Strategy for records without an explicit choice */
+  strategy: MergeStrategy;
+  /** Per-record strategies keyed by plan item key */
+  strategies?: Record<string, MergeStrategy>;
+}
+
+/**
+ * How records of one kind are labelled, compared and copied
+ */
+export interface MergeDescriptor<T extends MergeableRecord> {
+  kind: ImportRecordKind;
+  label: (record: T) => string;
+  /** Fields that make two versions of a record different */
+  fields: (keyof T)[];
+  /** Create a conflict copy, or null if the kind cannot be duplicated */
+  copy: (<R extends T>(record: R) => R) | null;
+}
+
+export const MERGE_STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  newest: 'Keep newest',
+  'keep-both': 'Keep both',
+  skip: 'Skip',
+};
+
+export const getPlanItemKey = (kind: ImportRecordKind, id: string) => `${kind}:${id}`;
+
+const getRecordDate = (record: MergeableRecord) => new Date(record.updatedAt ?? record.createdAt);
+
+function isSameRecord<T extends MergeableRecord>(a: T, b: T, fields: (keyof T)[]): boolean {
+  return fields.every(field => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+}
+
+/**
+ * List what importing the records would do, without changing anything
+ */
+export function planRecords<T extends MergeableRecord>(
+  descriptor: MergeDescriptor<T>,
+  incoming: T[],
+  existing: T[]
+): ImportPlanItem[] {
+  const existingById = new Map(existing.map(record => [record.id, record]));
+
+  return incoming.map((record) => {
+    const current = existingById.get(record.id);
+    const incomingDate = getRecordDate(record);
+    let action: ImportAction = 'add';
+
+    if (current) {
+      if (isSameRecord(record, current, descriptor.fields)) {
+        action = 'unchanged';
+      } else {
+        // Local changes newer than the import would be lost by overwriting
+        action = incomingDate > getRecordDate(current) ? 'update' : 'conflict';
+      }
+    }
+
+    return {
+      key: getPlanItemKey(descriptor.kind, record.id),
+      kind: descriptor.kind,
+      id: record.id,
+      label: descriptor.label(record),
+      action,
+      incomingDate,
+      existingDate: current ? getRecordDate(current) : undefined,
+    };
+  });
+}
+
+/**
+ * Records that must be written to apply an import
+ */
+export function resolveRecords<T extends MergeableRecord>(
+  descriptor: MergeDescriptor<T>,
+  incoming: T[],
+  existing: T[],
+  options: MergeOptions
+): T[] {
+  const plan = planRecords(descriptor, incoming, existing);
+  const writes: T[] = [];
+
+  plan.forEach((item, index) => {
+    const record = incoming[index];
+    const strategy = options.strategies?.[item.key] ?? options.strategy;
+
+    switch (item.action) {
+      case 'add':
+        writes.push(record);
+        break;
+      case 'unchanged':
+        break;
+      default:
+        if (strategy === 'newest' && item.action === 'update') {
+          writes.push(record);
+        } else if (strategy === 'keep-both' && descriptor.copy) {
+          writes.push(descriptor.copy(record));
+        }
+    }
+  });
+
+  return writes;
+}
+
+export function buildImportPlan(items: ImportPlanItem[]): ImportPlan {
+  const counts: Record<ImportAction, number> = { add: 0, update: 0, conflict: 0, unchanged: 0 };
+  items.forEach(item => counts[item.action]++);
+  return { items, counts };
+}
+
+interface NoteLike extends MergeableRecord {
+  title: string;
+  content: string;
+  tags: string[];
+  isFavorite: boolean;
+  section: string;
+  notebookId?: string;
+  reminder?: NoteReminder;
+  journalDate?: string;
+  templateSection?: string;
+}
+
+interface NamedRecord extends MergeableRecord {
+  name: string;
+}
+
+interface NotebookRecord extends NamedRecord {
+  parentId?: string;
+}
+
+export const NOTE_MERGE: MergeDescriptor<NoteLike> = {
+  kind: 'note',
+  label: note => note.title || 'Untitled',
+  fields: [
+    'title', 'content', 'tags', 'isFavorite', 'section', 'notebookId',
+    'reminder', 'journalDate', 'templateSection',
+  ],
+  copy: note => ({
+    ...note,
+    id: crypto.randomUUID(),
+    title: `${note.title || 'Untitled'} (conflict copy)`,
+  }),
+};
+
+export const NOTEBOOK_MERGE: MergeDescriptor<NotebookRecord> = {
+  kind: 'notebook',
+  label: notebook => notebook.name,
+  fields: ['name', 'parentId'],
+  copy: notebook => ({
+    ...notebook,
+    id: crypto.randomUUID(),
+    name: `${notebook.name} (imported)`,
+  }),
+};
+
+// Notes reference tags by name, so a renamed copy would be orphaned
+export const TAG_MERGE: MergeDescriptor<NamedRecord> = {
+  kind: 'tag',
+  label: tag => `#${tag.name}`,
+  fields: ['name'],
+  copy: null,
+};
@@ -0,0 +1,115 @@
+/**
+ * Journal
+ * Daily notes: one note per day in the journal notebook, identified by its
+ * `journalDate` rather than its title so entries can be renamed. New
+ * entries start from a plain-text template with the same placeholders as
+ * note templates.
+ */
+
+import { format } from 'date-fns';
+import { fromDayKey, toDayKey } from './calendar';
+import { fillTemplateVariables } from './templates';
+
+export interface JournalNote {
+  id: string;
+  section: string;
+  journalDate?: string;
+}
+
+export const JOURNAL_NOTEBOOK_NAME = 'Journal';
+
+export const DEFAULT_JOURNAL_TEMPLATE = `## Plans
+-
+
+## Log
+-
+
+## Notes
+`;
+
+export const JOURNAL_TEMPLATE_VARIABLES = [
+  { name: '{{date}}', description: 'Date of the entry, such as 10-18-2026' },
+  { name: '{{weekday}}', description: 'Day of the week, such as Sunday' },
+  { name: '{{time}}', description: 'Time the entry was created' },
+  { name: '{{cursor}}', description: 'Where the cursor starts in the entry' },
+];
+
+/**
+ * "Sunday, 10-18-2026"
+ */
+export const getJournalTitle = (date: Date) => format(date, 'EEEE, MM-dd-yyyy');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Editor HTML for a new entry. Template lines starting with `#` to `###`
+ * become headings and lines starting with `- ` become bullet points; other
+ * lines are paragraphs.
+ */
+export function renderJournalTemplate(template: string, date: Date, now: Date = new Date()): string {
+  const blocks: string[] = [];
+  let listItems: string[] = [];
+
+  const closeList = () => {
+    if (listItems.length === 0) return;
+    blocks.push(`<ul>${listItems.map(item => `<li><p>${item}</p></li>`).join('')}</ul>`);
+    listItems = [];
+  };
+
+  // The entry's day at the time it is created, for {{date}} and {{time}}
+  const createdAt = new Date(date);
+  createdAt.setHours(now.getHours(), now.getMinutes(), 0, 0);
+  // Content is escaped line by line below, so only the cursor marker matters here
+  const text = fillTemplateVariables(template, { date: createdAt, html: true });
+
+  text.split('\n').forEach(line => {
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    const bullet = /^[-*](?:\s+(.*))?$/.exec(line);
+
+    if (bullet && !heading) {
+      listItems.push(escapeHtml((bullet[1] ?? '').trim()));
+      return;
+    }
+    closeList();
+    if (heading) {
+      blocks.push(`<h${heading[1].length}>${escapeHtml(heading[2].trim())}</h${heading[1].length}>`);
+    } else if (line.trim()) {
+      blocks.push(`<p>${escapeHtml(line.trim())}</p>`);
+    }
+  });
+  closeList();
+
+  return blocks.join('');
+}
+
+/**
+ * The entry for a day, outside the trash
+ */
+export function findJournalEntry<T extends JournalNote>(notes: T[], date: Date): T | undefined {
+  const key = toDayKey(date);
+  return notes.find(note => note.journalDate === key && note.section !== 'trash');
+}
+
+/**
+ * Days that have an entry, oldest first
+ */
+export function getJournalDays(notes: JournalNote[]): Date[] {
+  const keys = new Set<string>();
+  notes.forEach(note => {
+    if (note.journalDate && note.section !== 'trash') keys.add(note.journalDate);
+  });
+  return [...keys].sort().map(fromDayKey);
+}
+
+/**
+ * The closest day with an entry before or after a day, if any
+ */
+export function getAdjacentJournalDay(notes: JournalNote[], date: Date, direction: 1 | -1): Date | null {
+  const key = toDayKey(date);
+  const days = getJournalDays(notes).map(toDayKey);
+  const adjacent = direction === 1
+    ? days.find(day => day > key)
+    : [...days].reverse().find(day => day < key);
+  return adjacent ? fromDayKey(adjacent) : null;
+}
@@ -0,0 +1,239 @@
+/**
+ * Markdown conversion for note content
+ * Export: tables become GFM tables, task lists `- [ ]` items, callouts GFM
+ * alerts, note links `[[Title]]`, code blocks fences with their language,
+ * equations `$TeX$` or `$$TeX$$` and attachments links to `attachment:<id>`.
+ * Import: GFM is parsed with marked, whose fences keep their language as
+ * `<code class="language-x">` for the editor's code blocks; `$` and `$$`
+ * math becomes the editor's math nodes.
+ */
+
+import { Marked, TokenizerAndRendererExtension } from 'marked';
+
+const CALLOUT_ALERTS: Record<string, string> = {
+  info: 'NOTE',
+  warning: 'WARNING',
+  tip: 'TIP',
+};
+
+const wrap = (marker: string, text: string) => (text ? `${marker}${text}${marker}` : '');
+
+const prefixLines = (text: string, prefix: string) =>
+  text.split('\n').map(line => (line ? prefix + line : prefix.trimEnd())).join('\n');
+
+function inlineToMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? '';
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const content = () => Array.from(element.childNodes).map(inlineToMarkdown).join('');
+
+  switch (element.tagName) {
+    case 'STRONG':
+    case 'B':
+      return wrap('**', content());
+    case 'EM':
+    case 'I':
+      return wrap('*', content());
+    case 'U':
+      return wrap('_', content());
+    case 'S':
+    case 'STRIKE':
+    case 'DEL':
+      return wrap('~~', content());
+    case 'CODE':
+      return wrap('`', element.textContent ?? '');
+    case 'A':
+      return `[${content()}](${element.getAttribute('href') ?? ''})`;
+    case 'IMG':
+      return `![${element.getAttribute('alt') ?? ''}](${element.getAttribute('src') ?? ''})`;
+    case 'BR':
+      return '\n';
+    case 'SPAN':
+      if (element.getAttribute('data-type') === 'note-link') return `[[${element.textContent}]]`;
+      if (element.getAttribute('data-type') === 'inline-math') return `$${element.textContent}$`;
+      return content();
+    default:
+      return content();
+  }
+}
+
+function listToMarkdown(list: Element, ordered: boolean): string {
+  const start = Number(list.getAttribute('start')) || 1;
+
+  return Array.from(list.children)
+    .filter(item => item.tagName === 'LI')
+    .map((item, index) => {
+      const marker = ordered ? `${start + index}.` : '-';
+      const checkbox = item.getAttribute('data-type') === 'taskItem'
+        ? `[${item.getAttribute('data-checked') === 'true' ? 'x' : ' '}] `
+        : '';
+      // List items are tight: their blocks go on consecutive lines
+      const [first = '', ...rest] = childrenToMarkdown(item, '\n').split('\n');
+      const indent = ' '.repeat(marker.length + 1);
+      return [`${marker} ${checkbox}${first}`, ...rest.map(line => (line ? indent + line : line))].join('\n');
+    })
+    .join('\n');
+}
+
+const span = (cell: Element, name: string) => Math.max(Number(cell.getAttribute(name)) || 1, 1);
+
+function tableToMarkdown(table: Element): string {
+  // Merged cells are spread over the grid, the text in the first slot
+  const grid: string[][] = [];
+  table.querySelectorAll(':scope > * > tr, :scope > tr').forEach((row, rowIndex) => {
+    grid[rowIndex] ??= [];
+    let column = 0;
+
+    Array.from(row.children).forEach(cell => {
+      while (grid[rowIndex][column] !== undefined) column++;
+      const text = childrenToMarkdown(cell, '\n').replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+      const rowSpan = span(cell, 'rowspan');
+      const colSpan = span(cell, 'colspan');
+
+      for (let r = 0; r < rowSpan; r++) {
+        grid[rowIndex + r] ??= [];
+        for (let c = 0; c < colSpan; c++) {
+          grid[rowIndex + r][column + c] = r === 0 && c === 0 ? text : '';
+        }
+      }
+      column += colSpan;
+    });
+  });
+
+  if (grid.length === 0) return '';
+
+  // GFM tables always have a header, so the first row is used as one
+  const width = Math.max(...grid.map(row => row.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: width }, (_, index) => cells[index] ?? '').join(' | ')} |`;
+  const [header, ...body] = grid;
+
+  return [line(header), line(Array(width).fill('---')), ...body.map(line)].join('\n');
+}
+
+function blockToMarkdown(element: Element, separator: string): string {
+  switch (element.tagName) {
+    case 'H1':
+    case 'H2':
+    case 'H3':
+    case 'H4':
+    case 'H5':
+    case 'H6':
+      return `${'#'.repeat(Number(element.tagName[1]))} ${inlineToMarkdown(element)}`;
+    case 'P':
+      return inlineToMarkdown(element);
+    case 'BLOCKQUOTE':
+      return prefixLines(childrenToMarkdown(element), '> ');
+    case 'PRE': {
+      const language = element.querySelector('code')?.className.match(/language-(\S+)/)?.[1] ?? '';
+      return `\`\`\`${language}\n${(element.textContent ?? '').replace(/\n$/, '')}\n\`\`\``;
+    }
+    case 'UL':
+      return listToMarkdown(element, false);
+    case 'OL':
+      return listToMarkdown(element, true);
+    case 'HR':
+      return '---';
+    case 'TABLE':
+      return tableToMarkdown(element);
+    case 'DIV': {
+      if (element.getAttribute('data-type') === 'block-math') return `$$\n${element.textContent}\n$$`;
+      if (element.getAttribute('data-type') === 'attachment') {
+        const link = `[${element.textContent}](attachment:${element.getAttribute('data-id')})`;
+        return element.getAttribute('data-mime')?.startsWith('image/') ? `!${link}` : link;
+      }
+      const alert = element.getAttribute('data-type') === 'callout'
+        ? CALLOUT_ALERTS[element.getAttribute('data-variant') ?? 'info'] ?? 'NOTE'
+        : null;
+      // A plain div, such as the body of a task item, takes its parent's spacing
+      const content = childrenToMarkdown(element, alert ? '\n\n' : separator);
+      return alert ? prefixLines(`[!${alert}]\n${content}`, '> ') : content;
+    }
+    default:
+      return inlineToMarkdown(element);
+  }
+}
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'PRE', 'UL', 'OL', 'HR', 'TABLE',
+]);
+
+/**
+ * Blocks of an element joined by `separator`; inline content between
+ * blocks forms a paragraph of its own
+ */
+function childrenToMarkdown(parent: Element, separator = '\n\n'): string {
+  const blocks: string[] = [];
+  let inline = '';
+
+  const flush = () => {
+    if (inline.trim()) blocks.push(inline.trim());
+    inline = '';
+  };
+
+  parent.childNodes.forEach(child => {
+    const element = child as Element;
+    // The checkbox of a task item is written as `[ ]` by the list
+    if (element.tagName === 'LABEL' && parent.getAttribute('data-type') === 'taskItem') return;
+
+    if (child.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has(element.tagName)) {
+      flush();
+      const block = blockToMarkdown(element, separator);
+      if (block.trim()) blocks.push(block);
+    } else {
+      inline += inlineToMarkdown(child);
+    }
+  });
+  flush();
+
+  return blocks.join(separator);
+}
+
+/**
+ * Convert note HTML to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  if (!html) return '';
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return childrenToMarkdown(doc.body).replace(/\n{3,}/g, '\n\n').trim();
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const MATH_EXTENSIONS: TokenizerAndRendererExtension[] = [
+  {
+    name: 'blockMath',
+    level: 'block',
+    start: src => src.match(/^\$\$/m)?.index,
+    tokenizer: src => {
+      const match = /^\$\$([\s\S]+?)\$\$[^\S\n]*(?:\n|$)/.exec(src);
+      return match ? { type: 'blockMath', raw: match[0], text: match[1].trim() } : undefined;
+    },
+    renderer: token => `<div data-type="block-math">${escapeHtml(token.text)}</div>`,
+  },
+  {
+    name: 'inlineMath',
+    level: 'inline',
+    start: src => src.indexOf('$'),
+    // No space just inside the dollars and no digit after, so prices stay
+    // text; `$$…$$` within a paragraph is inline too
+    tokenizer: src => {
+      const match = /^(\$\$?)([^\s$](?:[^$\n]*[^\s$])?)\1(?!\d)/.exec(src);
+      return match ? { type: 'inlineMath', raw: match[0], text: match[2] } : undefined;
+    },
+    renderer: token => `<span data-type="inline-math">${escapeHtml(token.text)}</span>`,
+  },
+];
+
+const markdownParser = new Marked({ gfm: true, extensions: MATH_EXTENSIONS });
+
+/**
+ * Convert Markdown, such as an imported `.md` file, to note HTML
+ */
+export function markdownToHtml(markdown: string): string {
+  if (!markdown.trim()) return '';
+  return markdownParser.parse(markdown, { async: false });
+}
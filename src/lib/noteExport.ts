@@ -4,6 +4,8 @@
  * Supports importing notes from JSON backup
  */
 
+import { htmlToMarkdown } from './markdown';
+
 export interface ExportableNote {
   id: string;
   title: string;
@@ -43,7 +45,7 @@ export function noteToMarkdown(note: ExportableNote): string {
   lines.push('');
   
   // Content
-  lines.push(note.content);
+  lines.push(htmlToMarkdown(note.content));
   
   return lines.join('\n');
 }
@@ -197,7 +199,7 @@ export async function downloadNotesAsZip(notes: ExportableNote[]): Promise<void>
       lines.push(`*Tags: ${note.tags.join(', ')}*`);
     }
     lines.push('');
-    lines.push(note.content);
+    lines.push(htmlToMarkdown(note.content));
     lines.push('');
     lines.push('---');
     lines.push('');
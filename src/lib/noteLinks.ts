@@ -0,0 +1,101 @@
+/**
+ * Note Links
+ * Helpers for wiki-style links between notes, stored in note HTML as
+ * `<span data-type="note-link" data-note-id="…">Title</span>`
+ */
+
+// Characters of context kept on each side of a link
+const SNIPPET_CONTEXT = 60;
+
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, td, th, pre';
+
+interface LinkableNote {
+  id: string;
+  title: string;
+  content: string;
+  section: string;
+}
+
+export interface BacklinkSnippet {
+  before: string;
+  linkText: string;
+  after: string;
+}
+
+export interface Backlink {
+  noteId: string;
+  title: string;
+  snippets: BacklinkSnippet[];
+}
+
+const linkSelector = (noteId: string) =>
+  `span[data-type="note-link"][data-note-id="${CSS.escape(noteId)}"]`;
+
+/**
+ * Cheap check before parsing the HTML
+ */
+export function hasNoteLink(html: string, noteId: string): boolean {
+  return html.includes(`data-note-id="${noteId}"`);
+}
+
+/**
+ * Rewrite the text of every link to a note, returns the HTML unchanged
+ * when it has no such link
+ */
+export function renameNoteLinks(html: string, noteId: string, title: string): string {
+  if (!hasNoteLink(html, noteId)) return html;
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  doc.querySelectorAll(linkSelector(noteId)).forEach(link => {
+    link.textContent = title;
+  });
+  return doc.body.innerHTML;
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ');
+
+/**
+ * Text around a link within its enclosing block
+ */
+function getSnippet(link: Element): BacklinkSnippet {
+  const block = link.closest(BLOCK_SELECTOR) ?? link.parentElement ?? link;
+  const range = link.ownerDocument.createRange();
+
+  range.setStart(block, 0);
+  range.setEndBefore(link);
+  let before = collapse(range.toString()).trimStart();
+
+  range.setStartAfter(link);
+  range.setEnd(block, block.childNodes.length);
+  let after = collapse(range.toString()).trimEnd();
+
+  if (before.length > SNIPPET_CONTEXT) before = '…' + before.slice(-SNIPPET_CONTEXT);
+  if (after.length > SNIPPET_CONTEXT) after = after.slice(0, SNIPPET_CONTEXT) + '…';
+
+  return { before, linkText: link.textContent ?? '', after };
+}
+
+/**
+ * Notes linking to the given note, with a snippet per link.
+ * Notes in the trash are left out.
+ */
+export function getBacklinks(notes: LinkableNote[], noteId: string): Backlink[] {
+  const parser = new DOMParser();
+  const backlinks: Backlink[] = [];
+
+  notes.forEach(note => {
+    if (note.id === noteId || note.section === 'trash' || !hasNoteLink(note.content, noteId)) return;
+
+    const doc = parser.parseFromString(note.content, 'text/html');
+    const links = doc.querySelectorAll(linkSelector(noteId));
+    if (links.length === 0) return;
+
+    backlinks.push({
+      noteId: note.id,
+      title: note.title,
+      snippets: Array.from(links, getSnippet),
+    });
+  });
+
+  return backlinks;
+}
@@ -0,0 +1,107 @@
+/**
+ * Notebook Hierarchy
+ * Notebooks nest through `parentId`. A missing or unknown parent places a
+ * notebook at the top level, so orphans from imports stay visible.
+ */
+
+export interface NotebookLike {
+  id: string;
+  name: string;
+  parentId?: string;
+}
+
+export interface NotebookTreeNode<T extends NotebookLike> {
+  notebook: T;
+  depth: number;
+  children: NotebookTreeNode<T>[];
+}
+
+const byName = <T extends NotebookLike>(a: NotebookTreeNode<T>, b: NotebookTreeNode<T>) =>
+  a.notebook.name.localeCompare(b.notebook.name, undefined, { sensitivity: 'base' });
+
+/**
+ * Nest notebooks under their parents, siblings sorted by name
+ */
+export function buildNotebookTree<T extends NotebookLike>(notebooks: T[]): NotebookTreeNode<T>[] {
+  const ids = new Set(notebooks.map(notebook => notebook.id));
+  const childrenOf = new Map<string | undefined, T[]>();
+
+  notebooks.forEach(notebook => {
+    const parentId = notebook.parentId && ids.has(notebook.parentId) ? notebook.parentId : undefined;
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), notebook]);
+  });
+
+  const placed = new Set<string>();
+  const build = (siblings: T[], depth: number): NotebookTreeNode<T>[] => {
+    siblings.forEach(notebook => placed.add(notebook.id));
+    return siblings
+      .map(notebook => ({
+        notebook,
+        depth,
+        children: build((childrenOf.get(notebook.id) ?? []).filter(child => !placed.has(child.id)), depth + 1),
+      }))
+      .sort(byName);
+  };
+
+  const roots = build(childrenOf.get(undefined) ?? [], 0);
+
+  // Notebooks in a parent cycle are never reached from the top, show them there
+  notebooks.forEach(notebook => {
+    if (!placed.has(notebook.id)) roots.push(...build([notebook], 0));
+  });
+  return roots.sort(byName);
+}
+
+/**
+ * The notebook and every notebook nested below it
+ */
+export function getNotebookSubtreeIds(notebooks: NotebookLike[], notebookId: string): Set<string> {
+  const subtree = new Set([notebookId]);
+  let added = true;
+
+  // Repeat until no notebook joins, independent of the list order
+  while (added) {
+    added = false;
+    notebooks.forEach(notebook => {
+      if (notebook.parentId && subtree.has(notebook.parentId) && !subtree.has(notebook.id)) {
+        subtree.add(notebook.id);
+        added = true;
+      }
+    });
+  }
+
+  return subtree;
+}
+
+/**
+ * Names from the top level down to the notebook, e.g. `["Work", "Projects"]`
+ */
+export function getNotebookPath(notebooks: NotebookLike[], notebookId: string): string[] {
+  const byId = new Map(notebooks.map(notebook => [notebook.id, notebook]));
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let current = byId.get(notebookId);
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.unshift(current.name);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * Whether a notebook can be moved under a new parent without creating a
+ * cycle. `undefined` moves it to the top level.
+ */
+export function canMoveNotebook(notebooks: NotebookLike[], notebookId: string, parentId?: string): boolean {
+  if (!parentId) return true;
+  return !getNotebookSubtreeIds(notebooks, notebookId).has(parentId);
+}
+
+/**
+ * What happens to the contents of a deleted notebook: moved up to its
+ * parent, or its sub-notebooks deleted and every note moved to the trash
+ */
+export type NotebookDeleteMode = 'move-to-parent' | 'trash';
@@ -0,0 +1,57 @@
+/**
+ * System Notifications
+ * Wraps the Notification API, which some browsers lack and which stays
+ * blocked until the user allows it
+ */
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+const isSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export function getNotificationPermission(): NotificationPermissionState {
+  return isSupported() ? Notification.permission : 'unsupported';
+}
+
+/**
+ * Ask the user to allow notifications, if they have not decided yet
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (!isSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error('Failed to request notification permission:', error);
+    return Notification.permission;
+  }
+}
+
+interface SystemNotificationOptions {
+  body?: string;
+  /** Replaces an earlier notification with the same tag */
+  tag?: string;
+  onClick?: () => void;
+}
+
+/**
+ * Show a system notification when allowed
+ * @returns Whether the notification was shown
+ */
+export function showSystemNotification(title: string, { body, tag, onClick }: SystemNotificationOptions = {}): boolean {
+  if (getNotificationPermission() !== 'granted') return false;
+
+  try {
+    const notification = new Notification(title, { body, tag });
+    notification.onclick = () => {
+      window.focus();
+      onClick?.();
+      notification.close();
+    };
+    return true;
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error('Failed to show notification:', error);
+    return false;
+  }
+}
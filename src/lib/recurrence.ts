@@ -0,0 +1,250 @@
+/**
+ * Recurrence Rules
+ * A subset of iCalendar RRULE: `FREQ` (DAILY, WEEKLY, MONTHLY, YEARLY),
+ * `INTERVAL`, `BYDAY` for weekly rules, `UNTIL` and `COUNT`. Occurrences keep
+ * the time of day of the first one; monthly and yearly rules skip months
+ * without that day, as RRULE does.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Days of the week, weekly rules only */
+  byDay?: Weekday[];
+  /** Last day an occurrence may fall on */
+  until?: Date;
+  /** Occurrences left, including the current one */
+  count?: number;
+}
+
+// Indexed like Date.getDay()
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat', SU: 'Sun',
+};
+const WORKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const RECURRENCE_PRESETS = [
+  { label: 'Daily', rule: 'FREQ=DAILY' },
+  { label: 'Every weekday', rule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { label: 'Weekly', rule: 'FREQ=WEEKLY' },
+  { label: 'Every 2 weeks', rule: 'FREQ=WEEKLY;INTERVAL=2' },
+  { label: 'Monthly', rule: 'FREQ=MONTHLY' },
+  { label: 'Yearly', rule: 'FREQ=YEARLY' },
+];
+
+/**
+ * `20261231` or `20261231T235959Z`, as used by UNTIL
+ */
+function parseRuleDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59', utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+function formatRuleDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse an RRULE string, with or without the `RRULE:` prefix. Returns null
+ * for rules this app cannot repeat.
+ */
+export function parseRecurrence(value: string): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean).forEach(part => {
+    const [key, ...rest] = part.split('=');
+    parts.set(key.trim().toUpperCase(), rest.join('=').trim().toUpperCase());
+  });
+
+  const freq = parts.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') return null;
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, raw] of parts) {
+    switch (key) {
+      case 'FREQ':
+      case 'WKST':
+        break;
+      case 'INTERVAL': {
+        const interval = Number(raw);
+        if (!Number.isInteger(interval) || interval < 1) return null;
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY': {
+        const days = raw.split(',');
+        if (freq !== 'WEEKLY' || !days.every(day => WEEKDAYS.includes(day as Weekday))) return null;
+        rule.byDay = WEEKDAYS.filter(day => days.includes(day));
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseRuleDate(raw);
+        if (!until) return null;
+        rule.until = until;
+        break;
+      }
+      case 'COUNT': {
+        const count = Number(raw);
+        if (!Number.isInteger(count) || count < 1) return null;
+        rule.count = count;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  return rule;
+}
+
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${formatRuleDate(rule.until)}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+/**
+ * Human-readable form, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export function describeRecurrence(value: string): string {
+  const rule = parseRecurrence(value);
+  if (!rule) return 'Custom';
+
+  const unit = FREQUENCY_UNITS[rule.freq];
+  const isWorkdays = rule.byDay?.length === WORKDAYS.length && WORKDAYS.every(day => rule.byDay!.includes(day));
+
+  let text = isWorkdays && rule.interval === 1
+    ? 'Every weekday'
+    : rule.interval === 1
+      ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq]
+      : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byDay?.length && !(isWorkdays && rule.interval === 1)) {
+    text += ` on ${rule.byDay.map(day => WEEKDAY_NAMES[day]).join(', ')}`;
+  }
+  if (rule.count) text += `, ${rule.count} ${rule.count === 1 ? 'time' : 'times'} left`;
+  if (rule.until) text += ` until ${rule.until.toLocaleDateString()}`;
+
+  return text;
+}
+
+/**
+ * The date `months` months after `date` with the same day and time, or
+ * null when that month is too short
+ */
+function addMonths(date: Date, months: number): Date | null {
+  const result = new Date(date);
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  result.setDate(date.getDate());
+  return result.getDate() === date.getDate() ? result : null;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Weeks start on Monday, the RRULE default
+function startOfWeek(date: Date): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  result.setDate(result.getDate() - ((result.getDay() + 6) % 7));
+  return result;
+}
+
+function weeksBetween(a: Date, b: Date): number {
+  return Math.round((startOfWeek(b).getTime() - startOfWeek(a).getTime()) / (7 * DAY_MS));
+}
+
+/**
+ * First occurrence of a series starting at `start` that falls after
+ * `after`, or null when the series has ended before then
+ */
+function findOccurrence(rule: RecurrenceRule, start: Date, after: Date): Date | null {
+  const from = after > start ? after : start;
+
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) {
+    // Walk the days from the later of start and `after`, in weeks of the series
+    const firstDay = from === start ? addDays(start, 1) : new Date(from);
+    firstDay.setHours(start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds());
+
+    for (let offset = 0; offset <= 7 * (rule.interval + 1); offset++) {
+      const day = addDays(firstDay, offset);
+      if (
+        day > from &&
+        weeksBetween(start, day) % rule.interval === 0 &&
+        rule.byDay.includes(WEEKDAYS[day.getDay()])
+      ) {
+        return day;
+      }
+    }
+    return null;
+  }
+
+  if (rule.freq === 'DAILY' || rule.freq === 'WEEKLY') {
+    const step = rule.interval * (rule.freq === 'DAILY' ? 1 : 7);
+    // Estimate from elapsed days, then step forward past DST shifts
+    let index = Math.max(1, Math.floor((from.getTime() - start.getTime()) / DAY_MS / step));
+    let next = addDays(start, index * step);
+    while (next <= from) {
+      index++;
+      next = addDays(start, index * step);
+    }
+    return next;
+  }
+
+  const step = rule.interval * (rule.freq === 'MONTHLY' ? 1 : 12);
+  const elapsedMonths = (from.getFullYear() - start.getFullYear()) * 12 + from.getMonth() - start.getMonth();
+  // Feb 29 only comes back every four years, so allow a few skipped steps
+  for (let index = Math.max(1, Math.floor(elapsedMonths / step)); index <= Math.floor(elapsedMonths / step) + 48; index++) {
+    const next = addMonths(start, index * step);
+    if (next && next > from) return next;
+  }
+  return null;
+}
+
+export interface NextOccurrence {
+  date: Date;
+  /** The rule to store with it, COUNT lowered by one */
+  rule: string;
+}
+
+/**
+ * The occurrence that follows `current` and lies after `now`, so
+ * completing an overdue reminder skips the occurrences already missed.
+ * Returns null when the series is over or the rule is not supported.
+ */
+export function getNextOccurrence(value: string, current: Date, now: Date = new Date()): NextOccurrence | null {
+  const rule = parseRecurrence(value);
+  if (!rule || rule.count === 1) return null;
+
+  const date = findOccurrence(rule, current, now);
+  if (!date || (rule.until && date > rule.until)) return null;
+
+  return {
+    date,
+    rule: formatRecurrence(rule.count ? { ...rule, count: rule.count - 1 } : rule),
+  };
+}
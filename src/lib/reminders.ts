@@ -0,0 +1,155 @@
+/**
+ * Reminders
+ * A note reminder is due at a date and time, optionally repeating by an
+ * RRULE. Snoozing postpones the alert without moving the due date;
+ * completing a repeating reminder moves it to the next occurrence.
+ */
+
+import { getNextOccurrence } from './recurrence';
+
+export interface NoteReminder {
+  /** When the reminder is due; for repeating reminders the next occurrence */
+  dueAt: Date;
+  /** RRULE such as `FREQ=WEEKLY;BYDAY=MO`, unset for one-off reminders */
+  recurrence?: string;
+  /** Alert postponed until then */
+  snoozedUntil?: Date;
+  /** When the last alert fired, so each due time alerts once */
+  notifiedAt?: Date;
+  /** Set once a one-off reminder, or the last occurrence, is done */
+  completedAt?: Date;
+}
+
+export interface ReminderNote {
+  section: string;
+  reminder?: NoteReminder;
+}
+
+export const SNOOZE_OPTIONS = [
+  { label: '10 minutes', minutes: 10 },
+  { label: '1 hour', minutes: 60 },
+  { label: '1 day', minutes: 24 * 60 },
+];
+
+const optionalDate = (value: unknown) => (value ? new Date(value as string) : undefined);
+
+/**
+ * Restore the dates of a reminder read from JSON
+ */
+export function reviveReminder(reminder: NoteReminder | undefined): NoteReminder | undefined {
+  if (!reminder?.dueAt) return undefined;
+  return {
+    ...reminder,
+    dueAt: new Date(reminder.dueAt),
+    snoozedUntil: optionalDate(reminder.snoozedUntil),
+    notifiedAt: optionalDate(reminder.notifiedAt),
+    completedAt: optionalDate(reminder.completedAt),
+  };
+}
+
+/**
+ * When the reminder alerts next: the snooze time, if any, or the due date
+ */
+export function getAlertTime(reminder: NoteReminder): Date {
+  return reminder.snoozedUntil ?? reminder.dueAt;
+}
+
+/**
+ * Whether a note shows up in Reminders: an open reminder outside the trash
+ */
+export function hasOpenReminder(note: ReminderNote): boolean {
+  return note.section !== 'trash' && note.reminder !== undefined && !note.reminder.completedAt;
+}
+
+/**
+ * Whether a note is listed in the Reminders section. Notes filed there
+ * before reminders had due dates stay listed.
+ */
+export function isInReminders(note: ReminderNote): boolean {
+  return hasOpenReminder(note) || note.section === 'reminders';
+}
+
+export function isReminderOverdue(reminder: NoteReminder, now: Date = new Date()): boolean {
+  return !reminder.completedAt && getAlertTime(reminder) <= now;
+}
+
+/**
+ * Reminders whose alert time has passed and that have not alerted for it yet
+ */
+export function getDueReminders<T extends ReminderNote>(notes: T[], now: Date = new Date()): T[] {
+  return notes.filter(note => {
+    if (!hasOpenReminder(note)) return false;
+    const alertAt = getAlertTime(note.reminder!);
+    return alertAt <= now && (!note.reminder!.notifiedAt || note.reminder!.notifiedAt < alertAt);
+  });
+}
+
+/**
+ * The earliest alert still to come, to schedule the next check
+ */
+export function getNextAlertTime(notes: ReminderNote[], now: Date = new Date()): Date | null {
+  let next: Date | null = null;
+  notes.forEach(note => {
+    if (!hasOpenReminder(note)) return;
+    const alertAt = getAlertTime(note.reminder!);
+    if (alertAt > now && (!next || alertAt < next)) next = alertAt;
+  });
+  return next;
+}
+
+/**
+ * Soonest due first, notes without a reminder last
+ */
+export function compareReminders(a: ReminderNote, b: ReminderNote): number {
+  const timeA = a.reminder ? getAlertTime(a.reminder).getTime() : Infinity;
+  const timeB = b.reminder ? getAlertTime(b.reminder).getTime() : Infinity;
+  return timeA === timeB ? 0 : timeA < timeB ? -1 : 1;
+}
+
+export function snoozeReminder(reminder: NoteReminder, minutes: number, now: Date = new Date()): NoteReminder {
+  return { ...reminder, snoozedUntil: new Date(now.getTime() + minutes * 60 * 1000) };
+}
+
+/**
+ * Mark a reminder done. Repeating reminders move on to their next
+ * occurrence instead, until the series ends.
+ */
+export function completeReminder(reminder: NoteReminder, now: Date = new Date()): NoteReminder {
+  const next = reminder.recurrence ? getNextOccurrence(reminder.recurrence, reminder.dueAt, now) : null;
+  if (next) {
+    return { dueAt: next.date, recurrence: next.rule };
+  }
+  return { ...reminder, snoozedUntil: undefined, completedAt: now };
+}
+
+/**
+ * Due time for a new reminder: the start of the next hour
+ */
+export function getDefaultDueDate(now: Date = new Date()): Date {
+  const due = new Date(now);
+  due.setHours(due.getHours() + 1, 0, 0, 0);
+  return due;
+}
+
+/**
+ * "Today, 3:00 PM", "Tomorrow, 9:00 AM" or "Mon, 10-19-2026, 9:00 AM"
+ */
+export function formatReminderTime(date: Date, now: Date = new Date()): string {
+  const time = date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+  const dayDiff = Math.round(
+    (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() -
+      new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()) / (24 * 60 * 60 * 1000)
+  );
+
+  if (dayDiff === 0) return `Today, ${time}`;
+  if (dayDiff === 1) return `Tomorrow, ${time}`;
+  if (dayDiff === -1) return `Yesterday, ${time}`;
+
+  const day = date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: '2-digit',
+    day: '2-digit',
+    year: 'numeric',
+  }).replace(/\//g, '-');
+  return `${day}, ${time}`;
+}
@@ -0,0 +1,86 @@
+/**
+ * Revision History Utilities
+ * Decides when an edit is worth a snapshot
+ */
+
+import { RevisionReason } from './db';
+import { htmlToText } from './htmlText';
+
+// Minimum time between two regular snapshots of the same note
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+
+// Deletions at least this large are always snapshotted
+const LARGE_DELETE_CHARS = 80;
+const LARGE_DELETE_RATIO = 0.2;
+const LARGE_DELETE_MIN_CHARS = 20;
+
+export interface NoteState {
+  title: string;
+  content: string;
+}
+
+// Last snapshot per note, shared by every editor instance
+const lastSnapshots = new Map<string, NoteState & { time: number }>();
+
+/**
+ * Decide whether the previous state of a note should be kept before it is
+ * overwritten. Returns the snapshot reason, or null to skip.
+ */
+export function getSnapshotReason(
+  noteId: string,
+  previous: NoteState,
+  next: NoteState,
+  now: number = Date.now()
+): RevisionReason | null {
+  if (previous.title === next.title && previous.content === next.content) {
+    return null;
+  }
+
+  // The previous state is already in history (e.g. right after a restore)
+  const last = lastSnapshots.get(noteId);
+  if (last && last.title === previous.title && last.content === previous.content) {
+    return null;
+  }
+
+  const previousText = htmlToText(previous.content);
+  const nextText = htmlToText(next.content);
+
+  // An empty note has nothing worth restoring
+  if (!previousText && !previous.title) {
+    return null;
+  }
+
+  const removed = previousText.length - nextText.length;
+  if (
+    removed >= LARGE_DELETE_CHARS ||
+    (removed >= LARGE_DELETE_MIN_CHARS && removed / previousText.length >= LARGE_DELETE_RATIO)
+  ) {
+    return 'large-delete';
+  }
+
+  if (!last || now - last.time >= SNAPSHOT_INTERVAL_MS) {
+    return 'edit';
+  }
+
+  return null;
+}
+
+/**
+ * Remember the last snapshot of a note
+ */
+export function markSnapshot(noteId: string, state: NoteState, time: number = Date.now()): void {
+  lastSnapshots.set(noteId, { title: state.title, content: state.content, time });
+}
+
+export function getRevisionReasonLabel(reason: RevisionReason): string {
+  switch (reason) {
+    case 'large-delete':
+      return 'Before large deletion';
+    case 'before-restore':
+      return 'Before restore';
+    case 'before-replace':
+      return 'Before find and replace';
+    default:
+      return 'Edit';
+  }
+}
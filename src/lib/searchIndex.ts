@@ -0,0 +1,452 @@
+/**
+ * Full-Text Search Index
+ * Inverted index over note titles and plain-text content with BM25
+ * ranking and prefix matching. Updated incrementally as notes are saved
+ * and persisted encrypted through the database service.
+ */
+
+import { db } from './db';
+import { htmlToText } from './htmlText';
+import { ParsedQuery, tokenize } from './searchQuery';
+
+// Title words count this many times as often as content words
+const TITLE_BOOST = 3;
+
+// Prefix matches rank below exact word matches
+const PREFIX_WEIGHT = 0.6;
+
+// Bound the work done for very short prefixes like "a"
+const MAX_PREFIX_EXPANSIONS = 64;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// Characters of context shown around the first match
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+
+const SAVE_DELAY_MS = 2000;
+
+const FORMAT_VERSION = 1;
+
+export interface IndexableNote {
+  id: string;
+  title: string;
+  content: string;
+  updatedAt: Date;
+}
+
+export interface HighlightPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchMatch {
+  id: string;
+  score: number;
+  title: HighlightPart[];
+  snippet: HighlightPart[];
+}
+
+interface IndexedDocument {
+  updatedAt: number;
+  length: number;
+  terms: Map<string, number>;
+}
+
+interface SerializedIndex {
+  version: number;
+  /** [id, updatedAt, length, [term, weight, term, weight, ...]] */
+  documents: [string, number, number, (string | number)[]][];
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Regex matching every word that starts with a query term, and every phrase
+ */
+function buildHighlightPattern(query: ParsedQuery): RegExp | null {
+  const alternatives = [
+    ...query.phrases.map(phrase => phrase.split(/\s+/).map(escapeRegExp).join('\\s+')),
+    ...query.terms.map(term => `${escapeRegExp(term)}[\\p{L}\\p{N}]*`),
+  ];
+  if (alternatives.length === 0) return null;
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})`, 'giu');
+}
+
+function highlight(text: string, pattern: RegExp | null): HighlightPart[] {
+  if (!pattern) return text ? [{ text, highlight: false }] : [];
+
+  const parts: HighlightPart[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    if (start > last) parts.push({ text: text.slice(last, start), highlight: false });
+    parts.push({ text: match[0], highlight: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), highlight: false });
+
+  return parts;
+}
+
+/**
+ * Cut a window of text around the first match and highlight it
+ */
+function buildSnippet(text: string, pattern: RegExp | null): HighlightPart[] {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const first = pattern ? flat.search(pattern) : -1;
+
+  let start = first > SNIPPET_LEAD ? first - SNIPPET_LEAD : 0;
+  // Don't cut into the middle of a word
+  if (start > 0) {
+    const space = flat.indexOf(' ', start);
+    start = space !== -1 && space < first ? space + 1 : start;
+  }
+  const end = Math.min(flat.length, start + SNIPPET_LENGTH);
+
+  const parts = highlight(flat.slice(start, end), pattern);
+  if (start > 0) parts.unshift({ text: '…', highlight: false });
+  if (end < flat.length) parts.push({ text: '…', highlight: false });
+  return parts;
+}
+
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, number>>();
+  private sortedTerms: string[] | null = null;
+  private totalLength = 0;
+  private texts = new Map<string, { content: string; text: string }>();
+  private version = 0;
+  private listeners = new Set<() => void>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Subscribe to index changes, returns an unsubscribe function
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getVersion = (): number => this.version;
+
+  private notify(): void {
+    this.version++;
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Plain text of a note's content, cached until the content changes
+   */
+  getText(note: IndexableNote): string {
+    const cached = this.texts.get(note.id);
+    if (cached && cached.content === note.content) return cached.text;
+
+    const text = htmlToText(note.content);
+    this.texts.set(note.id, { content: note.content, text });
+    return text;
+  }
+
+  private addDocument(id: string, document: IndexedDocument): void {
+    this.removeDocument(id);
+    this.documents.set(id, document);
+    this.totalLength += document.length;
+
+    document.terms.forEach((weight, term) => {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+        this.sortedTerms = null;
+      }
+      posting.set(id, weight);
+    });
+  }
+
+  private removeDocument(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) return false;
+
+    document.terms.forEach((_, term) => {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    });
+    this.totalLength -= document.length;
+    this.documents.delete(id);
+    return true;
+  }
+
+  private indexNote(note: IndexableNote): void {
+    const terms = new Map<string, number>();
+    const titleTokens = tokenize(note.title);
+    const contentTokens = tokenize(this.getText(note));
+
+    titleTokens.forEach(token => terms.set(token, (terms.get(token) ?? 0) + TITLE_BOOST));
+    contentTokens.forEach(token => terms.set(token, (terms.get(token) ?? 0) + 1));
+
+    this.addDocument(note.id, {
+      updatedAt: note.updatedAt.getTime(),
+      length: titleTokens.length * TITLE_BOOST + contentTokens.length,
+      terms,
+    });
+  }
+
+  /**
+   * Index new or changed notes
+   */
+  update(notes: IndexableNote[]): void {
+    if (notes.length === 0) return;
+    notes.forEach(note => this.indexNote(note));
+    this.notify();
+  }
+
+  remove(ids: string[]): void {
+    let changed = false;
+    ids.forEach(id => {
+      this.texts.delete(id);
+      changed = this.removeDocument(id) || changed;
+    });
+    if (changed) this.notify();
+  }
+
+  /**
+   * Bring the index in line with the given notes, re-indexing only notes
+   * whose update time differs. Returns whether anything changed.
+   */
+  sync(notes: IndexableNote[]): boolean {
+    const ids = new Set(notes.map(note => note.id));
+    const stale = notes.filter(note =>
+      this.documents.get(note.id)?.updatedAt !== note.updatedAt.getTime()
+    );
+    const removed = [...this.documents.keys()].filter(id => !ids.has(id));
+
+    stale.forEach(note => this.indexNote(note));
+    removed.forEach(id => {
+      this.texts.delete(id);
+      this.removeDocument(id);
+    });
+
+    const changed = stale.length > 0 || removed.length > 0;
+    if (changed) this.notify();
+    return changed;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.texts.clear();
+    this.sortedTerms = null;
+    this.totalLength = 0;
+    this.notify();
+  }
+
+  /**
+   * Indexed terms starting with a prefix, the exact term first
+   */
+  private expand(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = [...this.postings.keys()].sort();
+    }
+    const terms = this.sortedTerms;
+
+    // Binary search for the first term >= prefix
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (terms[mid] < prefix) low = mid + 1;
+      else high = mid;
+    }
+
+    const matches: string[] = [];
+    for (let i = low; i < terms.length && matches.length < MAX_PREFIX_EXPANSIONS; i++) {
+      if (!terms[i].startsWith(prefix)) break;
+      matches.push(terms[i]);
+    }
+    return matches;
+  }
+
+  /**
+   * Score documents containing every term (or a word starting with it).
+   * Returns a map of note id to score.
+   */
+  private score(terms: string[]): Map<string, number> {
+    const count = this.documents.size;
+    const averageLength = count > 0 ? this.totalLength / count : 0;
+    let scores: Map<string, number> | null = null;
+
+    for (const term of new Set(terms)) {
+      const termScores = new Map<string, number>();
+
+      for (const expanded of this.expand(term)) {
+        const posting = this.postings.get(expanded)!;
+        const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5));
+        const boost = expanded === term ? 1 : PREFIX_WEIGHT;
+
+        posting.forEach((weight, id) => {
+          if (scores && !scores.has(id)) return;
+          const length = this.documents.get(id)!.length;
+          const tf = (weight * (K1 + 1)) / (weight + K1 * (1 - B + (B * length) / averageLength));
+          const value = idf * tf * boost;
+          // Only the best expansion counts, so common prefixes don't dominate
+          termScores.set(id, Math.max(termScores.get(id) ?? 0, value));
+        });
+      }
+
+      if (scores) {
+        const previous: Map<string, number> = scores;
+        termScores.forEach((value, id) => termScores.set(id, value + previous.get(id)!));
+      }
+      scores = termScores;
+      if (scores.size === 0) break;
+    }
+
+    return scores ?? new Map();
+  }
+
+  /**
+   * Rank the given notes against the text part of a query, best first.
+   * Notes that don't match every term and phrase are left out.
+   */
+  search<T extends IndexableNote>(notes: T[], query: ParsedQuery): SearchMatch[] {
+    const scores = this.score(query.terms);
+    const pattern = buildHighlightPattern(query);
+    const matches: SearchMatch[] = [];
+
+    for (const note of notes) {
+      const score = scores.get(note.id);
+      if (score === undefined) continue;
+
+      const text = this.getText(note);
+      if (query.phrases.length > 0) {
+        const haystack = `${note.title}\n${text}`.toLowerCase().replace(/\s+/g, ' ');
+        if (!query.phrases.every(phrase => haystack.includes(phrase.replace(/\s+/g, ' ')))) {
+          continue;
+        }
+      }
+
+      matches.push({
+        id: note.id,
+        score,
+        title: highlight(note.title, pattern),
+        snippet: buildSnippet(text, pattern),
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  serialize(): string {
+    const data: SerializedIndex = {
+      version: FORMAT_VERSION,
+      documents: [...this.documents].map(([id, document]) => [
+        id,
+        document.updatedAt,
+        document.length,
+        [...document.terms].flat(),
+      ]),
+    };
+    return JSON.stringify(data);
+  }
+
+  /**
+   * Replace the index with a serialized one, returns false if it is unusable
+   */
+  load(serialized: string): boolean {
+    let data: SerializedIndex;
+    try {
+      data = JSON.parse(serialized);
+    } catch {
+      return false;
+    }
+    if (data.version !== FORMAT_VERSION || !Array.isArray(data.documents)) return false;
+
+    this.documents.clear();
+    this.postings.clear();
+    this.sortedTerms = null;
+    this.totalLength = 0;
+
+    for (const [id, updatedAt, length, flatTerms] of data.documents) {
+      const terms = new Map<string, number>();
+      for (let i = 0; i < flatTerms.length; i += 2) {
+        terms.set(flatTerms[i] as string, flatTerms[i + 1] as number);
+      }
+      this.addDocument(id, { updatedAt, length, terms });
+    }
+
+    this.notify();
+    return true;
+  }
+}
+
+// Shared index for the notes of the unlocked vault
+export const searchIndex = new SearchIndex();
+
+// ==================== PERSISTENCE ====================
+
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let isRestored = false;
+
+/**
+ * Write the index to the database once edits settle
+ */
+export function scheduleSearchIndexSave(): void {
+  if (saveTimer) clearTimeout(saveTimer);
+
+  saveTimer = setTimeout(async () => {
+    saveTimer = null;
+    try {
+      await db.saveSearchIndex(searchIndex.serialize());
+    } catch (error) {
+      console.error('Failed to save search index:', error);
+    }
+  }, SAVE_DELAY_MS);
+}
+
+/**
+ * Load the saved index on first use, then re-index whatever changed
+ * since it was written. Notes are read once loading is done, as edits
+ * indexed in the meantime are replaced by the saved index.
+ */
+export async function restoreSearchIndex(getNotes: () => IndexableNote[]): Promise<void> {
+  if (!isRestored) {
+    isRestored = true;
+    try {
+      const saved = await db.getSearchIndex();
+      if (saved && searchIndex.load(saved)) {
+        console.log(`🔎 Search index loaded (${searchIndex.size} notes)`);
+      }
+    } catch (error) {
+      console.error('Failed to load search index, rebuilding:', error);
+    }
+  }
+
+  if (searchIndex.sync(getNotes())) {
+    scheduleSearchIndexSave();
+  }
+}
+
+/**
+ * Drop the in-memory index and any pending save (on lock/logout)
+ */
+export function resetSearchIndex(): void {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  isRestored = false;
+  searchIndex.clear();
+}
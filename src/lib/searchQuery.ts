@@ -0,0 +1,209 @@
+/**
+ * Search Query Parser
+ * Splits a search box query into free-text terms, quoted phrases and
+ * operators such as `tag:work`, `notebook:"Research"`, `is:favorite`,
+ * `in:trash` and `created:>2026-01-01`
+ */
+
+import { isTagInSubtree } from './tags';
+import { NoteReminder, isInReminders } from './reminders';
+
+export type DateComparison = '>' | '>=' | '<' | '<=' | '=';
+
+export interface DateFilter {
+  comparison: DateComparison;
+  /** Start of the day the filter refers to, in local time */
+  date: Date;
+}
+
+export interface ParsedQuery {
+  /** Lowercased words that must all match, by prefix */
+  terms: string[];
+  /** Lowercased phrases that must appear verbatim */
+  phrases: string[];
+  tags: string[];
+  notebooks: string[];
+  favorite?: boolean;
+  /** Sections from `in:`, overriding the active section */
+  sections: string[];
+  created: DateFilter[];
+  updated: DateFilter[];
+}
+
+export interface FilterableNote {
+  createdAt: Date;
+  updatedAt: Date;
+  tags: string[];
+  isFavorite: boolean;
+  section: string;
+  notebookId?: string;
+  reminder?: NoteReminder;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// key:value, key:"quoted value", "quoted phrase" or a bare word
+const TOKEN_PATTERN = /(\w+):(?:"([^"]*)"?|(\S+))|"([^"]*)"?|(\S+)/g;
+
+const DATE_PATTERN = /^(>=|<=|>|<|=)?(\d{4})-(\d{1,2})-(\d{1,2})$/;
+
+/**
+ * Split text into lowercased words, the unit the search index works on
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+function parseDateFilter(value: string): DateFilter | null {
+  const match = value.match(DATE_PATTERN);
+  if (!match) return null;
+
+  const [, comparison = '=', year, month, day] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  if (isNaN(date.getTime())) return null;
+
+  return { comparison: comparison as DateComparison, date };
+}
+
+export function parseSearchQuery(input: string): ParsedQuery {
+  const query: ParsedQuery = {
+    terms: [],
+    phrases: [],
+    tags: [],
+    notebooks: [],
+    sections: [],
+    created: [],
+    updated: [],
+  };
+
+  const addText = (text: string) => {
+    query.terms.push(...tokenize(text));
+  };
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, key, quotedValue, plainValue, phrase, word] = match;
+
+    if (word !== undefined) {
+      addText(word);
+      continue;
+    }
+
+    if (phrase !== undefined) {
+      const words = tokenize(phrase);
+      // A phrase needs each of its words in the note, and then the exact text
+      query.terms.push(...words);
+      if (words.length > 1) query.phrases.push(phrase.toLowerCase().trim());
+      continue;
+    }
+
+    const value = (quotedValue ?? plainValue ?? '').trim();
+    if (!value) continue;
+
+    switch (key.toLowerCase()) {
+      case 'tag':
+        query.tags.push(value.replace(/^#/, '').toLowerCase());
+        break;
+      case 'notebook':
+        query.notebooks.push(value.toLowerCase());
+        break;
+      case 'is':
+        if (value.toLowerCase() === 'favorite' || value.toLowerCase() === 'fav') {
+          query.favorite = true;
+        } else {
+          addText(raw);
+        }
+        break;
+      case 'in':
+        query.sections.push(value.toLowerCase());
+        break;
+      case 'created':
+      case 'updated': {
+        const filter = parseDateFilter(value);
+        if (filter) {
+          query[key.toLowerCase() as 'created' | 'updated'].push(filter);
+        } else {
+          addText(raw);
+        }
+        break;
+      }
+      default:
+        // Not an operator (e.g. a time like 10:30), search it as text
+        addText(raw);
+    }
+  }
+
+  return query;
+}
+
+export function hasTextQuery(query: ParsedQuery): boolean {
+  return query.terms.length > 0;
+}
+
+export function isEmptyQuery(query: ParsedQuery): boolean {
+  return (
+    query.terms.length === 0 &&
+    query.tags.length === 0 &&
+    query.notebooks.length === 0 &&
+    query.sections.length === 0 &&
+    query.created.length === 0 &&
+    query.updated.length === 0 &&
+    query.favorite === undefined
+  );
+}
+
+function matchesDate(value: Date, filter: DateFilter): boolean {
+  const time = value.getTime();
+  const start = filter.date.getTime();
+  const end = start + DAY_MS;
+
+  switch (filter.comparison) {
+    case '>':
+      return time >= end;
+    case '>=':
+      return time >= start;
+    case '<':
+      return time < start;
+    case '<=':
+      return time < end;
+    default:
+      return time >= start && time < end;
+  }
+}
+
+/**
+ * Check a note against the operators of a query (not its text)
+ */
+export function matchesQueryFilters(
+  note: FilterableNote,
+  query: ParsedQuery,
+  notebookNames: Map<string, string>
+): boolean {
+  if (query.favorite && !note.isFavorite) return false;
+
+  if (query.sections.length > 0) {
+    const inSection = query.sections.some(section =>
+      section === 'favorites'
+        ? note.isFavorite && note.section !== 'trash'
+        : section === 'reminders'
+          ? isInReminders(note)
+          : note.section === section
+    );
+    if (!inSection) return false;
+  }
+
+  if (query.tags.length > 0) {
+    // tag:work also matches nested tags such as work/projects
+    const tags = note.tags.map(tag => tag.toLowerCase());
+    if (!query.tags.every(path => tags.some(tag => isTagInSubtree(tag, path)))) return false;
+  }
+
+  if (query.notebooks.length > 0) {
+    const notebook = note.notebookId ? notebookNames.get(note.notebookId)?.toLowerCase() : undefined;
+    if (!notebook || !query.notebooks.every(name => name === notebook)) return false;
+  }
+
+  return (
+    query.created.every(filter => matchesDate(note.createdAt, filter)) &&
+    query.updated.every(filter => matchesDate(note.updatedAt, filter))
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Keyboard Shortcuts
+ * Default bindings, key normalization and conflict detection. Each shortcut
+ * runs the palette command with the same id.
+ *
+ * Bindings are stored as strings such as `Mod+Shift+K`, where `Mod` is Cmd
+ * on macOS and Ctrl elsewhere.
+ */
+
+export interface ShortcutDefinition {
+  /** Id of the command the shortcut runs */
+  id: string;
+  label: string;
+  group: string;
+  defaultBinding: string | null;
+}
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { id: 'palette.open', label: 'Command Palette', group: 'General', defaultBinding: 'Mod+K' },
+  { id: 'note.new', label: 'New Note', group: 'General', defaultBinding: 'Alt+N' },
+  { id: 'journal.today', label: "Today's Journal", group: 'General', defaultBinding: 'Alt+T' },
+  { id: 'search.focus', label: 'Search Notes', group: 'General', defaultBinding: 'Mod+F' },
+  { id: 'search.replace', label: 'Find and Replace in Notes', group: 'General', defaultBinding: 'Mod+Shift+H' },
+  { id: 'vault.lock', label: 'Lock Vault', group: 'General', defaultBinding: 'Mod+Shift+L' },
+  { id: 'layout.toggleSidebar', label: 'Toggle Sidebar', group: 'Layout', defaultBinding: 'Mod+\\' },
+  { id: 'layout.toggleNotesList', label: 'Toggle Notes List', group: 'Layout', defaultBinding: 'Mod+Shift+\\' },
+  { id: 'layout.toggleFocusMode', label: 'Toggle Focus Mode', group: 'Layout', defaultBinding: 'Mod+Shift+F' },
+  { id: 'layout.toggleSplitView', label: 'Toggle Split View', group: 'Layout', defaultBinding: 'Alt+\\' },
+  { id: 'tabs.next', label: 'Next Tab', group: 'Navigation', defaultBinding: 'Mod+Shift+]' },
+  { id: 'tabs.previous', label: 'Previous Tab', group: 'Navigation', defaultBinding: 'Mod+Shift+[' },
+  { id: 'history.back', label: 'Go Back', group: 'Navigation', defaultBinding: 'Mod+[' },
+  { id: 'history.forward', label: 'Go Forward', group: 'Navigation', defaultBinding: 'Mod+]' },
+];
+
+/**
+ * Combinations that are taken by the editor or cannot be overridden in the
+ * browser, with the reason shown to the user
+ */
+const RESERVED_BINDINGS: Record<string, string> = {
+  'Mod+B': 'Bold in the editor',
+  'Mod+I': 'Italic in the editor',
+  'Mod+U': 'Underline in the editor',
+  'Mod+Z': 'Undo in the editor',
+  'Mod+Y': 'Redo in the editor',
+  'Mod+Shift+Z': 'Redo in the editor',
+  'Mod+H': 'Find and replace in the editor',
+  'Mod+A': 'Select all',
+  'Mod+C': 'Copy',
+  'Mod+V': 'Paste',
+  'Mod+X': 'Cut',
+  'Mod+N': 'New window in the browser',
+  'Mod+T': 'New tab in the browser',
+  'Mod+W': 'Close tab in the browser',
+  'Mod+Q': 'Quit the browser',
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock']);
+
+// Punctuation keys by physical position, so Shift doesn't change the binding
+const CODE_KEYS: Record<string, string> = {
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Slash: '/',
+  Comma: ',',
+  Period: '.',
+  Minus: '-',
+  Equal: '=',
+  Semicolon: ';',
+  Quote: "'",
+  Backquote: '`',
+};
+
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * Turn a keydown event into a binding string, or null for a lone modifier
+ */
+export function eventToBinding(event: KeyboardEvent): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  let key: string;
+  if (/^Key[A-Z]$/.test(event.code)) {
+    key = event.code.slice(3);
+  } else if (/^Digit\d$/.test(event.code)) {
+    key = event.code.slice(5);
+  } else if (CODE_KEYS[event.code]) {
+    key = CODE_KEYS[event.code];
+  } else {
+    key = event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  }
+
+  const parts: string[] = [];
+  if (isMac ? event.metaKey : event.ctrlKey) parts.push('Mod');
+  if (isMac && event.ctrlKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey) parts.push('Shift');
+  parts.push(key);
+
+  return parts.join('+');
+}
+
+/**
+ * Whether a binding can fire while typing in an input or the editor
+ */
+export function hasCommandModifier(binding: string): boolean {
+  return /(^|\+)(Mod|Ctrl|Alt)\+/.test(binding);
+}
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ' ': 'Space',
+};
+
+/**
+ * Human readable binding, e.g. `Ctrl + Shift + K` or `⌘ ⇧ K`
+ */
+export function formatBinding(binding: string): string {
+  const parts = binding.split(/\+(?!$)/);
+
+  if (isMac) {
+    const symbols: Record<string, string> = { Mod: '⌘', Ctrl: '⌃', Alt: '⌥', Shift: '⇧' };
+    return parts.map(part => symbols[part] ?? KEY_LABELS[part] ?? part).join(' ');
+  }
+  return parts
+    .map(part => (part === 'Mod' ? 'Ctrl' : KEY_LABELS[part] ?? part))
+    .join(' + ');
+}
+
+/**
+ * Effective binding of every shortcut after user overrides
+ */
+export function resolveBindings(overrides: Record<string, string | null>): Record<string, string | null> {
+  const bindings: Record<string, string | null> = {};
+  SHORTCUTS.forEach(shortcut => {
+    bindings[shortcut.id] = shortcut.id in overrides ? overrides[shortcut.id] : shortcut.defaultBinding;
+  });
+  return bindings;
+}
+
+export type BindingConflict =
+  | { type: 'reserved'; reason: string }
+  | { type: 'shortcut'; shortcut: ShortcutDefinition };
+
+/**
+ * Check whether a binding can be assigned to a shortcut
+ */
+export function findConflict(
+  id: string,
+  binding: string,
+  bindings: Record<string, string | null>
+): BindingConflict | null {
+  if (RESERVED_BINDINGS[binding]) {
+    return { type: 'reserved', reason: RESERVED_BINDINGS[binding] };
+  }
+
+  const other = SHORTCUTS.find(shortcut => shortcut.id !== id && bindings[shortcut.id] === binding);
+  return other ? { type: 'shortcut', shortcut: other } : null;
+}
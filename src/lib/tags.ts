@@ -0,0 +1,147 @@
+/**
+ * Tag Hierarchy
+ * Tags are `/`-separated paths such as `work/projects`. Notes store the full
+ * path; parents are implied, so a note tagged `work/projects` also counts
+ * towards and is shown under `work`.
+ */
+
+export const TAG_SEPARATOR = '/';
+
+export interface TagTreeNode {
+  /** Full path, e.g. `work/projects` */
+  path: string;
+  /** Last segment, e.g. `projects` */
+  name: string;
+  depth: number;
+  /** Notes tagged with this path or a path below it */
+  noteCount: number;
+  children: TagTreeNode[];
+}
+
+interface TaggedNote {
+  tags: string[];
+  section: string;
+}
+
+/**
+ * Trim every segment and drop empty ones: ` work// projects ` → `work/projects`
+ */
+export function normalizeTagPath(path: string): string {
+  return path
+    .replace(/^#/, '')
+    .split(TAG_SEPARATOR)
+    .map(segment => segment.trim())
+    .filter(Boolean)
+    .join(TAG_SEPARATOR);
+}
+
+/**
+ * Ancestors of a path, outermost first, excluding the path itself
+ */
+export function getTagAncestors(path: string): string[] {
+  const segments = path.split(TAG_SEPARATOR);
+  return segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join(TAG_SEPARATOR));
+}
+
+/**
+ * Whether a tag is the path itself or nested below it
+ */
+export function isTagInSubtree(tag: string, path: string): boolean {
+  return tag === path || tag.startsWith(path + TAG_SEPARATOR);
+}
+
+/**
+ * Move a tag from one subtree to another, `undefined` if it is not in `from`.
+ * `to` of null removes the tag.
+ */
+export function relocateTag(tag: string, from: string, to: string | null): string | null | undefined {
+  if (!isTagInSubtree(tag, from)) return undefined;
+  if (to === null) return null;
+  return to + tag.slice(from.length);
+}
+
+/**
+ * Rename (or merge, when `to` already exists) or delete a tag subtree in a
+ * note's tags. Returns the same array when nothing changed.
+ */
+export function rewriteTags(tags: string[], from: string, to: string | null): string[] {
+  if (!tags.some(tag => isTagInSubtree(normalizeTagPath(tag), from))) return tags;
+
+  const result = new Set<string>();
+
+  tags.forEach(tag => {
+    const path = normalizeTagPath(tag);
+    const relocated = relocateTag(path, from, to);
+    const next = relocated === undefined ? path : relocated;
+    // A Set drops the duplicates a merge can produce
+    if (next) result.add(next);
+  });
+
+  return [...result];
+}
+
+/**
+ * Note counts per tag path, parents included. Each note counts once per
+ * path; notes in the trash are left out.
+ */
+export function countTags(notes: TaggedNote[]): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  notes.forEach(note => {
+    if (note.section === 'trash') return;
+
+    const paths = new Set<string>();
+    note.tags.forEach(tag => {
+      const path = normalizeTagPath(tag);
+      if (!path) return;
+      getTagAncestors(path).forEach(ancestor => paths.add(ancestor));
+      paths.add(path);
+    });
+    paths.forEach(path => counts.set(path, (counts.get(path) ?? 0) + 1));
+  });
+
+  return counts;
+}
+
+/**
+ * Every tag path in use or defined, with implied parents, sorted
+ */
+export function collectTagPaths(notes: TaggedNote[], definedTags: string[] = []): string[] {
+  const paths = new Set<string>();
+  const add = (tag: string) => {
+    const path = normalizeTagPath(tag);
+    if (!path) return;
+    getTagAncestors(path).forEach(ancestor => paths.add(ancestor));
+    paths.add(path);
+  };
+
+  notes.forEach(note => note.tags.forEach(add));
+  definedTags.forEach(add);
+
+  return [...paths].sort((a, b) => a.localeCompare(b, undefined, { sensitivity: 'base' }));
+}
+
+/**
+ * Nest sorted tag paths under their parents
+ */
+export function buildTagTree(paths: string[], counts: Map<string, number>): TagTreeNode[] {
+  const roots: TagTreeNode[] = [];
+  const byPath = new Map<string, TagTreeNode>();
+
+  paths.forEach(path => {
+    const segments = path.split(TAG_SEPARATOR);
+    const node: TagTreeNode = {
+      path,
+      name: segments[segments.length - 1],
+      depth: segments.length - 1,
+      noteCount: counts.get(path) ?? 0,
+      children: [],
+    };
+    byPath.set(path, node);
+
+    const parent = byPath.get(segments.slice(0, -1).join(TAG_SEPARATOR));
+    (parent ? parent.children : roots).push(node);
+  });
+
+  return roots;
+}
@@ -0,0 +1,149 @@
+/**
+ * Tasks
+ * Checklist items in note HTML, stored by the editor's task list as
+ * `<li data-type="taskItem" data-checked="false" data-due="2026-10-20"
+ * data-priority="high">`. The Tasks view collects them from every note and
+ * ticks them by their position in the note.
+ */
+
+import { format } from 'date-fns';
+import { fromDayKey, toDayKey } from './calendar';
+
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+export const TASK_PRIORITIES: { id: TaskPriority; label: string }[] = [
+  { id: 'high', label: 'High' },
+  { id: 'medium', label: 'Medium' },
+  { id: 'low', label: 'Low' },
+];
+
+/** Groups of the Tasks view, in display order */
+export type TaskGroup = 'overdue' | 'today' | 'upcoming' | 'someday' | 'done';
+
+export const TASK_GROUP_LABELS: Record<TaskGroup, string> = {
+  overdue: 'Overdue',
+  today: 'Today',
+  upcoming: 'Upcoming',
+  someday: 'No Due Date',
+  done: 'Completed',
+};
+
+export interface TaskNote {
+  id: string;
+  title: string;
+  content: string;
+  section: string;
+  tags: string[];
+  notebookId?: string;
+}
+
+export interface NoteTask {
+  noteId: string;
+  noteTitle: string;
+  /** Position among the note's task items, in document order */
+  index: number;
+  text: string;
+  checked: boolean;
+  /** Day key such as `2026-10-20` */
+  dueDate?: string;
+  priority?: TaskPriority;
+  /** The note's tags and notebook, for filtering */
+  tags: string[];
+  notebookId?: string;
+}
+
+const TASK_SELECTOR = 'li[data-type="taskItem"]';
+
+// Sections whose notes don't contribute tasks
+const EXCLUDED_SECTIONS = ['trash', 'templates'];
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, medium: 1, low: 2 };
+
+export const isTaskPriority = (value: unknown): value is TaskPriority =>
+  value === 'high' || value === 'medium' || value === 'low';
+
+/**
+ * Cheap check before parsing the HTML
+ */
+export const hasTasks = (html: string) => html.includes('data-type="taskItem"');
+
+export const formatTaskDue = (dueDate: string) => format(fromDayKey(dueDate), 'MM-dd-yyyy');
+
+/**
+ * The item's own text, without its nested items
+ */
+function getTaskText(item: Element): string {
+  const body = Array.from(item.children).find(child => child.tagName === 'DIV');
+  if (!body) return '';
+  const clone = body.cloneNode(true) as Element;
+  clone.querySelectorAll('ul, ol').forEach(list => list.remove());
+  return (clone.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Task items of a note, in document order
+ */
+export function getNoteTasks(note: TaskNote): NoteTask[] {
+  if (!hasTasks(note.content)) return [];
+
+  const doc = new DOMParser().parseFromString(note.content, 'text/html');
+  return Array.from(doc.querySelectorAll(TASK_SELECTOR)).map((item, index) => {
+    const priority = item.getAttribute('data-priority');
+    return {
+      noteId: note.id,
+      noteTitle: note.title || 'Untitled',
+      index,
+      text: getTaskText(item),
+      checked: item.getAttribute('data-checked') === 'true',
+      dueDate: item.getAttribute('data-due') ?? undefined,
+      priority: isTaskPriority(priority) ? priority : undefined,
+      tags: note.tags,
+      notebookId: note.notebookId,
+    };
+  });
+}
+
+/**
+ * Task items of every note outside Trash and Templates
+ */
+export function collectTasks(notes: TaskNote[]): NoteTask[] {
+  return notes
+    .filter(note => !EXCLUDED_SECTIONS.includes(note.section))
+    .flatMap(getNoteTasks);
+}
+
+/**
+ * Tick or untick the task item at a position, returns the HTML unchanged
+ * when there is no such item
+ */
+export function setTaskChecked(html: string, index: number, checked: boolean): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const item = doc.querySelectorAll(TASK_SELECTOR)[index];
+  if (!item) return html;
+
+  item.setAttribute('data-checked', String(checked));
+  item.querySelector(':scope > label > input[type="checkbox"]')?.toggleAttribute('checked', checked);
+  return doc.body.innerHTML;
+}
+
+export function getTaskGroup(task: NoteTask, now: Date = new Date()): TaskGroup {
+  if (task.checked) return 'done';
+  if (!task.dueDate) return 'someday';
+  const today = toDayKey(now);
+  if (task.dueDate < today) return 'overdue';
+  return task.dueDate === today ? 'today' : 'upcoming';
+}
+
+/**
+ * Earliest due first, then by priority; items without either keep their
+ * order in the note
+ */
+export function compareTasks(a: NoteTask, b: NoteTask): number {
+  if (a.dueDate !== b.dueDate) {
+    if (!a.dueDate) return 1;
+    if (!b.dueDate) return -1;
+    return a.dueDate < b.dueDate ? -1 : 1;
+  }
+  const rank = (task: NoteTask) => (task.priority ? PRIORITY_RANK[task.priority] : 3);
+  return rank(a) - rank(b);
+}
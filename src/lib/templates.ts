@@ -0,0 +1,114 @@
+/**
+ * Templates
+ * Templates are notes in the Templates section. A new note from a template
+ * copies its title, content and tags, and goes to the template's notebook
+ * and target section. Placeholders such as `{{date}}` are filled in, and
+ * `{{prompt:Question}}` asks for a value when the note is created.
+ */
+
+import type { Editor } from '@tiptap/react';
+import { format } from 'date-fns';
+
+export const TEMPLATES_SECTION = 'templates';
+
+/** Sections a new note from a template can go to */
+export const TEMPLATE_TARGET_SECTIONS = [
+  { id: 'notes', label: 'Notes' },
+  { id: 'monographs', label: 'Monographs' },
+  { id: 'archive', label: 'Archive' },
+];
+
+export interface TemplateNote {
+  title: string;
+  content: string;
+  section: string;
+  /** Section new notes go to, Notes when unset */
+  templateSection?: string;
+}
+
+export const TEMPLATE_VARIABLES = [
+  { name: '{{date}}', description: 'Current date, such as 10-18-2026' },
+  { name: '{{time}}', description: 'Current time, such as 3:00 PM' },
+  { name: '{{weekday}}', description: 'Day of the week, such as Sunday' },
+  { name: '{{title}}', description: 'Asks for the title of the new note' },
+  { name: '{{cursor}}', description: 'Where the cursor starts in the new note' },
+  { name: '{{prompt:Question}}', description: 'Asks the question and fills in the answer' },
+];
+
+/** Asked for when a template uses `{{title}}` */
+export const TITLE_PROMPT = 'Title';
+
+// Left in the content where `{{cursor}}` was until the editor moves the
+// cursor there; a private use character that is never typed
+const CURSOR_MARKER = '\uE000';
+
+const VARIABLE_PATTERN = /\{\{\s*(date|time|weekday|title|cursor|prompt:([^}]+))\s*\}\}/g;
+
+export interface TemplateValues {
+  date: Date;
+  /** Answers by prompt, including the title */
+  answers?: Record<string, string>;
+  /** Escape answers for HTML content */
+  html?: boolean;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const isTemplate = (note: { section: string }) => note.section === TEMPLATES_SECTION;
+
+/**
+ * Prompts a template asks before creating a note, in order of appearance
+ */
+export function getTemplatePrompts(template: Pick<TemplateNote, 'title' | 'content'>): string[] {
+  const prompts: string[] = [];
+  [template.title, template.content].forEach(text => {
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+      const prompt = match[1] === 'title' ? TITLE_PROMPT : match[2]?.trim();
+      if (prompt && !prompts.includes(prompt)) prompts.push(prompt);
+    }
+  });
+  return prompts;
+}
+
+/**
+ * Replace the placeholders in a template's title or content
+ */
+export function fillTemplateVariables(text: string, { date, answers = {}, html = false }: TemplateValues): string {
+  const answer = (prompt: string) => {
+    const value = answers[prompt] ?? '';
+    return html ? escapeHtml(value) : value;
+  };
+
+  return text.replace(VARIABLE_PATTERN, (_match, name: string, prompt?: string) => {
+    switch (name) {
+      case 'date': return format(date, 'MM-dd-yyyy');
+      case 'time': return format(date, 'h:mm a');
+      case 'weekday': return format(date, 'EEEE');
+      case 'title': return answer(TITLE_PROMPT);
+      case 'cursor': return html ? CURSOR_MARKER : '';
+      default: return answer(prompt!.trim());
+    }
+  });
+}
+
+/**
+ * Move the cursor to where a template had `{{cursor}}`, removing the
+ * marker. Returns whether there was one.
+ */
+export function focusTemplateCursor(editor: Editor): boolean {
+  let position: number | null = null;
+  editor.state.doc.descendants((node, pos) => {
+    if (position !== null) return false;
+    const index = node.isText ? node.text!.indexOf(CURSOR_MARKER) : -1;
+    if (index !== -1) position = pos + index;
+  });
+  if (position === null) return false;
+
+  editor.chain()
+    .focus()
+    .deleteRange({ from: position, to: position + 1 })
+    .setTextSelection(position)
+    .run();
+  return true;
+}
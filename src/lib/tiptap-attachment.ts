@@ -0,0 +1,110 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { AttachmentInfo } from '@/lib/attachments';
+
+export interface AttachmentOptions {
+  HTMLAttributes: Record<string, unknown>;
+  /** Called with files pasted into the editor */
+  onFiles: (files: File[]) => void;
+}
+
+export type AttachmentAttributes = Pick<AttachmentInfo, 'id' | 'name' | 'type' | 'size'>;
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    attachment: {
+      /** Insert an attachment at a position, or in place of the selection */
+      insertAttachment: (attributes: AttachmentAttributes, position?: number) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Image or file from the attachments store, referenced by id. Stored as
+ * `<div data-type="attachment" data-id="…" data-mime="image/png" data-size="…">photo.png</div>`.
+ */
+export const Attachment = Node.create<AttachmentOptions>({
+  name: 'attachment',
+  group: 'block',
+  atom: true,
+  selectable: true,
+  draggable: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+      onFiles: () => {},
+    };
+  },
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-id'),
+        renderHTML: attributes => ({ 'data-id': attributes.id }),
+      },
+      name: {
+        default: '',
+        parseHTML: element => element.textContent ?? '',
+        // Rendered as the node's text
+        renderHTML: () => ({}),
+      },
+      type: {
+        default: 'application/octet-stream',
+        parseHTML: element => element.getAttribute('data-mime'),
+        renderHTML: attributes => ({ 'data-mime': attributes.type }),
+      },
+      size: {
+        default: 0,
+        parseHTML: element => Number(element.getAttribute('data-size')) || 0,
+        renderHTML: attributes => ({ 'data-size': attributes.size }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="attachment"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes({ 'data-type': 'attachment' }, this.options.HTMLAttributes, HTMLAttributes),
+      node.attrs.name,
+    ];
+  },
+
+  renderText({ node }) {
+    return `[${node.attrs.name}]`;
+  },
+
+  addCommands() {
+    return {
+      insertAttachment:
+        (attributes, position) =>
+        ({ commands }) => {
+          const content = { type: this.name, attrs: attributes };
+          return position === undefined
+            ? commands.insertContent(content)
+            : commands.insertContentAt(position, content);
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: new PluginKey('attachmentPaste'),
+        props: {
+          handlePaste: (_view, event) => {
+            const files = Array.from(event.clipboardData?.files ?? []);
+            if (files.length === 0) return false;
+            this.options.onFiles(files);
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
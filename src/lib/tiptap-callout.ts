@@ -0,0 +1,112 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { Info, Lightbulb, TriangleAlert } from 'lucide-react';
+import { SlashCommandStorage } from '@/lib/tiptap-slash-command';
+
+export type CalloutVariant = 'info' | 'warning' | 'tip';
+
+export interface CalloutOptions {
+  HTMLAttributes: Record<string, unknown>;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    callout: {
+      setCallout: (variant?: CalloutVariant) => ReturnType;
+      toggleCallout: (variant?: CalloutVariant) => ReturnType;
+      unsetCallout: () => ReturnType;
+    };
+  }
+}
+
+/**
+ * Highlighted box around one or more blocks. Stored as
+ * `<div data-type="callout" data-variant="info">…</div>`.
+ */
+export const Callout = Node.create<CalloutOptions, SlashCommandStorage>({
+  name: 'callout',
+  group: 'block',
+  content: 'block+',
+  defining: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  addStorage() {
+    return {
+      slashCommands: [
+        {
+          id: 'callout',
+          title: 'Callout',
+          description: 'Highlighted note',
+          group: 'Blocks',
+          icon: Info,
+          keywords: ['info', 'admonition', 'note'],
+          run: chain => chain.setCallout('info'),
+        },
+        {
+          id: 'calloutWarning',
+          title: 'Warning Callout',
+          description: 'Something to watch out for',
+          group: 'Blocks',
+          icon: TriangleAlert,
+          keywords: ['caution', 'admonition'],
+          run: chain => chain.setCallout('warning'),
+        },
+        {
+          id: 'calloutTip',
+          title: 'Tip Callout',
+          description: 'A helpful hint',
+          group: 'Blocks',
+          icon: Lightbulb,
+          keywords: ['hint', 'admonition'],
+          run: chain => chain.setCallout('tip'),
+        },
+      ],
+    };
+  },
+
+  addAttributes() {
+    return {
+      variant: {
+        default: 'info',
+        parseHTML: element => element.getAttribute('data-variant') ?? 'info',
+        renderHTML: attributes => ({ 'data-variant': attributes.variant }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="callout"]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes({ 'data-type': 'callout', class: 'callout' }, this.options.HTMLAttributes, HTMLAttributes),
+      0,
+    ];
+  },
+
+  addCommands() {
+    return {
+      setCallout:
+        (variant = 'info') =>
+        ({ commands }) => {
+          return commands.wrapIn(this.name, { variant });
+        },
+      toggleCallout:
+        (variant = 'info') =>
+        ({ commands }) => {
+          return commands.toggleWrap(this.name, { variant });
+        },
+      unsetCallout:
+        () =>
+        ({ commands }) => {
+          return commands.lift(this.name);
+        },
+    };
+  },
+});
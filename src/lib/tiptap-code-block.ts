@@ -0,0 +1,75 @@
+import { CodeBlockLowlight } from '@tiptap/extension-code-block-lowlight';
+import { common, createLowlight } from 'lowlight';
+
+/**
+ * Highlighter with the grammars of highlight.js' common languages, bundled
+ * so highlighting works offline
+ */
+export const lowlight = createLowlight(common);
+
+export interface CodeLanguage {
+  id: string;
+  label: string;
+  /** Other names used in fences and `language-` classes */
+  aliases?: string[];
+}
+
+/** Languages offered by the picker, all registered with the highlighter */
+export const CODE_LANGUAGES: CodeLanguage[] = [
+  { id: 'plaintext', label: 'Plain Text', aliases: ['text', 'txt'] },
+  { id: 'bash', label: 'Bash', aliases: ['sh', 'zsh'] },
+  { id: 'c', label: 'C', aliases: ['h'] },
+  { id: 'cpp', label: 'C++', aliases: ['cc', 'hpp'] },
+  { id: 'csharp', label: 'C#', aliases: ['cs'] },
+  { id: 'css', label: 'CSS' },
+  { id: 'diff', label: 'Diff', aliases: ['patch'] },
+  { id: 'go', label: 'Go', aliases: ['golang'] },
+  { id: 'graphql', label: 'GraphQL', aliases: ['gql'] },
+  { id: 'xml', label: 'HTML / XML', aliases: ['html', 'svg'] },
+  { id: 'ini', label: 'INI / TOML', aliases: ['toml'] },
+  { id: 'java', label: 'Java' },
+  { id: 'javascript', label: 'JavaScript', aliases: ['js', 'jsx'] },
+  { id: 'json', label: 'JSON' },
+  { id: 'kotlin', label: 'Kotlin', aliases: ['kt'] },
+  { id: 'less', label: 'Less' },
+  { id: 'lua', label: 'Lua' },
+  { id: 'makefile', label: 'Makefile', aliases: ['make', 'mk'] },
+  { id: 'markdown', label: 'Markdown', aliases: ['md'] },
+  { id: 'objectivec', label: 'Objective-C', aliases: ['objc'] },
+  { id: 'perl', label: 'Perl', aliases: ['pl'] },
+  { id: 'php', label: 'PHP' },
+  { id: 'python', label: 'Python', aliases: ['py'] },
+  { id: 'r', label: 'R' },
+  { id: 'ruby', label: 'Ruby', aliases: ['rb'] },
+  { id: 'rust', label: 'Rust', aliases: ['rs'] },
+  { id: 'scss', label: 'SCSS' },
+  { id: 'shell', label: 'Shell Session', aliases: ['console'] },
+  { id: 'sql', label: 'SQL' },
+  { id: 'swift', label: 'Swift' },
+  { id: 'typescript', label: 'TypeScript', aliases: ['ts', 'tsx'] },
+  { id: 'yaml', label: 'YAML', aliases: ['yml'] },
+];
+
+/**
+ * Picker entry for a language name or alias, such as `js` from a Markdown
+ * fence
+ */
+export function findCodeLanguage(name: string | null | undefined): CodeLanguage | undefined {
+  if (!name) return undefined;
+  const search = name.toLowerCase();
+  return CODE_LANGUAGES.find(language => language.id === search || language.aliases?.includes(search));
+}
+
+/**
+ * Code block highlighted with lowlight. The language is stored on the code
+ * element as `<pre><code class="language-python">`, which is also how
+ * Markdown export finds it for the fence; blocks without one are
+ * auto-detected. Aliases such as `js` highlight like their language.
+ * `Tab` and `Shift-Tab` indent and outdent the selected lines.
+ */
+export const CodeBlock = CodeBlockLowlight.configure({
+  lowlight,
+  defaultLanguage: null,
+  enableTabIndentation: true,
+  tabSize: 2,
+});
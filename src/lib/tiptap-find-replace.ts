@@ -0,0 +1,297 @@
+import { Extension } from '@tiptap/core';
+import { EditorState, Plugin, PluginKey, TextSelection, Transaction } from '@tiptap/pm/state';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import {
+  buildPattern,
+  DEFAULT_FIND_OPTIONS,
+  execAll,
+  expandReplacement,
+  FindOptions,
+  PatternMatch,
+} from '@/lib/findReplace';
+
+export interface FindMatch extends PatternMatch {
+  from: number;
+  to: number;
+}
+
+export interface FindState {
+  query: string;
+  options: FindOptions;
+  matches: FindMatch[];
+  /** Index of the current match, or -1 when there are none */
+  current: number;
+  /** Why the query is not a valid regular expression */
+  error?: string;
+}
+
+export type FindMode = 'find' | 'replace';
+
+export interface FindReplaceOptions {
+  /** Called for Mod-F and Mod-H inside the editor */
+  onOpen: (mode: FindMode) => void;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    findReplace: {
+      setFindQuery: (query: string) => ReturnType;
+      setFindOptions: (options: Partial<FindOptions>) => ReturnType;
+      findNext: () => ReturnType;
+      findPrevious: () => ReturnType;
+      /** Replace the current match and move on to the next one */
+      replaceMatch: (replacement: string) => ReturnType;
+      /** Replace every match, as a single undo step */
+      replaceAllMatches: (replacement: string) => ReturnType;
+      clearFind: () => ReturnType;
+    };
+  }
+}
+
+export const FindReplaceKey = new PluginKey<FindState>('findReplace');
+
+type FindMeta =
+  | { type: 'query'; query: string }
+  | { type: 'options'; options: Partial<FindOptions> }
+  | { type: 'current'; current: number };
+
+interface TextRun {
+  text: string;
+  /** Document position of the run's first character */
+  from: number;
+}
+
+/**
+ * Text of a block in runs split at inline nodes such as note links, math
+ * and attachments, so matches never include them and replacing a match
+ * can't delete them
+ */
+function getTextRuns(block: ProseMirrorNode, pos: number): TextRun[] {
+  const runs: TextRun[] = [];
+  let isNewRun = true;
+
+  block.forEach((child, offset) => {
+    if (!child.isText) {
+      isNewRun = true;
+      return;
+    }
+    if (isNewRun) runs.push({ text: '', from: pos + 1 + offset });
+    runs[runs.length - 1].text += child.text;
+    isNewRun = false;
+  });
+
+  return runs;
+}
+
+/**
+ * Every match in the document, block by block. Matches never span blocks.
+ */
+function findMatches(doc: ProseMirrorNode, pattern: RegExp): FindMatch[] {
+  const matches: FindMatch[] = [];
+
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+
+    getTextRuns(node, pos).forEach(({ text, from }) => {
+      execAll(pattern, text).forEach(({ index, ...match }) => {
+        matches.push({ ...match, from: from + index, to: from + index + match.text.length });
+      });
+    });
+    return false;
+  });
+
+  return matches;
+}
+
+function search(doc: ProseMirrorNode, query: string, options: FindOptions): Pick<FindState, 'matches' | 'error'> {
+  if (!query) return { matches: [] };
+
+  const pattern = buildPattern(query, options);
+  return typeof pattern === 'string' ? { matches: [], error: pattern } : { matches: findMatches(doc, pattern) };
+}
+
+/**
+ * First match at or after a position, wrapping around to the start
+ */
+function matchIndexFrom(matches: FindMatch[], pos: number): number {
+  if (matches.length === 0) return -1;
+  const index = matches.findIndex(match => match.from >= pos);
+  return index === -1 ? 0 : index;
+}
+
+const getFindState = (state: EditorState) => FindReplaceKey.getState(state)!;
+
+/**
+ * Make a match current, selecting it and scrolling it into view
+ */
+function selectMatch(tr: Transaction, matches: FindMatch[], index: number): Transaction {
+  const match = matches[index];
+  return tr
+    .setMeta(FindReplaceKey, { type: 'current', current: index } satisfies FindMeta)
+    .setSelection(TextSelection.create(tr.doc, match.from, match.to))
+    .scrollIntoView();
+}
+
+/**
+ * Find and replace inside the note, with matches highlighted by decorations
+ */
+export const FindReplace = Extension.create<FindReplaceOptions>({
+  name: 'findReplace',
+
+  addOptions() {
+    return {
+      onOpen: () => {},
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Mod-f': () => {
+        this.options.onOpen('find');
+        return true;
+      },
+      'Mod-h': () => {
+        this.options.onOpen('replace');
+        return true;
+      },
+    };
+  },
+
+  addCommands() {
+    return {
+      setFindQuery:
+        (query) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(FindReplaceKey, { type: 'query', query } satisfies FindMeta);
+          return true;
+        },
+
+      setFindOptions:
+        (options) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(FindReplaceKey, { type: 'options', options } satisfies FindMeta);
+          return true;
+        },
+
+      findNext:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const { matches, current } = getFindState(state);
+          if (matches.length === 0) return false;
+          if (dispatch) selectMatch(tr, matches, (current + 1) % matches.length);
+          return true;
+        },
+
+      findPrevious:
+        () =>
+        ({ state, tr, dispatch }) => {
+          const { matches, current } = getFindState(state);
+          if (matches.length === 0) return false;
+          if (dispatch) selectMatch(tr, matches, (current - 1 + matches.length) % matches.length);
+          return true;
+        },
+
+      replaceMatch:
+        (replacement) =>
+        ({ state, tr, dispatch }) => {
+          const { query, matches, current, options } = getFindState(state);
+          const match = matches[current];
+          if (!match) return false;
+
+          if (dispatch) {
+            const text = expandReplacement(replacement, match, options);
+            if (text) {
+              tr.insertText(text, match.from, match.to);
+            } else {
+              tr.delete(match.from, match.to);
+            }
+            // The remaining matches are found again once the plugin sees the change
+            const end = tr.mapping.map(match.to);
+            const { matches: next } = search(tr.doc, query, options);
+            const index = matchIndexFrom(next, end);
+            if (index !== -1) selectMatch(tr, next, index);
+          }
+          return true;
+        },
+
+      replaceAllMatches:
+        (replacement) =>
+        ({ state, tr, dispatch }) => {
+          const { matches, options } = getFindState(state);
+          if (matches.length === 0) return false;
+
+          if (dispatch) {
+            // Back to front, so earlier positions stay valid
+            [...matches].reverse().forEach(match => {
+              const text = expandReplacement(replacement, match, options);
+              if (text) {
+                tr.insertText(text, match.from, match.to);
+              } else {
+                tr.delete(match.from, match.to);
+              }
+            });
+          }
+          return true;
+        },
+
+      clearFind:
+        () =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(FindReplaceKey, { type: 'query', query: '' } satisfies FindMeta);
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<FindState>({
+        key: FindReplaceKey,
+
+        state: {
+          init: () => ({ query: '', options: DEFAULT_FIND_OPTIONS, matches: [], current: -1 }),
+
+          apply: (tr, value, _oldState, newState) => {
+            const meta = tr.getMeta(FindReplaceKey) as FindMeta | undefined;
+            let next = value;
+
+            if (meta?.type === 'query' || meta?.type === 'options') {
+              const query = meta.type === 'query' ? meta.query : value.query;
+              const options = meta.type === 'options' ? { ...value.options, ...meta.options } : value.options;
+              const result = search(newState.doc, query, options);
+              // Start from the cursor, like the browser's find
+              const current = matchIndexFrom(result.matches, newState.selection.from);
+              next = { query, options, current, ...result };
+            } else if (tr.docChanged && value.query) {
+              const result = search(newState.doc, value.query, value.options);
+              const current = result.matches.length === 0 ? -1 : Math.min(Math.max(value.current, 0), result.matches.length - 1);
+              next = { ...value, current, ...result };
+            }
+
+            if (meta?.type === 'current') {
+              next = { ...next, current: meta.current };
+            }
+            return next;
+          },
+        },
+
+        props: {
+          decorations(state) {
+            const { matches, current } = getFindState(state);
+            if (matches.length === 0) return DecorationSet.empty;
+
+            return DecorationSet.create(
+              state.doc,
+              matches.map((match, index) =>
+                Decoration.inline(match.from, match.to, {
+                  class: index === current ? 'find-match find-match-current' : 'find-match',
+                })
+              )
+            );
+          },
+        },
+      }),
+    ];
+  },
+});
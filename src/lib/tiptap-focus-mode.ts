@@ -0,0 +1,126 @@
+import { Extension } from '@tiptap/core';
+import { EditorState, Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet, EditorView } from '@tiptap/pm/view';
+
+export interface FocusModeState {
+  enabled: boolean;
+  /** Keep the cursor in the middle of the scroll area */
+  typewriter: boolean;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    focusMode: {
+      setFocusMode: (state: Partial<FocusModeState>) => ReturnType;
+    };
+  }
+}
+
+export const FocusModeKey = new PluginKey<FocusModeState>('focusMode');
+
+const getFocusModeState = (state: EditorState) => FocusModeKey.getState(state)!;
+
+/**
+ * Dim every block the selection is not in. Blocks are paragraphs, headings
+ * and other text blocks, or atoms such as block math, so the paragraph
+ * being written in a list or table stays lit on its own.
+ */
+function dimDecorations(state: EditorState): DecorationSet {
+  const { from, to } = state.selection;
+  const decorations: Decoration[] = [];
+
+  state.doc.descendants((node, pos) => {
+    if (!node.isTextblock && !(node.isBlock && node.isAtom)) return true;
+
+    const end = pos + node.nodeSize;
+    if (end <= from || pos >= to) {
+      decorations.push(Decoration.node(pos, end, { class: 'is-dimmed' }));
+    }
+    return false;
+  });
+
+  return DecorationSet.create(state.doc, decorations);
+}
+
+function getScrollParent(element: HTMLElement): HTMLElement | null {
+  let parent = element.parentElement;
+  while (parent) {
+    const { overflowY } = getComputedStyle(parent);
+    if (overflowY === 'auto' || overflowY === 'scroll') return parent;
+    parent = parent.parentElement;
+  }
+  return null;
+}
+
+/**
+ * Scroll so the cursor sits in the middle of the scroll area
+ */
+function centerSelection(view: EditorView): void {
+  const scroller = getScrollParent(view.dom);
+  if (!scroller) return;
+
+  const coords = view.coordsAtPos(view.state.selection.head);
+  const box = scroller.getBoundingClientRect();
+  scroller.scrollTop += (coords.top + coords.bottom) / 2 - (box.top + box.height / 2);
+}
+
+/**
+ * Focus mode for the editor: dims the blocks around the one being edited
+ * and optionally scrolls like a typewriter
+ */
+export const FocusMode = Extension.create({
+  name: 'focusMode',
+
+  addCommands() {
+    return {
+      setFocusMode:
+        (state) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(FocusModeKey, state);
+          return true;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<FocusModeState>({
+        key: FocusModeKey,
+
+        state: {
+          init: () => ({ enabled: false, typewriter: false }),
+
+          apply: (tr, value) => {
+            const meta = tr.getMeta(FocusModeKey) as Partial<FocusModeState> | undefined;
+            return meta ? { ...value, ...meta } : value;
+          },
+        },
+
+        view: () => ({
+          update: (view, prevState) => {
+            // Center right away when typewriter scrolling is turned on
+            const { enabled, typewriter } = getFocusModeState(view.state);
+            const previous = getFocusModeState(prevState);
+            if (enabled && typewriter && !(previous.enabled && previous.typewriter) && view.hasFocus()) {
+              centerSelection(view);
+            }
+          },
+        }),
+
+        props: {
+          decorations(state) {
+            return getFocusModeState(state).enabled ? dimDecorations(state) : DecorationSet.empty;
+          },
+
+          // Typing and moving the cursor keep it centered instead of just visible
+          handleScrollToSelection(view) {
+            const { enabled, typewriter } = getFocusModeState(view.state);
+            if (!enabled || !typewriter) return false;
+            centerSelection(view);
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
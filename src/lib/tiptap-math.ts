@@ -0,0 +1,218 @@
+import { InputRule, Node, mergeAttributes } from '@tiptap/core';
+import { NodeSelection, Transaction } from '@tiptap/pm/state';
+import { NodeType } from '@tiptap/pm/model';
+import katex from 'katex';
+import { Sigma, SquareSigma } from 'lucide-react';
+import { SlashCommandStorage } from '@/lib/tiptap-slash-command';
+
+export interface MathOptions {
+  HTMLAttributes: Record<string, unknown>;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    mathInline: {
+      /** Insert an inline equation and select it for editing */
+      insertInlineMath: (latex?: string) => ReturnType;
+    };
+    mathBlock: {
+      /** Insert an equation block and select it for editing */
+      insertBlockMath: (latex?: string) => ReturnType;
+    };
+  }
+}
+
+export interface RenderedMath {
+  html: string;
+  error: string | null;
+}
+
+/**
+ * Render TeX with KaTeX; on a parse error the message is returned instead
+ */
+export function renderMath(latex: string, displayMode: boolean): RenderedMath {
+  try {
+    return { html: katex.renderToString(latex, { displayMode, throwOnError: true }), error: null };
+  } catch (error) {
+    return { html: '', error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Insert a math node in place of the selection and select it, so its
+ * editor opens
+ */
+function insertMath(tr: Transaction, type: NodeType, latex: string) {
+  const start = tr.selection.from;
+  tr.replaceSelectionWith(type.create({ latex }));
+
+  // Block nodes may land after a split paragraph, so look for the new node
+  let position = -1;
+  tr.doc.nodesBetween(tr.mapping.map(start, -1), tr.selection.to, (node, pos) => {
+    if (position === -1 && node.type === type) position = pos;
+    return position === -1;
+  });
+  if (position !== -1) tr.setSelection(NodeSelection.create(tr.doc, position));
+}
+
+const latexAttribute = {
+  latex: {
+    default: '',
+    parseHTML: (element: HTMLElement) => element.textContent ?? '',
+    // Rendered as the node's text
+    renderHTML: () => ({}),
+  },
+};
+
+/**
+ * Inline equation, typed as `$E = mc^2$`. Stored with its TeX as text:
+ * `<span data-type="inline-math">E = mc^2</span>`.
+ */
+export const MathInline = Node.create<MathOptions, SlashCommandStorage>({
+  name: 'mathInline',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  addStorage() {
+    return {
+      slashCommands: [
+        {
+          id: 'mathInline',
+          title: 'Inline Equation',
+          description: 'TeX math within the text',
+          group: 'Insert',
+          icon: Sigma,
+          keywords: ['math', 'latex', 'katex', 'formula'],
+          run: chain => chain.insertInlineMath(),
+        },
+      ],
+    };
+  },
+
+  addAttributes() {
+    return latexAttribute;
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="inline-math"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes({ 'data-type': 'inline-math' }, this.options.HTMLAttributes, HTMLAttributes),
+      node.attrs.latex,
+    ];
+  },
+
+  renderText({ node }) {
+    return `$${node.attrs.latex}$`;
+  },
+
+  addCommands() {
+    return {
+      insertInlineMath:
+        (latex = '') =>
+        ({ tr, dispatch }) => {
+          if (dispatch) insertMath(tr, this.type, latex);
+          return true;
+        },
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        // A closing `$` after `$…$` with no space just inside the dollars
+        find: /(?:^|\s)(\$([^\s$](?:[^$]*[^\s$])?)\$)$/,
+        handler: ({ state, range, match }) => {
+          const start = range.to - match[1].length + 1;
+          state.tr.replaceWith(start, range.to, this.type.create({ latex: match[2] }));
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * Equation block, typed as `$$` and a space on an empty line. Stored with
+ * its TeX as text: `<div data-type="block-math">\int_0^1 x\,dx</div>`.
+ */
+export const MathBlock = Node.create<MathOptions, SlashCommandStorage>({
+  name: 'mathBlock',
+  group: 'block',
+  atom: true,
+  selectable: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+    };
+  },
+
+  addStorage() {
+    return {
+      slashCommands: [
+        {
+          id: 'mathBlock',
+          title: 'Math Block',
+          description: 'Displayed TeX equation',
+          group: 'Blocks',
+          icon: SquareSigma,
+          keywords: ['equation', 'latex', 'katex', 'formula'],
+          run: chain => chain.insertBlockMath(),
+        },
+      ],
+    };
+  },
+
+  addAttributes() {
+    return latexAttribute;
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="block-math"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'div',
+      mergeAttributes({ 'data-type': 'block-math' }, this.options.HTMLAttributes, HTMLAttributes),
+      node.attrs.latex,
+    ];
+  },
+
+  renderText({ node }) {
+    return `$$${node.attrs.latex}$$`;
+  },
+
+  addCommands() {
+    return {
+      insertBlockMath:
+        (latex = '') =>
+        ({ tr, dispatch }) => {
+          if (dispatch) insertMath(tr, this.type, latex);
+          return true;
+        },
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: /^\$\$\s$/,
+        handler: ({ chain, range }) => {
+          chain().deleteRange(range).insertBlockMath().run();
+        },
+      }),
+    ];
+  },
+});
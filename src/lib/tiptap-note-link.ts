@@ -0,0 +1,165 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import Suggestion, { SuggestionOptions } from '@tiptap/suggestion';
+import { Link2 } from 'lucide-react';
+import { SlashCommandStorage } from '@/lib/tiptap-slash-command';
+
+export interface NoteLinkTarget {
+  id: string;
+  title: string;
+}
+
+export interface NoteLinkOptions {
+  HTMLAttributes: Record<string, unknown>;
+  /** Called with the note id when a link is clicked */
+  onOpen: (noteId: string) => void;
+  suggestion: Omit<SuggestionOptions<NoteLinkTarget, NoteLinkTarget>, 'editor'>;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    noteLink: {
+      insertNoteLink: (target: NoteLinkTarget) => ReturnType;
+      /** Refresh the titles shown by links, keyed by note id */
+      updateNoteLinkTitles: (titles: Map<string, string>) => ReturnType;
+    };
+  }
+}
+
+export const NoteLinkSuggestionKey = new PluginKey('noteLinkSuggestion');
+
+/**
+ * Wiki-style `[[Note Title]]` link to another note. Stored as
+ * `<span data-type="note-link" data-note-id="…">Title</span>`.
+ */
+export const NoteLink = Node.create<NoteLinkOptions, SlashCommandStorage>({
+  name: 'noteLink',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+      onOpen: () => {},
+      suggestion: {
+        char: '[[',
+        allowSpaces: true,
+        allowedPrefixes: null,
+        pluginKey: NoteLinkSuggestionKey,
+        command: ({ editor, range, props }) => {
+          editor
+            .chain()
+            .focus()
+            .insertContentAt(range, [
+              { type: 'noteLink', attrs: { noteId: props.id, title: props.title } },
+              { type: 'text', text: ' ' },
+            ])
+            .run();
+        },
+      },
+    };
+  },
+
+  addStorage() {
+    return {
+      slashCommands: [
+        {
+          id: 'noteLink',
+          title: 'Note Link',
+          description: 'Link to another note',
+          group: 'Insert',
+          icon: Link2,
+          keywords: ['wiki', 'reference'],
+          // Opens the note link suggestions
+          run: chain => chain.insertContent('[['),
+        },
+      ],
+    };
+  },
+
+  addAttributes() {
+    return {
+      noteId: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-note-id'),
+        renderHTML: attributes => ({ 'data-note-id': attributes.noteId }),
+      },
+      title: {
+        default: '',
+        parseHTML: element => element.textContent ?? '',
+        // Rendered as the node's text
+        renderHTML: () => ({}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-type="note-link"]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes({ 'data-type': 'note-link', class: 'note-link' }, this.options.HTMLAttributes, HTMLAttributes),
+      node.attrs.title || 'Untitled',
+    ];
+  },
+
+  renderText({ node }) {
+    return `[[${node.attrs.title}]]`;
+  },
+
+  addCommands() {
+    return {
+      insertNoteLink:
+        (target) =>
+        ({ commands }) => {
+          return commands.insertContent({
+            type: this.name,
+            attrs: { noteId: target.id, title: target.title },
+          });
+        },
+      updateNoteLinkTitles:
+        (titles) =>
+        ({ tr, state, dispatch }) => {
+          let modified = false;
+
+          state.doc.descendants((node, pos) => {
+            if (node.type.name !== this.name) return;
+            const title = titles.get(node.attrs.noteId);
+            if (title !== undefined && title !== node.attrs.title) {
+              tr.setNodeMarkup(pos, undefined, { ...node.attrs, title });
+              modified = true;
+            }
+          });
+
+          if (modified && dispatch) dispatch(tr);
+          return modified;
+        },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion({
+        editor: this.editor,
+        ...this.options.suggestion,
+      }),
+      new Plugin({
+        key: new PluginKey('noteLinkClick'),
+        props: {
+          handleClick: (_view, _pos, event) => {
+            const link = (event.target as HTMLElement).closest('[data-type="note-link"]');
+            const noteId = link?.getAttribute('data-note-id');
+            if (!noteId) return false;
+
+            this.options.onOpen(noteId);
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
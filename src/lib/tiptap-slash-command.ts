@@ -0,0 +1,176 @@
+import { ComponentType } from 'react';
+import { ChainedCommands, Editor, Extension } from '@tiptap/core';
+import { PluginKey } from '@tiptap/pm/state';
+import Suggestion, { SuggestionOptions } from '@tiptap/suggestion';
+import {
+  Code,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  Minus,
+  Pilcrow,
+  Quote,
+} from 'lucide-react';
+
+export interface SlashCommandItem {
+  id: string;
+  title: string;
+  description: string;
+  /** Heading the entry is listed under */
+  group: string;
+  icon: ComponentType<{ className?: string }>;
+  /** Other words the entry is found by */
+  keywords?: string[];
+  /** Add the block to a chain that has already removed the typed `/query` */
+  run: (chain: ChainedCommands) => ChainedCommands;
+}
+
+/**
+ * Extensions add entries to the menu by returning `slashCommands` from
+ * `addStorage()`
+ */
+export interface SlashCommandStorage {
+  slashCommands: SlashCommandItem[];
+}
+
+export interface SlashCommandOptions {
+  /** Entries for the blocks every editor has */
+  items: SlashCommandItem[];
+  suggestion: Omit<SuggestionOptions<SlashCommandItem, SlashCommandItem>, 'editor'>;
+}
+
+export const SlashCommandSuggestionKey = new PluginKey('slashCommandSuggestion');
+
+export const BASIC_SLASH_COMMANDS: SlashCommandItem[] = [
+  {
+    id: 'paragraph',
+    title: 'Text',
+    description: 'Plain paragraph',
+    group: 'Text',
+    icon: Pilcrow,
+    keywords: ['paragraph'],
+    run: chain => chain.setParagraph(),
+  },
+  ...([1, 2, 3] as const).map((level, index): SlashCommandItem => ({
+    id: `heading${level}`,
+    title: `Heading ${level}`,
+    description: ['Large section heading', 'Medium section heading', 'Small section heading'][index],
+    group: 'Text',
+    icon: [Heading1, Heading2, Heading3][index],
+    keywords: [`h${level}`, 'title'],
+    run: chain => chain.setHeading({ level }),
+  })),
+  {
+    id: 'bulletList',
+    title: 'Bullet List',
+    description: 'Unordered list',
+    group: 'Lists',
+    icon: List,
+    keywords: ['unordered', 'ul'],
+    run: chain => chain.toggleBulletList(),
+  },
+  {
+    id: 'orderedList',
+    title: 'Numbered List',
+    description: 'Ordered list',
+    group: 'Lists',
+    icon: ListOrdered,
+    keywords: ['ordered', 'ol'],
+    run: chain => chain.toggleOrderedList(),
+  },
+  {
+    id: 'blockquote',
+    title: 'Quote',
+    description: 'Indented quotation',
+    group: 'Blocks',
+    icon: Quote,
+    keywords: ['blockquote', 'citation'],
+    run: chain => chain.toggleBlockquote(),
+  },
+  {
+    id: 'codeBlock',
+    title: 'Code Block',
+    description: 'Preformatted code',
+    group: 'Blocks',
+    icon: Code,
+    keywords: ['pre', 'snippet'],
+    run: chain => chain.toggleCodeBlock(),
+  },
+  {
+    id: 'horizontalRule',
+    title: 'Divider',
+    description: 'Horizontal line',
+    group: 'Blocks',
+    icon: Minus,
+    keywords: ['hr', 'separator', 'rule'],
+    run: chain => chain.setHorizontalRule(),
+  },
+];
+
+/**
+ * Every entry registered by the editor's extensions, in extension order
+ */
+export function getSlashCommands(editor: Editor): SlashCommandItem[] {
+  const storage = editor.storage as unknown as Record<string, Partial<SlashCommandStorage> | undefined>;
+  return editor.extensionManager.extensions.flatMap(
+    extension => storage[extension.name]?.slashCommands ?? []
+  );
+}
+
+/**
+ * Entries whose title or keywords contain the query, titles starting with
+ * it first
+ */
+export function filterSlashCommands(items: SlashCommandItem[], query: string): SlashCommandItem[] {
+  const search = query.trim().toLowerCase();
+  if (!search) return items;
+
+  return items
+    .filter(item => [item.title, ...(item.keywords ?? [])].some(word => word.toLowerCase().includes(search)))
+    .sort((a, b) =>
+      Number(!a.title.toLowerCase().startsWith(search)) -
+      Number(!b.title.toLowerCase().startsWith(search))
+    );
+}
+
+/**
+ * `/` command menu that inserts blocks. Typing after the slash filters the
+ * entries; the basic blocks are built in and other extensions add theirs
+ * through `SlashCommandStorage`.
+ */
+export const SlashCommand = Extension.create<SlashCommandOptions, SlashCommandStorage>({
+  name: 'slashCommand',
+
+  addOptions() {
+    return {
+      items: BASIC_SLASH_COMMANDS,
+      suggestion: {
+        char: '/',
+        pluginKey: SlashCommandSuggestionKey,
+        // Slashes in code are just slashes
+        allow: ({ state, range }) => !state.doc.resolve(range.from).parent.type.spec.code,
+        items: ({ editor, query }) => filterSlashCommands(getSlashCommands(editor), query),
+        command: ({ editor, range, props }) => {
+          props.run(editor.chain().focus().deleteRange(range)).run();
+        },
+      },
+    };
+  },
+
+  addStorage() {
+    return {
+      slashCommands: this.options.items,
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      Suggestion({
+        editor: this.editor,
+        ...this.options.suggestion,
+      }),
+    ];
+  },
+});
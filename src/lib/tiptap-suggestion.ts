@@ -0,0 +1,69 @@
+import { ComponentType, RefAttributes } from 'react';
+import { ReactRenderer } from '@tiptap/react';
+import { PluginKey } from '@tiptap/pm/state';
+import { exitSuggestion, SuggestionOptions, SuggestionProps } from '@tiptap/suggestion';
+
+export interface SuggestionListRef {
+  /** Return true if the key was handled by the list */
+  onKeyDown: (event: KeyboardEvent) => boolean;
+}
+
+export type SuggestionListProps<I> = SuggestionProps<I, I>;
+
+// Gap between the cursor and the popup
+const POPUP_OFFSET = 4;
+
+/**
+ * Render a suggestion popup with a React list component, placed below the
+ * cursor (or above it when there is no room)
+ */
+export function createSuggestionRenderer<I>(
+  component: ComponentType<SuggestionListProps<I> & RefAttributes<SuggestionListRef>>,
+  pluginKey: PluginKey
+): NonNullable<SuggestionOptions<I, I>['render']> {
+  return () => {
+    let renderer: ReactRenderer<SuggestionListRef, SuggestionListProps<I>> | null = null;
+
+    const position = (props: SuggestionListProps<I>) => {
+      const rect = props.clientRect?.();
+      const element = renderer?.element as HTMLElement | undefined;
+      if (!rect || !element) return;
+
+      const height = element.offsetHeight;
+      const fitsBelow = rect.bottom + POPUP_OFFSET + height <= window.innerHeight;
+
+      Object.assign(element.style, {
+        position: 'fixed',
+        zIndex: '50',
+        left: `${Math.min(rect.left, window.innerWidth - element.offsetWidth - POPUP_OFFSET)}px`,
+        top: `${fitsBelow ? rect.bottom + POPUP_OFFSET : rect.top - height - POPUP_OFFSET}px`,
+      });
+    };
+
+    const destroy = () => {
+      renderer?.element.remove();
+      renderer?.destroy();
+      renderer = null;
+    };
+
+    return {
+      onStart: (props) => {
+        renderer = new ReactRenderer(component, { props, editor: props.editor });
+        document.body.appendChild(renderer.element);
+        position(props);
+      },
+      onUpdate: (props) => {
+        renderer?.updateProps(props);
+        position(props);
+      },
+      onKeyDown: ({ event, view }) => {
+        if (event.key === 'Escape') {
+          exitSuggestion(view, pluginKey);
+          return true;
+        }
+        return renderer?.ref?.onKeyDown(event) ?? false;
+      },
+      onExit: destroy,
+    };
+  };
+}
@@ -0,0 +1,74 @@
+import { Table as BaseTable, TableCell, TableHeader, TableOptions, TableRow } from '@tiptap/extension-table';
+import { JSONContent } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Table as TableIcon } from 'lucide-react';
+import { SlashCommandStorage } from '@/lib/tiptap-slash-command';
+import { parseDelimitedText } from '@/lib/csv';
+
+export { TableCell, TableHeader, TableRow };
+
+/**
+ * Table content for rows of text, the first row as the header
+ */
+export function createTableContent(rows: string[][]): JSONContent {
+  return {
+    type: 'table',
+    content: rows.map((row, rowIndex) => ({
+      type: 'tableRow',
+      content: row.map(cell => ({
+        type: rowIndex === 0 ? 'tableHeader' : 'tableCell',
+        // Line breaks within a quoted field become paragraphs
+        content: cell.split('\n').map(line => ({
+          type: 'paragraph',
+          content: line ? [{ type: 'text', text: line }] : [],
+        })),
+      })),
+    })),
+  };
+}
+
+/**
+ * Table with resizable columns. Pasting CSV or TSV plain text inserts it as
+ * a table. Rich pastes are parsed as is, so formatted text keeps its
+ * formatting and tables copied from spreadsheets come in as tables.
+ */
+export const Table = BaseTable.extend<TableOptions, SlashCommandStorage>({
+  addStorage() {
+    return {
+      slashCommands: [
+        {
+          id: 'table',
+          title: 'Table',
+          description: 'Grid with a header row',
+          group: 'Blocks',
+          icon: TableIcon,
+          keywords: ['grid', 'spreadsheet', 'csv'],
+          run: chain => chain.insertTable({ rows: 3, cols: 3, withHeaderRow: true }),
+        },
+      ],
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      ...(this.parent?.() ?? []),
+      new Plugin({
+        key: new PluginKey('tableCsvPaste'),
+        props: {
+          handlePaste: (_view, event) => {
+            const clipboard = event.clipboardData;
+            if (!clipboard || clipboard.getData('text/html')) return false;
+            if (this.editor.isActive('codeBlock') || this.editor.isActive(this.name)) return false;
+
+            const rows = parseDelimitedText(clipboard.getData('text/plain'));
+            if (!rows) return false;
+
+            return this.editor.chain().focus().insertContent(createTableContent(rows)).run();
+          },
+        },
+      }),
+    ];
+  },
+}).configure({
+  resizable: true,
+});
@@ -0,0 +1,146 @@
+import { TaskItem as BaseTaskItem, TaskList as BaseTaskList, TaskItemOptions, TaskListOptions } from '@tiptap/extension-list';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { NodeView } from '@tiptap/pm/view';
+import { ListChecks } from 'lucide-react';
+import { SlashCommandStorage } from '@/lib/tiptap-slash-command';
+import { toDayKey } from '@/lib/calendar';
+import { TASK_PRIORITIES, TaskPriority, formatTaskDue, isTaskPriority } from '@/lib/tasks';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    taskItemDetails: {
+      /** Due day key such as `2026-10-20`, null to clear */
+      setTaskDueDate: (dueDate: string | null) => ReturnType;
+      setTaskPriority: (priority: TaskPriority | null) => ReturnType;
+    };
+  }
+}
+
+/**
+ * Checklist of `TaskItem`s, stored as `<ul data-type="taskList">`
+ */
+export const TaskList = BaseTaskList.extend<TaskListOptions, SlashCommandStorage>({
+  addStorage() {
+    return {
+      slashCommands: [
+        {
+          id: 'taskList',
+          title: 'Task List',
+          description: 'List with checkboxes',
+          group: 'Lists',
+          icon: ListChecks,
+          keywords: ['todo', 'checklist', 'checkbox'],
+          run: chain => chain.toggleTaskList(),
+        },
+      ],
+    };
+  },
+});
+
+const setData = (element: HTMLElement, key: string, value: string | null) => {
+  if (value) element.dataset[key] = value;
+  else delete element.dataset[key];
+};
+
+/**
+ * Badges for an item's due date and priority, shown after its text
+ */
+function renderTaskMeta(meta: HTMLElement, node: ProseMirrorNode) {
+  const { checked, dueDate, priority } = node.attrs;
+  const badges: HTMLElement[] = [];
+
+  if (isTaskPriority(priority)) {
+    const badge = document.createElement('span');
+    badge.className = 'task-priority';
+    badge.dataset.priority = priority;
+    badge.textContent = TASK_PRIORITIES.find(option => option.id === priority)!.label;
+    badges.push(badge);
+  }
+
+  if (dueDate) {
+    const badge = document.createElement('span');
+    badge.className = 'task-due';
+    setData(badge, 'overdue', !checked && dueDate < toDayKey(new Date()) ? 'true' : null);
+    badge.textContent = formatTaskDue(dueDate);
+    badges.push(badge);
+  }
+
+  meta.replaceChildren(...badges);
+}
+
+/**
+ * Checklist item with an optional due date and priority, stored as
+ * `data-due` and `data-priority` on the `<li>`. Items nest with Tab.
+ */
+export const TaskItem = BaseTaskItem.extend<TaskItemOptions>({
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      dueDate: {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: element => element.getAttribute('data-due'),
+        renderHTML: attributes => (attributes.dueDate ? { 'data-due': attributes.dueDate } : {}),
+      },
+      priority: {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: element => {
+          const priority = element.getAttribute('data-priority');
+          return isTaskPriority(priority) ? priority : null;
+        },
+        renderHTML: attributes => (attributes.priority ? { 'data-priority': attributes.priority } : {}),
+      },
+    };
+  },
+
+  addCommands() {
+    return {
+      ...this.parent?.(),
+      setTaskDueDate:
+        (dueDate) =>
+        ({ commands }) => {
+          return commands.updateAttributes(this.name, { dueDate });
+        },
+      setTaskPriority:
+        (priority) =>
+        ({ commands }) => {
+          return commands.updateAttributes(this.name, { priority });
+        },
+    };
+  },
+
+  // The checkbox comes from the base node view; this adds the badges and
+  // keeps the item's data attributes current for styling
+  addNodeView() {
+    const createView = this.parent?.();
+    if (!createView) return null;
+
+    return (props) => {
+      const view = createView(props) as NodeView;
+      const listItem = view.dom as HTMLElement;
+      const meta = document.createElement('span');
+      meta.className = 'task-meta';
+      meta.contentEditable = 'false';
+      listItem.append(meta);
+
+      const render = (node: ProseMirrorNode) => {
+        setData(listItem, 'due', node.attrs.dueDate);
+        setData(listItem, 'priority', node.attrs.priority);
+        renderTaskMeta(meta, node);
+      };
+      render(props.node);
+
+      return {
+        ...view,
+        update: (node, decorations, innerDecorations) => {
+          if (!view.update?.(node, decorations, innerDecorations)) return false;
+          render(node);
+          return true;
+        },
+      };
+    };
+  },
+}).configure({
+  nested: true,
+});
@@ -0,0 +1,21 @@
+/**
+ * Editor Zoom
+ * Steps the editor content can be scaled to, in percent
+ */
+
+export const ZOOM_LEVELS = [50, 67, 75, 80, 90, 100, 110, 125, 150, 175, 200];
+
+export const DEFAULT_ZOOM = 100;
+
+export const MIN_ZOOM = ZOOM_LEVELS[0];
+export const MAX_ZOOM = ZOOM_LEVELS[ZOOM_LEVELS.length - 1];
+
+/**
+ * The next zoom level in a direction, staying within the levels
+ */
+export function stepZoom(zoom: number, direction: 1 | -1): number {
+  if (direction === 1) {
+    return ZOOM_LEVELS.find(level => level > zoom) ?? MAX_ZOOM;
+  }
+  return [...ZOOM_LEVELS].reverse().find(level => level < zoom) ?? MIN_ZOOM;
+}
@@ -1,18 +1,75 @@
-import { useState, useCallback, useMemo, useEffect } from "react";
+import { Fragment, useState, useCallback, useMemo, useEffect } from "react";
+import { ScrollSync } from "react-scroll-sync";
 import { useDebounce } from "@/hooks/useDebounce";
-import { useNotesDB, useNotebooksDB, useTagsDB } from "@/hooks/useDB";
+import { useNotesDB, useNotebooksDB, useTagsDB, useDataImported, useIncrementalPersistence, useSearchIndex, useDataManagement, useRevisionsDB } from "@/hooks/useDB";
+import { useRegisterCommands } from "@/hooks/useCommands";
+import { useShortcutManager } from "@/hooks/useShortcuts";
+import { useReminderScheduler } from "@/hooks/useReminders";
+import { AppCommand } from "@/lib/commands";
+import { useVaultStore } from "@/stores/vaultStore";
+import { getEditorZoom, useSettingsStore } from "@/stores/settingsStore";
+import { parseSearchQuery, hasTextQuery, matchesQueryFilters } from "@/lib/searchQuery";
+import { hasNoteLink, renameNoteLinks } from "@/lib/noteLinks";
+import { canMoveNotebook, getNotebookPath, getNotebookSubtreeIds, NotebookDeleteMode } from "@/lib/notebooks";
+import { collectTagPaths, countTags, isTagInSubtree, normalizeTagPath, relocateTag, rewriteTags } from "@/lib/tags";
+import {
+  NoteReminder,
+  compareReminders,
+  completeReminder,
+  formatReminderTime,
+  getAlertTime,
+  getDefaultDueDate,
+  hasOpenReminder,
+  isInReminders,
+  snoozeReminder,
+} from "@/lib/reminders";
+import { showSystemNotification } from "@/lib/notifications";
+import { CalendarDateField, formatCalendarDay, fromDayKey, isNoteOnDay, rescheduleReminder, toDayKey } from "@/lib/calendar";
+import { JOURNAL_NOTEBOOK_NAME, findJournalEntry, getJournalTitle, renderJournalTemplate } from "@/lib/journal";
+import { TEMPLATES_SECTION, TEMPLATE_TARGET_SECTIONS, fillTemplateVariables, getTemplatePrompts, isTemplate } from "@/lib/templates";
+import { collectTasks, setTaskChecked } from "@/lib/tasks";
+import { ReplaceableNote, setNoteStates } from "@/lib/findReplace";
+import { DEFAULT_ZOOM, MAX_ZOOM, MIN_ZOOM, stepZoom } from "@/lib/zoom";
+import {
+  EDITOR_PANE_IDS,
+  EditorPaneId,
+  INITIAL_EDITOR_PANES,
+  EditorPanes,
+  closeTab,
+  focusPane,
+  getActivePane,
+  hideNote,
+  mapTabs,
+  moveTab,
+  openTab,
+  removeNote,
+  showNote,
+  splitPanes,
+  unsplitPanes,
+} from "@/lib/editorPanes";
 import { Sidebar } from "@/components/Sidebar";
 import { MiniSidebar } from "@/components/MiniSidebar";
 import { NotesList } from "@/components/NotesList";
 import { NoteEditor } from "@/components/NoteEditor";
 import { NoteTabs } from "@/components/NoteTabs";
 import { AppSettings } from "@/components/AppSettings";
+import { CommandPalette } from "@/components/CommandPalette";
+import { CalendarView } from "@/components/CalendarView";
+import { TasksView } from "@/components/TasksView";
+import { JournalNavigator } from "@/components/JournalNavigator";
+import { TemplateBar } from "@/components/TemplateBar";
+import { TemplatesMenu } from "@/components/TemplatesMenu";
+import { TemplatePromptDialog } from "@/components/TemplatePromptDialog";
+import { DeleteNotebookDialog } from "@/components/DeleteNotebookDialog";
+import { ConfirmationDialog } from "@/components/ConfirmationDialog";
+import { ReplaceInNotesDialog } from "@/components/ReplaceInNotesDialog";
+import { NotesDndContext } from "@/components/NotesDndContext";
 import { BlackNotesLogo } from "@/components/BlackNotesLogo";
 import NotesImportExport from "@/components/ImportExportNotes";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
 import { 
   Menu, 
-  X, 
   PanelLeft, 
   Plus, 
   PanelRight, 
@@ -27,7 +84,30 @@ import {
   List, 
   MoreVertical,
   ArrowUpDown,
-  BookOpen
+  BookOpen,
+  Star,
+  Archive,
+  FolderInput,
+  FolderMinus,
+  Download,
+  Lock,
+  Bell,
+  CalendarCheck,
+  CalendarDays,
+  ListChecks,
+  ChevronDown,
+  LayoutTemplate,
+  CopyPlus,
+  CheckCircle2,
+  Trash2,
+  Replace,
+  Monitor,
+  Percent,
+  ZoomIn,
+  ZoomOut,
+  Columns2,
+  ArrowDownUp,
+  Command as CommandIcon
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import {
@@ -38,40 +118,57 @@ import {
 
 type SidebarTab = "home" | "notebooks" | "tags";
 
+/** What the editor area shows */
+type MainView = "editor" | "calendar" | "tasks";
+
+const SECTIONS = [
+  { id: "notes", label: "Notes", icon: FileText },
+  { id: "favorites", label: "Favorites", icon: Star },
+  { id: "reminders", label: "Reminders", icon: Bell },
+  { id: "monographs", label: "Monographs", icon: BookOpen },
+  { id: "templates", label: "Templates", icon: LayoutTemplate },
+  { id: "trash", label: "Trash", icon: Trash2 },
+  { id: "archive", label: "Archive", icon: Archive },
+];
+
 interface Note {
   id: string;
   title: string;
   content: string;
   preview: string;
   createdAt: Date;
-  updatedAt?: Date;
+  updatedAt: Date;
   tags: string[];
   isFavorite: boolean;
   section: string;
   notebookId?: string;
-  order?: number;
+  order: number;
+  reminder?: NoteReminder;
+  journalDate?: string;
+  templateSection?: string;
 }
 
 interface Notebook {
   id: string;
   name: string;
+  parentId?: string;
   noteCount: number;
-  createdAt?: Date;
+  createdAt: Date;
 }
 
 interface Tag {
   id: string;
   name: string;
   noteCount: number;
-  createdAt?: Date;
+  createdAt: Date;
 }
 
 const Index = () => {
   const [activeSection, setActiveSection] = useState("notes");
   const [sidebarTab, setSidebarTab] = useState<SidebarTab>("home");
   const [notes, setNotes] = useState<Note[]>([]);
-  const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
-  const [openNotes, setOpenNotes] = useState<{ id: string; title: string }[]>([]);
+  const [panes, setPanes] = useState<EditorPanes>(INITIAL_EDITOR_PANES);
+  const [syncScroll, setSyncScroll] = useState(false);
   const [noteHistory, setNoteHistory] = useState<string[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
   const [searchQuery, setSearchQuery] = useState("");
@@ -79,146 +176,242 @@ const Index = () => {
   const [notesListOpen, setNotesListOpen] = useState(true);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [notesListCollapsed, setNotesListCollapsed] = useState(false);
+  const [commandPaletteOpen, setCommandPaletteOpen] = useState(false);
+  const [replaceDialogOpen, setReplaceDialogOpen] = useState(false);
+  const [mainView, setMainView] = useState<MainView>("editor");
+  const [focusMode, setFocusMode] = useState(false);
+  const [templatePrompt, setTemplatePrompt] = useState<{ templateId: string; prompts: string[] } | null>(null);
+  const [calendarDay, setCalendarDay] = useState<Date | null>(null);
+  const [calendarDateField, setCalendarDateField] = useState<CalendarDateField>("createdAt");
   
   // Notebooks state
   const [notebooks, setNotebooks] = useState<Notebook[]>([]);
   const [selectedNotebookId, setSelectedNotebookId] = useState<string | null>(null);
+  const [notebookToDelete, setNotebookToDelete] = useState<string | null>(null);
   
   // Tags state
   const [allTags, setAllTags] = useState<Tag[]>([]);
-  const [selectedTagId, setSelectedTagId] = useState<string | null>(null);
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [tagToDelete, setTagToDelete] = useState<string | null>(null);
+
+  // The notes list, commands and shortcuts act on the pane focused last
+  const { tabs: openNotes, noteId: selectedNoteId } = getActivePane(panes);
+  const isSplitView = panes.split !== null;
   
   const { toast } = useToast();
+  const { exportData } = useDataManagement();
+  const lockVault = useVaultStore((state) => state.lockVault);
+  const reminderNotifications = useSettingsStore((state) => state.reminderNotifications);
+  const journalNotebookId = useSettingsStore((state) => state.journalNotebookId);
+  const journalTemplate = useSettingsStore((state) => state.journalTemplate);
+  const setJournalNotebookId = useSettingsStore((state) => state.setJournalNotebookId);
+  const editorZoom = useSettingsStore((state) => getEditorZoom(state, selectedNoteId ?? undefined));
+  const setEditorZoom = useSettingsStore((state) => state.setEditorZoom);
+  const removeNoteZooms = useSettingsStore((state) => state.removeNoteZooms);
 
   // IndexedDB hooks
-  const { loadNotes, saveNote, saveNotes, deleteNote: deleteNoteFromDB, isLoading, isSyncing } = useNotesDB();
-  const { loadNotebooks, saveNotebook, deleteNotebook: deleteNotebookFromDB } = useNotebooksDB();
-  const { loadTags, saveTag, deleteTag: deleteTagFromDB } = useTagsDB();
+  const { loadNotes } = useNotesDB();
+  const { loadNotebooks } = useNotebooksDB();
+  const { loadTags } = useTagsDB();
+  const { saveRevision } = useRevisionsDB();
+  const [isDataLoaded, setIsDataLoaded] = useState(false);
 
-  // Load data from IndexedDB on mount
-  useEffect(() => {
-    const loadData = async () => {
-      try {
-        const [loadedNotes, loadedNotebooks, loadedTags] = await Promise.all([
-          loadNotes(),
-          loadNotebooks(),
-          loadTags(),
-        ]);
-
-        if (loadedNotes.length > 0) {
-          setNotes(loadedNotes);
-          console.log(`✅ Loaded ${loadedNotes.length} notes from IndexedDB`);
-        }
+  // Only records that changed are written, deletes included
+  const { markPersisted } = useIncrementalPersistence(
+    { notes, notebooks, tags: allTags },
+    isDataLoaded
+  );
 
-        if (loadedNotebooks.length > 0) {
-          setNotebooks(loadedNotebooks);
-          console.log(`✅ Loaded ${loadedNotebooks.length} notebooks from IndexedDB`);
-        }
+  // Load data from IndexedDB
+  const loadData = useCallback(async () => {
+    try {
+      const [loadedNotes, loadedNotebooks, loadedTags] = await Promise.all([
+        loadNotes(),
+        loadNotebooks(),
+        loadTags(),
+      ]);
 
-        if (loadedTags.length > 0) {
-          setAllTags(loadedTags);
-          console.log(`✅ Loaded ${loadedTags.length} tags from IndexedDB`);
-        }
-      } catch (error) {
-        console.error('Error loading data:', error);
-      }
-    };
+      // What was just loaded is already stored
+      markPersisted({ notes: loadedNotes, notebooks: loadedNotebooks, tags: loadedTags });
 
-    loadData();
-  }, []);
+      if (loadedNotes.length > 0) {
+        setNotes(loadedNotes);
+        console.log(`✅ Loaded ${loadedNotes.length} notes from IndexedDB`);
+      }
 
-  // Auto-save notes to IndexedDB when they change
-  useEffect(() => {
-    if (notes.length > 0 && !isLoading) {
-      saveNotes(notes);
-    }
-  }, [notes]);
+      if (loadedNotebooks.length > 0) {
+        setNotebooks(loadedNotebooks);
+        console.log(`✅ Loaded ${loadedNotebooks.length} notebooks from IndexedDB`);
+      }
 
-  // Auto-save notebooks when they change
-  useEffect(() => {
-    if (notebooks.length > 0 && !isLoading) {
-      notebooks.forEach(notebook => saveNotebook(notebook));
+      if (loadedTags.length > 0) {
+        setAllTags(loadedTags);
+        console.log(`✅ Loaded ${loadedTags.length} tags from IndexedDB`);
+      }
+      setIsDataLoaded(true);
+    } catch (error) {
+      console.error('Error loading data:', error);
     }
-  }, [notebooks]);
+  }, [loadNotes, loadNotebooks, loadTags, markPersisted]);
 
-  // Auto-save tags when they change
+  // Load on mount and again after a backup is merged in
   useEffect(() => {
-    if (allTags.length > 0 && !isLoading) {
-      allTags.forEach(tag => saveTag(tag));
-    }
-  }, [allTags]);
+    loadData();
+  }, []);
+  useDataImported(loadData);
 
   // Debounce search query for better performance
   const debouncedSearchQuery = useDebounce(searchQuery, 300);
 
-  const filteredNotes = useMemo(() => {
-    return notes.filter((note) => {
-      let matchesSection = false;
+  const parsedQuery = useMemo(() => parseSearchQuery(debouncedSearchQuery), [debouncedSearchQuery]);
+  const searchIndex = useSearchIndex();
 
-      if (activeSection === "favorites") {
-        matchesSection = note.isFavorite && note.section !== "trash";
-      } else {
-        matchesSection = note.section === activeSection;
-      }
+  // The selected notebook shows its own notes and those of nested notebooks
+  const selectedNotebookIds = useMemo(
+    () => (selectedNotebookId ? getNotebookSubtreeIds(notebooks, selectedNotebookId) : null),
+    [notebooks, selectedNotebookId]
+  );
 
-      const matchesSearch =
-        note.title.toLowerCase().includes(debouncedSearchQuery.toLowerCase()) ||
-        note.content.toLowerCase().includes(debouncedSearchQuery.toLowerCase());
-      return matchesSection && matchesSearch;
+  // Notes matching the sidebar selection and search, as shown in the calendar
+  const matchingNotes = useMemo(() => {
+    const notebookNames = new Map(notebooks.map((notebook) => [notebook.id, notebook.name]));
+
+    const candidates = notes.filter((note) => {
+      if (selectedNotebookIds && !(note.notebookId && selectedNotebookIds.has(note.notebookId))) {
+        return false;
+      }
+      if (selectedTag && !note.tags.some((tag) => isTagInSubtree(normalizeTagPath(tag), selectedTag))) {
+        return false;
+      }
+      // An in: operator searches that section instead of the active one
+      if (parsedQuery.sections.length === 0) {
+        const matchesSection = activeSection === "favorites"
+          ? note.isFavorite && note.section !== "trash"
+          : activeSection === "reminders"
+            ? isInReminders(note)
+            : note.section === activeSection;
+        if (!matchesSection) return false;
+      }
+      return matchesQueryFilters(note, parsedQuery, notebookNames);
     });
-  }, [notes, activeSection, debouncedSearchQuery]);
+
+    if (!hasTextQuery(parsedQuery)) {
+      // Reminders are listed by upcoming due time, overdue first
+      return activeSection === "reminders" ? candidates.sort(compareReminders) : candidates;
+    }
+
+    // Ranked by relevance, with highlighted title and snippet
+    const notesById = new Map(candidates.map((note) => [note.id, note]));
+    return searchIndex.search(candidates, parsedQuery).map((match) => ({
+      ...notesById.get(match.id)!,
+      highlight: { title: match.title, snippet: match.snippet },
+    }));
+  }, [notes, notebooks, selectedNotebookIds, selectedTag, activeSection, parsedQuery, searchIndex]);
+
+  // A day picked in the calendar narrows the list to that day
+  const filteredNotes = useMemo(
+    () => (calendarDay
+      ? matchingNotes.filter((note) => isNoteOnDay(note, calendarDay, calendarDateField))
+      : matchingNotes),
+    [matchingNotes, calendarDay, calendarDateField]
+  );
+
+  const calendarDayLabel = calendarDay ? `Notes on ${formatCalendarDay(calendarDay)}` : undefined;
 
   const selectedNote = notes.find((n) => n.id === selectedNoteId) || null;
+  // Focus mode only applies while a note is open in the editor
+  const isFocusMode = focusMode && mainView === "editor" && selectedNote !== null;
+  const templates = useMemo(() => notes.filter(isTemplate), [notes]);
+  const promptTemplate = notes.find((n) => n.id === templatePrompt?.templateId);
+  const selectedJournalKey = selectedNote?.journalDate;
+  const selectedJournalDate = useMemo(
+    () => (selectedJournalKey ? fromDayKey(selectedJournalKey) : null),
+    [selectedJournalKey]
+  );
 
   const noteCounts = {
     notes: notes.filter((n) => n.section === "notes").length,
     favorites: notes.filter((n) => n.isFavorite && n.section !== "trash").length,
-    reminders: notes.filter((n) => n.section === "reminders").length,
+    reminders: notes.filter(isInReminders).length,
     monographs: notes.filter((n) => n.section === "monographs").length,
+    templates: notes.filter(isTemplate).length,
     trash: notes.filter((n) => n.section === "trash").length,
     archive: notes.filter((n) => n.section === "archive").length,
   };
 
-  // Update tag counts from notes
-  const getTagsWithCounts = useCallback(() => {
-    const tagCounts: Record<string, number> = {};
-    notes.forEach(note => {
-      note.tags.forEach(tag => {
-        tagCounts[tag] = (tagCounts[tag] || 0) + 1;
+  // Notebook counts include nested notebooks, matching what selecting one shows
+  const notebookItems = useMemo(() => {
+    const directCounts = new Map<string, number>();
+    notes.forEach((note) => {
+      if (note.notebookId && note.section !== "trash") {
+        directCounts.set(note.notebookId, (directCounts.get(note.notebookId) ?? 0) + 1);
+      }
+    });
+
+    return notebooks.map((notebook) => {
+      let noteCount = 0;
+      getNotebookSubtreeIds(notebooks, notebook.id).forEach((id) => {
+        noteCount += directCounts.get(id) ?? 0;
       });
+      return { ...notebook, noteCount };
     });
-    return Object.entries(tagCounts).map(([name, count], index) => ({
-      id: `tag-${index}`,
-      name,
-      noteCount: count,
+  }, [notes, notebooks]);
+
+  // Palette results show where a notebook is nested
+  const paletteNotebooks = useMemo(
+    () => notebooks.map((notebook) => ({
+      id: notebook.id,
+      name: getNotebookPath(notebooks, notebook.id).join(" / "),
+    })),
+    [notebooks]
+  );
+
+  // Its count includes nested notebooks, which are trashed along with it
+  const deletingNotebook = notebookItems.find((n) => n.id === notebookToDelete);
+
+  // Tags come from the notes plus tags created without notes yet; counts
+  // include nested tags, matching what selecting a tag shows
+  const tagItems = useMemo(() => {
+    const counts = countTags(notes);
+    return collectTagPaths(notes, allTags.map((tag) => tag.name)).map((path) => ({
+      id: path,
+      name: path,
+      noteCount: counts.get(path) ?? 0,
     }));
-  }, [notes]);
+  }, [notes, allTags]);
 
-  const handleAddNote = useCallback(() => {
+  const tagPaths = useMemo(() => tagItems.map((tag) => tag.id), [tagItems]);
+
+  // Checklist items from every note, for the Tasks view
+  const tasks = useMemo(() => collectTasks(notes), [notes]);
+  const openTaskCount = useMemo(() => tasks.filter((task) => !task.checked).length, [tasks]);
+
+  const createNote = useCallback((
+    fields: Partial<Pick<Note, "title" | "content" | "tags" | "section" | "notebookId" | "journalDate">> = {}
+  ) => {
     const newNote: Note = {
       id: crypto.randomUUID(),
-      title: "",
-      content: "",
-      preview: "",
+      title: fields.title ?? "",
+      content: fields.content ?? "",
+      preview: (fields.content ?? "").substring(0, 100),
       createdAt: new Date(),
       updatedAt: new Date(),
-      tags: [],
+      tags: fields.tags ?? [],
       isFavorite: false,
-      section: activeSection === "trash" || activeSection === "archive" || activeSection === "favorites"
+      section: fields.section ?? (["trash", "archive", "favorites", "reminders"].includes(activeSection)
         ? "notes"
-        : activeSection,
+        : activeSection),
+      notebookId: fields.notebookId ?? selectedNotebookId ?? undefined,
       order: notes.length,
+      // Notes added in Reminders start with a reminder to adjust
+      reminder: activeSection === "reminders" ? { dueAt: getDefaultDueDate() } : undefined,
+      journalDate: fields.journalDate,
     };
     setNotes((prev) => [newNote, ...prev]);
-    setSelectedNoteId(newNote.id);
+    setMainView("editor");
     
-    // Add to open tabs
-    setOpenNotes((prev) => {
-      if (!prev.find(n => n.id === newNote.id)) {
-        return [...prev, { id: newNote.id, title: newNote.title || "Untitled" }];
-      }
-      return prev;
-    });
+    // Open in a tab of the focused pane
+    setPanes((prev) => openTab(prev, { id: newNote.id, title: newNote.title || "Untitled" }));
     
     // Add to history
     setNoteHistory(prev => [...prev.slice(0, historyIndex + 1), newNote.id]);
@@ -228,45 +421,184 @@ const Index = () => {
     if (window.innerWidth < 768) {
       setNotesListOpen(false);
     }
+    return newNote;
+  }, [activeSection, selectedNotebookId, historyIndex, notes.length]);
+
+  const handleAddNote = useCallback(() => {
+    createNote();
     toast({
       title: "Note created",
       description: "New note has been created successfully.",
     });
-  }, [activeSection, toast, historyIndex]);
+  }, [createNote, toast]);
 
-  const handleNoteChange = useCallback((updatedNote: { id: string; title: string; content: string; tags: string[] }) => {
+  // Placeholders are filled in as the note is created, so {{date}} and
+  // {{time}} are the creation time
+  const createFromTemplate = useCallback((template: Note, answers: Record<string, string> = {}) => {
+    const date = new Date();
+    createNote({
+      title: fillTemplateVariables(template.title, { date, answers }),
+      content: fillTemplateVariables(template.content, { date, answers, html: true }),
+      tags: [...template.tags],
+      section: template.templateSection ?? "notes",
+      notebookId: template.notebookId,
+    });
+  }, [createNote]);
+
+  const handleUseTemplate = useCallback((templateId: string) => {
+    const template = notes.find((n) => n.id === templateId);
+    if (!template) return;
+
+    const prompts = getTemplatePrompts(template);
+    if (prompts.length > 0) {
+      setTemplatePrompt({ templateId, prompts });
+    } else {
+      createFromTemplate(template);
+    }
+  }, [notes, createFromTemplate]);
+
+  const handleConfirmTemplatePrompt = useCallback((answers: Record<string, string>) => {
+    const template = notes.find((n) => n.id === templatePrompt?.templateId);
+    if (template) createFromTemplate(template, answers);
+  }, [notes, templatePrompt, createFromTemplate]);
+
+  const handleTemplateChange = useCallback((
+    templateId: string,
+    fields: { templateSection?: string; notebookId?: string }
+  ) => {
     setNotes((prev) =>
-      prev.map((note) =>
-        note.id === updatedNote.id
-          ? {
-              ...note,
-              title: updatedNote.title,
-              content: updatedNote.content,
-              tags: updatedNote.tags,
-              preview: updatedNote.content.substring(0, 100),
-            }
-          : note
+      prev.map((n) =>
+        n.id === templateId ? { ...n, ...fields, updatedAt: new Date() } : n
       )
     );
+  }, []);
+
+  const handleSaveAsTemplate = useCallback((noteId: string) => {
+    const note = notes.find((n) => n.id === noteId);
+    if (!note) return;
+
+    const template: Note = {
+      ...note,
+      id: crypto.randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      tags: [...note.tags],
+      isFavorite: false,
+      section: TEMPLATES_SECTION,
+      templateSection: TEMPLATE_TARGET_SECTIONS.some(({ id }) => id === note.section) ? note.section : undefined,
+      order: notes.length,
+      reminder: undefined,
+      journalDate: undefined,
+    };
+    setNotes((prev) => [template, ...prev]);
+    toast({
+      title: "Template saved",
+      description: `"${note.title || "Untitled"}" is now available under Templates.`,
+    });
+  }, [notes, toast]);
+
+  const handleForkRevision = useCallback((revision: { title: string; content: string; createdAt: Date }) => {
+    const sourceTags = notes.find(n => n.id === selectedNoteId)?.tags ?? [];
+    createNote({
+      title: `${revision.title || "Untitled"} (${revision.createdAt.toLocaleString()})`,
+      content: revision.content,
+      tags: sourceTags,
+    });
+    toast({
+      title: "Revision forked",
+      description: "A new note was created from the selected revision.",
+    });
+  }, [createNote, notes, selectedNoteId, toast]);
+
+  const handleNoteChange = useCallback((updatedNote: { id: string; title: string; content: string; tags: string[] }) => {
+    setNotes((prev) => {
+      const previous = prev.find(note => note.id === updatedNote.id);
+      const renamed = previous !== undefined && previous.title !== updatedNote.title;
+
+      return prev.map((note) => {
+        if (note.id === updatedNote.id) {
+          return {
+            ...note,
+            title: updatedNote.title,
+            content: updatedNote.content,
+            tags: updatedNote.tags,
+            preview: updatedNote.content.substring(0, 100),
+            updatedAt: new Date(),
+          };
+        }
+
+        // Rewrite [[links]] to the renamed note in every other note
+        if (renamed && hasNoteLink(note.content, updatedNote.id)) {
+          const content = renameNoteLinks(note.content, updatedNote.id, updatedNote.title || "Untitled");
+          if (content !== note.content) {
+            return { ...note, content, preview: content.substring(0, 100), updatedAt: new Date() };
+          }
+        }
+        return note;
+      });
+    });
     
     // Update open tabs title
-    setOpenNotes((prev) =>
-      prev.map((n) =>
+    setPanes((prev) =>
+      mapTabs(prev, (n) =>
         n.id === updatedNote.id ? { ...n, title: updatedNote.title || "Untitled" } : n
       )
     );
   }, []);
 
+  /**
+   * Set the title and content of several notes in one update, rewriting
+   * [[links]] to the notes that were renamed. With `expected`, notes whose
+   * title or content no longer match it are left alone.
+   */
+  const applyNoteStates = useCallback((states: ReplaceableNote[], expected?: ReplaceableNote[]) => {
+    setNotes((prev) => setNoteStates(prev, states, expected));
+
+    const expectedById = expected && new Map(expected.map((state) => [state.id, state]));
+    const titles = new Map(states.map((state) => [state.id, state.title || "Untitled"]));
+    setPanes((prev) =>
+      mapTabs(prev, (n) => {
+        const title = titles.get(n.id);
+        const expectedTitle = expectedById?.get(n.id)?.title;
+        return title === undefined || (expectedById && n.title !== (expectedTitle || "Untitled"))
+          ? n
+          : { ...n, title };
+      })
+    );
+  }, []);
+
+  // Every changed note is snapshotted first, so each can also be restored
+  // from its history after the undo toast is gone. Renamed notes change the
+  // links to them in other notes, which the undo restores as well.
+  const handleReplaceInNotes = useCallback(async (changes: ReplaceableNote[], matchCount: number) => {
+    const replaced = setNoteStates(notes, changes);
+    const toState = ({ id, title, content }: ReplaceableNote) => ({ id, title, content });
+    const previous = notes.filter((note, index) => replaced[index] !== note).map(toState);
+    const applied = replaced.filter((note, index) => note !== notes[index]).map(toState);
+
+    await Promise.all(previous.map((state) => saveRevision(state.id, state, "before-replace")));
+    applyNoteStates(changes);
+
+    // Notes edited since the replace keep their edits on undo
+    toast({
+      title: `Replaced ${matchCount} ${matchCount === 1 ? "match" : "matches"}`,
+      description: `${changes.length} ${changes.length === 1 ? "note was" : "notes were"} changed.`,
+      action: (
+        <ToastAction altText="Undo the replacement" onClick={() => applyNoteStates(previous, applied)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  }, [notes, saveRevision, applyNoteStates, toast]);
+
   const handleDeleteNote = useCallback((noteId: string) => {
     const note = notes.find(n => n.id === noteId);
     if (!note) return;
 
     if (note.section === "trash") {
       setNotes((prev) => prev.filter((n) => n.id !== noteId));
-      setOpenNotes((prev) => prev.filter((n) => n.id !== noteId));
-      if (selectedNoteId === noteId) {
-        setSelectedNoteId(null);
-      }
+      setPanes((prev) => removeNote(prev, noteId));
+      removeNoteZooms([noteId]);
       toast({
         title: "Note deleted permanently",
         description: "The note has been permanently deleted.",
@@ -277,15 +609,13 @@ const Index = () => {
           n.id === noteId ? { ...n, section: "trash" } : n
         )
       );
-      if (selectedNoteId === noteId) {
-        setSelectedNoteId(null);
-      }
+      setPanes((prev) => hideNote(prev, noteId));
       toast({
         title: "Note moved to trash",
         description: "The note has been moved to trash.",
       });
     }
-  }, [notes, selectedNoteId, toast]);
+  }, [notes, removeNoteZooms, toast]);
 
   const handleRestoreNote = useCallback((noteId: string) => {
     setNotes((prev) =>
@@ -313,17 +643,15 @@ const Index = () => {
         n.id === noteId ? { ...n, section: "archive" } : n
       )
     );
-    if (selectedNoteId === noteId) {
-      setSelectedNoteId(null);
-    }
+    setPanes((prev) => hideNote(prev, noteId));
     toast({
       title: "Note archived",
       description: "The note has been moved to archive.",
     });
-  }, [selectedNoteId, toast]);
+  }, [toast]);
 
   const handleCloseNote = useCallback(() => {
-    setSelectedNoteId(null);
+    setPanes((prev) => showNote(prev, null));
     // On mobile, show notes list when closing editor
     if (window.innerWidth < 768) {
       setNotesListOpen(true);
@@ -331,18 +659,13 @@ const Index = () => {
   }, []);
 
   const handleNoteSelect = useCallback((noteId: string) => {
-    setSelectedNoteId(noteId);
+    setMainView("editor");
     
     // Find the note for title
     const note = notes.find(n => n.id === noteId);
     
-    // Add to open tabs if not already open
-    setOpenNotes((prev) => {
-      if (!prev.find(n => n.id === noteId)) {
-        return [...prev, { id: noteId, title: note?.title || "Untitled" }];
-      }
-      return prev;
-    });
+    // Open in the focused pane, adding a tab if not already open
+    setPanes((prev) => openTab(prev, { id: noteId, title: note?.title || "Untitled" }));
     
     // Add to history
     setNoteHistory(prev => [...prev.slice(0, historyIndex + 1), noteId]);
@@ -354,29 +677,183 @@ const Index = () => {
     }
   }, [notes, historyIndex]);
 
+  const handleOpenLinkedNote = useCallback((noteId: string) => {
+    if (!notes.some(n => n.id === noteId)) {
+      toast({
+        title: "Note not found",
+        description: "The linked note no longer exists.",
+        variant: "destructive",
+      });
+      return;
+    }
+    handleNoteSelect(noteId);
+  }, [notes, handleNoteSelect, toast]);
+
   const handleSectionChange = useCallback((section: string) => {
     setActiveSection(section);
     setSidebarOpen(false);
   }, []);
 
-  const handleTabClose = useCallback((noteId: string) => {
-    setOpenNotes((prev) => prev.filter((n) => n.id !== noteId));
-    if (selectedNoteId === noteId) {
-      // Select the previous tab or null
-      const remainingNotes = openNotes.filter(n => n.id !== noteId);
-      if (remainingNotes.length > 0) {
-        setSelectedNoteId(remainingNotes[remainingNotes.length - 1].id);
-      } else {
-        setSelectedNoteId(null);
-      }
+  const handleManageTemplates = useCallback(() => {
+    handleSectionChange(TEMPLATES_SECTION);
+  }, [handleSectionChange]);
+
+  // Reminder handlers
+  const handleReminderChange = useCallback((noteId: string, reminder: NoteReminder | undefined) => {
+    setNotes((prev) =>
+      prev.map((n) =>
+        n.id === noteId ? { ...n, reminder } : n
+      )
+    );
+  }, []);
+
+  const handleSnoozeReminder = useCallback((noteId: string, minutes: number) => {
+    const now = new Date();
+    setNotes((prev) =>
+      prev.map((n) =>
+        n.id === noteId && n.reminder ? { ...n, reminder: snoozeReminder(n.reminder, minutes, now) } : n
+      )
+    );
+    toast({
+      title: "Reminder snoozed",
+      description: `You will be reminded ${formatReminderTime(new Date(now.getTime() + minutes * 60 * 1000)).toLowerCase()}.`,
+    });
+  }, [toast]);
+
+  const handleCompleteReminder = useCallback((noteId: string) => {
+    const reminder = notes.find(n => n.id === noteId)?.reminder;
+    if (!reminder) return;
+
+    const now = new Date();
+    const completed = completeReminder(reminder, now);
+    setNotes((prev) =>
+      prev.map((n) =>
+        n.id === noteId && n.reminder ? { ...n, reminder: completeReminder(n.reminder, now) } : n
+      )
+    );
+    toast({
+      title: "Reminder done",
+      description: completed.completedAt
+        ? "The reminder has been completed."
+        : `Next reminder: ${formatReminderTime(completed.dueAt)}.`,
+    });
+  }, [notes, toast]);
+
+  // Reminders dragged to another calendar day keep their time of day
+  const handleRescheduleReminder = useCallback((noteId: string, day: Date) => {
+    const reminder = notes.find(n => n.id === noteId)?.reminder;
+    if (!reminder) return;
+
+    const rescheduled = rescheduleReminder(reminder, day);
+    setNotes((prev) =>
+      prev.map((n) =>
+        n.id === noteId && n.reminder ? { ...n, reminder: rescheduleReminder(n.reminder, day) } : n
+      )
+    );
+    toast({
+      title: "Reminder moved",
+      description: `Now due ${formatReminderTime(rescheduled.dueAt)}.`,
+    });
+  }, [notes, toast]);
+
+  // Ticking an item in the Tasks view rewrites it in its note
+  const handleToggleTask = useCallback((noteId: string, index: number, checked: boolean) => {
+    setNotes((prev) =>
+      prev.map((note) => {
+        if (note.id !== noteId) return note;
+        const content = setTaskChecked(note.content, index, checked);
+        return content === note.content
+          ? note
+          : { ...note, content, preview: content.substring(0, 100), updatedAt: new Date() };
+      })
+    );
+  }, []);
+
+  // Each due time alerts once: a toast, plus a system notification if enabled
+  const handleRemindersDue = useCallback((dueNotes: Note[]) => {
+    const notifiedAt = new Date();
+    const dueIds = new Set(dueNotes.map((n) => n.id));
+    setNotes((prev) =>
+      prev.map((n) =>
+        dueIds.has(n.id) && n.reminder ? { ...n, reminder: { ...n.reminder, notifiedAt } } : n
+      )
+    );
+
+    const [first] = [...dueNotes].sort(compareReminders);
+    if (dueNotes.length === 1) {
+      toast({
+        title: `Reminder: ${first.title || "Untitled"}`,
+        description: `Due ${formatReminderTime(getAlertTime(first.reminder!))}`,
+        duration: Infinity,
+        action: (
+          <div className="flex flex-col gap-1">
+            <ToastAction altText="Open the note" onClick={() => handleNoteSelect(first.id)}>
+              Open
+            </ToastAction>
+            <ToastAction altText="Snooze for 10 minutes" onClick={() => handleSnoozeReminder(first.id, 10)}>
+              Snooze
+            </ToastAction>
+            <ToastAction altText="Mark the reminder as done" onClick={() => handleCompleteReminder(first.id)}>
+              Done
+            </ToastAction>
+          </div>
+        ),
+      });
+    } else {
+      toast({
+        title: `${dueNotes.length} reminders are due`,
+        description: dueNotes.map((n) => n.title || "Untitled").join(", "),
+        duration: Infinity,
+        action: (
+          <ToastAction altText="Show reminders" onClick={() => handleSectionChange("reminders")}>
+            Show
+          </ToastAction>
+        ),
+      });
     }
-  }, [openNotes, selectedNoteId]);
+
+    if (reminderNotifications) {
+      dueNotes.forEach((n) => {
+        showSystemNotification(`Reminder: ${n.title || "Untitled"}`, {
+          body: `Due ${formatReminderTime(getAlertTime(n.reminder!))}`,
+          tag: `reminder:${n.id}`,
+          onClick: () => handleNoteSelect(n.id),
+        });
+      });
+    }
+  }, [reminderNotifications, handleNoteSelect, handleSnoozeReminder, handleCompleteReminder, handleSectionChange, toast]);
+
+  useReminderScheduler(notes, handleRemindersDue, isDataLoaded);
+
+  const handleTabClose = useCallback((noteId: string, pane: EditorPaneId) => {
+    // Closing the open note selects the last remaining tab
+    setPanes((prev) => closeTab(prev, pane, noteId));
+  }, []);
+
+  // Split view handlers
+  const handleToggleSplitView = useCallback(() => {
+    setPanes((prev) => (prev.split ? unsplitPanes(prev) : splitPanes(prev)));
+  }, []);
+
+  const handleFocusPane = useCallback((pane: EditorPaneId) => {
+    setPanes((prev) => focusPane(prev, pane));
+  }, []);
+
+  const handleDropNote = useCallback((noteId: string, pane: EditorPaneId) => {
+    const title = notes.find((n) => n.id === noteId)?.title || "Untitled";
+    setMainView("editor");
+    setPanes((prev) => moveTab(prev, { id: noteId, title }, pane));
+  }, [notes]);
+
+  const handleToggleSyncScroll = useCallback(() => {
+    setSyncScroll((prev) => !prev);
+  }, []);
 
   const handleNavigateBack = useCallback(() => {
     if (historyIndex > 0) {
       const newIndex = historyIndex - 1;
       setHistoryIndex(newIndex);
-      setSelectedNoteId(noteHistory[newIndex]);
+      setPanes((prev) => showNote(prev, noteHistory[newIndex]));
     }
   }, [historyIndex, noteHistory]);
 
@@ -384,18 +861,25 @@ const Index = () => {
     if (historyIndex < noteHistory.length - 1) {
       const newIndex = historyIndex + 1;
       setHistoryIndex(newIndex);
-      setSelectedNoteId(noteHistory[newIndex]);
+      setPanes((prev) => showNote(prev, noteHistory[newIndex]));
     }
   }, [historyIndex, noteHistory]);
 
   // Notebook handlers
-  const handleAddNotebook = useCallback(() => {
-    const name = prompt("Enter notebook name:");
+  const handleNotebookSelect = useCallback((notebookId: string) => {
+    // Selecting the current notebook again shows all notes
+    setSelectedNotebookId((current) => (current === notebookId ? null : notebookId));
+  }, []);
+
+  const handleAddNotebook = useCallback((parentId?: string) => {
+    const name = prompt(parentId ? "Enter sub-notebook name:" : "Enter notebook name:");
     if (name) {
       const newNotebook: Notebook = {
         id: crypto.randomUUID(),
         name,
+        parentId,
         noteCount: 0,
+        createdAt: new Date(),
       };
       setNotebooks((prev) => [...prev, newNotebook]);
       toast({
@@ -405,16 +889,112 @@ const Index = () => {
     }
   }, [toast]);
 
+  // Journal entries are notes in the journal notebook, one per day
+  const handleOpenJournal = useCallback((date: Date = new Date()) => {
+    const entry = findJournalEntry(notes, date);
+    if (entry) {
+      handleNoteSelect(entry.id);
+      return;
+    }
+
+    // Created on first use, or again if the journal notebook was deleted
+    let notebook = notebooks.find((n) => n.id === journalNotebookId)
+      ?? notebooks.find((n) => !n.parentId && n.name === JOURNAL_NOTEBOOK_NAME);
+    if (!notebook) {
+      const journalNotebook: Notebook = {
+        id: crypto.randomUUID(),
+        name: JOURNAL_NOTEBOOK_NAME,
+        noteCount: 0,
+        createdAt: new Date(),
+      };
+      setNotebooks((prev) => [...prev, journalNotebook]);
+      notebook = journalNotebook;
+    }
+    if (notebook.id !== journalNotebookId) {
+      setJournalNotebookId(notebook.id);
+    }
+
+    createNote({
+      title: getJournalTitle(date),
+      content: renderJournalTemplate(journalTemplate, date),
+      section: "notes",
+      notebookId: notebook.id,
+      journalDate: toDayKey(date),
+    });
+  }, [notes, notebooks, journalNotebookId, journalTemplate, setJournalNotebookId, handleNoteSelect, createNote]);
+
   const handleDeleteNotebook = useCallback((notebookId: string) => {
-    setNotebooks((prev) => prev.filter((n) => n.id !== notebookId));
-    if (selectedNotebookId === notebookId) {
+    setNotebookToDelete(notebookId);
+  }, []);
+
+  const handleConfirmDeleteNotebook = useCallback((mode: NotebookDeleteMode) => {
+    const notebook = notebooks.find(n => n.id === notebookToDelete);
+    if (!notebook) return;
+
+    const removedIds = mode === "trash"
+      ? getNotebookSubtreeIds(notebooks, notebook.id)
+      : new Set([notebook.id]);
+
+    if (mode === "trash") {
+      setNotes((prev) =>
+        prev.map((n) =>
+          n.notebookId && removedIds.has(n.notebookId)
+            ? { ...n, section: "trash", notebookId: undefined, updatedAt: new Date() }
+            : n
+        )
+      );
+      setNotebooks((prev) => prev.filter((n) => !removedIds.has(n.id)));
+    } else {
+      // Contents move up one level
+      setNotes((prev) =>
+        prev.map((n) =>
+          n.notebookId === notebook.id
+            ? { ...n, notebookId: notebook.parentId, updatedAt: new Date() }
+            : n
+        )
+      );
+      setNotebooks((prev) =>
+        prev
+          .filter((n) => n.id !== notebook.id)
+          .map((n) => (n.parentId === notebook.id ? { ...n, parentId: notebook.parentId } : n))
+      );
+    }
+
+    if (selectedNotebookId && removedIds.has(selectedNotebookId)) {
       setSelectedNotebookId(null);
     }
     toast({
       title: "Notebook deleted",
-      description: "The notebook has been deleted.",
+      description: mode === "trash"
+        ? `"${notebook.name}" has been deleted and its notes moved to trash.`
+        : `"${notebook.name}" has been deleted.`,
     });
-  }, [selectedNotebookId, toast]);
+  }, [notebooks, notebookToDelete, selectedNotebookId, toast]);
+
+  const handleMoveNotebook = useCallback((notebookId: string, parentId?: string) => {
+    const notebook = notebooks.find(n => n.id === notebookId);
+    if (!notebook || notebook.parentId === parentId) return;
+
+    if (!canMoveNotebook(notebooks, notebookId, parentId)) {
+      toast({
+        title: "Cannot move notebook",
+        description: "A notebook cannot be moved into one of its own sub-notebooks.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setNotebooks((prev) =>
+      prev.map((n) => (n.id === notebookId ? { ...n, parentId } : n))
+    );
+    const parent = notebooks.find(n => n.id === parentId);
+    toast({
+      title: "Notebook moved",
+      description: parent
+        ? `"${notebook.name}" is now inside "${parent.name}".`
+        : `"${notebook.name}" is now at the top level.`,
+    });
+  }, [notebooks, toast]);
 
   const handleRenameNotebook = useCallback((notebookId: string) => {
     const notebook = notebooks.find(n => n.id === notebookId);
@@ -429,78 +1009,560 @@ const Index = () => {
   }, [notebooks]);
 
   // Tag handlers
-  const handleAddTag = useCallback(() => {
-    const name = prompt("Enter tag name:");
-    if (name) {
-      const newTag: Tag = {
-        id: crypto.randomUUID(),
-        name,
-        noteCount: 0,
-      };
-      setAllTags((prev) => [...prev, newTag]);
+  const handleTagSelect = useCallback((path: string) => {
+    // Selecting the current tag again shows all notes
+    setSelectedTag((current) => (current === path ? null : path));
+  }, []);
+
+  const handleAddTag = useCallback((parentPath?: string) => {
+    const name = prompt(parentPath ? `Enter tag name inside "${parentPath}":` : "Enter tag name:");
+    const path = name ? normalizeTagPath(parentPath ? `${parentPath}/${name}` : name) : "";
+    if (!path) return;
+
+    if (tagItems.some((tag) => tag.name === path)) {
       toast({
-        title: "Tag created",
-        description: `"${name}" has been created.`,
+        title: "Tag already exists",
+        description: `"${path}" already exists.`,
       });
+      return;
     }
-  }, [toast]);
 
-  const handleDeleteTag = useCallback((tagId: string) => {
-    setAllTags((prev) => prev.filter((t) => t.id !== tagId));
-    if (selectedTagId === tagId) {
-      setSelectedTagId(null);
-    }
+    const newTag: Tag = {
+      id: crypto.randomUUID(),
+      name: path,
+      noteCount: 0,
+      createdAt: new Date(),
+    };
+    setAllTags((prev) => [...prev, newTag]);
     toast({
-      title: "Tag deleted",
-      description: "The tag has been deleted.",
+      title: "Tag created",
+      description: `"${path}" has been created.`,
     });
-  }, [selectedTagId, toast]);
+  }, [tagItems, toast]);
 
-  const handleRenameTag = useCallback((tagId: string) => {
-    const tag = allTags.find(t => t.id === tagId);
-    const newName = prompt("Enter new name:", tag?.name);
-    if (newName) {
-      setAllTags((prev) =>
-        prev.map((t) =>
-          t.id === tagId ? { ...t, name: newName } : t
-        )
-      );
-    }
-  }, [allTags]);
+  /**
+   * Move a tag and its nested tags to a new path, merging with a tag that
+   * already exists there, or remove them when `to` is null. Every affected
+   * note is rewritten in the same update.
+   */
+  const applyTagChange = useCallback((from: string, to: string | null) => {
+    setNotes((prev) =>
+      prev.map((note) => {
+        const tags = rewriteTags(note.tags, from, to);
+        return tags === note.tags ? note : { ...note, tags, updatedAt: new Date() };
+      })
+    );
+
+    setAllTags((prev) => {
+      const names = new Set<string>();
+      return prev.flatMap((tag) => {
+        const relocated = relocateTag(normalizeTagPath(tag.name), from, to);
+        const name = relocated === undefined ? tag.name : relocated;
+        // Merged tags keep the first record
+        if (name === null || names.has(name)) return [];
+        names.add(name);
+        return [name === tag.name ? tag : { ...tag, name }];
+      });
+    });
+
+    setSelectedTag((current) => {
+      if (!current) return current;
+      const relocated = relocateTag(current, from, to);
+      return relocated === undefined ? current : relocated;
+    });
+  }, []);
+
+  const countNotesWithTag = useCallback((path: string) =>
+    notes.filter((note) => note.tags.some((tag) => isTagInSubtree(normalizeTagPath(tag), path))).length,
+  [notes]);
+
+  const handleRenameTag = useCallback((path: string) => {
+    const input = prompt("Enter new name:", path);
+    const newPath = input ? normalizeTagPath(input) : "";
+    if (!newPath || newPath === path) return;
+
+    const exists = tagItems.some((tag) => tag.name === newPath);
+    if (exists && !confirm(`"${newPath}" already exists. Merge "${path}" into it?`)) return;
+
+    const count = countNotesWithTag(path);
+    applyTagChange(path, newPath);
+    toast({
+      title: exists ? "Tags merged" : "Tag renamed",
+      description: `"${path}" is now "${newPath}" in ${count} notes.`,
+    });
+  }, [tagItems, applyTagChange, countNotesWithTag, toast]);
+
+  const handleMergeTag = useCallback((path: string) => {
+    const input = prompt(`Merge "${path}" into which tag?`);
+    const target = input ? normalizeTagPath(input) : "";
+    if (!target || target === path) return;
+
+    const count = countNotesWithTag(path);
+    applyTagChange(path, target);
+    toast({
+      title: "Tags merged",
+      description: `"${path}" was merged into "${target}" in ${count} notes.`,
+    });
+  }, [applyTagChange, countNotesWithTag, toast]);
+
+  const handleDeleteTag = useCallback((path: string) => {
+    setTagToDelete(path);
+  }, []);
+
+  const handleConfirmDeleteTag = useCallback(() => {
+    if (!tagToDelete) return;
+    const count = countNotesWithTag(tagToDelete);
+    applyTagChange(tagToDelete, null);
+    setTagToDelete(null);
+    toast({
+      title: "Tag deleted",
+      description: `"${tagToDelete}" was removed from ${count} notes.`,
+    });
+  }, [tagToDelete, applyTagChange, countNotesWithTag, toast]);
 
   // Import notes handler
   const handleImportNotes = useCallback((importedNotes: Note[]) => {
-    setNotes((prev) => [...importedNotes, ...prev]);
+    // Imported notes replace existing ones with the same id
+    setNotes((prev) => {
+      const importedIds = new Set(importedNotes.map(n => n.id));
+      const normalized = importedNotes.map((n) => ({
+        ...n,
+        preview: n.preview ?? n.content.substring(0, 100),
+        updatedAt: n.updatedAt ?? n.createdAt,
+        order: n.order ?? 0,
+      }));
+      return [...normalized, ...prev.filter(n => !importedIds.has(n.id))];
+    });
   }, []);
 
-  // Compute tags from notes
-  const computedTags = getTagsWithCounts();
-  const displayTags = allTags.length > 0 ? allTags : computedTags;
+  const handleMoveToNotebook = useCallback((noteId: string, notebookId?: string) => {
+    if (notes.find(n => n.id === noteId)?.notebookId === notebookId) return;
+
+    setNotes((prev) =>
+      prev.map((n) =>
+        n.id === noteId ? { ...n, notebookId, updatedAt: new Date() } : n
+      )
+    );
+    const notebook = notebooks.find(n => n.id === notebookId);
+    toast({
+      title: notebook ? "Note moved" : "Note removed from notebook",
+      description: notebook ? `The note is now in "${notebook.name}".` : "The note is no longer in a notebook.",
+    });
+  }, [notes, notebooks, toast]);
+
+  // Palette search results narrow the notes list with search operators
+  const handlePaletteNotebook = useCallback((notebookId: string) => {
+    setSelectedNotebookId(notebookId);
+    setSidebarTab("notebooks");
+  }, []);
+
+  const handlePaletteTag = useCallback((path: string) => {
+    setSelectedTag(path);
+    setSidebarTab("tags");
+  }, []);
+
+  useShortcutManager();
+
+  const handleFocusSearch = useCallback(() => {
+    // The notes list holds the search box on small screens
+    if (window.innerWidth < 1024) {
+      setNotesListOpen(true);
+    }
+    requestAnimationFrame(() => {
+      const inputs = document.querySelectorAll<HTMLInputElement>("[data-search-input]");
+      const visible = Array.from(inputs).find((input) => input.offsetParent !== null);
+      visible?.focus();
+      visible?.select();
+    });
+  }, []);
+
+  const handleToggleSidebar = useCallback(() => {
+    if (window.innerWidth < 1024) {
+      setSidebarOpen((open) => !open);
+    } else {
+      setSidebarCollapsed((collapsed) => !collapsed);
+    }
+  }, []);
+
+  const handleToggleNotesList = useCallback(() => {
+    if (window.innerWidth < 1024) {
+      setNotesListOpen((open) => !open);
+    } else {
+      setNotesListCollapsed((collapsed) => !collapsed);
+    }
+  }, []);
+
+  const handleToggleCalendar = useCallback(() => {
+    setMainView((view) => (view === "calendar" ? "editor" : "calendar"));
+  }, []);
+
+  const handleToggleTasks = useCallback(() => {
+    setMainView((view) => (view === "tasks" ? "editor" : "tasks"));
+  }, []);
+
+  const handleToggleFocusMode = useCallback(() => {
+    setFocusMode(!isFocusMode);
+  }, [isFocusMode]);
+
+  const handleCalendarDaySelect = useCallback((day: Date | null) => {
+    setCalendarDay(day);
+    // Small screens show the calendar instead of the list, so go to the list
+    if (day && window.innerWidth < 640) {
+      setMainView("editor");
+      setNotesListOpen(true);
+    }
+  }, []);
+
+  const handleCycleTab = useCallback((offset: number) => {
+    if (openNotes.length === 0) return;
+    const index = openNotes.findIndex((n) => n.id === selectedNoteId);
+    const nextIndex = index === -1
+      ? (offset > 0 ? 0 : openNotes.length - 1)
+      : (index + offset + openNotes.length) % openNotes.length;
+    handleNoteSelect(openNotes[nextIndex].id);
+  }, [openNotes, selectedNoteId, handleNoteSelect]);
+
+  const commands = useMemo<AppCommand[]>(() => {
+    const hasSelection = () => selectedNote !== null;
+    const isActiveNote = () => selectedNote !== null && selectedNote.section !== "trash";
+
+    return [
+      {
+        id: "palette.open",
+        title: "Command Palette",
+        group: "General",
+        icon: CommandIcon,
+        run: () => setCommandPaletteOpen((open) => !open),
+      },
+      {
+        id: "search.focus",
+        title: "Search Notes",
+        group: "General",
+        icon: Search,
+        keywords: ["find"],
+        run: handleFocusSearch,
+      },
+      {
+        id: "search.replace",
+        title: "Find and Replace in Notes",
+        group: "General",
+        icon: Replace,
+        keywords: ["find", "rename", "substitute"],
+        run: () => setReplaceDialogOpen(true),
+      },
+      {
+        id: "note.new",
+        title: "New Note",
+        group: "Notes",
+        icon: Plus,
+        keywords: ["create", "add"],
+        run: handleAddNote,
+      },
+      {
+        id: "journal.today",
+        title: "Open Today's Journal",
+        group: "Notes",
+        icon: CalendarCheck,
+        keywords: ["daily", "diary", "log"],
+        run: () => handleOpenJournal(),
+      },
+      ...templates.map((template) => ({
+        id: `note.fromTemplate.${template.id}`,
+        title: `New Note from Template: ${template.title || "Untitled"}`,
+        group: "Notes",
+        icon: LayoutTemplate,
+        keywords: ["create", "add", "template"],
+        run: () => handleUseTemplate(template.id),
+      })),
+      {
+        id: "note.saveAsTemplate",
+        title: "Save Note as Template",
+        group: "Notes",
+        icon: CopyPlus,
+        keywords: ["template", "copy"],
+        isAvailable: () => isActiveNote() && !isTemplate(selectedNote!),
+        run: () => selectedNote && handleSaveAsTemplate(selectedNote.id),
+      },
+      {
+        id: "note.toggleFavorite",
+        title: selectedNote?.isFavorite ? "Remove from Favorites" : "Add to Favorites",
+        group: "Notes",
+        icon: Star,
+        keywords: ["favorite", "star"],
+        isAvailable: isActiveNote,
+        run: () => selectedNote && handleToggleFavorite(selectedNote.id),
+      },
+      {
+        id: "note.archive",
+        title: "Archive Note",
+        group: "Notes",
+        icon: Archive,
+        isAvailable: () => isActiveNote() && selectedNote?.section !== "archive",
+        run: () => selectedNote && handleArchiveNote(selectedNote.id),
+      },
+      {
+        id: "note.completeReminder",
+        title: "Mark Reminder as Done",
+        group: "Notes",
+        icon: CheckCircle2,
+        keywords: ["reminder", "complete", "done"],
+        isAvailable: () => selectedNote !== null && hasOpenReminder(selectedNote),
+        run: () => selectedNote && handleCompleteReminder(selectedNote.id),
+      },
+      ...notebooks.map((notebook) => ({
+        id: `note.moveToNotebook.${notebook.id}`,
+        title: `Move to Notebook: ${getNotebookPath(notebooks, notebook.id).join(" / ")}`,
+        group: "Notes",
+        icon: FolderInput,
+        keywords: ["move", "notebook"],
+        isAvailable: () => hasSelection() && selectedNote?.notebookId !== notebook.id,
+        run: () => selectedNote && handleMoveToNotebook(selectedNote.id, notebook.id),
+      })),
+      {
+        id: "note.removeFromNotebook",
+        title: "Remove from Notebook",
+        group: "Notes",
+        icon: FolderMinus,
+        isAvailable: () => Boolean(selectedNote?.notebookId),
+        run: () => selectedNote && handleMoveToNotebook(selectedNote.id, undefined),
+      },
+      {
+        id: "layout.toggleSidebar",
+        title: "Toggle Sidebar",
+        group: "Layout",
+        icon: PanelLeft,
+        run: handleToggleSidebar,
+      },
+      {
+        id: "layout.toggleNotesList",
+        title: "Toggle Notes List",
+        group: "Layout",
+        icon: List,
+        run: handleToggleNotesList,
+      },
+      {
+        id: "layout.toggleCalendar",
+        title: "Toggle Calendar",
+        group: "Layout",
+        icon: CalendarDays,
+        run: handleToggleCalendar,
+      },
+      {
+        id: "layout.toggleTasks",
+        title: "Toggle Tasks",
+        group: "Layout",
+        icon: ListChecks,
+        run: handleToggleTasks,
+      },
+      {
+        id: "layout.toggleFocusMode",
+        title: isFocusMode ? "Exit Focus Mode" : "Enter Focus Mode",
+        group: "Layout",
+        icon: Monitor,
+        keywords: ["distraction free", "zen", "typewriter"],
+        isAvailable: () => mainView === "editor" && hasSelection(),
+        run: handleToggleFocusMode,
+      },
+      {
+        id: "layout.zoomIn",
+        title: "Zoom In",
+        group: "Layout",
+        icon: ZoomIn,
+        keywords: ["larger", "font size"],
+        isAvailable: () => mainView === "editor" && hasSelection() && editorZoom < MAX_ZOOM,
+        run: () => selectedNote && setEditorZoom(stepZoom(editorZoom, 1), selectedNote.id),
+      },
+      {
+        id: "layout.zoomOut",
+        title: "Zoom Out",
+        group: "Layout",
+        icon: ZoomOut,
+        keywords: ["smaller", "font size"],
+        isAvailable: () => mainView === "editor" && hasSelection() && editorZoom > MIN_ZOOM,
+        run: () => selectedNote && setEditorZoom(stepZoom(editorZoom, -1), selectedNote.id),
+      },
+      {
+        id: "layout.resetZoom",
+        title: "Reset Zoom",
+        group: "Layout",
+        icon: Percent,
+        keywords: ["100%", "actual size"],
+        isAvailable: () => mainView === "editor" && hasSelection() && editorZoom !== DEFAULT_ZOOM,
+        run: () => selectedNote && setEditorZoom(DEFAULT_ZOOM, selectedNote.id),
+      },
+      {
+        id: "layout.toggleSplitView",
+        title: isSplitView ? "Close Split View" : "Split Editor",
+        group: "Layout",
+        icon: Columns2,
+        keywords: ["side by side", "compare", "pane"],
+        // The split panes only fit the desktop layout
+        isAvailable: () => mainView === "editor" && window.innerWidth >= 1024,
+        run: handleToggleSplitView,
+      },
+      {
+        id: "layout.toggleSyncScroll",
+        title: syncScroll ? "Stop Syncing Scroll" : "Sync Scrolling",
+        group: "Layout",
+        icon: ArrowDownUp,
+        keywords: ["split view", "compare"],
+        isAvailable: () => mainView === "editor" && isSplitView,
+        run: handleToggleSyncScroll,
+      },
+      {
+        id: "tabs.next",
+        title: "Next Tab",
+        group: "Navigation",
+        icon: ChevronRight,
+        isAvailable: () => openNotes.length > 1,
+        run: () => handleCycleTab(1),
+      },
+      {
+        id: "tabs.previous",
+        title: "Previous Tab",
+        group: "Navigation",
+        icon: ChevronLeft,
+        isAvailable: () => openNotes.length > 1,
+        run: () => handleCycleTab(-1),
+      },
+      {
+        id: "history.back",
+        title: "Go Back",
+        group: "Navigation",
+        icon: Undo,
+        keywords: ["history", "previous note"],
+        isAvailable: () => historyIndex > 0,
+        run: handleNavigateBack,
+      },
+      {
+        id: "history.forward",
+        title: "Go Forward",
+        group: "Navigation",
+        icon: Redo,
+        keywords: ["history", "next note"],
+        isAvailable: () => historyIndex < noteHistory.length - 1,
+        run: handleNavigateForward,
+      },
+      ...SECTIONS.map((section) => ({
+        id: `navigation.section.${section.id}`,
+        title: `Go to ${section.label}`,
+        group: "Navigation",
+        icon: section.icon,
+        keywords: ["section", "open", "show"],
+        isAvailable: () => activeSection !== section.id,
+        run: () => handleSectionChange(section.id),
+      })),
+      {
+        id: "vault.export",
+        title: "Export Backup",
+        group: "Vault",
+        icon: Download,
+        keywords: ["backup", "download", "json"],
+        run: exportData,
+      },
+      {
+        id: "vault.lock",
+        title: "Lock Vault",
+        group: "Vault",
+        icon: Lock,
+        keywords: ["logout", "sign out"],
+        run: lockVault,
+      },
+    ];
+  }, [
+    selectedNote,
+    notebooks,
+    templates,
+    activeSection,
+    openNotes.length,
+    historyIndex,
+    noteHistory.length,
+    handleFocusSearch,
+    handleToggleSidebar,
+    handleToggleNotesList,
+    handleToggleCalendar,
+    handleToggleTasks,
+    mainView,
+    isFocusMode,
+    handleToggleFocusMode,
+    editorZoom,
+    setEditorZoom,
+    isSplitView,
+    syncScroll,
+    handleToggleSplitView,
+    handleToggleSyncScroll,
+    handleCycleTab,
+    handleNavigateBack,
+    handleNavigateForward,
+    handleAddNote,
+    handleOpenJournal,
+    handleUseTemplate,
+    handleSaveAsTemplate,
+    handleToggleFavorite,
+    handleArchiveNote,
+    handleCompleteReminder,
+    handleMoveToNotebook,
+    handleSectionChange,
+    exportData,
+    lockVault,
+  ]);
+  useRegisterCommands(commands);
+
 
   return (
     <div className="flex h-screen overflow-hidden bg-background">
       {/* Mobile Header */}
-      <div className="lg:hidden fixed top-0 left-0 right-0 z-50 flex items-center justify-between px-3 py-2 bg-background border-b border-border safe-area-inset">
-        <div className="flex items-center gap-2">
-          <button
-            onClick={() => setSidebarOpen(!sidebarOpen)}
-            className="p-2 rounded-md text-foreground hover:bg-muted transition-colors active:bg-muted/80"
-            aria-label="Toggle sidebar"
-          >
-            <Menu className="w-5 h-5" />
-          </button>
-          <BlackNotesLogo size="sm" />
-        </div>
-        <div className="flex items-center gap-1">
-          <button
-            onClick={handleAddNote}
-            className="p-2 rounded-md text-primary hover:bg-primary/10 transition-colors"
-            aria-label="Add note"
-          >
-            <Plus className="w-5 h-5" />
-          </button>
+      {!isFocusMode && (
+        <div className="lg:hidden fixed top-0 left-0 right-0 z-50 flex items-center justify-between px-3 py-2 bg-background border-b border-border safe-area-inset">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setSidebarOpen(!sidebarOpen)}
+              className="p-2 rounded-md text-foreground hover:bg-muted transition-colors active:bg-muted/80"
+              aria-label="Toggle sidebar"
+            >
+              <Menu className="w-5 h-5" />
+            </button>
+            <BlackNotesLogo size="sm" />
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={handleToggleCalendar}
+              className={cn(
+                "p-2 rounded-md transition-colors",
+                mainView === "calendar" ? "text-primary bg-primary/10" : "text-foreground hover:bg-muted"
+              )}
+              aria-label="Toggle calendar"
+            >
+              <CalendarDays className="w-5 h-5" />
+            </button>
+            <button
+              onClick={handleToggleTasks}
+              className={cn(
+                "p-2 rounded-md transition-colors",
+                mainView === "tasks" ? "text-primary bg-primary/10" : "text-foreground hover:bg-muted"
+              )}
+              aria-label="Toggle tasks"
+            >
+              <ListChecks className="w-5 h-5" />
+            </button>
+            <TemplatesMenu templates={templates} onSelect={handleUseTemplate} onManage={handleManageTemplates}>
+              <button
+                className="p-2 rounded-md text-foreground hover:bg-muted transition-colors"
+                aria-label="New note from template"
+              >
+                <LayoutTemplate className="w-5 h-5" />
+              </button>
+            </TemplatesMenu>
+            <button
+              onClick={handleAddNote}
+              className="p-2 rounded-md text-primary hover:bg-primary/10 transition-colors"
+              aria-label="Add note"
+            >
+              <Plus className="w-5 h-5" />
+            </button>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Sidebar Overlay for Mobile/Tablet */}
       {sidebarOpen && (
@@ -511,340 +1573,589 @@ const Index = () => {
       )}
 
       {/* Mobile Sidebar */}
-      <div className={cn(
-        "lg:hidden fixed z-50 h-full w-[220px] transition-transform duration-300 ease-in-out bg-sidebar",
-        sidebarOpen ? "translate-x-0" : "-translate-x-full"
-      )}>
-        <Sidebar
-          activeSection={activeSection}
-          onSectionChange={handleSectionChange}
-          noteCounts={noteCounts}
-          onClose={() => setSidebarOpen(false)}
-          activeTab={sidebarTab}
-          onTabChange={setSidebarTab}
-          notebooks={notebooks}
-          tags={displayTags}
-          selectedNotebookId={selectedNotebookId}
-          selectedTagId={selectedTagId}
-          onNotebookSelect={setSelectedNotebookId}
-          onTagSelect={setSelectedTagId}
-          onAddNotebook={handleAddNotebook}
-          onAddTag={handleAddTag}
-        />
-      </div>
+      <NotesDndContext>
+        <div className={cn(
+          "lg:hidden fixed z-50 h-full w-[220px] transition-transform duration-300 ease-in-out bg-sidebar",
+          sidebarOpen ? "translate-x-0" : "-translate-x-full"
+        )}>
+          <Sidebar
+            activeSection={activeSection}
+            onSectionChange={handleSectionChange}
+            noteCounts={noteCounts}
+            onClose={() => setSidebarOpen(false)}
+            activeTab={sidebarTab}
+            onTabChange={setSidebarTab}
+            notebooks={notebookItems}
+            tags={tagItems}
+            selectedNotebookId={selectedNotebookId}
+            selectedTag={selectedTag}
+            onNotebookSelect={handleNotebookSelect}
+            onTagSelect={handleTagSelect}
+            onAddNotebook={handleAddNotebook}
+            onRenameNotebook={handleRenameNotebook}
+            onDeleteNotebook={handleDeleteNotebook}
+            onMoveNotebook={handleMoveNotebook}
+            onMoveNote={handleMoveToNotebook}
+            onAddTag={handleAddTag}
+            onRenameTag={handleRenameTag}
+            onMergeTag={handleMergeTag}
+            onDeleteTag={handleDeleteTag}
+            onOpenJournal={() => {
+              handleOpenJournal();
+              setSidebarOpen(false);
+            }}
+            openTaskCount={openTaskCount}
+            onOpenTasks={() => {
+              setMainView("tasks");
+              setSidebarOpen(false);
+            }}
+          />
+        </div>
+      </NotesDndContext>
 
       {/* Desktop Layout with Resizable Panels */}
-      <div className="hidden lg:flex flex-1 h-full flex-col">
-        {/* Global Tabs Bar */}
-        <div className="flex items-center bg-background border-b border-border min-h-[44px] flex-shrink-0">
-          {/* Left side - Search (above notes list area) */}
-          <div className="flex items-center min-w-[200px] max-w-[300px] px-3 border-r border-border">
-            <div className="flex-1 flex items-center gap-2 px-3 py-1.5 bg-muted/50 rounded-md">
-              <Search className="w-4 h-4 text-muted-foreground" />
-              <input
-                type="text"
-                placeholder="Search in Notes"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="flex-1 bg-transparent text-sm text-foreground placeholder:text-muted-foreground focus:outline-none"
-              />
-            </div>
-          </div>
-
-          {/* Center - Add button, navigation, and tabs */}
-          <div className="flex-1 flex items-center min-w-0">
-            {/* Add and Nav buttons */}
-            <div className="flex items-center gap-0.5 px-2 flex-shrink-0">
-              <button
-                onClick={handleAddNote}
-                className="w-8 h-8 rounded-full bg-primary flex items-center justify-center text-primary-foreground hover:bg-primary/90 transition-colors"
-                title="Add new note"
-              >
-                <Plus className="w-4 h-4" />
-              </button>
-              <button
-                onClick={handleNavigateBack}
-                disabled={historyIndex <= 0}
-                className={cn(
-                  "p-1.5 rounded transition-colors",
-                  historyIndex > 0
-                    ? "text-muted-foreground hover:text-foreground hover:bg-muted"
-                    : "text-muted-foreground/30 cursor-not-allowed"
-                )}
-                title="Go back"
-              >
-                <ChevronLeft className="w-4 h-4" />
-              </button>
-              <button
-                onClick={handleNavigateForward}
-                disabled={historyIndex >= noteHistory.length - 1}
-                className={cn(
-                  "p-1.5 rounded transition-colors",
-                  historyIndex < noteHistory.length - 1
-                    ? "text-muted-foreground hover:text-foreground hover:bg-muted"
-                    : "text-muted-foreground/30 cursor-not-allowed"
-                )}
-                title="Go forward"
-              >
-                <ChevronRight className="w-4 h-4" />
-              </button>
-            </div>
+      <NotesDndContext>
+        <div className="hidden lg:flex flex-1 h-full flex-col">
+          {/* Global Tabs Bar */}
+          {!isFocusMode && (
+            <div className="flex items-center bg-background border-b border-border min-h-[44px] flex-shrink-0">
+              {/* Left side - Search (above notes list area) */}
+              <div className="flex items-center min-w-[200px] max-w-[300px] px-3 border-r border-border">
+                <div className="flex-1 flex items-center gap-2 px-3 py-1.5 bg-muted/50 rounded-md">
+                  <Search className="w-4 h-4 text-muted-foreground" />
+                  <input
+                    type="text"
+                    placeholder="Search in Notes"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    data-search-input
+                    className="flex-1 bg-transparent text-sm text-foreground placeholder:text-muted-foreground focus:outline-none"
+                  />
+                </div>
+              </div>
 
-            {/* Tabs */}
-            <div className="flex-1 flex items-center overflow-x-auto scrollbar-none min-w-0">
-              {openNotes.map((note) => (
-                <div
-                  key={note.id}
-                  className={cn(
-                    "flex items-center gap-2 px-3 py-2 border-r border-border cursor-pointer transition-colors group min-w-0 max-w-[180px]",
-                    selectedNoteId === note.id
-                      ? "bg-editor text-foreground"
-                      : "bg-background text-muted-foreground hover:text-foreground hover:bg-muted/50"
-                  )}
-                  onClick={() => handleNoteSelect(note.id)}
-                >
-                  <FileText className="w-4 h-4 flex-shrink-0 text-primary" />
-                  <span className="text-sm truncate">{note.title || "Untitled"}</span>
+              {/* Center - Add button, navigation, and tabs */}
+              <div className="flex-1 flex items-center min-w-0">
+                {/* Add and Nav buttons */}
+                <div className="flex items-center gap-0.5 px-2 flex-shrink-0">
                   <button
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleTabClose(note.id);
-                    }}
-                    className="p-0.5 rounded hover:bg-muted transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0"
-                    title="Close tab"
+                    onClick={handleAddNote}
+                    className="w-8 h-8 rounded-full bg-primary flex items-center justify-center text-primary-foreground hover:bg-primary/90 transition-colors"
+                    title="Add new note"
+                  >
+                    <Plus className="w-4 h-4" />
+                  </button>
+                  <TemplatesMenu templates={templates} onSelect={handleUseTemplate} onManage={handleManageTemplates}>
+                    <button
+                      className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                      title="New note from template"
+                    >
+                      <ChevronDown className="w-3.5 h-3.5" />
+                    </button>
+                  </TemplatesMenu>
+                  <button
+                    onClick={handleNavigateBack}
+                    disabled={historyIndex <= 0}
+                    className={cn(
+                      "p-1.5 rounded transition-colors",
+                      historyIndex > 0
+                        ? "text-muted-foreground hover:text-foreground hover:bg-muted"
+                        : "text-muted-foreground/30 cursor-not-allowed"
+                    )}
+                    title="Go back"
                   >
-                    <X className="w-3 h-3" />
+                    <ChevronLeft className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={handleNavigateForward}
+                    disabled={historyIndex >= noteHistory.length - 1}
+                    className={cn(
+                      "p-1.5 rounded transition-colors",
+                      historyIndex < noteHistory.length - 1
+                        ? "text-muted-foreground hover:text-foreground hover:bg-muted"
+                        : "text-muted-foreground/30 cursor-not-allowed"
+                    )}
+                    title="Go forward"
+                  >
+                    <ChevronRight className="w-4 h-4" />
                   </button>
                 </div>
-              ))}
-            </div>
-          </div>
 
-          {/* Right side - Actions */}
-          <div className="flex items-center gap-0.5 px-2 flex-shrink-0 border-l border-border">
-            <NotesImportExport 
-              notes={notes} 
-              onImportNotes={handleImportNotes}
-              selectedNote={selectedNote}
-            />
-            <AppSettings autoSaveDelay={500} searchDelay={300} />
-          </div>
-        </div>
+                {/* Tabs - each pane shows its own in split view */}
+                {isSplitView ? (
+                  <div className="flex-1" />
+                ) : (
+                  <NoteTabs
+                    pane="main"
+                    tabs={panes.main.tabs}
+                    selectedId={panes.main.noteId}
+                    onSelect={handleNoteSelect}
+                    onClose={handleTabClose}
+                    onDropNote={handleDropNote}
+                  />
+                )}
+              </div>
 
-        {/* Main Content Area */}
-        <div className="flex-1 flex overflow-hidden">
-          {/* Mini Sidebar when collapsed */}
-          {sidebarCollapsed && (
-            <MiniSidebar
-              activeSection={activeSection}
-              onSectionChange={handleSectionChange}
-              activeTab={sidebarTab}
-              onTabChange={setSidebarTab}
-              onExpand={() => setSidebarCollapsed(false)}
-            />
+              {/* Right side - Actions */}
+              <div className="flex items-center gap-0.5 px-2 flex-shrink-0 border-l border-border">
+                <NotesImportExport 
+                  notes={notes} 
+                  onImportNotes={handleImportNotes}
+                  selectedNote={selectedNote}
+                />
+                <button
+                  onClick={handleToggleCalendar}
+                  className={cn(
+                    "p-1.5 rounded transition-colors",
+                    mainView === "calendar"
+                      ? "text-primary bg-primary/10"
+                      : "text-muted-foreground hover:text-foreground hover:bg-muted"
+                  )}
+                  title="Calendar"
+                >
+                  <CalendarDays className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={handleToggleTasks}
+                  className={cn(
+                    "p-1.5 rounded transition-colors",
+                    mainView === "tasks"
+                      ? "text-primary bg-primary/10"
+                      : "text-muted-foreground hover:text-foreground hover:bg-muted"
+                  )}
+                  title="Tasks"
+                >
+                  <ListChecks className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setCommandPaletteOpen(true)}
+                  className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded transition-colors"
+                  title="Command Palette"
+                >
+                  <CommandIcon className="w-4 h-4" />
+                </button>
+                <AppSettings autoSaveDelay={500} searchDelay={300} />
+              </div>
+            </div>
           )}
 
-          <ResizablePanelGroup direction="horizontal" className="h-full">
-            {/* Sidebar Panel */}
-            {!sidebarCollapsed && (
-              <>
-                <ResizablePanel 
-                  defaultSize={15} 
-                  minSize={10} 
-                  maxSize={25}
-                  className="min-w-0"
-                >
-                  <div className="h-full">
-                    <Sidebar
-                      activeSection={activeSection}
-                      onSectionChange={handleSectionChange}
-                      noteCounts={noteCounts}
-                      onClose={() => setSidebarOpen(false)}
-                      activeTab={sidebarTab}
-                      onTabChange={setSidebarTab}
-                      notebooks={notebooks}
-                      tags={displayTags}
-                      selectedNotebookId={selectedNotebookId}
-                      selectedTagId={selectedTagId}
-                      onNotebookSelect={setSelectedNotebookId}
-                      onTagSelect={setSelectedTagId}
-                      onAddNotebook={handleAddNotebook}
-                      onAddTag={handleAddTag}
-                      onCollapse={() => setSidebarCollapsed(true)}
-                      isCollapsible={true}
-                    />
-                  </div>
-                </ResizablePanel>
-                <ResizableHandle withHandle />
-              </>
+          {/* Main Content Area */}
+          <div className="flex-1 flex overflow-hidden">
+            {/* Mini Sidebar when collapsed */}
+            {sidebarCollapsed && !isFocusMode && (
+              <MiniSidebar
+                activeSection={activeSection}
+                onSectionChange={handleSectionChange}
+                activeTab={sidebarTab}
+                onTabChange={setSidebarTab}
+                onExpand={() => setSidebarCollapsed(false)}
+              />
             )}
 
-            {/* Notes List Panel */}
-            {!notesListCollapsed && (
-              <>
-                <ResizablePanel 
-                  defaultSize={25} 
-                  minSize={15} 
-                  maxSize={40}
-                  className="min-w-0"
-                >
-                  <div className="h-full flex flex-col">
-                    {/* Notes List Header */}
-                    <div className="flex items-center justify-between px-3 py-2 border-b border-border">
-                      <span className="text-xs font-medium text-primary uppercase tracking-wide">Recent</span>
-                      <div className="flex items-center gap-1">
-                        <button className="p-1 text-muted-foreground hover:text-foreground transition-colors" title="Sort">
-                          <ArrowUpDown className="w-3.5 h-3.5" />
-                        </button>
-                        <button className="p-1 text-muted-foreground hover:text-foreground transition-colors" title="View">
-                          <List className="w-3.5 h-3.5" />
-                        </button>
-                        <button 
-                          onClick={() => setNotesListCollapsed(true)}
-                          className="p-1 text-muted-foreground hover:text-foreground transition-colors" 
-                          title="Hide Recent"
-                        >
-                          <PanelLeft className="w-3.5 h-3.5" />
-                        </button>
-                      </div>
-                    </div>
-                    {/* Notes List */}
-                    <div className="flex-1 overflow-hidden">
-                      <NotesList
-                        notes={filteredNotes}
-                        selectedNoteId={selectedNoteId}
-                        onNoteSelect={handleNoteSelect}
-                        onAddNote={handleAddNote}
-                        onDeleteNote={handleDeleteNote}
-                        onRestoreNote={handleRestoreNote}
-                        onToggleFavorite={handleToggleFavorite}
-                        onArchiveNote={handleArchiveNote}
-                        searchQuery={searchQuery}
-                        onSearchChange={setSearchQuery}
+            <ResizablePanelGroup direction="horizontal" className="h-full">
+              {/* Sidebar Panel */}
+              {!sidebarCollapsed && !isFocusMode && (
+                <>
+                  <ResizablePanel 
+                    defaultSize={15} 
+                    minSize={10} 
+                    maxSize={25}
+                    className="min-w-0"
+                  >
+                    <div className="h-full">
+                      <Sidebar
                         activeSection={activeSection}
-                        hideSearch={true}
-                        onReorderNotes={(activeId, overId) => {
-                          setNotes((prev) => {
-                            const activeIndex = prev.findIndex(n => n.id === activeId);
-                            const overIndex = prev.findIndex(n => n.id === overId);
-                            if (activeIndex === -1 || overIndex === -1) return prev;
-                            const newNotes = [...prev];
-                            const [removed] = newNotes.splice(activeIndex, 1);
-                            newNotes.splice(overIndex, 0, removed);
-                            return newNotes;
-                          });
+                        onSectionChange={handleSectionChange}
+                        noteCounts={noteCounts}
+                        onClose={() => setSidebarOpen(false)}
+                        activeTab={sidebarTab}
+                        onTabChange={setSidebarTab}
+                        notebooks={notebookItems}
+                        tags={tagItems}
+                        selectedNotebookId={selectedNotebookId}
+                        selectedTag={selectedTag}
+                        onNotebookSelect={handleNotebookSelect}
+                        onTagSelect={handleTagSelect}
+                        onAddNotebook={handleAddNotebook}
+                        onRenameNotebook={handleRenameNotebook}
+                        onDeleteNotebook={handleDeleteNotebook}
+                        onMoveNotebook={handleMoveNotebook}
+                        onMoveNote={handleMoveToNotebook}
+                        onAddTag={handleAddTag}
+                        onRenameTag={handleRenameTag}
+                        onMergeTag={handleMergeTag}
+                        onDeleteTag={handleDeleteTag}
+                        onOpenJournal={() => {
+                          handleOpenJournal();
+                          setSidebarOpen(false);
                         }}
+                        openTaskCount={openTaskCount}
+                        onOpenTasks={() => setMainView("tasks")}
+                        onCollapse={() => setSidebarCollapsed(true)}
+                        isCollapsible={true}
                       />
                     </div>
-                  </div>
-                </ResizablePanel>
-                <ResizableHandle withHandle />
-              </>
-            )}
+                  </ResizablePanel>
+                  <ResizableHandle withHandle />
+                </>
+              )}
 
-          {/* Editor Panel */}
-          <ResizablePanel defaultSize={60} minSize={30} className="min-w-0">
-            <div className="h-full flex flex-col">
-              {/* Show expand buttons when notes list is collapsed */}
-              {notesListCollapsed && (
-                <div className="flex items-center gap-1 px-3 py-2 bg-muted/30 border-b border-border">
-                  <button
-                    onClick={() => setNotesListCollapsed(false)}
-                    className="flex items-center gap-2 px-2 py-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors text-xs"
-                    title="Show Recent notes list"
+              {/* Notes List Panel */}
+              {!notesListCollapsed && !isFocusMode && (
+                <>
+                  <ResizablePanel 
+                    defaultSize={25} 
+                    minSize={15} 
+                    maxSize={40}
+                    className="min-w-0"
                   >
-                    <PanelRight className="w-3.5 h-3.5" />
-                    <span>Show Recent</span>
-                  </button>
-                </div>
+                    <div className="h-full flex flex-col">
+                      {/* Notes List Header */}
+                      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+                        <span className="text-xs font-medium text-primary uppercase tracking-wide">Recent</span>
+                        <div className="flex items-center gap-1">
+                          <button className="p-1 text-muted-foreground hover:text-foreground transition-colors" title="Sort">
+                            <ArrowUpDown className="w-3.5 h-3.5" />
+                          </button>
+                          <button className="p-1 text-muted-foreground hover:text-foreground transition-colors" title="View">
+                            <List className="w-3.5 h-3.5" />
+                          </button>
+                          <button 
+                            onClick={() => setNotesListCollapsed(true)}
+                            className="p-1 text-muted-foreground hover:text-foreground transition-colors" 
+                            title="Hide Recent"
+                          >
+                            <PanelLeft className="w-3.5 h-3.5" />
+                          </button>
+                        </div>
+                      </div>
+                      {/* Notes List */}
+                      <div className="flex-1 overflow-hidden">
+                        <NotesList
+                          notes={filteredNotes}
+                          selectedNoteId={selectedNoteId}
+                          onNoteSelect={handleNoteSelect}
+                          onAddNote={handleAddNote}
+                          onDeleteNote={handleDeleteNote}
+                          onRestoreNote={handleRestoreNote}
+                          onToggleFavorite={handleToggleFavorite}
+                          onArchiveNote={handleArchiveNote}
+                          searchQuery={searchQuery}
+                          onSearchChange={setSearchQuery}
+                          activeSection={activeSection}
+                          onCompleteReminder={handleCompleteReminder}
+                          onSnoozeReminder={handleSnoozeReminder}
+                          filterLabel={calendarDayLabel}
+                          onClearFilter={() => setCalendarDay(null)}
+                          hideSearch={true}
+                          onReorderNotes={(activeId, overId) => {
+                            setNotes((prev) => {
+                              const activeIndex = prev.findIndex(n => n.id === activeId);
+                              const overIndex = prev.findIndex(n => n.id === overId);
+                              if (activeIndex === -1 || overIndex === -1) return prev;
+                              const newNotes = [...prev];
+                              const [removed] = newNotes.splice(activeIndex, 1);
+                              newNotes.splice(overIndex, 0, removed);
+                              return newNotes;
+                            });
+                          }}
+                        />
+                      </div>
+                    </div>
+                  </ResizablePanel>
+                  <ResizableHandle withHandle />
+                </>
               )}
-              <div className="flex-1 overflow-hidden">
-                <NoteEditor
-                  note={selectedNote ? {
-                    id: selectedNote.id,
-                    title: selectedNote.title,
-                    content: selectedNote.content,
-                    tags: selectedNote.tags,
-                    isFavorite: selectedNote.isFavorite,
-                  } : null}
-                  onNoteChange={handleNoteChange}
-                  onClose={handleCloseNote}
-                  onToggleFavorite={handleToggleFavorite}
-                  onDelete={handleDeleteNote}
-                  onBack={() => setNotesListOpen(true)}
-                  onAddNote={handleAddNote}
-                />
+
+            {/* Editor Panel */}
+            <ResizablePanel defaultSize={60} minSize={30} className="min-w-0">
+              <div className="h-full flex flex-col">
+                {/* Show expand buttons when notes list is collapsed */}
+                {notesListCollapsed && !isFocusMode && (
+                  <div className="flex items-center gap-1 px-3 py-2 bg-muted/30 border-b border-border">
+                    <button
+                      onClick={() => setNotesListCollapsed(false)}
+                      className="flex items-center gap-2 px-2 py-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors text-xs"
+                      title="Show Recent notes list"
+                    >
+                      <PanelRight className="w-3.5 h-3.5" />
+                      <span>Show Recent</span>
+                    </button>
+                  </div>
+                )}
+                <div className="flex-1 overflow-hidden">
+                  {mainView === "calendar" ? (
+                    <CalendarView
+                      notes={matchingNotes}
+                      dateField={calendarDateField}
+                      onDateFieldChange={setCalendarDateField}
+                      selectedDay={calendarDay}
+                      onSelectDay={handleCalendarDaySelect}
+                      onOpenNote={handleNoteSelect}
+                      onRescheduleReminder={handleRescheduleReminder}
+                      onClose={handleToggleCalendar}
+                    />
+                  ) : mainView === "tasks" ? (
+                    <TasksView
+                      tasks={tasks}
+                      notebooks={notebooks}
+                      tags={tagPaths}
+                      onToggleTask={handleToggleTask}
+                      onOpenNote={handleNoteSelect}
+                      onClose={handleToggleTasks}
+                    />
+                  ) : (
+                    <ScrollSync enabled={isSplitView && syncScroll}>
+                      <ResizablePanelGroup direction="horizontal">
+                        {EDITOR_PANE_IDS.map((paneId, index) => {
+                          const pane = panes[paneId];
+                          if (!pane) return null;
+                          const paneNote = notes.find((n) => n.id === pane.noteId) || null;
+                          const paneJournalDate = paneNote?.journalDate ? fromDayKey(paneNote.journalDate) : null;
+
+                          return (
+                            <Fragment key={paneId}>
+                              {index > 0 && <ResizableHandle withHandle />}
+                              <ResizablePanel id={`editor-${paneId}`} order={index} minSize={25} className="min-w-0">
+                                {/* Notes picked elsewhere open in the pane clicked or focused last */}
+                                <div
+                                  className="h-full flex flex-col"
+                                  onMouseDownCapture={() => handleFocusPane(paneId)}
+                                  onFocusCapture={() => handleFocusPane(paneId)}
+                                >
+                                  {isSplitView && !isFocusMode && (
+                                    <div className="flex items-center bg-background border-b border-border min-h-[37px] flex-shrink-0">
+                                      <NoteTabs
+                                        pane={paneId}
+                                        tabs={pane.tabs}
+                                        selectedId={pane.noteId}
+                                        isFocused={panes.active === paneId}
+                                        onSelect={handleNoteSelect}
+                                        onClose={handleTabClose}
+                                        onDropNote={handleDropNote}
+                                      />
+                                    </div>
+                                  )}
+                                  {paneJournalDate && (
+                                    <JournalNavigator date={paneJournalDate} notes={notes} onOpenDay={handleOpenJournal} />
+                                  )}
+                                  {paneNote && isTemplate(paneNote) && (
+                                    <TemplateBar
+                                      templateId={paneNote.id}
+                                      templateSection={paneNote.templateSection}
+                                      notebookId={paneNote.notebookId}
+                                      notebooks={paletteNotebooks}
+                                      onChange={handleTemplateChange}
+                                      onUse={handleUseTemplate}
+                                    />
+                                  )}
+                                  <div className="flex-1 overflow-hidden">
+                                    <NoteEditor
+                                      note={paneNote ? {
+                                        id: paneNote.id,
+                                        title: paneNote.title,
+                                        content: paneNote.content,
+                                        tags: paneNote.tags,
+                                        isFavorite: paneNote.isFavorite,
+                                        reminder: paneNote.reminder,
+                                      } : null}
+                                      onNoteChange={handleNoteChange}
+                                      onClose={handleCloseNote}
+                                      onToggleFavorite={handleToggleFavorite}
+                                      onDelete={handleDeleteNote}
+                                      onBack={() => setNotesListOpen(true)}
+                                      onAddNote={handleAddNote}
+                                      onForkRevision={handleForkRevision}
+                                      notes={notes}
+                                      onOpenNote={handleOpenLinkedNote}
+                                      onReminderChange={handleReminderChange}
+                                      focusMode={isFocusMode}
+                                      onToggleFocusMode={handleToggleFocusMode}
+                                      splitView={isSplitView}
+                                      onToggleSplitView={handleToggleSplitView}
+                                      syncScroll={isSplitView && syncScroll}
+                                      onToggleSyncScroll={handleToggleSyncScroll}
+                                    />
+                                  </div>
+                                </div>
+                              </ResizablePanel>
+                            </Fragment>
+                          );
+                        })}
+                      </ResizablePanelGroup>
+                    </ScrollSync>
+                  )}
+                </div>
               </div>
-            </div>
-          </ResizablePanel>
-        </ResizablePanelGroup>
+            </ResizablePanel>
+          </ResizablePanelGroup>
+          </div>
         </div>
-      </div>
+      </NotesDndContext>
 
       {/* Mobile/Tablet Content */}
-      <div className="lg:hidden flex-1 flex flex-col pt-12 overflow-hidden min-w-0">
-
-        <div className="flex-1 flex flex-row overflow-hidden">
-          {/* Notes List */}
-          <div className={cn(
-            "transition-all duration-300 ease-in-out overflow-hidden flex-shrink-0 w-full sm:w-[280px] md:w-[320px]",
-            notesListOpen ? "block" : "hidden",
-            selectedNoteId ? "hidden sm:block" : "block"
-          )}>
-            <NotesList
-              notes={filteredNotes}
-              selectedNoteId={selectedNoteId}
-              onNoteSelect={handleNoteSelect}
-              onAddNote={handleAddNote}
-              onDeleteNote={handleDeleteNote}
-              onRestoreNote={handleRestoreNote}
-              onToggleFavorite={handleToggleFavorite}
-              onArchiveNote={handleArchiveNote}
-              searchQuery={searchQuery}
-              onSearchChange={setSearchQuery}
-              activeSection={activeSection}
-              onReorderNotes={(activeId, overId) => {
-                setNotes((prev) => {
-                  const activeIndex = prev.findIndex(n => n.id === activeId);
-                  const overIndex = prev.findIndex(n => n.id === overId);
-                  if (activeIndex === -1 || overIndex === -1) return prev;
-                  const newNotes = [...prev];
-                  const [removed] = newNotes.splice(activeIndex, 1);
-                  newNotes.splice(overIndex, 0, removed);
-                  return newNotes;
-                });
-              }}
-            />
-          </div>
+      <NotesDndContext>
+        <div className={cn("lg:hidden flex-1 flex flex-col overflow-hidden min-w-0", !isFocusMode && "pt-12")}>
+
+          <div className="flex-1 flex flex-row overflow-hidden">
+            {/* Notes List */}
+            <div className={cn(
+              "transition-all duration-300 ease-in-out overflow-hidden flex-shrink-0 w-full sm:w-[280px] md:w-[320px]",
+              notesListOpen ? "block" : "hidden",
+              selectedNoteId || mainView !== "editor" ? "hidden sm:block" : "block",
+              isFocusMode && "sm:hidden"
+            )}>
+              <NotesList
+                notes={filteredNotes}
+                selectedNoteId={selectedNoteId}
+                onNoteSelect={handleNoteSelect}
+                onAddNote={handleAddNote}
+                onDeleteNote={handleDeleteNote}
+                onRestoreNote={handleRestoreNote}
+                onToggleFavorite={handleToggleFavorite}
+                onArchiveNote={handleArchiveNote}
+                searchQuery={searchQuery}
+                onSearchChange={setSearchQuery}
+                activeSection={activeSection}
+                onCompleteReminder={handleCompleteReminder}
+                onSnoozeReminder={handleSnoozeReminder}
+                filterLabel={calendarDayLabel}
+                onClearFilter={() => setCalendarDay(null)}
+                onReorderNotes={(activeId, overId) => {
+                  setNotes((prev) => {
+                    const activeIndex = prev.findIndex(n => n.id === activeId);
+                    const overIndex = prev.findIndex(n => n.id === overId);
+                    if (activeIndex === -1 || overIndex === -1) return prev;
+                    const newNotes = [...prev];
+                    const [removed] = newNotes.splice(activeIndex, 1);
+                    newNotes.splice(overIndex, 0, removed);
+                    return newNotes;
+                  });
+                }}
+              />
+            </div>
 
-          {/* Note Editor */}
-          <div className={cn(
-            "flex-1 min-w-0",
-            selectedNoteId ? "block" : "hidden sm:block"
-          )}>
-            <NoteEditor
-              note={selectedNote ? {
-                id: selectedNote.id,
-                title: selectedNote.title,
-                content: selectedNote.content,
-                tags: selectedNote.tags,
-                isFavorite: selectedNote.isFavorite,
-              } : null}
-              onNoteChange={handleNoteChange}
-              onClose={handleCloseNote}
-              onToggleFavorite={handleToggleFavorite}
-              onDelete={handleDeleteNote}
-              onBack={() => {
-                setSelectedNoteId(null);
-                setNotesListOpen(true);
-              }}
-              onAddNote={handleAddNote}
-            />
+            {/* Note Editor */}
+            <div className={cn(
+              "flex-1 min-w-0 flex-col",
+              selectedNoteId || mainView !== "editor" ? "flex" : "hidden sm:flex"
+            )}>
+              {mainView === "editor" && selectedJournalDate && (
+                <JournalNavigator date={selectedJournalDate} notes={notes} onOpenDay={handleOpenJournal} />
+              )}
+              {mainView === "editor" && selectedNote && isTemplate(selectedNote) && (
+                <TemplateBar
+                  templateId={selectedNote.id}
+                  templateSection={selectedNote.templateSection}
+                  notebookId={selectedNote.notebookId}
+                  notebooks={paletteNotebooks}
+                  onChange={handleTemplateChange}
+                  onUse={handleUseTemplate}
+                />
+              )}
+              <div className="flex-1 overflow-hidden">
+                {mainView === "calendar" ? (
+                  <CalendarView
+                    notes={matchingNotes}
+                    dateField={calendarDateField}
+                    onDateFieldChange={setCalendarDateField}
+                    selectedDay={calendarDay}
+                    onSelectDay={handleCalendarDaySelect}
+                    onOpenNote={handleNoteSelect}
+                    onRescheduleReminder={handleRescheduleReminder}
+                    onClose={handleToggleCalendar}
+                  />
+                ) : mainView === "tasks" ? (
+                  <TasksView
+                    tasks={tasks}
+                    notebooks={notebooks}
+                    tags={tagPaths}
+                    onToggleTask={handleToggleTask}
+                    onOpenNote={handleNoteSelect}
+                    onClose={handleToggleTasks}
+                  />
+                ) : (
+                  <NoteEditor
+                    note={selectedNote ? {
+                      id: selectedNote.id,
+                      title: selectedNote.title,
+                      content: selectedNote.content,
+                      tags: selectedNote.tags,
+                      isFavorite: selectedNote.isFavorite,
+                      reminder: selectedNote.reminder,
+                    } : null}
+                    onNoteChange={handleNoteChange}
+                    onClose={handleCloseNote}
+                    onToggleFavorite={handleToggleFavorite}
+                    onDelete={handleDeleteNote}
+                    onBack={() => {
+                      setPanes((prev) => showNote(prev, null));
+                      setNotesListOpen(true);
+                    }}
+                    onAddNote={handleAddNote}
+                    onForkRevision={handleForkRevision}
+                    notes={notes}
+                    onOpenNote={handleOpenLinkedNote}
+                    onReminderChange={handleReminderChange}
+                    focusMode={isFocusMode}
+                    onToggleFocusMode={handleToggleFocusMode}
+                  />
+                )}
+              </div>
+            </div>
           </div>
         </div>
-      </div>
+      </NotesDndContext>
+
+      <CommandPalette
+        open={commandPaletteOpen}
+        onOpenChange={setCommandPaletteOpen}
+        notes={notes}
+        notebooks={paletteNotebooks}
+        tags={tagItems}
+        onSelectNote={handleNoteSelect}
+        onSelectNotebook={handlePaletteNotebook}
+        onSelectTag={handlePaletteTag}
+      />
+
+      <TemplatePromptDialog
+        open={templatePrompt !== null}
+        onOpenChange={(open) => !open && setTemplatePrompt(null)}
+        templateTitle={promptTemplate?.title ?? ""}
+        prompts={templatePrompt?.prompts ?? []}
+        onConfirm={handleConfirmTemplatePrompt}
+      />
+
+      <DeleteNotebookDialog
+        open={notebookToDelete !== null}
+        onOpenChange={(open) => !open && setNotebookToDelete(null)}
+        notebookName={deletingNotebook?.name ?? ""}
+        parentName={notebooks.find((n) => n.id === deletingNotebook?.parentId)?.name}
+        noteCount={deletingNotebook?.noteCount ?? 0}
+        subNotebookCount={notebooks.filter((n) => n.parentId === notebookToDelete).length}
+        onConfirm={handleConfirmDeleteNotebook}
+      />
+
+      <ReplaceInNotesDialog
+        open={replaceDialogOpen}
+        onOpenChange={setReplaceDialogOpen}
+        notes={notes}
+        notebooks={notebooks}
+        tags={tagPaths}
+        onApply={handleReplaceInNotes}
+      />
+
+      <ConfirmationDialog
+        open={tagToDelete !== null}
+        onOpenChange={(open) => !open && setTagToDelete(null)}
+        title={`Delete "${tagToDelete ?? ""}"?`}
+        description={`The tag and its nested tags will be removed from ${tagToDelete ? countNotesWithTag(tagToDelete) : 0} notes. The notes themselves are kept.`}
+        confirmText="Delete Tag"
+        variant="danger"
+        onConfirm={handleConfirmDeleteTag}
+      />
     </div>
   );
 };
 
-export default Index;
+export default Index;
\ No newline at end of file
@@ -0,0 +1,150 @@
+/**
+ * Settings Store - User preferences persisted in localStorage
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { RevisionRetention } from '@/lib/db';
+import { DEFAULT_JOURNAL_TEMPLATE } from '@/lib/journal';
+import { DEFAULT_ZOOM } from '@/lib/zoom';
+
+export const DEFAULT_REVISION_RETENTION: RevisionRetention = {
+  maxRevisions: 50,
+  maxAgeDays: 30,
+};
+
+export interface SettingsState {
+  // Revision history
+  revisionRetention: RevisionRetention;
+
+  // Keyboard shortcuts that differ from the defaults (null = unbound)
+  shortcutOverrides: Record<string, string | null>;
+
+  // Reminders also show a system notification
+  reminderNotifications: boolean;
+
+  // Daily notes go to this notebook, created on first use when unset
+  journalNotebookId: string | null;
+  journalTemplate: string;
+
+  // Editor zoom in percent. With zoomPerNote, notes remember their own
+  // zoom and the global one is the default for the rest.
+  editorZoom: number;
+  zoomPerNote: boolean;
+  noteZooms: Record<string, number>;
+
+  // Focus mode keeps the current line in the middle of the screen
+  typewriterScrolling: boolean;
+
+  // Actions
+  setRevisionRetention: (retention: Partial<RevisionRetention>) => void;
+  setShortcutBinding: (id: string, binding: string | null) => void;
+  resetShortcutBinding: (id: string) => void;
+  resetShortcutBindings: () => void;
+  setReminderNotifications: (enabled: boolean) => void;
+  setJournalNotebookId: (id: string | null) => void;
+  setJournalTemplate: (template: string) => void;
+  setEditorZoom: (zoom: number, noteId?: string) => void;
+  removeNoteZooms: (noteIds: string[]) => void;
+  setZoomPerNote: (enabled: boolean) => void;
+  setTypewriterScrolling: (enabled: boolean) => void;
+  resetSettings: () => void;
+}
+
+/**
+ * Zoom of a note's editor, in percent
+ */
+export function getEditorZoom(state: SettingsState, noteId?: string): number {
+  if (state.zoomPerNote && noteId) {
+    return state.noteZooms[noteId] ?? state.editorZoom;
+  }
+  return state.editorZoom;
+}
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set, _get, store) => ({
+      revisionRetention: DEFAULT_REVISION_RETENTION,
+      shortcutOverrides: {},
+      reminderNotifications: false,
+      journalNotebookId: null,
+      journalTemplate: DEFAULT_JOURNAL_TEMPLATE,
+      editorZoom: DEFAULT_ZOOM,
+      zoomPerNote: false,
+      noteZooms: {},
+      typewriterScrolling: false,
+
+      setRevisionRetention: (retention) => {
+        set((state) => ({
+          revisionRetention: { ...state.revisionRetention, ...retention },
+        }));
+      },
+
+      setShortcutBinding: (id, binding) => {
+        set((state) => ({
+          shortcutOverrides: { ...state.shortcutOverrides, [id]: binding },
+        }));
+      },
+
+      resetShortcutBinding: (id) => {
+        set((state) => {
+          const { [id]: _removed, ...rest } = state.shortcutOverrides;
+          return { shortcutOverrides: rest };
+        });
+      },
+
+      resetShortcutBindings: () => {
+        set({ shortcutOverrides: {} });
+      },
+
+      setReminderNotifications: (enabled) => {
+        set({ reminderNotifications: enabled });
+      },
+
+      setJournalNotebookId: (id) => {
+        set({ journalNotebookId: id });
+      },
+
+      setJournalTemplate: (template) => {
+        set({ journalTemplate: template });
+      },
+
+      setEditorZoom: (zoom, noteId) => {
+        set((state) => {
+          if (!state.zoomPerNote || !noteId) {
+            return { editorZoom: zoom };
+          }
+          // Notes at the default zoom don't need an entry
+          const { [noteId]: _previous, ...rest } = state.noteZooms;
+          return { noteZooms: zoom === state.editorZoom ? rest : { ...rest, [noteId]: zoom } };
+        });
+      },
+
+      removeNoteZooms: (noteIds) => {
+        set((state) => {
+          if (!noteIds.some((id) => id in state.noteZooms)) return state;
+          const noteZooms = { ...state.noteZooms };
+          noteIds.forEach((id) => delete noteZooms[id]);
+          return { noteZooms };
+        });
+      },
+
+      setZoomPerNote: (enabled) => {
+        set({ zoomPerNote: enabled });
+      },
+
+      setTypewriterScrolling: (enabled) => {
+        set({ typewriterScrolling: enabled });
+      },
+
+      // Settings refer to notes and notebooks of the vault, e.g. the
+      // journal notebook, so a deleted vault takes them along
+      resetSettings: () => {
+        set(store.getInitialState());
+      },
+    }),
+    {
+      name: 'hadesnotes-settings',
+    }
+  )
+);
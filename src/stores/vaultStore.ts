@@ -15,6 +15,8 @@ import {
   encryptData,
   decryptData,
 } from '@/lib/crypto';
+import { db } from '@/lib/db';
+import { resetSearchIndex } from '@/lib/searchIndex';
 
 // Session Token for Remember Me feature
 export interface SessionToken {
@@ -134,6 +136,11 @@ export const useVaultStore = create<VaultState>()(
           const key = await deriveKeyFromMnemonic(mnemonic);
           const vaultHash = await hashMnemonic(mnemonic);
           const vaultId = await generateVaultId(mnemonic);
+          const encryptionAlgorithm = algorithm || DEFAULT_ALGORITHM;
+
+          // Hand the key to the storage layer before the app can read notes
+          db.setEncryptionKey(key, encryptionAlgorithm);
+          await db.migratePlaintextNotes();
 
           set({
             isVaultCreated: true,
@@ -141,7 +148,7 @@ export const useVaultStore = create<VaultState>()(
             vaultId,
             vaultHash,
             encryptionKey: key,
-            encryptionAlgorithm: algorithm || DEFAULT_ALGORITHM,
+            encryptionAlgorithm,
             currentMnemonic: mnemonic,
           });
 
@@ -178,6 +185,10 @@ export const useVaultStore = create<VaultState>()(
 
           const key = await deriveKeyFromMnemonic(mnemonic);
 
+          // Hand the key to the storage layer before the app can read notes
+          db.setEncryptionKey(key, state.encryptionAlgorithm);
+          await db.migratePlaintextNotes();
+
           set({
             isUnlocked: true,
             encryptionKey: key,
@@ -197,6 +208,7 @@ export const useVaultStore = create<VaultState>()(
           return true;
         } catch (error) {
           console.error('Failed to unlock vault:', error);
+          db.clearEncryptionKey();
           return false;
         }
       },
@@ -205,6 +217,8 @@ export const useVaultStore = create<VaultState>()(
        * Lock vault (clear encryption key from memory)
        */
       lockVault: () => {
+        db.clearEncryptionKey();
+        resetSearchIndex();
         set({
           isUnlocked: false,
           encryptionKey: null,
@@ -220,6 +234,8 @@ export const useVaultStore = create<VaultState>()(
         // Clear session token
         localStorage.removeItem(SESSION_TOKEN_KEY);
         localStorage.removeItem(SESSION_KEY_KEY);
+        db.clearEncryptionKey();
+        resetSearchIndex();
         
         set({
           isVaultCreated: false,
@@ -238,6 +254,10 @@ export const useVaultStore = create<VaultState>()(
        * Set encryption algorithm preference
        */
       setEncryptionAlgorithm: (algorithm: EncryptionAlgorithm) => {
+        const { encryptionKey } = get();
+        if (encryptionKey) {
+          db.setEncryptionKey(encryptionKey, algorithm);
+        }
         set({ encryptionAlgorithm: algorithm });
       },
 
@@ -402,6 +422,8 @@ export const useVaultStore = create<VaultState>()(
         const state = get();
         
         // Lock the vault
+        db.clearEncryptionKey();
+        resetSearchIndex();
         set({
           isUnlocked: false,
           encryptionKey: null,